@@ -0,0 +1,92 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { GeneratedAlert } from './types';
+import { GeneratedAlertsCard, TsunamiAlertsCard } from './App';
+import { testEvent } from './test/mockUsgsServer';
+
+afterEach(() => {
+  cleanup();
+  window.localStorage.clear();
+});
+
+const testAlert = (overrides: Partial<GeneratedAlert> = {}): GeneratedAlert => ({
+  id: 'alert-1',
+  timestamp: '2026-01-01T00:10:00Z',
+  kind: 'initial',
+  threadKey: 'us1',
+  event: testEvent(),
+  subject: 'M7.5 earthquake - Off the coast of Test',
+  body: 'A magnitude 7.5 earthquake occurred off the coast of Test.',
+  ...overrides,
+});
+
+describe('TsunamiAlertsCard', () => {
+  it('says so when there are no alerts', () => {
+    render(<TsunamiAlertsCard events={[testEvent({ alertLevel: 'info' })]} />);
+    expect(screen.getByText('No alerts at this time')).toBeTruthy();
+  });
+
+  it('lists active alerts, marking inferred ones', () => {
+    render(<TsunamiAlertsCard events={[testEvent({ alertLevel: 'warning' }), testEvent({ id: 'us2', title: 'M 5.0 - Elsewhere', alertLevel: 'none' })]} />);
+    expect(screen.getByText('warning')).toBeTruthy();
+    expect(screen.getByText('M 7.5 - Off the coast of Test')).toBeTruthy();
+    expect(screen.getByText('Inferred')).toBeTruthy();
+    expect(screen.queryByText('M 5.0 - Elsewhere')).toBeNull();
+  });
+
+  it('credits the issuing center for bulletin-driven alerts', () => {
+    const issued = new Date('2026-01-01T00:08:00Z');
+    render(<TsunamiAlertsCard events={[testEvent({
+      alertLevel: 'warning',
+      alertLevelSource: 'bulletin',
+      bulletins: [{
+        id: 'b1', center: 'PTWC', level: 'warning', headline: 'Tsunami warning', issued, expires: null, cancelled: false,
+        zones: ['Japan', 'Russia'], link: 'https://www.tsunami.gov/b1', eventTime: null, lat: null, lon: null, magnitude: null,
+      }],
+    })]} />);
+    expect(screen.getByText('Official · PTWC')).toBeTruthy();
+    expect(screen.getByText('Zones: Japan, Russia')).toBeTruthy();
+    expect(screen.getByText(/View Bulletin/).getAttribute('href')).toBe('https://www.tsunami.gov/b1');
+  });
+});
+
+describe('GeneratedAlertsCard', () => {
+  it('says so when nothing has been generated', () => {
+    render(<GeneratedAlertsCard alerts={[]} onAcknowledge={() => {}} onOpenReport={() => {}} />);
+    expect(screen.getByText('No alerts generated yet.')).toBeTruthy();
+  });
+
+  it('groups an event\'s messages into one thread', () => {
+    const update = testAlert({ id: 'alert-2', kind: 'update', event: testEvent({ magnitude: 7.9 }), changes: ['Magnitude revised from M7.5 to M7.9'] });
+    render(<GeneratedAlertsCard alerts={[update, testAlert()]} onAcknowledge={() => {}} onOpenReport={() => {}} />);
+    expect(screen.getByText('M7.9 - Off the coast of Test')).toBeTruthy();
+    expect(screen.getByText(/2 message\(s\)/)).toBeTruthy();
+    expect(screen.getByText('2 unacknowledged')).toBeTruthy();
+    expect(screen.getByText('Magnitude revised from M7.5 to M7.9')).toBeTruthy();
+  });
+
+  it('records the operator\'s name on acknowledgement', () => {
+    const onAcknowledge = vi.fn();
+    render(<GeneratedAlertsCard alerts={[testAlert()]} onAcknowledge={onAcknowledge} onOpenReport={() => {}} />);
+    const button = screen.getByRole('button', { name: 'Acknowledge' }) as HTMLButtonElement;
+    expect(button.disabled).toBe(true);
+
+    fireEvent.change(screen.getByPlaceholderText(/Your name/), { target: { value: '  Kai  ' } });
+    expect(button.disabled).toBe(false);
+    fireEvent.click(button);
+    expect(onAcknowledge).toHaveBeenCalledWith('alert-1', 'Kai');
+  });
+
+  it('shows who acknowledged an alert', () => {
+    render(<GeneratedAlertsCard alerts={[testAlert({ acknowledgedBy: 'Kai', acknowledgedAt: '2026-01-01T00:12:00Z' })]} onAcknowledge={() => {}} onOpenReport={() => {}} />);
+    expect(screen.getByText('Kai')).toBeTruthy();
+    expect(screen.queryByRole('button', { name: 'Acknowledge' })).toBeNull();
+  });
+
+  it('badges exercise threads', () => {
+    render(<GeneratedAlertsCard alerts={[testAlert({ exercise: true })]} onAcknowledge={() => {}} onOpenReport={() => {}} />);
+    expect(screen.getByText('Exercise').getAttribute('title')).toMatch(/not a real event/);
+  });
+});
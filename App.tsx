@@ -1,8 +1,39 @@
 
 import React, { useState, useEffect, useCallback, useMemo, useRef, useContext, createContext } from 'react';
 import { fetchTsunamiData } from './services/tsunamiService';
-import { EarthquakeEvent, AlertSettings, GeneratedAlert } from './types';
-import { useLocalStorage } from './hooks/useLocalStorage';
+import { DEFAULT_FEED_SOURCES } from './services/feeds';
+import { BUILT_IN_THREAT_RULES } from './services/threatScoring';
+import { shapeFromPoints, zoneRing } from './services/watchZones';
+import { EarthquakeEvent, ApiServerSettings, AlertSettings, AlertProfile, QuietHours, EscalationPolicy, DigestPeriod, DigestSettings, GeneratedAlert, FeedSourceConfig, FeedSourceKind, ThreatAssessment, ThreatRule, LatLon, WatchZone, ZoneShape, TransportConfig, DeliveryStatus, ChannelConfig, ChannelType, AlertThread, AlertKind, CoastalPoint, EventRevision, ExerciseScenario, ScenarioEvent, ScenarioRevision } from './types';
+import { useSetting } from './hooks/useSetting';
+import { usePollScheduler } from './hooks/usePollScheduler';
+import { useAlertDispatcher } from './hooks/useAlertDispatcher';
+import { useEventArchive } from './hooks/useEventArchive';
+import { useEventFilters } from './hooks/useEventFilters';
+import { SentinelServer, useSentinelServer } from './hooks/useSentinelServer';
+import { Exercise, useExercise } from './hooks/useExercise';
+import { CHANNEL_LABELS, DEFAULT_SMS_TEMPLATE, SMS_MAX_LENGTH } from './services/dispatch/channels';
+import { reviveEarthquakeEvent } from './services/eventSerialization';
+import { firstReportedMagnitude } from './services/eventRevisions';
+import { DAY_MS, formatDateTime, getMagnitudeClass, markerColor, timeAgo } from './services/formatting';
+import { Cluster, MapView, clusterPoints, constrainView, latLonToScreen, minZoomFor, panBy, project, screenToLatLon, viewOrigin, visibleTiles, worldCopyOffsets, worldSize, zoomAround } from './services/mapProjection';
+import { TILE_SOURCES, TileSource, customTileSource, tileUrl } from './services/tileSources';
+import { LAND_POLYGONS } from './services/landMask';
+import { RenderedAlertMessage, TEMPLATE_FIELDS, TEMPLATE_FILTERS, renderAlertMessage, validateTemplate } from './services/alertTemplate';
+import { ArchiveQuery, ArchivedVersion, EventArchive } from './services/eventArchive';
+import { backfillFromFdsn, parseEventFile } from './services/archiveBackfill';
+import { DEFAULT_EVENT_FILTERS, EventFilters, EventSortKey, MAX_FILTER_DEPTH_KM, MAX_FILTER_MAGNITUDE, applyEventFilters, describeFilters, distanceFromReference, isFiltered } from './services/eventFilters';
+import { EXPORT_MIME_TYPES, ExportFormat, downloadFile, exportAlerts, exportEvents, exportFilename } from './services/exporters';
+import { buildIncidentReport, openReportWindow } from './services/incidentReport';
+import { BValueEstimate, MIN_B_VALUE_EVENTS, MagnitudeBin, dailyCounts, depthHistogram, estimateBValue, magnitudeFrequency, regionCounts } from './services/statistics';
+import { EventSequence, SequenceIndex, groupSequences, sequenceRole } from './services/sequences';
+import { DEFAULT_PROFILE_ID, findProfile, isValidTimeZone } from './services/alertProfiles';
+import { DEFAULT_ALERT_PROFILE, DEFAULT_ALERT_SETTINGS, DEFAULT_CHANNELS, DEFAULT_DIGEST_SETTINGS, DEFAULT_TRANSPORT, alertTemplatesFrom, digestTemplatesFrom, generateAlerts, generateFollowUps, generatePeriodicDigest, hasDeliveries, recordAlerts } from './services/alertEngine';
+import { DIGEST_PERIODS, DIGEST_PERIOD_DAYS, DIGEST_TEMPLATE_FIELDS, buildDigestReport, dueDigestRuns, renderDigestMessage } from './services/periodicDigest';
+import { SETTINGS_SCHEMA_VERSION, applySettings, exportSettings, keepCredentials, parseSettingsFile, readSetting } from './services/settingsStore';
+import { DEFAULT_API_SERVER, ServerConnection } from './services/sentinelApi';
+import { DEFAULT_SCENARIOS, EXERCISE_SPEEDS, ExerciseRun, compileScenario, exerciseElapsedMs, loadReplay, withoutExerciseThreads } from './services/simulation';
+import { ArrivalEstimate, DEFAULT_COASTAL_POINTS, Isochrone, computeTravelTimeField, estimateArrivals, formatTravelTime, traceIsochrones } from './services/travelTime';
 
 // --- THEME MANAGEMENT ---
 const ThemeContext = createContext<{ theme: string; toggleTheme: () => void; } | undefined>(undefined);
@@ -14,7 +45,7 @@ const useTheme = () => {
 };
 
 const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-    const [theme, setTheme] = useLocalStorage('theme', 'dark');
+    const [theme, setTheme] = useSetting('theme', 'dark');
 
     useEffect(() => {
         const root = window.document.documentElement;
@@ -53,31 +84,6 @@ const MoonIcon: React.FC<{ className?: string }> = ({ className }) => (
 );
 
 
-// --- UTILITY FUNCTIONS ---
-const timeAgo = (date: Date): string => {
-  const seconds = Math.floor((new Date().getTime() - date.getTime()) / 1000);
-  let interval = seconds / 31536000;
-  if (interval > 1) return `${Math.floor(interval)} years ago`;
-  interval = seconds / 2592000;
-  if (interval > 1) return `${Math.floor(interval)} months ago`;
-  interval = seconds / 86400;
-  if (interval > 1) return `${Math.floor(interval)} days ago`;
-  interval = seconds / 3600;
-  if (interval > 1) return `${Math.floor(interval)} hours ago`;
-  interval = seconds / 60;
-  if (interval > 1) return `${Math.floor(interval)} minutes ago`;
-  return `${Math.floor(seconds)} seconds ago`;
-};
-
-const formatDateTime = (date: Date): string => {
-  return `${date.toLocaleDateString('en-GB')} ${date.toLocaleTimeString('en-US', { hour12: false })}`;
-};
-
-const getMagnitudeClass = (magnitude: number): string => {
-  if (magnitude >= 7.5) return 'bg-danger/20 text-danger border-danger/50';
-  if (magnitude >= 6.0) return 'bg-warning/20 text-warning border-warning/50';
-  return 'bg-gray-200 dark:bg-sentinel-border text-gray-600 dark:text-sentinel-text-secondary border-gray-300 dark:border-sentinel-border';
-};
 
 // --- SUB-COMPONENTS ---
 const ThemeToggleButton = () => {
@@ -93,9 +99,48 @@ const ThemeToggleButton = () => {
     );
 };
 
-const Header: React.FC<{ onRefresh: () => void, loading: boolean }> = ({ onRefresh, loading }) => (
+// Re-renders the caller periodically so relative times ("5 minutes ago") stay current.
+const useNow = (refreshMs: number): Date => {
+    const [now, setNow] = useState(() => new Date());
+    useEffect(() => {
+        const timer = setInterval(() => setNow(new Date()), refreshMs);
+        return () => clearInterval(timer);
+    }, [refreshMs]);
+    return now;
+};
+
+const POLL_INTERVAL_OPTIONS = [1, 2, 5, 10, 15];
+
+const FreshnessIndicator: React.FC<{ lastUpdated: Date | null; intervalMinutes: number; onIntervalChange: (minutes: number) => void; paused: boolean }> = ({ lastUpdated, intervalMinutes, onIntervalChange, paused }) => {
+    const now = useNow(15000);
+    const ageMinutes = lastUpdated ? Math.floor((now.getTime() - lastUpdated.getTime()) / 60000) : null;
+    // Data counts as stale once two scheduled refreshes have been missed.
+    const isStale = ageMinutes === null || ageMinutes >= intervalMinutes * 2;
+
+    return (
+        <div className="flex flex-col text-xs space-y-1">
+            <span className={`flex items-center font-semibold ${isStale ? 'text-warning' : 'text-gray-500 dark:text-sentinel-text-secondary'}`}>
+                <span className={`inline-block w-2 h-2 rounded-full mr-2 ${isStale ? 'bg-warning' : 'bg-green-500'}`}></span>
+                {lastUpdated === null
+                    ? 'No successful update yet'
+                    : isStale
+                        ? `Data is ${ageMinutes} minutes stale`
+                        : `Last successful update ${timeAgo(lastUpdated)}`}
+            </span>
+            <label className="text-gray-500 dark:text-sentinel-text-secondary">
+                Auto-refresh every{' '}
+                <select value={intervalMinutes} onChange={e => onIntervalChange(parseInt(e.target.value, 10))} className="bg-transparent border border-gray-200 dark:border-sentinel-border rounded px-1">
+                    {POLL_INTERVAL_OPTIONS.map(minutes => <option key={minutes} value={minutes}>{minutes} min</option>)}
+                </select>
+                {paused && ' (paused)'}
+            </label>
+        </div>
+    );
+};
+
+const Header: React.FC<{ onRefresh: () => void, loading: boolean, freshness: React.ReactNode, exerciseName?: string }> = ({ onRefresh, loading, freshness, exerciseName }) => (
     <header className="grid grid-cols-3 items-center p-4 border-b border-gray-200 dark:border-sentinel-border">
-        <div></div>
+        <div>{freshness}</div>
         <div className="flex flex-col items-center col-start-2">
             <svg width="48" height="48" viewBox="0 0 100 100" fill="none" xmlns="http://www.w3.org/2000/svg">
                 <defs>
@@ -109,7 +154,11 @@ const Header: React.FC<{ onRefresh: () => void, loading: boolean }> = ({ onRefre
                 <path d="M20 45 C 35 25, 50 25, 65 45 C 80 65, 95 65, 95 45" stroke="url(#waveGradient)" strokeWidth="8" strokeLinecap="round" fill="none" strokeOpacity="0.7"/>
             </svg>
             <h1 className="text-3xl font-extrabold tracking-wider text-gray-900 dark:text-sentinel-text-primary mt-2">TSUNAMI SENTINEL</h1>
-            <p className="text-sm text-gray-500 dark:text-sentinel-text-secondary">Real-time Monitoring System</p>
+            {exerciseName ? (
+                <p className="mt-1 px-3 py-0.5 text-sm font-extrabold tracking-widest text-white bg-warning rounded" title={exerciseName}>EXERCISE &middot; NOT A REAL EVENT</p>
+            ) : (
+                <p className="text-sm text-gray-500 dark:text-sentinel-text-secondary">Real-time Monitoring System</p>
+            )}
         </div>
         <div className="col-start-3 justify-self-end flex items-center space-x-2">
             <ThemeToggleButton />
@@ -129,25 +178,158 @@ const StatCard: React.FC<{ title: string; value: string | number; icon: React.Re
         </div>
         <p className="mt-2 text-3xl font-bold text-gray-900 dark:text-sentinel-text-primary">{value}</p>
         <p className="text-xs text-gray-500 dark:text-sentinel-text-secondary">
-          {title === 'Active Alerts' ? 'All clear' : title === 'High Priority' ? 'Severe or extreme alerts' : 'M6.0+ in last 24 hours'}
+          {title === 'Active Alerts' ? 'All clear' : title === 'High Priority' ? 'Severe or extreme alerts' : 'Matching events in last 24 hours'}
         </p>
     </div>
 );
 
-const convertCoordsToPixels = (lat: number, lon: number, width: number, height: number) => {
-    // Simple equirectangular projection
-    const x = (lon + 180) * (width / 360);
-    const y = (90 - lat) * (height / 180);
-    return { x, y };
+const CLUSTER_RADIUS_PX = 24;
+const CLICK_TOLERANCE_PX = 4;
+// Centred on the Pacific, where most tsunamigenic events are; the zoom is fitted to the card.
+const DEFAULT_MAP_CENTER: LatLon = { lat: 15, lon: 170 };
+
+const zoneAnchor = (shape: ZoneShape): LatLon =>
+    shape.type === 'circle' ? shape.center : shape.type === 'bbox' ? { lat: shape.north, lon: shape.west } : shape.points[0];
+
+// The shapes are drawn once per world copy, plus one copy to the left for rings unwrapped past 180°.
+const useWorldOffsets = (view: MapView, width: number, height: number) => useMemo(() => {
+    const offsets = worldCopyOffsets(view, width, height);
+    return [offsets[0] - worldSize(view.zoom), ...offsets];
+}, [view, width, height]);
+
+const OfflineBasemap: React.FC<{ view: MapView; width: number; height: number }> = ({ view, width, height }) => {
+    const offsets = useWorldOffsets(view, width, height);
+    const originY = viewOrigin(view, width, height).y;
+    const paths = useMemo(() => {
+        const land = LAND_POLYGONS.map(polygon => polygon.coordinates.map(([lon, lat], i) => {
+            const { x, y } = project(lat, lon, view.zoom);
+            return `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+        }).join('') + 'Z').join('');
+        const size = worldSize(view.zoom);
+        const graticule = [-60, -30, 0, 30, 60].map(lat => `M0,${project(lat, 0, view.zoom).y.toFixed(1)}H${size}`).join('')
+            + [-150, -120, -90, -60, -30, 0, 30, 60, 90, 120, 150, 180].map(lon => `M${project(0, lon, view.zoom).x.toFixed(1)},0V${size}`).join('');
+        return { land, graticule };
+    }, [view.zoom]);
+
+    return (
+        <svg className="absolute inset-0 bg-sky-100 dark:bg-sentinel-darker" width={width} height={height}>
+            {offsets.map(offset => (
+                <g key={offset} transform={`translate(${offset},${-originY})`}>
+                    <path d={paths.graticule} className="stroke-sky-200 dark:stroke-sentinel-border" strokeWidth={0.5} fill="none" />
+                    <path d={paths.land} className="fill-stone-200 stroke-stone-400 dark:fill-sentinel-body dark:stroke-sentinel-border" strokeWidth={0.75} />
+                </g>
+            ))}
+        </svg>
+    );
+};
+
+const TileLayer: React.FC<{ source: TileSource; view: MapView; width: number; height: number }> = ({ source, view, width, height }) => {
+    const { theme } = useTheme();
+    const tiles = visibleTiles(view, width, height, source.maxZoom);
+    return (
+        <div className="absolute inset-0">
+            {tiles.map(tile => {
+                const url = tileUrl(source, theme === 'dark' ? 'dark' : 'light', tile.z, tile.x, tile.y);
+                return url && (
+                    <img
+                        key={`${tile.key}:${url}`}
+                        src={url}
+                        alt=""
+                        draggable={false}
+                        // Failed tiles reveal the offline basemap drawn underneath.
+                        onError={e => { e.currentTarget.style.visibility = 'hidden'; }}
+                        className="absolute max-w-none select-none"
+                        style={{ left: tile.left, top: tile.top, width: tile.size + 0.5, height: tile.size + 0.5 }}
+                    />
+                );
+            })}
+        </div>
+    );
+};
+
+const ZoneOverlay: React.FC<{ zones: WatchZone[]; draftPoints: LatLon[]; view: MapView; width: number; height: number }> = ({ zones, draftPoints, view, width, height }) => {
+    const offsets = useWorldOffsets(view, width, height);
+    const originY = viewOrigin(view, width, height).y;
+    const toWorld = (p: LatLon) => project(p.lat, p.lon, view.zoom);
+
+    return (
+        <svg className="absolute inset-0 pointer-events-none" width={width} height={height}>
+            {offsets.map(offset => (
+                <g key={offset} transform={`translate(${offset},${-originY})`}>
+                    {zones.filter(z => z.enabled).map(zone => {
+                        const anchor = toWorld(zoneAnchor(zone.shape));
+                        return (
+                            <g key={zone.id}>
+                                <polygon points={zoneRing(zone.shape).map(p => { const { x, y } = toWorld(p); return `${x},${y}`; }).join(' ')} className="fill-sentinel-accent/10 stroke-sentinel-accent" />
+                                <text x={anchor.x + 4} y={anchor.y - 4} className="fill-sentinel-accent text-[10px] font-semibold">{zone.name}</text>
+                            </g>
+                        );
+                    })}
+                </g>
+            ))}
+            {draftPoints.flatMap((p, i) => latLonToScreen(view, width, height, p.lat, p.lon).map((point, copy) => (
+                <circle key={`${i}:${copy}`} cx={point.x} cy={point.y} r={4} className="fill-warning stroke-white" />
+            )))}
+        </svg>
+    );
 };
 
-const worldMapImageUrl = "https://eoimages.gsfc.nasa.gov/images/imagerecords/144000/144898/BlackMarble_2016_3km.jpg";
-const lightMapImageUrl = "https://eoimages.gsfc.nasa.gov/images/imagerecords/73000/73909/world.topo.bathy.200412.3x5400x2700.jpg";
+const IsochroneOverlay: React.FC<{ isochrones: Isochrone[]; coastalPoints: CoastalPoint[]; view: MapView; width: number; height: number }> = ({ isochrones, coastalPoints, view, width, height }) => {
+    const offsets = useWorldOffsets(view, width, height);
+    const originY = viewOrigin(view, width, height).y;
+    const lines = useMemo(() => isochrones.map(isochrone => {
+        const toWorld = (p: LatLon) => project(p.lat, p.lon, view.zoom);
+        const d = isochrone.segments.map(([a, b]) => {
+            const start = toWorld(a);
+            const end = toWorld(b);
+            return `M${start.x.toFixed(1)},${start.y.toFixed(1)}L${end.x.toFixed(1)},${end.y.toFixed(1)}`;
+        }).join('');
+        // Label each front at its northernmost point, which is rarely hidden behind the legend or markers.
+        const top = isochrone.segments.map(([a]) => a).sort((a, b) => b.lat - a.lat)[0];
+        return { minutes: isochrone.minutes, d, label: top && toWorld(top) };
+    }), [isochrones, view.zoom]);
+
+    return (
+        <svg className="absolute inset-0 pointer-events-none" width={width} height={height}>
+            {offsets.map(offset => (
+                <g key={offset} transform={`translate(${offset},${-originY})`}>
+                    {lines.map(line => (
+                        <g key={line.minutes}>
+                            <path d={line.d} className="stroke-sky-500 dark:stroke-sky-400" strokeWidth={line.minutes % 360 === 0 ? 1.5 : 0.75} strokeLinecap="round" fill="none" />
+                            {line.label && <text x={line.label.x + 2} y={line.label.y - 2} className="fill-sky-600 dark:fill-sky-300 text-[9px] font-semibold">{line.minutes / 60} h</text>}
+                        </g>
+                    ))}
+                </g>
+            ))}
+            {coastalPoints.flatMap(point => latLonToScreen(view, width, height, point.lat, point.lon).map((p, copy) => (
+                <rect key={`${point.id}:${copy}`} x={p.x - 3} y={p.y - 3} width={6} height={6} className="fill-sky-500 stroke-white"><title>{point.name}</title></rect>
+            )))}
+        </svg>
+    );
+};
 
-const EarthquakeMapCard: React.FC<{ events: EarthquakeEvent[] }> = ({ events }) => {
+const EarthquakeMapCard: React.FC<{
+    events: EarthquakeEvent[];
+    zones?: WatchZone[];
+    draftPoints?: LatLon[];
+    onPickPoint?: (point: LatLon) => void;
+    selectedEventId?: string | null;
+    onSelectEvent?: (eventId: string | null) => void;
+    isochrones?: Isochrone[];
+    coastalPoints?: CoastalPoint[];
+}> = ({ events, zones = [], draftPoints = [], onPickPoint, selectedEventId = null, onSelectEvent, isochrones = [], coastalPoints = [] }) => {
     const containerRef = useRef<HTMLDivElement>(null);
     const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
-    const { theme } = useTheme();
+    const [view, setView] = useState<MapView | null>(null);
+    const [tileSourceId, setTileSourceId] = useSetting('mapTileSource', TILE_SOURCES[0].id);
+    const [customTileUrl, setCustomTileUrl] = useSetting('mapCustomTileUrl', '');
+    const dragRef = useRef<{ x: number; y: number; moved: boolean } | null>(null);
+    const draggedRef = useRef(false);
+
+    const source = tileSourceId === 'custom' ? customTileSource(customTileUrl) : TILE_SOURCES.find(s => s.id === tileSourceId) ?? TILE_SOURCES[0];
+    const { width, height } = dimensions;
+    const minZoom = minZoomFor(width);
+    const maxZoom = Math.max(minZoom, source.maxZoom);
 
     useEffect(() => {
         const resizeObserver = new ResizeObserver(entries => {
@@ -162,98 +344,283 @@ const EarthquakeMapCard: React.FC<{ events: EarthquakeEvent[] }> = ({ events })
         return () => resizeObserver.disconnect();
     }, []);
 
-    const points = useMemo(() => {
-        if (dimensions.width === 0) return [];
-        return events.map(event => {
-            const { x, y } = convertCoordsToPixels(event.lat, event.lon, dimensions.width, dimensions.height);
-            return {
-                ...event,
-                x,
-                y,
-                size: Math.max(5, (event.magnitude - 5.5) * 7),
-                color: event.magnitude >= 7.5 ? '#f85149' : event.magnitude >= 6.5 ? '#f5a623' : '#FFD54F'
-            };
-        });
-    }, [events, dimensions]);
+    const updateView = useCallback((update: (view: MapView) => MapView) => {
+        setView(current => constrainView(update(current ?? { center: DEFAULT_MAP_CENTER, zoom: minZoom }), width, height, minZoom, maxZoom));
+    }, [width, height, minZoom, maxZoom]);
+
+    // Fit the world on first layout and keep the view valid when the card or the source changes.
+    useEffect(() => {
+        if (width > 0) updateView(v => v);
+    }, [width, updateView]);
+
+    // React's wheel listener is passive, so the page would scroll along with the zoom.
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const handleWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            const rect = container.getBoundingClientRect();
+            const anchor = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+            updateView(v => zoomAround(v, width, height, anchor, v.zoom - Math.sign(e.deltaY) * 0.5));
+        };
+        container.addEventListener('wheel', handleWheel, { passive: false });
+        return () => container.removeEventListener('wheel', handleWheel);
+    }, [width, height, updateView]);
+
+    // Bring an event selected elsewhere (e.g. the recent earthquakes list) into view.
+    useEffect(() => {
+        const selected = events.find(e => e.id === selectedEventId);
+        if (!selected || !view || latLonToScreen(view, width, height, selected.lat, selected.lon, -40).some(p => p.y > 40 && p.y < height - 40)) return;
+        updateView(v => ({ ...v, center: { lat: selected.lat, lon: selected.lon } }));
+        // Only a new selection should move the map, not every pan.
+    }, [selectedEventId]);
+
+    const clusters = useMemo(() => {
+        if (!view || width === 0) return [];
+        const points = [...events]
+            .sort((a, b) => b.magnitude - a.magnitude)
+            .flatMap(event => latLonToScreen(view, width, height, event.lat, event.lon, CLUSTER_RADIUS_PX)
+                .map((point, copy) => ({ ...point, key: `${event.id}:${copy}`, item: event })));
+        return clusterPoints(points, CLUSTER_RADIUS_PX);
+    }, [events, view, width, height]);
+
+    const selectedEvent = events.find(e => e.id === selectedEventId);
+    const popupAnchor = selectedEvent && view ? latLonToScreen(view, width, height, selectedEvent.lat, selectedEvent.lon)[0] : undefined;
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        if ((e.target as HTMLElement).closest('[data-map-control]')) return;
+        dragRef.current = { x: e.clientX, y: e.clientY, moved: false };
+        draggedRef.current = false;
+        e.currentTarget.setPointerCapture(e.pointerId);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        const drag = dragRef.current;
+        if (!drag) return;
+        const dx = e.clientX - drag.x;
+        const dy = e.clientY - drag.y;
+        if (!drag.moved && Math.hypot(dx, dy) < CLICK_TOLERANCE_PX) return;
+        drag.moved = true;
+        draggedRef.current = true;
+        dragRef.current = { x: e.clientX, y: e.clientY, moved: true };
+        updateView(v => panBy(v, dx, dy));
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+        dragRef.current = null;
+        e.currentTarget.releasePointerCapture(e.pointerId);
+    };
+
+    const handleMapClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        if (draggedRef.current || !view || (e.target as HTMLElement).closest('[data-map-control]')) return;
+        if (onPickPoint) {
+            const rect = e.currentTarget.getBoundingClientRect();
+            const point = screenToLatLon(view, width, height, { x: e.clientX - rect.left, y: e.clientY - rect.top });
+            onPickPoint(point);
+        } else {
+            onSelectEvent?.(null);
+        }
+    };
+
+    const handleClusterClick = (e: React.MouseEvent, cluster: Cluster<EarthquakeEvent>) => {
+        e.stopPropagation();
+        if (draggedRef.current) return;
+        if (cluster.items.length > 1 && view && view.zoom < maxZoom) {
+            updateView(v => zoomAround(v, width, height, { x: cluster.x, y: cluster.y }, v.zoom + 2));
+            return;
+        }
+        onSelectEvent?.(cluster.items[0].id);
+    };
+
+    const controlClass = "w-7 h-7 flex items-center justify-center rounded-md bg-white/90 dark:bg-sentinel-body/90 border border-gray-300 dark:border-sentinel-border text-gray-700 dark:text-sentinel-text-primary hover:bg-gray-100 dark:hover:bg-sentinel-border";
 
     return (
-        <div ref={containerRef} className="rounded-lg bg-white dark:bg-sentinel-body border border-gray-200 dark:border-sentinel-border aspect-video w-full relative overflow-hidden bg-cover bg-center" style={{ backgroundImage: `url(${theme === 'dark' ? worldMapImageUrl : lightMapImageUrl})` }}>
+        <div
+            ref={containerRef}
+            className={`rounded-lg bg-white dark:bg-sentinel-body border border-gray-200 dark:border-sentinel-border aspect-video w-full relative overflow-hidden select-none touch-none ${onPickPoint ? 'cursor-crosshair' : 'cursor-grab active:cursor-grabbing'}`}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            onClick={handleMapClick}
+        >
             <style>{`
                 @keyframes pulse {
                     0% { transform: scale(1); opacity: 0.7; }
                     100% { transform: scale(3); opacity: 0; }
                 }
             `}</style>
-             {points.map(point => (
+            {view && width > 0 && (
+                <>
+                    <OfflineBasemap view={view} width={width} height={height} />
+                    {source.urlTemplate && <TileLayer source={source} view={view} width={width} height={height} />}
+                    {isochrones.length > 0 && <IsochroneOverlay isochrones={isochrones} coastalPoints={coastalPoints} view={view} width={width} height={height} />}
+                    <ZoneOverlay zones={zones} draftPoints={draftPoints} view={view} width={width} height={height} />
+                </>
+            )}
+            {clusters.map((cluster, index) => {
+                const strongest = cluster.items[0];
+                const color = markerColor(strongest.magnitude);
+                if (cluster.items.length > 1) {
+                    const size = Math.min(44, 20 + cluster.items.length * 2);
+                    return (
+                        <button
+                            key={cluster.key}
+                            data-map-control
+                            onClick={e => handleClusterClick(e, cluster)}
+                            className="absolute rounded-full transform -translate-x-1/2 -translate-y-1/2 flex items-center justify-center text-xs font-bold text-gray-900 border-2 border-white/80"
+                            style={{ left: cluster.x, top: cluster.y, width: size, height: size, backgroundColor: color, boxShadow: `0 0 ${size / 2}px ${color}` }}
+                            title={`${cluster.items.length} earthquakes, strongest M${strongest.magnitude.toFixed(1)} ${strongest.location}`}
+                        >
+                            {cluster.items.length}
+                        </button>
+                    );
+                }
+                const size = Math.max(5, (strongest.magnitude - 5.5) * 7);
+                return (
+                    <div
+                        key={cluster.key}
+                        data-map-control
+                        onClick={e => handleClusterClick(e, cluster)}
+                        className="absolute rounded-full transform -translate-x-1/2 -translate-y-1/2 cursor-pointer group"
+                        style={{ left: cluster.x, top: cluster.y }}
+                        title={`Magnitude: ${strongest.magnitude.toFixed(1)}\nLocation: ${strongest.location}\nDepth: ${strongest.depth.toFixed(1)} km\nOrigin time: ${formatDateTime(strongest.time)}`}
+                    >
+                        <div
+                            className={`relative rounded-full ${strongest.id === selectedEventId ? 'ring-2 ring-white' : ''}`}
+                            style={{ width: size, height: size, backgroundColor: color, opacity: 0.8, boxShadow: `0 0 ${size}px ${color}` }}
+                        ></div>
+                        <div
+                            className="absolute inset-0 rounded-full"
+                            style={{ border: `2px solid ${color}`, animation: `pulse 2s infinite ease-out`, animationDelay: `${(index % 4) * 0.5}s` }}
+                        ></div>
+                    </div>
+                );
+            })}
+            {selectedEvent && popupAnchor && (
                 <div
-                    key={point.id}
-                    className="absolute rounded-full transform -translate-x-1/2 -translate-y-1/2 cursor-pointer group"
-                    style={{ left: `${point.x}px`, top: `${point.y}px` }}
-                    title={`Magnitude: ${point.magnitude.toFixed(1)}\nLocation: ${point.location}\nDepth: ${point.depth.toFixed(1)} km\nTime: ${formatDateTime(point.updated)}`}
+                    data-map-control
+                    onClick={e => e.stopPropagation()}
+                    className="absolute z-10 w-80 max-h-[80%] overflow-y-auto p-3 rounded-lg shadow-lg bg-white dark:bg-sentinel-body border border-gray-200 dark:border-sentinel-border cursor-auto"
+                    style={{
+                        left: Math.max(8, Math.min(width - 328, popupAnchor.x - 160)),
+                        ...(popupAnchor.y > height / 2 ? { bottom: height - popupAnchor.y + 12 } : { top: popupAnchor.y + 12 }),
+                    }}
                 >
-                    <div
-                        className="relative rounded-full"
-                        style={{
-                            width: `${point.size}px`,
-                            height: `${point.size}px`,
-                            backgroundColor: point.color,
-                            opacity: 0.8,
-                            boxShadow: `0 0 ${point.size}px ${point.color}`,
-                        }}
-                    ></div>
-                    <div
-                        className="absolute inset-0 rounded-full"
-                        style={{
-                            border: `2px solid ${point.color}`,
-                            animation: `pulse 2s infinite ease-out`,
-                            animationDelay: `${Math.random() * 2}s`
-                        }}
-                    ></div>
+                    <div className="flex justify-between items-start mb-2">
+                        <span className={`px-2 py-0.5 text-xs font-bold rounded-full border ${getMagnitudeClass(selectedEvent.magnitude)}`}>M{selectedEvent.magnitude.toFixed(1)}</span>
+                        <button onClick={() => onSelectEvent?.(null)} className="text-gray-400 dark:text-sentinel-text-secondary hover:text-danger" aria-label="Close">&times;</button>
+                    </div>
+                    <EarthquakeDetails event={selectedEvent} compact />
                 </div>
-            ))}
+            )}
+            <div data-map-control className="absolute top-2 left-2 flex flex-col gap-1">
+                <button className={controlClass} onClick={() => updateView(v => zoomAround(v, width, height, { x: width / 2, y: height / 2 }, v.zoom + 1))} aria-label="Zoom in">+</button>
+                <button className={controlClass} onClick={() => updateView(v => zoomAround(v, width, height, { x: width / 2, y: height / 2 }, v.zoom - 1))} aria-label="Zoom out">&minus;</button>
+                <button className={controlClass} onClick={() => updateView(() => ({ center: DEFAULT_MAP_CENTER, zoom: minZoom }))} aria-label="Reset view">&#8634;</button>
+            </div>
+            <div data-map-control className="absolute top-2 right-2 flex flex-col items-end gap-1 text-xs">
+                <select value={tileSourceId} onChange={e => setTileSourceId(e.target.value)} className="bg-white/90 dark:bg-sentinel-body/90 border border-gray-300 dark:border-sentinel-border text-gray-700 dark:text-sentinel-text-primary rounded-md p-1" aria-label="Basemap">
+                    {TILE_SOURCES.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                    <option value="custom">Custom tile server…</option>
+                </select>
+                {tileSourceId === 'custom' && (
+                    <input
+                        type="url"
+                        placeholder="https://tiles.local/{z}/{x}/{y}.png"
+                        value={customTileUrl}
+                        onChange={e => setCustomTileUrl(e.target.value)}
+                        className="w-56 bg-white/90 dark:bg-sentinel-body/90 border border-gray-300 dark:border-sentinel-border text-gray-700 dark:text-sentinel-text-primary rounded-md p-1"
+                    />
+                )}
+            </div>
+            {source.attribution && (
+                <p className="absolute bottom-0 right-0 px-1 text-[10px] bg-white/70 dark:bg-sentinel-body/70 text-gray-600 dark:text-sentinel-text-secondary">{source.attribution}</p>
+            )}
         </div>
     );
 };
 
 
-const LatestEarthquakeCard: React.FC<{ event: EarthquakeEvent | null }> = ({ event }) => {
-    if (!event) {
-        return <div className="p-6 text-center rounded-lg bg-white dark:bg-sentinel-body border border-gray-200 dark:border-sentinel-border text-gray-500 dark:text-sentinel-text-secondary">No significant earthquake data available.</div>;
-    }
+const REVIEW_STATUS_BADGES: Record<NonNullable<EarthquakeEvent['reviewStatus']>, { label: string; className: string; title: string }> = {
+    automatic: { label: 'Automatic', className: 'bg-gray-200 dark:bg-sentinel-border text-gray-600 dark:text-sentinel-text-secondary', title: 'Computer-generated solution, not yet reviewed by a seismologist' },
+    reviewed: { label: 'Reviewed', className: 'bg-green-500/20 text-green-600 dark:text-green-400', title: 'Reviewed by a seismologist' },
+};
 
+const ReviewStatusBadge: React.FC<{ event: EarthquakeEvent }> = ({ event }) => {
+    if (!event.reviewStatus) return null;
+    const badge = REVIEW_STATUS_BADGES[event.reviewStatus];
+    return <span className={`text-[10px] font-bold uppercase px-1.5 py-0.5 rounded ${badge.className}`} title={badge.title}>{badge.label}</span>;
+};
+
+const describeRevision = (revision: EventRevision) =>
+    `M${revision.magnitude.toFixed(1)}${revision.magType ? ` ${revision.magType}` : ''}, ${revision.depth.toFixed(1)} km, ${revision.location} (${formatDateTime(revision.updated)})`;
+
+const RevisionBadge: React.FC<{ event: EarthquakeEvent }> = ({ event }) => {
+    const from = firstReportedMagnitude(event);
+    if (from === null) return null;
     return (
-        <div className="p-6 rounded-lg bg-white dark:bg-sentinel-body border border-gray-200 dark:border-sentinel-border">
-            <div className="flex items-center justify-between mb-4">
-                <h2 className="text-lg font-bold text-gray-900 dark:text-sentinel-text-primary flex items-center">
-                    <svg xmlns="http://www.w3.org/2000/svg" className="w-5 h-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>
-                    Latest Significant Earthquake
-                </h2>
-                <span className={`px-3 py-1 text-sm font-bold rounded-full border ${getMagnitudeClass(event.magnitude)}`}>
-                    M{event.magnitude.toFixed(1)}
-                </span>
-            </div>
-            <div className="grid grid-cols-1 gap-4 mb-4 md:grid-cols-3">
-                <div className="col-span-1 md:col-span-2">
+        <span className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-warning/20 text-warning" title={`Earlier solutions:\n${event.revisions!.map(describeRevision).join('\n')}`}>
+            revised from M{from.toFixed(1)} &rarr; M{event.magnitude.toFixed(1)}
+        </span>
+    );
+};
+
+const ExerciseBadge: React.FC = () => (
+    <span className="text-[10px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded bg-warning text-white" title="Synthetic or replayed by an exercise; not a real event">Exercise</span>
+);
+
+const ThreatRationale: React.FC<{ threat: ThreatAssessment; className?: string }> = ({ threat, className }) => (
+    <div className={className}>
+        <p className="font-semibold">
+            Threat score {threat.score} &rarr; <span className="uppercase">{threat.level}</span>
+            <span className="font-normal"> &middot; {threat.offshore ? 'offshore' : 'onshore'}, ~{threat.coastDistanceKm} km from coast</span>
+        </p>
+        {threat.firedRules.length > 0 && (
+            <ul className="mt-1 space-y-0.5">
+                {threat.firedRules.map(rule => (
+                    <li key={rule.id} className="flex justify-between">
+                        <span>{rule.description}</span>
+                        <span className="font-mono">{rule.points > 0 ? `+${rule.points}` : rule.points}</span>
+                    </li>
+                ))}
+            </ul>
+        )}
+    </div>
+);
+
+/** The event facts shared by the latest-earthquake card and the map popup. */
+const EarthquakeDetails: React.FC<{ event: EarthquakeEvent; compact?: boolean }> = ({ event, compact = false }) => {
+    const valueClass = `${compact ? 'text-xl' : 'text-3xl'} font-bold text-gray-900 dark:text-sentinel-text-primary`;
+    return (
+        <>
+            <div className={`grid gap-4 mb-4 ${compact ? 'grid-cols-1' : 'grid-cols-1 md:grid-cols-3'}`}>
+                <div className={compact ? '' : 'col-span-1 md:col-span-2'}>
                     <p className="text-xs text-gray-500 dark:text-sentinel-text-secondary">Location</p>
-                    <p className="font-semibold text-gray-800 dark:text-sentinel-text-primary">{event.location}</p>
+                    <p className="font-semibold text-gray-800 dark:text-sentinel-text-primary">{event.location} {event.exercise && <ExerciseBadge />}</p>
                     <p className="text-xs text-gray-500 dark:text-sentinel-text-secondary">{event.lat.toFixed(4)}°, {event.lon.toFixed(4)}°</p>
                 </div>
                 <div>
-                    <p className="text-xs text-gray-500 dark:text-sentinel-text-secondary">Time</p>
-                    <p className="font-semibold text-gray-800 dark:text-sentinel-text-primary">{timeAgo(event.updated)}</p>
-                    <p className="text-xs text-gray-500 dark:text-sentinel-text-secondary">{formatDateTime(event.updated)}</p>
+                    <p className="text-xs text-gray-500 dark:text-sentinel-text-secondary">Origin time</p>
+                    <p className="font-semibold text-gray-800 dark:text-sentinel-text-primary">{timeAgo(event.time)}</p>
+                    <p className="text-xs text-gray-500 dark:text-sentinel-text-secondary">{formatDateTime(event.time)}</p>
+                    <p className="text-xs text-gray-500 dark:text-sentinel-text-secondary">Updated {timeAgo(event.updated)} <ReviewStatusBadge event={event} /></p>
                 </div>
             </div>
-             <div className="grid grid-cols-1 gap-4 mb-4 md:grid-cols-2">
+             <div className={`grid gap-4 mb-4 ${compact ? 'grid-cols-2' : 'grid-cols-1 md:grid-cols-2'}`}>
                 <div>
                     <p className="text-xs text-gray-500 dark:text-sentinel-text-secondary">Magnitude</p>
-                    <p className="text-3xl font-bold text-gray-900 dark:text-sentinel-text-primary">{event.magnitude.toFixed(1)}</p>
+                    <p className={valueClass}>{event.magnitude.toFixed(1)}{event.magType && <span className={`${compact ? 'text-sm' : 'text-lg'} font-normal text-gray-500 dark:text-sentinel-text-secondary`}> {event.magType}</span>}</p>
+                    <RevisionBadge event={event} />
                 </div>
                 <div>
                     <p className="text-xs text-gray-500 dark:text-sentinel-text-secondary">Depth</p>
-                    <p className="text-3xl font-bold text-gray-900 dark:text-sentinel-text-primary">{event.depth.toFixed(1)} <span className="text-lg text-gray-500 dark:text-sentinel-text-secondary">km</span></p>
+                    <p className={valueClass}>{event.depth.toFixed(1)} <span className={`${compact ? 'text-sm' : 'text-lg'} text-gray-500 dark:text-sentinel-text-secondary`}>km</span></p>
                 </div>
             </div>
+            {event.threat && (
+                <ThreatRationale threat={event.threat} className="p-3 mb-4 rounded-md text-xs bg-gray-50 dark:bg-sentinel-dark border border-gray-200 dark:border-sentinel-border text-gray-600 dark:text-sentinel-text-secondary" />
+            )}
             {event.isTsunamiWarning && (
                 <div className="p-3 mb-4 rounded-md bg-danger/20 text-danger">
                     <p className="font-bold flex items-center">
@@ -262,7 +629,7 @@ const LatestEarthquakeCard: React.FC<{ event: EarthquakeEvent | null }> = ({ eve
                     </p>
                 </div>
             )}
-            <div className="flex justify-between items-center text-xs text-gray-500 dark:text-sentinel-text-secondary">
+            <div className={`flex justify-between text-xs text-gray-500 dark:text-sentinel-text-secondary ${compact ? 'flex-col gap-1' : 'items-center'}`}>
                 <div className="flex items-center space-x-4">
                     <a href={event.link} target="_blank" rel="noopener noreferrer" className="text-sentinel-accent hover:underline">
                         View Official Bulletin &rarr;
@@ -272,348 +639,2448 @@ const LatestEarthquakeCard: React.FC<{ event: EarthquakeEvent | null }> = ({ eve
                         Check tsunami.gov
                     </a>
                 </div>
-                <span>Event ID: {event.id.split(':').pop()?.split(',')[0] || 'N/A'}</span>
+                <span>
+                    Event ID: {event.id.split(':').pop()?.split(',')[0] || 'N/A'}
+                    {event.reports && event.reports.length > 1 && ` · ${event.reports.length} sources`}
+                </span>
             </div>
-        </div>
+        </>
     );
 };
 
-const RecentEarthquakesCard: React.FC<{ events: EarthquakeEvent[] }> = ({ events }) => {
-    const [selectedEventId, setSelectedEventId] = useState<string | null>(null);
-
-    const handleToggle = (eventId: string) => {
-        setSelectedEventId(prevId => (prevId === eventId ? null : eventId));
-    };
+const LatestEarthquakeCard: React.FC<{ event: EarthquakeEvent | null }> = ({ event }) => {
+    if (!event) {
+        return <div className="p-6 text-center rounded-lg bg-white dark:bg-sentinel-body border border-gray-200 dark:border-sentinel-border text-gray-500 dark:text-sentinel-text-secondary">No significant earthquake data available.</div>;
+    }
 
     return (
         <div className="p-6 rounded-lg bg-white dark:bg-sentinel-body border border-gray-200 dark:border-sentinel-border">
-            <h2 className="text-lg font-bold text-gray-900 dark:text-sentinel-text-primary mb-4 flex items-center">
-                <svg xmlns="http://www.w3.org/2000/svg" className="w-5 h-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
-                Recent Earthquakes (M6.0+)
-            </h2>
-            <div className="max-h-96 overflow-y-auto pr-2 scrollbar-thin scrollbar-thumb-gray-300 dark:scrollbar-thumb-sentinel-border scrollbar-track-gray-100 dark:scrollbar-track-sentinel-body">
-                {events.length > 0 ? (
-                    <div className="relative border-l-2 border-gray-200 dark:border-sentinel-border space-y-4 ml-2">
-                        {events.map((event) => (
-                            <div key={event.id} className="pl-6 relative">
-                                <div className="absolute -left-[7px] top-1.5 w-3 h-3 bg-gray-500 dark:bg-sentinel-text-secondary rounded-full border-2 border-white dark:border-sentinel-body"></div>
-                                <div className="cursor-pointer" onClick={() => handleToggle(event.id)}>
-                                    <div className="flex justify-between items-start text-xs text-gray-500 dark:text-sentinel-text-secondary mb-1">
-                                        <span className={`px-2 py-0.5 text-xs font-bold rounded-full border ${getMagnitudeClass(event.magnitude)}`}>
-                                            M{event.magnitude.toFixed(1)}
-                                        </span>
-                                        <span>{timeAgo(event.updated)}</span>
-                                    </div>
-                                    <p className="font-semibold text-gray-800 dark:text-sentinel-text-primary">{event.location}</p>
-                                    <p className="text-xs text-gray-500 dark:text-sentinel-text-secondary">Depth: {event.depth.toFixed(1)} km &middot; {event.lat.toFixed(2)}°, {event.lon.toFixed(2)}°</p>
-                                </div>
-                                <div className={`transition-all duration-300 ease-in-out overflow-hidden ${selectedEventId === event.id ? 'max-h-40 mt-2' : 'max-h-0'}`}>
-                                    <div className="p-3 bg-gray-50 dark:bg-sentinel-dark rounded-md text-xs space-y-1 border border-gray-200 dark:border-sentinel-border">
-                                        <p><span className="font-semibold text-gray-600 dark:text-sentinel-text-secondary">Full Title:</span> {event.title}</p>
-                                        <p><span className="font-semibold text-gray-600 dark:text-sentinel-text-secondary">Time:</span> {formatDateTime(event.updated)}</p>
-                                        <div className="flex items-center space-x-4 mt-1">
-                                            <a href={event.link} target="_blank" rel="noopener noreferrer" className="text-sentinel-accent hover:underline font-bold">
-                                                View Official Bulletin &rarr;
-                                            </a>
-                                            <span className="text-gray-300 dark:text-sentinel-border">|</span>
-                                            <a href="https://www.tsunami.gov/" target="_blank" rel="noopener noreferrer" className="text-sentinel-accent hover:underline font-bold">
-                                                Check tsunami.gov
-                                            </a>
-                                        </div>
-                                    </div>
-                                </div>
-                            </div>
-                        ))}
-                    </div>
-                ) : (
-                    <p className="text-center text-gray-500 dark:text-sentinel-text-secondary">No recent earthquakes (M6.0+) to display.</p>
-                )}
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-bold text-gray-900 dark:text-sentinel-text-primary flex items-center">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="w-5 h-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>
+                    Latest Significant Earthquake
+                </h2>
+                <span className={`px-3 py-1 text-sm font-bold rounded-full border ${getMagnitudeClass(event.magnitude)}`}>
+                    M{event.magnitude.toFixed(1)}
+                </span>
             </div>
-            <p className="mt-4 text-xs text-gray-500 dark:text-sentinel-text-secondary">Showing {events.length} earthquakes</p>
+            <EarthquakeDetails event={event} />
         </div>
     );
 };
 
-const TsunamiAlertsCard: React.FC<{ events: EarthquakeEvent[] }> = ({ events }) => {
-    const activeAlerts = events.filter(e => e.alertLevel !== 'none' && e.alertLevel !== 'info');
-    return (
-        <div className="p-6 rounded-lg bg-white dark:bg-sentinel-body border border-gray-200 dark:border-sentinel-border">
-            <h2 className="text-lg font-bold text-gray-900 dark:text-sentinel-text-primary mb-4 flex items-center">
-                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" /></svg>
-                Tsunami Alerts
-            </h2>
-            {activeAlerts.length > 0 ? (
-                <div className="space-y-3">
-                    {activeAlerts.map(alert => (
-                         <div key={alert.id} className="p-3 rounded-md bg-danger/20 text-danger border border-danger/50">
-                            <p className="font-bold uppercase text-sm">{alert.alertLevel}</p>
-                            <p className="text-xs">{alert.title}</p>
-                            <a href={alert.link} target="_blank" rel="noopener noreferrer" className="text-xs font-semibold hover:underline mt-1 inline-block">View Alert &rarr;</a>
-                        </div>
-                    ))}
-                </div>
-            ) : (
-                <p className="text-center text-gray-500 dark:text-sentinel-text-secondary py-8">No alerts at this time</p>
-            )}
-        </div>
-    );
+const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = { csv: 'CSV', geojson: 'GeoJSON', kml: 'KML' };
+
+const ExportLinks: React.FC<{ label: string; disabled?: boolean; onExport: (format: ExportFormat) => void }> = ({ label, disabled = false, onExport }) => (
+    <span className="text-xs text-gray-500 dark:text-sentinel-text-secondary">
+        {label}:{' '}
+        {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map((format, i) => (
+            <React.Fragment key={format}>
+                {i > 0 && ' · '}
+                <button type="button" onClick={() => onExport(format)} disabled={disabled} className="text-sentinel-accent hover:underline disabled:opacity-50 disabled:no-underline disabled:cursor-not-allowed">{EXPORT_FORMAT_LABELS[format]}</button>
+            </React.Fragment>
+        ))}
+    </span>
+);
+
+const SEQUENCE_ROLE_LABELS: Record<'foreshock' | 'aftershock', string> = { foreshock: 'Foreshock', aftershock: 'Aftershock' };
+
+const describeSequence = (sequence: EventSequence): string => {
+    const parts = [`${sequence.aftershocks.length} aftershock${sequence.aftershocks.length === 1 ? '' : 's'}`];
+    if (sequence.largestAftershock) parts.push(`largest M${sequence.largestAftershock.magnitude.toFixed(1)}`);
+    if (sequence.foreshocks.length > 0) parts.push(`${sequence.foreshocks.length} foreshock${sequence.foreshocks.length === 1 ? '' : 's'}`);
+    return parts.join(' · ');
 };
 
-const EmailSettingsCard: React.FC = () => {
-    const [settings, setSettings] = useLocalStorage<AlertSettings>('alertSettings', {
-        minMagnitude: 7.0,
-        notificationsEnabled: true,
-        recipients: ['example@email.com'],
-        emailTemplate: 'ALERT: A magnitude {magnitude} earthquake occurred near {location} at {time}. More details: {link}',
-    });
-    const [newRecipient, setNewRecipient] = useState('');
+const RecentEarthquakesCard: React.FC<{
+    events: EarthquakeEvent[];
+    sequences: SequenceIndex;
+    filters: EventFilters;
+    selectedEventId: string | null;
+    onSelectEvent: (eventId: string | null) => void;
+    onOpenReport: (event: EarthquakeEvent) => void;
+}> = ({ events, sequences, filters, selectedEventId, onSelectEvent, onOpenReport }) => {
+    const itemRefs = useRef(new Map<string, HTMLDivElement>());
+    const [groupBySequence, setGroupBySequence] = useSetting('groupSequences', true);
+    const [expandedSequences, setExpandedSequences] = useState<Set<string>>(() => new Set());
 
-    const handleAddRecipient = (e: React.FormEvent) => {
-        e.preventDefault();
-        if (newRecipient && !settings.recipients.includes(newRecipient)) {
-            setSettings(s => ({ ...s, recipients: [...s.recipients, newRecipient] }));
-            setNewRecipient('');
-        }
+    // Events shown under their mainshock rather than on their own. A mainshock hidden by the
+    // filters leaves its sequence's events listed individually.
+    const visibleIds = useMemo(() => new Set(events.map(event => event.id)), [events]);
+    const groupedUnder = (event: EarthquakeEvent): EventSequence | null => {
+        const sequence = sequences.byEventId.get(event.id);
+        return groupBySequence && sequence && sequence.mainshock.id !== event.id && visibleIds.has(sequence.mainshock.id) ? sequence : null;
     };
 
-    const handleRemoveRecipient = (recipientToRemove: string) => {
-        setSettings(s => ({ ...s, recipients: s.recipients.filter(r => r !== recipientToRemove) }));
+    const handleToggle = (eventId: string) => {
+        onSelectEvent(selectedEventId === eventId ? null : eventId);
     };
-    
-    return (
-        <div className="p-6 rounded-lg bg-white dark:bg-sentinel-body border border-gray-200 dark:border-sentinel-border">
-            <h2 className="text-lg font-bold text-gray-900 dark:text-sentinel-text-primary mb-4 flex items-center">
-                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" viewBox="0 0 20 20" fill="currentColor">
-                    <path d="M2.003 5.884L10 9.882l7.997-3.998A2 2 0 0016 4H4a2 2 0 00-1.997 1.884z" />
-                    <path d="M18 8.118l-8 4-8-4V14a2 2 0 002 2h12a2 2 0 002-2V8.118z" />
-                </svg>
-                Email Alert Configuration
-            </h2>
-            <div className="space-y-4">
-                <div className="flex items-center justify-between">
-                    <label className="text-sm font-medium text-gray-800 dark:text-sentinel-text-primary">Enable Email Alerts</label>
-                    <button
-                        onClick={() => setSettings(s => ({ ...s, notificationsEnabled: !s.notificationsEnabled }))}
-                        className={`relative inline-flex items-center h-6 rounded-full w-11 transition-colors ${settings.notificationsEnabled ? 'bg-sentinel-accent' : 'bg-gray-300 dark:bg-sentinel-border'}`}
-                    >
-                        <span className={`inline-block w-4 h-4 transform bg-white rounded-full transition-transform ${settings.notificationsEnabled ? 'translate-x-6' : 'translate-x-1'}`} />
-                    </button>
-                </div>
 
-                <fieldset className="space-y-4 disabled:opacity-50" disabled={!settings.notificationsEnabled}>
-                    <div>
-                        <label htmlFor="min-magnitude" className="block text-sm font-medium text-gray-500 dark:text-sentinel-text-secondary">Min. Magnitude: <span className="font-bold text-gray-800 dark:text-sentinel-text-primary">{settings.minMagnitude.toFixed(1)}</span></label>
-                        <input
-                            id="min-magnitude" type="range" min="6.0" max="9.0" step="0.1"
-                            value={settings.minMagnitude}
-                            onChange={(e) => setSettings(s => ({ ...s, minMagnitude: parseFloat(e.target.value) }))}
-                            className="w-full h-2 bg-gray-200 dark:bg-sentinel-border rounded-lg appearance-none cursor-pointer accent-sentinel-accent"
-                        />
+    const toggleSequence = (sequenceId: string) => {
+        setExpandedSequences(prev => {
+            const next = new Set(prev);
+            if (!next.delete(sequenceId)) next.add(sequenceId);
+            return next;
+        });
+    };
+
+    // Selecting a marker on the map opens its sequence if needed and scrolls the entry into view.
+    useEffect(() => {
+        const event = events.find(e => e.id === selectedEventId);
+        const sequence = event && groupedUnder(event);
+        if (sequence && !expandedSequences.has(sequence.id)) {
+            setExpandedSequences(prev => new Set(prev).add(sequence.id));
+            return;
+        }
+        if (selectedEventId) itemRefs.current.get(selectedEventId)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }, [selectedEventId, expandedSequences]);
+
+    const renderEvent = (event: EarthquakeEvent, nested: boolean) => {
+        const sequence = sequences.byEventId.get(event.id);
+        const role = sequence ? sequenceRole(sequences, event) : null;
+        const members = groupBySequence && sequence && role === 'mainshock' ? events.filter(e => e.id !== event.id && sequences.byEventId.get(e.id) === sequence) : [];
+        return (
+            <div key={event.id} ref={el => { if (el) itemRefs.current.set(event.id, el); else itemRefs.current.delete(event.id); }} className="pl-6 relative">
+                <div className={`absolute ${nested ? '-left-[5px] top-2 w-2 h-2' : '-left-[7px] top-1.5 w-3 h-3'} bg-gray-500 dark:bg-sentinel-text-secondary rounded-full border-2 border-white dark:border-sentinel-body`}></div>
+                <div className="cursor-pointer" onClick={() => handleToggle(event.id)}>
+                    <div className="flex justify-between items-start text-xs text-gray-500 dark:text-sentinel-text-secondary mb-1">
+                        <span className="flex items-center gap-2">
+                            <span className={`px-2 py-0.5 text-xs font-bold rounded-full border ${getMagnitudeClass(event.magnitude)}`}>
+                                M{event.magnitude.toFixed(1)}
+                            </span>
+                            {role && role !== 'mainshock' && <span className="uppercase text-[10px] font-semibold">{SEQUENCE_ROLE_LABELS[role]}</span>}
+                            {role === 'mainshock' && sequence!.swarm && <span className="text-[10px] font-bold uppercase px-1.5 py-0.5 rounded bg-warning/20 text-warning" title="Several events of similar size with no dominant mainshock">Swarm</span>}
+                            <RevisionBadge event={event} />
+                            {event.exercise && <ExerciseBadge />}
+                        </span>
+                        <span title={`Origin ${formatDateTime(event.time)}`}>{timeAgo(event.time)}</span>
                     </div>
-                     <div>
-                        <label className="block text-sm font-medium text-gray-500 dark:text-sentinel-text-secondary mb-1">Alert Recipients</label>
-                        <form onSubmit={handleAddRecipient} className="flex items-center space-x-2">
-                             <input type="email" placeholder="Add email address" value={newRecipient} onChange={e => setNewRecipient(e.target.value)} className="w-full bg-gray-100 dark:bg-sentinel-dark border border-gray-300 dark:border-sentinel-border text-gray-800 dark:text-sentinel-text-primary text-sm rounded-md p-2" />
-                             <button type="submit" className="p-2 bg-sentinel-info rounded-md hover:bg-sentinel-accent shrink-0">
-                                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-white" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 5a1 1 0 011 1v3h3a1 1 0 110 2h-3v3a1 1 0 11-2 0v-3H6a1 1 0 110-2h3V6a1 1 0 011-1z" clipRule="evenodd" /></svg>
-                             </button>
-                        </form>
-                        <div className="mt-2 space-y-1">
-                            {settings.recipients.map(r => (
-                                <div key={r} className="flex justify-between items-center bg-gray-100 dark:bg-sentinel-dark p-1.5 pl-3 rounded-md text-sm">
-                                    <span className="text-gray-800 dark:text-sentinel-text-primary">{r}</span>
-                                    <button onClick={() => handleRemoveRecipient(r)} className="text-gray-400 dark:text-sentinel-text-secondary hover:text-danger p-1 rounded-full">
-                                      <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
-                                    </button>
-                                </div>
-                            ))}
+                    <p className="font-semibold text-gray-800 dark:text-sentinel-text-primary">{event.location}</p>
+                    <p className="text-xs text-gray-500 dark:text-sentinel-text-secondary">
+                        Depth: {event.depth.toFixed(1)} km &middot; {event.lat.toFixed(2)}°, {event.lon.toFixed(2)}°
+                        {filters.distanceFrom && ` · ${Math.round(distanceFromReference(event, filters)!)} km away`}
+                    </p>
+                    {role === 'mainshock' && groupBySequence && (
+                        <p className="text-xs text-gray-500 dark:text-sentinel-text-secondary">
+                            Sequence: {describeSequence(sequence!)}
+                            {members.length > 0 && (
+                                <button onClick={e => { e.stopPropagation(); toggleSequence(sequence!.id); }} className="ml-2 text-sentinel-accent hover:underline">
+                                    {expandedSequences.has(sequence!.id) ? 'Hide' : `Show ${members.length}`}
+                                </button>
+                            )}
+                        </p>
+                    )}
+                </div>
+                <div className={`transition-all duration-300 ease-in-out overflow-hidden ${selectedEventId === event.id ? 'max-h-60 mt-2' : 'max-h-0'}`}>
+                    <div className="p-3 bg-gray-50 dark:bg-sentinel-dark rounded-md text-xs space-y-1 border border-gray-200 dark:border-sentinel-border">
+                        <p><span className="font-semibold text-gray-600 dark:text-sentinel-text-secondary">Full Title:</span> {event.title}</p>
+                        <p><span className="font-semibold text-gray-600 dark:text-sentinel-text-secondary">Origin time:</span> {formatDateTime(event.time)}</p>
+                        <p>
+                            <span className="font-semibold text-gray-600 dark:text-sentinel-text-secondary">Updated:</span> {formatDateTime(event.updated)}
+                            {event.reviewStatus && ` (${event.reviewStatus})`}
+                            {event.magType && <> &middot; <span className="font-semibold text-gray-600 dark:text-sentinel-text-secondary">Magnitude type:</span> {event.magType}</>}
+                        </p>
+                        {event.revisions && (
+                            <p><span className="font-semibold text-gray-600 dark:text-sentinel-text-secondary">Earlier solutions:</span> {event.revisions.map(describeRevision).join('; ')}</p>
+                        )}
+                        {event.reports && event.reports.length > 1 && (
+                            <p><span className="font-semibold text-gray-600 dark:text-sentinel-text-secondary">Reported by:</span> {event.reports.map(r => `${r.source} (M${r.magnitude.toFixed(1)})`).join(', ')}</p>
+                        )}
+                        {role && role !== 'mainshock' && (
+                            <p><span className="font-semibold text-gray-600 dark:text-sentinel-text-secondary">{SEQUENCE_ROLE_LABELS[role]} of:</span> M{sequence!.mainshock.magnitude.toFixed(1)} {sequence!.mainshock.location}</p>
+                        )}
+                        <div className="flex items-center space-x-4 mt-1">
+                            <a href={event.link} target="_blank" rel="noopener noreferrer" className="text-sentinel-accent hover:underline font-bold">
+                                View Official Bulletin &rarr;
+                            </a>
+                            <span className="text-gray-300 dark:text-sentinel-border">|</span>
+                            <a href="https://www.tsunami.gov/" target="_blank" rel="noopener noreferrer" className="text-sentinel-accent hover:underline font-bold">
+                                Check tsunami.gov
+                            </a>
+                            <span className="text-gray-300 dark:text-sentinel-border">|</span>
+                            <button onClick={() => onOpenReport(event)} className="text-sentinel-accent hover:underline font-bold">
+                                Incident report
+                            </button>
                         </div>
                     </div>
-                     <div>
-                        <label htmlFor="email-template" className="block text-sm font-medium text-gray-500 dark:text-sentinel-text-secondary">Email Body Template</label>
-                        <textarea
-                            id="email-template"
-                            rows={4}
-                            value={settings.emailTemplate}
-                            onChange={(e) => setSettings(s => ({ ...s, emailTemplate: e.target.value }))}
-                            className="w-full bg-gray-100 dark:bg-sentinel-dark border border-gray-300 dark:border-sentinel-border text-gray-800 dark:text-sentinel-text-primary text-sm rounded-md p-2 mt-1"
-                        ></textarea>
-                        <p className="text-xs text-gray-500 dark:text-sentinel-text-secondary mt-1">
-                            Use placeholders: {`{magnitude}`}, {`{location}`}, {`{depth}`}, {`{time}`}, {`{link}`}
-                        </p>
+                </div>
+                {members.length > 0 && expandedSequences.has(sequence!.id) && (
+                    <div className="relative border-l border-dashed border-gray-300 dark:border-sentinel-border space-y-3 mt-3 ml-1">
+                        {members.map(member => renderEvent(member, true))}
                     </div>
-                </fieldset>
+                )}
             </div>
-        </div>
-    );
-};
-
-const GeneratedAlertsCard: React.FC<{ alerts: GeneratedAlert[] }> = ({ alerts }) => {
-    const [copiedId, setCopiedId] = useState<string | null>(null);
-
-    const handleCopy = (text: string, id: string) => {
-        navigator.clipboard.writeText(text);
-        setCopiedId(id);
-        setTimeout(() => setCopiedId(null), 2000);
+        );
     };
 
     return (
         <div className="p-6 rounded-lg bg-white dark:bg-sentinel-body border border-gray-200 dark:border-sentinel-border">
-            <h2 className="text-lg font-bold text-gray-900 dark:text-sentinel-text-primary mb-4 flex items-center">
-                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" viewBox="0 0 20 20" fill="currentColor"><path d="M8.707 7.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l2-2a1 1 0 00-1.414-1.414L11 8.586V3a1 1 0 10-2 0v5.586L8.707 7.293zM3 9a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1z" /><path d="M3 15a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1z" /></svg>
-                Generated Email Alerts
-            </h2>
-             <div className="max-h-96 overflow-y-auto pr-2 scrollbar-thin scrollbar-thumb-gray-300 dark:scrollbar-thumb-sentinel-border scrollbar-track-gray-100 dark:scrollbar-track-sentinel-body space-y-3">
-                 {alerts.length > 0 ? (
-                     alerts.map(alert => (
-                        <div key={alert.id} className="bg-gray-50 dark:bg-sentinel-dark p-3 rounded-md">
-                            <div className="flex justify-between items-start">
-                                <div>
-                                    <p className="font-bold text-sm text-gray-800 dark:text-sentinel-text-primary">M{alert.event.magnitude.toFixed(1)} - {alert.event.location}</p>
-                                    <p className="text-xs text-gray-500 dark:text-sentinel-text-secondary">Generated: {formatDateTime(new Date(alert.timestamp))}</p>
-                                </div>
-                                <button
-                                    onClick={() => handleCopy(alert.body, alert.id)}
-                                    className="text-xs bg-sentinel-info text-white px-2 py-1 rounded-md hover:bg-sentinel-accent transition-colors"
-                                >
-                                    {copiedId === alert.id ? 'Copied!' : 'Copy'}
-                                </button>
-                            </div>
-                            <pre className="mt-2 text-xs bg-gray-100 dark:bg-sentinel-darker p-2 rounded whitespace-pre-wrap font-mono text-gray-600 dark:text-sentinel-text-secondary">{alert.body}</pre>
-                        </div>
-                     ))
-                 ) : (
-                    <p className="text-center text-gray-500 dark:text-sentinel-text-secondary py-8">No alerts generated yet.</p>
-                 )}
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                <h2 className="text-lg font-bold text-gray-900 dark:text-sentinel-text-primary flex items-center">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="w-5 h-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+                    Earthquakes <span className="ml-2 text-xs font-normal text-gray-500 dark:text-sentinel-text-secondary">{describeFilters(filters)}</span>
+                </h2>
+                <label className="flex items-center gap-2 text-xs text-gray-500 dark:text-sentinel-text-secondary">
+                    <input type="checkbox" checked={groupBySequence} onChange={e => setGroupBySequence(e.target.checked)} />
+                    Group aftershock sequences
+                </label>
+            </div>
+            <div className="max-h-96 overflow-y-auto pr-2 scrollbar-thin scrollbar-thumb-gray-300 dark:scrollbar-thumb-sentinel-border scrollbar-track-gray-100 dark:scrollbar-track-sentinel-body">
+                {events.length > 0 ? (
+                    <div className="relative border-l-2 border-gray-200 dark:border-sentinel-border space-y-4 ml-2">
+                        {events.filter(event => !groupedUnder(event)).map(event => renderEvent(event, false))}
+                    </div>
+                ) : (
+                    <p className="text-center text-gray-500 dark:text-sentinel-text-secondary">No earthquakes match the current filters.</p>
+                )}
+            </div>
+            <div className="mt-4 flex flex-wrap justify-between gap-2">
+                <p className="text-xs text-gray-500 dark:text-sentinel-text-secondary">Showing {events.length} earthquakes</p>
+                <ExportLinks label="Export" disabled={events.length === 0} onExport={format => downloadFile(exportFilename('events', format), exportEvents(events, format), EXPORT_MIME_TYPES[format])} />
             </div>
         </div>
     );
 };
 
+const HISTORY_RESULT_LIMIT = 200;
+const ALERT_LEVELS: EarthquakeEvent['alertLevel'][] = ['none', 'info', 'advisory', 'watch', 'warning'];
 
-const Footer: React.FC = () => (
-    <footer className="text-center p-4 mt-4 text-xs text-gray-500 dark:text-sentinel-text-secondary border-t border-gray-200 dark:border-sentinel-border">
-        Data sourced from NOAA/NWS Tsunami Warning Centers. For more information, visit{' '}
-        <a href="https://www.tsunami.gov/" target="_blank" rel="noopener noreferrer" className="text-sentinel-accent hover:underline">
-            tsunami.gov
+const parseOptionalNumber = (value: string): number | undefined => (value.trim() === '' || Number.isNaN(parseFloat(value)) ? undefined : parseFloat(value));
+
+const HistoryCard: React.FC<{ archive: EventArchive | null; threatRules: ThreatRule[] }> = ({ archive, threatRules }) => {
+    const [filters, setFilters] = useState({ from: '', to: '', minMagnitude: '6', maxMagnitude: '', alertLevel: '', north: '', south: '', east: '', west: '' });
+    const [results, setResults] = useState<EarthquakeEvent[]>([]);
+    const [archivedCount, setArchivedCount] = useState<number | null>(null);
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const [versions, setVersions] = useState<ArchivedVersion[]>([]);
+    const [backfill, setBackfill] = useState({ start: '', end: '', minMagnitude: '6' });
+    const [status, setStatus] = useState<{ busy: boolean; message: string | null; error: boolean }>({ busy: false, message: null, error: false });
+    const backfillAbortRef = useRef<AbortController | null>(null);
+    const inputClass = "bg-gray-100 dark:bg-sentinel-dark border border-gray-300 dark:border-sentinel-border text-gray-800 dark:text-sentinel-text-primary text-sm rounded-md p-2";
+
+    const runQuery = useCallback(async () => {
+        if (!archive) return;
+        const { north, south, east, west } = { north: parseOptionalNumber(filters.north), south: parseOptionalNumber(filters.south), east: parseOptionalNumber(filters.east), west: parseOptionalNumber(filters.west) };
+        const query: ArchiveQuery = {
+            from: filters.from ? new Date(`${filters.from}T00:00:00Z`) : undefined,
+            to: filters.to ? new Date(`${filters.to}T23:59:59.999Z`) : undefined,
+            minMagnitude: parseOptionalNumber(filters.minMagnitude),
+            maxMagnitude: parseOptionalNumber(filters.maxMagnitude),
+            alertLevels: filters.alertLevel ? [filters.alertLevel as EarthquakeEvent['alertLevel']] : undefined,
+            bbox: north !== undefined && south !== undefined && east !== undefined && west !== undefined ? { north, south, east, west } : undefined,
+            limit: HISTORY_RESULT_LIMIT,
+        };
+        try {
+            const [events, count] = await Promise.all([archive.query(query), archive.count()]);
+            setResults(events);
+            setArchivedCount(count);
+        } catch (err) {
+            console.error(err);
+            setStatus({ busy: false, message: 'The archive query failed.', error: true });
+        }
+    }, [archive, filters]);
+
+    // Show the default query as soon as the archive opens; later searches are explicit.
+    useEffect(() => {
+        runQuery();
+    }, [archive]);
+
+    useEffect(() => () => backfillAbortRef.current?.abort(), []);
+
+    const handleToggleEvent = async (eventId: string) => {
+        if (expandedId === eventId || !archive) {
+            setExpandedId(null);
+            return;
+        }
+        setExpandedId(eventId);
+        setVersions(await archive.history(eventId));
+    };
+
+    const handleBackfill = async () => {
+        if (!archive || !backfill.start || !backfill.end) return;
+        const controller = new AbortController();
+        backfillAbortRef.current = controller;
+        setStatus({ busy: true, message: 'Starting backfill…', error: false });
+        try {
+            const imported = await backfillFromFdsn(archive, {
+                start: new Date(`${backfill.start}T00:00:00Z`),
+                end: new Date(`${backfill.end}T23:59:59.999Z`),
+                minMagnitude: parseFloat(backfill.minMagnitude) || 0,
+                threatRules,
+                signal: controller.signal,
+                onProgress: ({ completed, total, imported }) => setStatus({ busy: true, message: `Fetched ${completed} of ${total} windows · ${imported} events archived`, error: false }),
+            });
+            setStatus({ busy: false, message: `Backfill complete: ${imported} events archived.`, error: false });
+        } catch (err) {
+            console.error(err);
+            setStatus({ busy: false, message: controller.signal.aborted ? 'Backfill cancelled.' : err instanceof Error ? err.message : 'Backfill failed.', error: !controller.signal.aborted });
+        } finally {
+            backfillAbortRef.current = null;
+            runQuery();
+        }
+    };
+
+    const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!archive || !file) return;
+        setStatus({ busy: true, message: `Importing ${file.name}…`, error: false });
+        try {
+            const imported = await archive.archive(parseEventFile(await file.text(), threatRules));
+            setStatus({ busy: false, message: `Imported ${imported} events from ${file.name}.`, error: false });
+            runQuery();
+        } catch (err) {
+            console.error(err);
+            setStatus({ busy: false, message: `Could not import ${file.name}: ${err instanceof Error ? err.message : String(err)}`, error: true });
+        }
+    };
+
+    return (
+        <div className="p-6 rounded-lg bg-white dark:bg-sentinel-body border border-gray-200 dark:border-sentinel-border">
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-bold text-gray-900 dark:text-sentinel-text-primary flex items-center">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="w-5 h-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4" /></svg>
+                    Event History
+                </h2>
+                {archivedCount !== null && <span className="text-xs text-gray-500 dark:text-sentinel-text-secondary">{archivedCount} events archived</span>}
+            </div>
+            {!archive ? (
+                <p className="text-center text-gray-500 dark:text-sentinel-text-secondary py-4">The local archive is unavailable in this browser.</p>
+            ) : (
+                <>
+                    <form onSubmit={e => { e.preventDefault(); runQuery(); }} className="space-y-2">
+                        <div className="flex flex-wrap items-center gap-2">
+                            <input type="date" value={filters.from} onChange={e => setFilters(f => ({ ...f, from: e.target.value }))} className={inputClass} aria-label="From (UTC)" title="From (UTC)" />
+                            <input type="date" value={filters.to} onChange={e => setFilters(f => ({ ...f, to: e.target.value }))} className={inputClass} aria-label="To (UTC)" title="To (UTC)" />
+                            <input type="number" step="0.1" placeholder="Min M" value={filters.minMagnitude} onChange={e => setFilters(f => ({ ...f, minMagnitude: e.target.value }))} className={`w-20 ${inputClass}`} aria-label="Min. magnitude" />
+                            <input type="number" step="0.1" placeholder="Max M" value={filters.maxMagnitude} onChange={e => setFilters(f => ({ ...f, maxMagnitude: e.target.value }))} className={`w-20 ${inputClass}`} aria-label="Max. magnitude" />
+                            <select value={filters.alertLevel} onChange={e => setFilters(f => ({ ...f, alertLevel: e.target.value }))} className={inputClass} aria-label="Alert level">
+                                <option value="">Any alert level</option>
+                                {ALERT_LEVELS.map(level => <option key={level} value={level}>{level}</option>)}
+                            </select>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-2">
+                            {(['north', 'south', 'west', 'east'] as const).map(edge => (
+                                <input key={edge} type="number" step="any" placeholder={edge[0].toUpperCase() + edge.slice(1)} value={filters[edge]} onChange={e => setFilters(f => ({ ...f, [edge]: e.target.value }))} className={`w-20 ${inputClass}`} aria-label={`${edge} edge (degrees)`} />
+                            ))}
+                            <button type="submit" className="text-xs bg-sentinel-info text-white px-3 py-2 rounded-md hover:bg-sentinel-accent transition-colors">Search</button>
+                        </div>
+                    </form>
+                    <div className="mt-3 max-h-96 overflow-y-auto pr-2 scrollbar-thin scrollbar-thumb-gray-300 dark:scrollbar-thumb-sentinel-border scrollbar-track-gray-100 dark:scrollbar-track-sentinel-body">
+                        {results.length === 0 && <p className="text-center text-gray-500 dark:text-sentinel-text-secondary py-4">No archived events match.</p>}
+                        {results.map(event => (
+                            <div key={event.id} className="border-t border-gray-200 dark:border-sentinel-border py-2 text-sm">
+                                <div className="flex items-center justify-between cursor-pointer" onClick={() => handleToggleEvent(event.id)}>
+                                    <span className="flex items-center space-x-2 min-w-0">
+                                        <span className={`px-2 py-0.5 text-xs font-bold rounded-full border ${getMagnitudeClass(event.magnitude)}`}>M{event.magnitude.toFixed(1)}</span>
+                                        <span className="truncate text-gray-800 dark:text-sentinel-text-primary">{event.location}</span>
+                                    </span>
+                                    <span className="text-xs text-gray-500 dark:text-sentinel-text-secondary whitespace-nowrap ml-2">{formatDateTime(event.time)} &middot; {event.alertLevel}</span>
+                                </div>
+                                {expandedId === event.id && (
+                                    <div className="mt-2 p-2 bg-gray-50 dark:bg-sentinel-dark rounded-md text-xs border border-gray-200 dark:border-sentinel-border">
+                                        <p className="font-semibold text-gray-600 dark:text-sentinel-text-secondary mb-1">{versions.length} archived version(s)</p>
+                                        <table className="w-full">
+                                            <tbody>
+                                                {versions.map(({ event: version, archivedAt }, index) => (
+                                                    <tr key={index} className="text-gray-700 dark:text-sentinel-text-primary">
+                                                        <td className="pr-2">{formatDateTime(archivedAt)}</td>
+                                                        <td className="pr-2">M{version.magnitude.toFixed(1)}</td>
+                                                        <td className="pr-2">{version.depth.toFixed(1)} km</td>
+                                                        <td className="pr-2">{version.alertLevel}</td>
+                                                        <td>{version.source}</td>
+                                                    </tr>
+                                                ))}
+                                            </tbody>
+                                        </table>
+                                        <a href={event.link} target="_blank" rel="noopener noreferrer" className="text-sentinel-accent hover:underline font-bold mt-1 inline-block">View Official Bulletin &rarr;</a>
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                    {results.length === HISTORY_RESULT_LIMIT && <p className="mt-1 text-xs text-gray-500 dark:text-sentinel-text-secondary">Showing the {HISTORY_RESULT_LIMIT} most recent matches; narrow the filters to see older events.</p>}
+                    <details className="mt-3 text-sm">
+                        <summary className="cursor-pointer text-gray-600 dark:text-sentinel-text-secondary">Backfill older events</summary>
+                        <div className="mt-2 space-y-2">
+                            <div className="flex flex-wrap items-center gap-2">
+                                <input type="date" value={backfill.start} onChange={e => setBackfill(b => ({ ...b, start: e.target.value }))} className={inputClass} aria-label="Backfill from (UTC)" title="Backfill from (UTC)" />
+                                <input type="date" value={backfill.end} onChange={e => setBackfill(b => ({ ...b, end: e.target.value }))} className={inputClass} aria-label="Backfill to (UTC)" title="Backfill to (UTC)" />
+                                <input type="number" step="0.1" value={backfill.minMagnitude} onChange={e => setBackfill(b => ({ ...b, minMagnitude: e.target.value }))} className={`w-20 ${inputClass}`} aria-label="Min. magnitude" title="Min. magnitude" />
+                                {status.busy && backfillAbortRef.current ? (
+                                    <button type="button" onClick={() => backfillAbortRef.current?.abort()} className="text-xs px-3 py-2 rounded-md border border-danger text-danger">Cancel</button>
+                                ) : (
+                                    <button type="button" onClick={handleBackfill} disabled={status.busy || !backfill.start || !backfill.end} className="text-xs bg-sentinel-info text-white px-3 py-2 rounded-md hover:bg-sentinel-accent transition-colors disabled:opacity-50 disabled:cursor-not-allowed">Import from USGS</button>
+                                )}
+                            </div>
+                            <label className="block text-xs text-gray-500 dark:text-sentinel-text-secondary">
+                                Or import a file (USGS GeoJSON, FDSN text or a JSON list of events):
+                                <input type="file" accept=".json,.geojson,.txt,.csv" onChange={handleImportFile} disabled={status.busy} className="block mt-1 text-xs" />
+                            </label>
+                        </div>
+                    </details>
+                    {status.message && <p className={`mt-2 text-xs ${status.error ? 'text-danger' : 'text-gray-500 dark:text-sentinel-text-secondary'}`}>{status.message}</p>}
+                </>
+            )}
+        </div>
+    );
+};
+
+const CHART_COLORS = {
+    dark: { text: '#8b949e', grid: '#30363d', bar: '#58a6ff', highlight: '#f85149' },
+    light: { text: '#6b7280', grid: '#e5e7eb', bar: '#1f6feb', highlight: '#dc2626' },
+};
+
+const useChartColors = () => CHART_COLORS[useTheme().theme === 'dark' ? 'dark' : 'light'];
+
+const CHART_WIDTH = 480;
+const CHART_HEIGHT = 170;
+const CHART_PADDING = { top: 8, right: 8, bottom: 22, left: 34 };
+
+/** Evenly spaced round tick values from 0 up to at most `max`. */
+const linearTicks = (max: number): number[] => {
+    const rough = Math.max(1, max / 4);
+    const magnitude = 10 ** Math.floor(Math.log10(rough));
+    const step = [1, 2, 5, 10].map(f => f * magnitude).find(s => s >= rough)!;
+    return Array.from({ length: Math.floor(max / step) + 1 }, (_, i) => i * step);
+};
+
+const formatCount = (n: number) => (n >= 1000 ? `${n / 1000}k` : String(n));
+
+const BarChart: React.FC<{ bars: { label: string; value: number; title: string }[]; labelEvery?: number }> = ({ bars, labelEvery = 1 }) => {
+    const colors = useChartColors();
+    const { top, right, bottom, left } = CHART_PADDING;
+    const plotWidth = CHART_WIDTH - left - right;
+    const plotHeight = CHART_HEIGHT - top - bottom;
+    const max = Math.max(1, ...bars.map(bar => bar.value));
+    const y = (value: number) => top + plotHeight - (value / max) * plotHeight;
+    const slot = plotWidth / Math.max(1, bars.length);
+
+    return (
+        <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img">
+            {linearTicks(max).map(tick => (
+                <g key={tick}>
+                    <line x1={left} x2={CHART_WIDTH - right} y1={y(tick)} y2={y(tick)} stroke={colors.grid} strokeWidth={0.5} />
+                    <text x={left - 4} y={y(tick) + 3} fontSize={9} textAnchor="end" fill={colors.text}>{formatCount(tick)}</text>
+                </g>
+            ))}
+            {bars.map((bar, i) => (
+                <g key={`${bar.label}-${i}`}>
+                    <rect x={left + i * slot + slot * 0.1} y={y(bar.value)} width={slot * 0.8} height={top + plotHeight - y(bar.value)} fill={colors.bar}>
+                        <title>{bar.title}</title>
+                    </rect>
+                    {i % labelEvery === 0 && (
+                        <text x={left + (i + 0.5) * slot} y={CHART_HEIGHT - 8} fontSize={9} textAnchor="middle" fill={colors.text}>{bar.label}</text>
+                    )}
+                </g>
+            ))}
+        </svg>
+    );
+};
+
+const MagnitudeFrequencyChart: React.FC<{ bins: MagnitudeBin[]; fit: BValueEstimate | null }> = ({ bins, fit }) => {
+    const colors = useChartColors();
+    if (bins.length === 0) return null;
+    const { top, right, bottom, left } = CHART_PADDING;
+    const plotWidth = CHART_WIDTH - left - right;
+    const plotHeight = CHART_HEIGHT - top - bottom;
+    const minMag = Math.floor(bins[0].magnitude * 2) / 2;
+    const maxMag = Math.max(minMag + 1, Math.ceil(bins[bins.length - 1].magnitude * 2) / 2);
+    const maxLog = Math.max(1, Math.ceil(Math.log10(bins[0].cumulative)));
+    const x = (magnitude: number) => left + ((magnitude - minMag) / (maxMag - minMag)) * plotWidth;
+    // Counts are plotted on a log scale, where the Gutenberg-Richter law is a straight line.
+    const y = (count: number) => top + plotHeight - (Math.log10(count) / maxLog) * plotHeight;
+    const magnitudeStep = maxMag - minMag > 4 ? 1 : 0.5;
+    const magnitudeTicks = Array.from({ length: Math.round((maxMag - minMag) / magnitudeStep) + 1 }, (_, i) => minMag + i * magnitudeStep);
+    // The fitted line runs from the completeness magnitude to where it predicts a single event.
+    const fitEnd = fit ? Math.min(maxMag, fit.aValue / fit.bValue) : 0;
+
+    return (
+        <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img">
+            {Array.from({ length: maxLog + 1 }, (_, power) => (
+                <g key={power}>
+                    <line x1={left} x2={CHART_WIDTH - right} y1={y(10 ** power)} y2={y(10 ** power)} stroke={colors.grid} strokeWidth={0.5} />
+                    <text x={left - 4} y={y(10 ** power) + 3} fontSize={9} textAnchor="end" fill={colors.text}>{formatCount(10 ** power)}</text>
+                </g>
+            ))}
+            {magnitudeTicks.map(magnitude => (
+                <text key={magnitude} x={x(magnitude)} y={CHART_HEIGHT - 8} fontSize={9} textAnchor="middle" fill={colors.text}>M{magnitude.toFixed(1)}</text>
+            ))}
+            {fit && (
+                <>
+                    <line x1={x(fit.completeness)} x2={x(fit.completeness)} y1={top} y2={top + plotHeight} stroke={colors.highlight} strokeWidth={1} strokeDasharray="3 3" />
+                    <line x1={x(fit.completeness)} y1={y(10 ** (fit.aValue - fit.bValue * fit.completeness))} x2={x(fitEnd)} y2={y(10 ** (fit.aValue - fit.bValue * fitEnd))} stroke={colors.highlight} strokeWidth={1.5} />
+                </>
+            )}
+            {bins.filter(bin => bin.count > 0).map(bin => (
+                <rect key={`n-${bin.magnitude}`} x={x(bin.magnitude) - 2} y={y(bin.count) - 2} width={4} height={4} fill="none" stroke={colors.text} strokeWidth={1}>
+                    <title>{`M${bin.magnitude.toFixed(1)}: ${bin.count} events`}</title>
+                </rect>
+            ))}
+            {bins.map(bin => (
+                <circle key={`c-${bin.magnitude}`} cx={x(bin.magnitude)} cy={y(bin.cumulative)} r={2.5} fill={colors.bar}>
+                    <title>{`M${bin.magnitude.toFixed(1)}+: ${bin.cumulative} events`}</title>
+                </circle>
+            ))}
+        </svg>
+    );
+};
+
+type StatisticsSource = 'feed' | 'archive';
+
+const STATISTICS_WINDOW_DAYS = [7, 30, 90, 365];
+// The feeds only reach back 30 days; longer windows need the archive.
+const FEED_WINDOW_DAYS = [7, 30];
+const STATISTICS_REGION_LIMIT = 8;
+
+const StatisticsCard: React.FC<{ feedEvents: EarthquakeEvent[]; archive: EventArchive | null }> = ({ feedEvents, archive }) => {
+    const [source, setSource] = useState<StatisticsSource>('feed');
+    const [days, setDays] = useState(30);
+    const [archiveEvents, setArchiveEvents] = useState<EarthquakeEvent[] | null>(null);
+    const now = useNow(60 * 1000);
+    const windows = source === 'feed' ? FEED_WINDOW_DAYS : STATISTICS_WINDOW_DAYS;
+    const windowDays = windows.includes(days) ? days : windows[windows.length - 1];
+
+    // Re-queried whenever the feed refreshes, since that is when new events get archived.
+    useEffect(() => {
+        if (source !== 'archive' || !archive) return;
+        let cancelled = false;
+        archive.query({ from: new Date(Date.now() - windowDays * DAY_MS) })
+            .then(events => { if (!cancelled) setArchiveEvents(events); })
+            .catch(err => {
+                console.error(err);
+                if (!cancelled) setArchiveEvents([]);
+            });
+        return () => { cancelled = true; };
+    }, [source, archive, windowDays, feedEvents]);
+
+    const stats = useMemo(() => {
+        const from = now.getTime() - windowDays * DAY_MS;
+        const events = (source === 'feed' ? feedEvents : archiveEvents ?? []).filter(event => event.time.getTime() >= from);
+        return {
+            events,
+            daily: dailyCounts(events, windowDays, now),
+            bins: magnitudeFrequency(events),
+            fit: estimateBValue(events),
+            depths: depthHistogram(events),
+            regions: regionCounts(events),
+        };
+    }, [source, feedEvents, archiveEvents, windowDays, now]);
+
+    const largest = stats.events.reduce<EarthquakeEvent | null>((best, event) => (!best || event.magnitude > best.magnitude ? event : best), null);
+    const topRegionCount = stats.regions[0]?.count ?? 1;
+    const loading = source === 'archive' && archive !== null && archiveEvents === null;
+    const buttonClass = (active: boolean) => `px-2 py-1 text-xs rounded-md border ${active ? 'bg-sentinel-info text-white border-sentinel-info' : 'border-gray-300 dark:border-sentinel-border text-gray-600 dark:text-sentinel-text-secondary hover:bg-gray-100 dark:hover:bg-sentinel-border'}`;
+    const headingClass = "text-sm font-semibold text-gray-700 dark:text-sentinel-text-primary mb-1";
+
+    return (
+        <div className="p-6 rounded-lg bg-white dark:bg-sentinel-body border border-gray-200 dark:border-sentinel-border">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                <h3 className="text-lg font-bold text-gray-900 dark:text-sentinel-text-primary">Statistics &amp; Trends</h3>
+                <div className="flex items-center gap-2">
+                    <button className={buttonClass(source === 'feed')} onClick={() => setSource('feed')}>Live feed</button>
+                    <button className={buttonClass(source === 'archive')} onClick={() => setSource('archive')} disabled={!archive} title={archive ? undefined : 'The archive is unavailable in this browser'}>Archive</button>
+                    <select value={windowDays} onChange={e => setDays(Number(e.target.value))} className="bg-gray-100 dark:bg-sentinel-dark border border-gray-300 dark:border-sentinel-border text-gray-800 dark:text-sentinel-text-primary text-xs rounded-md p-1">
+                        {windows.map(d => <option key={d} value={d}>Past {d} days</option>)}
+                    </select>
+                </div>
+            </div>
+            {loading ? (
+                <p className="text-center text-gray-500 dark:text-sentinel-text-secondary py-8">Loading archive…</p>
+            ) : stats.events.length === 0 ? (
+                <p className="text-center text-gray-500 dark:text-sentinel-text-secondary py-8">No events in this window.</p>
+            ) : (
+                <>
+                    <p className="text-sm text-gray-600 dark:text-sentinel-text-secondary mb-4">
+                        {stats.events.length} events{largest && <> · largest M{largest.magnitude.toFixed(1)} {largest.location}</>}
+                        {' · '}
+                        {stats.fit
+                            ? <>b-value <span className="font-semibold text-gray-900 dark:text-sentinel-text-primary">{stats.fit.bValue.toFixed(2)} ± {stats.fit.uncertainty.toFixed(2)}</span> (M{stats.fit.completeness.toFixed(1)}+, {stats.fit.count} events)</>
+                            : `b-value needs at least ${MIN_B_VALUE_EVENTS} events above the completeness magnitude`}
+                    </p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        <div>
+                            <h4 className={headingClass}>Events per day (UTC)</h4>
+                            <BarChart
+                                bars={stats.daily.map(({ day, count }) => ({ label: day.toISOString().slice(5, 10), value: count, title: `${day.toISOString().slice(0, 10)}: ${count} events` }))}
+                                labelEvery={Math.ceil(windowDays / 6)}
+                            />
+                        </div>
+                        <div>
+                            <h4 className={headingClass}>Magnitude-frequency</h4>
+                            <MagnitudeFrequencyChart bins={stats.bins} fit={stats.fit} />
+                            <p className="text-xs text-gray-500 dark:text-sentinel-text-secondary">Dots: events at or above each magnitude. Squares: per 0.1 bin. Line: Gutenberg-Richter fit from the completeness magnitude.</p>
+                        </div>
+                        <div>
+                            <h4 className={headingClass}>Depth (km)</h4>
+                            <BarChart bars={stats.depths.map(bin => ({ label: bin.label, value: bin.count, title: `${bin.label} km: ${bin.count} events` }))} />
+                        </div>
+                        <div>
+                            <h4 className={headingClass}>Busiest regions</h4>
+                            <ul className="space-y-1">
+                                {stats.regions.slice(0, STATISTICS_REGION_LIMIT).map(region => (
+                                    <li key={region.region} className="text-xs">
+                                        <div className="flex justify-between text-gray-700 dark:text-sentinel-text-primary">
+                                            <span className="truncate">{region.region}</span>
+                                            <span className="text-gray-500 dark:text-sentinel-text-secondary whitespace-nowrap ml-2">{region.count} · max M{region.maxMagnitude.toFixed(1)}</span>
+                                        </div>
+                                        <div className="h-1.5 rounded bg-gray-100 dark:bg-sentinel-dark">
+                                            <div className="h-1.5 rounded bg-sentinel-accent" style={{ width: `${(region.count / topRegionCount) * 100}%` }} />
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                            {stats.regions.length > STATISTICS_REGION_LIMIT && (
+                                <p className="mt-1 text-xs text-gray-500 dark:text-sentinel-text-secondary">and {stats.regions.length - STATISTICS_REGION_LIMIT} more regions</p>
+                            )}
+                        </div>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+const TIME_WINDOW_OPTIONS: { label: string; hours: number | null }[] = [
+    { label: 'Any time', hours: null },
+    { label: 'Past hour', hours: 1 },
+    { label: 'Past 6 hours', hours: 6 },
+    { label: 'Past 24 hours', hours: 24 },
+    { label: 'Past 7 days', hours: 7 * 24 },
+    { label: 'Past 30 days', hours: 30 * 24 },
+];
+
+const SORT_LABELS: Record<EventSortKey, string> = {
+    time: 'Origin time',
+    magnitude: 'Magnitude',
+    depth: 'Depth',
+    distance: 'Distance from point',
+};
+
+const FilterBar: React.FC<{
+    filters: EventFilters;
+    onChange: (update: (filters: EventFilters) => EventFilters) => void;
+    matchCount: number;
+    totalCount: number;
+    isPickingPoint: boolean;
+    onPickingPointChange: (picking: boolean) => void;
+}> = ({ filters, onChange, matchCount, totalCount, isPickingPoint, onPickingPointChange }) => {
+    const [copied, setCopied] = useState(false);
+    const set = <K extends keyof EventFilters>(key: K, value: EventFilters[K]) => onChange(f => ({ ...f, [key]: value }));
+    const inputClass = "bg-gray-100 dark:bg-sentinel-dark border border-gray-300 dark:border-sentinel-border text-gray-800 dark:text-sentinel-text-primary text-sm rounded-md p-2";
+    const labelClass = "flex flex-col text-xs text-gray-500 dark:text-sentinel-text-secondary gap-1";
+
+    const handleCopyLink = async () => {
+        try {
+            await navigator.clipboard.writeText(window.location.href);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        } catch (err) {
+            console.error(err);
+        }
+    };
+
+    const handleReferenceChange = (axis: 'lat' | 'lon', value: string) => {
+        const parsed = parseFloat(value);
+        onChange(f => {
+            const current = f.distanceFrom ?? { lat: 0, lon: 0 };
+            return { ...f, distanceFrom: Number.isFinite(parsed) ? { ...current, [axis]: parsed } : null };
+        });
+    };
+
+    return (
+        <div className="p-4 mb-4 rounded-lg bg-white dark:bg-sentinel-body border border-gray-200 dark:border-sentinel-border">
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-2 lg:grid-cols-4">
+                <div className={labelClass}>
+                    <span>Magnitude: M{filters.minMagnitude.toFixed(1)} – {filters.maxMagnitude >= MAX_FILTER_MAGNITUDE ? 'max' : `M${filters.maxMagnitude.toFixed(1)}`}</span>
+                    <input type="range" min="0" max={MAX_FILTER_MAGNITUDE} step="0.1" value={filters.minMagnitude} onChange={e => { const v = parseFloat(e.target.value); onChange(f => ({ ...f, minMagnitude: v, maxMagnitude: Math.max(v, f.maxMagnitude) })); }} className="accent-sentinel-accent" aria-label="Minimum magnitude" />
+                    <input type="range" min="0" max={MAX_FILTER_MAGNITUDE} step="0.1" value={filters.maxMagnitude} onChange={e => { const v = parseFloat(e.target.value); onChange(f => ({ ...f, maxMagnitude: v, minMagnitude: Math.min(v, f.minMagnitude) })); }} className="accent-sentinel-accent" aria-label="Maximum magnitude" />
+                </div>
+                <div className={labelClass}>
+                    <span>Depth: {filters.minDepth} – {filters.maxDepth >= MAX_FILTER_DEPTH_KM ? `${MAX_FILTER_DEPTH_KM}+` : filters.maxDepth} km</span>
+                    <input type="range" min="0" max={MAX_FILTER_DEPTH_KM} step="10" value={filters.minDepth} onChange={e => { const v = parseFloat(e.target.value); onChange(f => ({ ...f, minDepth: v, maxDepth: Math.max(v, f.maxDepth) })); }} className="accent-sentinel-accent" aria-label="Minimum depth" />
+                    <input type="range" min="0" max={MAX_FILTER_DEPTH_KM} step="10" value={filters.maxDepth} onChange={e => { const v = parseFloat(e.target.value); onChange(f => ({ ...f, maxDepth: v, minDepth: Math.min(v, f.minDepth) })); }} className="accent-sentinel-accent" aria-label="Maximum depth" />
+                </div>
+                <div className="flex flex-col gap-2">
+                    <input type="search" placeholder="Search region or place name" value={filters.search} onChange={e => set('search', e.target.value)} className={inputClass} />
+                    <select value={filters.windowHours ?? ''} onChange={e => set('windowHours', e.target.value === '' ? null : parseFloat(e.target.value))} className={inputClass} aria-label="Time window">
+                        {TIME_WINDOW_OPTIONS.map(option => <option key={option.label} value={option.hours ?? ''}>{option.label}</option>)}
+                    </select>
+                </div>
+                <div className="flex flex-col gap-2">
+                    <select value={filters.sort} onChange={e => set('sort', e.target.value as EventSortKey)} className={inputClass} aria-label="Sort by">
+                        {(Object.keys(SORT_LABELS) as EventSortKey[]).map(key => <option key={key} value={key}>Sort: {SORT_LABELS[key]}</option>)}
+                    </select>
+                    {filters.sort === 'distance' && (
+                        <div className="flex items-center gap-2">
+                            <input type="number" step="any" placeholder="Lat" value={filters.distanceFrom?.lat ?? ''} onChange={e => handleReferenceChange('lat', e.target.value)} className={`w-20 ${inputClass}`} aria-label="Reference latitude" />
+                            <input type="number" step="any" placeholder="Lon" value={filters.distanceFrom?.lon ?? ''} onChange={e => handleReferenceChange('lon', e.target.value)} className={`w-20 ${inputClass}`} aria-label="Reference longitude" />
+                            <button type="button" onClick={() => onPickingPointChange(!isPickingPoint)} className={`text-xs px-2 py-1 rounded-md border ${isPickingPoint ? 'border-warning text-warning' : 'border-gray-300 dark:border-sentinel-border text-gray-600 dark:text-sentinel-text-secondary'}`}>
+                                {isPickingPoint ? 'Click the map…' : 'Pick on map'}
+                            </button>
+                        </div>
+                    )}
+                </div>
+            </div>
+            <div className="mt-3 flex flex-wrap items-center gap-2 text-xs">
+                {ALERT_LEVELS.map(level => {
+                    const active = filters.alertLevels.includes(level);
+                    return (
+                        <button
+                            key={level}
+                            type="button"
+                            onClick={() => set('alertLevels', active ? filters.alertLevels.filter(l => l !== level) : [...filters.alertLevels, level])}
+                            className={`px-2 py-1 rounded-full border capitalize ${active ? 'border-sentinel-accent bg-sentinel-accent/20 text-sentinel-accent' : 'border-gray-300 dark:border-sentinel-border text-gray-600 dark:text-sentinel-text-secondary'}`}
+                            aria-pressed={active}
+                        >
+                            {level}
+                        </button>
+                    );
+                })}
+                <label className="flex items-center space-x-1 ml-2 text-gray-600 dark:text-sentinel-text-secondary">
+                    <input type="checkbox" checked={filters.tsunamiOnly} onChange={e => set('tsunamiOnly', e.target.checked)} className="accent-sentinel-accent" />
+                    <span>Tsunami flag only</span>
+                </label>
+                <span className="ml-auto text-gray-500 dark:text-sentinel-text-secondary">{matchCount} of {totalCount} events</span>
+                {isFiltered(filters) && <button type="button" onClick={() => onChange(f => ({ ...DEFAULT_EVENT_FILTERS, sort: f.sort, distanceFrom: f.distanceFrom }))} className="text-gray-600 dark:text-sentinel-text-secondary hover:underline">Reset</button>}
+                <button type="button" onClick={handleCopyLink} className="text-sentinel-accent hover:underline">{copied ? 'Link copied' : 'Copy link'}</button>
+            </div>
+        </div>
+    );
+};
+
+const latestBulletin = (event: EarthquakeEvent) => event.bulletins?.[event.bulletins.length - 1];
+
+export const TsunamiAlertsCard: React.FC<{ events: EarthquakeEvent[] }> = ({ events }) => {
+    const activeAlerts = events.filter(e => e.alertLevel !== 'none' && e.alertLevel !== 'info');
+    const cancelledAlerts = events.filter(e => e.alertLevelSource === 'bulletin' && e.alertLevel === 'none' && latestBulletin(e)?.cancelled);
+    return (
+        <div className="p-6 rounded-lg bg-white dark:bg-sentinel-body border border-gray-200 dark:border-sentinel-border">
+            <h2 className="text-lg font-bold text-gray-900 dark:text-sentinel-text-primary mb-4 flex items-center">
+                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" /></svg>
+                Tsunami Alerts
+            </h2>
+            {activeAlerts.length > 0 ? (
+                <div className="space-y-3">
+                    {activeAlerts.map(alert => {
+                        const bulletin = alert.alertLevelSource === 'bulletin' ? latestBulletin(alert) : undefined;
+                        return (
+                            <div key={alert.id} className="p-3 rounded-md bg-danger/20 text-danger border border-danger/50">
+                                <div className="flex justify-between items-center">
+                                    <p className="font-bold uppercase text-sm">{alert.alertLevel}</p>
+                                    <span className="text-[10px] font-bold uppercase tracking-wide px-1.5 py-0.5 rounded border border-danger/50">
+                                        {bulletin ? `Official · ${bulletin.center}` : 'Inferred'}
+                                    </span>
+                                </div>
+                                <p className="text-xs">{alert.title}</p>
+                                {bulletin && (
+                                    <div className="text-xs mt-1 space-y-0.5">
+                                        <p>Issued {formatDateTime(bulletin.issued)}{bulletin.expires && ` · Expires ${formatDateTime(bulletin.expires)}`}</p>
+                                        {bulletin.zones.length > 0 && (
+                                            <p>Zones: {bulletin.zones.slice(0, 6).join(', ')}{bulletin.zones.length > 6 && ` +${bulletin.zones.length - 6} more`}</p>
+                                        )}
+                                    </div>
+                                )}
+                                {!bulletin && alert.threat && <ThreatRationale threat={alert.threat} className="text-xs mt-1" />}
+                                <a href={bulletin?.link || alert.link} target="_blank" rel="noopener noreferrer" className="text-xs font-semibold hover:underline mt-1 inline-block">View {bulletin ? 'Bulletin' : 'Alert'} &rarr;</a>
+                            </div>
+                        );
+                    })}
+                </div>
+            ) : (
+                <p className="text-center text-gray-500 dark:text-sentinel-text-secondary py-8">No alerts at this time</p>
+            )}
+            {cancelledAlerts.length > 0 && (
+                <div className="mt-3 space-y-2">
+                    {cancelledAlerts.map(event => (
+                        <div key={event.id} className="p-2 rounded-md text-xs bg-gray-100 dark:bg-sentinel-dark text-gray-500 dark:text-sentinel-text-secondary border border-gray-200 dark:border-sentinel-border">
+                            <span className="font-bold uppercase">Cancelled</span> &middot; {latestBulletin(event)?.center} &middot; {event.title}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+// Hourly fronts for the first half day, then every three hours; a Pacific-wide tsunami crosses in about a day.
+const ISOCHRONE_HOURS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 15, 18, 21, 24];
+
+/** The event whose arrival times to show: the selected one, else the latest with a tsunami threat, else the latest significant one. */
+const travelTimeEventFor = (events: EarthquakeEvent[], selectedEventId: string | null): EarthquakeEvent | null =>
+    events.find(e => e.id === selectedEventId)
+    ?? events.find(e => e.isTsunamiWarning || e.alertLevel === 'advisory' || e.alertLevel === 'watch' || e.alertLevel === 'warning')
+    ?? events[0]
+    ?? null;
+
+const TravelTimeCard: React.FC<{
+    event: EarthquakeEvent | null;
+    arrivals: ArrivalEstimate[] | null;
+    points: CoastalPoint[];
+    onPointsChange: (points: CoastalPoint[]) => void;
+    showIsochrones: boolean;
+    onShowIsochronesChange: (show: boolean) => void;
+}> = ({ event, arrivals, points, onPointsChange, showIsochrones, onShowIsochronesChange }) => {
+    const now = useNow(60 * 1000);
+    const [draft, setDraft] = useState({ name: '', lat: '', lon: '' });
+    const inputClass = "bg-gray-100 dark:bg-sentinel-dark border border-gray-300 dark:border-sentinel-border text-gray-800 dark:text-sentinel-text-primary text-sm rounded-md p-2";
+    const lat = parseFloat(draft.lat);
+    const lon = parseFloat(draft.lon);
+    const draftValid = draft.name.trim() !== '' && Math.abs(lat) <= 90 && Math.abs(lon) <= 180;
+
+    const handleAddPoint = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draftValid) return;
+        onPointsChange([...points, { id: `point-${Date.now()}`, name: draft.name.trim(), lat, lon }]);
+        setDraft({ name: '', lat: '', lon: '' });
+    };
+
+    return (
+        <div className="p-6 rounded-lg bg-white dark:bg-sentinel-body border border-gray-200 dark:border-sentinel-border">
+            <div className="flex items-center justify-between mb-1">
+                <h2 className="text-lg font-bold text-gray-900 dark:text-sentinel-text-primary flex items-center">
+                    <svg xmlns="http://www.w3.org/2000/svg" className="w-5 h-5 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 15c2 0 2-2 4.5-2S10 15 12 15s2.5-2 4.5-2 2.5 2 4.5 2M3 19c2 0 2-2 4.5-2S10 19 12 19s2.5-2 4.5-2 2.5 2 4.5 2M12 3v7m0 0l-3-3m3 3l3-3" /></svg>
+                    Estimated Arrival Times
+                </h2>
+                <label className="flex items-center space-x-1 text-xs text-gray-500 dark:text-sentinel-text-secondary">
+                    <input type="checkbox" checked={showIsochrones} onChange={e => onShowIsochronesChange(e.target.checked)} className="accent-sentinel-accent" />
+                    <span>Show on map</span>
+                </label>
+            </div>
+            {event && <p className="text-xs text-gray-500 dark:text-sentinel-text-secondary mb-1">M{event.magnitude.toFixed(1)} {event.location} &middot; origin {formatDateTime(event.time)}</p>}
+            <p className="text-xs text-warning mb-3">Estimates only: ocean depths come from a coarse 1° grid, so the first wave can arrive an hour or more either side of these times.</p>
+            {!event ? (
+                <p className="text-center text-gray-500 dark:text-sentinel-text-secondary py-4">No earthquake selected.</p>
+            ) : !arrivals ? (
+                <p className="text-center text-gray-500 dark:text-sentinel-text-secondary py-4">The epicentre is too far inland for a tsunami estimate.</p>
+            ) : (
+                <div className="max-h-72 overflow-y-auto pr-2 scrollbar-thin scrollbar-thumb-gray-300 dark:scrollbar-thumb-sentinel-border scrollbar-track-gray-100 dark:scrollbar-track-sentinel-body">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-xs text-gray-500 dark:text-sentinel-text-secondary">
+                                <th className="font-semibold pb-1">Location</th>
+                                <th className="font-semibold pb-1">Travel time</th>
+                                <th className="font-semibold pb-1">Arrival</th>
+                                <th></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {arrivals.map(({ point, minutes, arrival }) => (
+                                <tr key={point.id} className="border-t border-gray-200 dark:border-sentinel-border text-gray-800 dark:text-sentinel-text-primary">
+                                    <td className="py-1 pr-2">{point.name}</td>
+                                    <td className="py-1 pr-2 whitespace-nowrap">{minutes === null ? '—' : formatTravelTime(minutes)}</td>
+                                    <td className="py-1 pr-2 text-xs whitespace-nowrap">
+                                        {!arrival ? <span className="text-gray-500 dark:text-sentinel-text-secondary">Not reachable</span>
+                                            : arrival < now ? <span className="text-gray-500 dark:text-sentinel-text-secondary">{formatDateTime(arrival)} (passed)</span>
+                                            : <span className="font-semibold text-warning">{formatDateTime(arrival)}</span>}
+                                    </td>
+                                    <td className="py-1 text-right">
+                                        <button onClick={() => onPointsChange(points.filter(p => p.id !== point.id))} className="text-gray-400 dark:text-sentinel-text-secondary hover:text-danger" aria-label={`Remove ${point.name}`}>&times;</button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+            <form onSubmit={handleAddPoint} className="mt-3 flex items-center space-x-2">
+                <input type="text" placeholder="Port or tide gauge" value={draft.name} onChange={e => setDraft(d => ({ ...d, name: e.target.value }))} className={`w-full ${inputClass}`} />
+                <input type="number" step="any" placeholder="Lat" value={draft.lat} onChange={e => setDraft(d => ({ ...d, lat: e.target.value }))} className={`w-20 ${inputClass}`} aria-label="Latitude" />
+                <input type="number" step="any" placeholder="Lon" value={draft.lon} onChange={e => setDraft(d => ({ ...d, lon: e.target.value }))} className={`w-20 ${inputClass}`} aria-label="Longitude" />
+                <button type="submit" disabled={!draftValid} className="text-xs bg-sentinel-info text-white px-3 py-2 rounded-md hover:bg-sentinel-accent transition-colors disabled:opacity-50 disabled:cursor-not-allowed">Add</button>
+            </form>
+            <div className="mt-2 flex justify-between text-xs text-gray-500 dark:text-sentinel-text-secondary">
+                <span>Shallow-water estimate over coarse bathymetry; official centres' forecasts take precedence.</span>
+                <button onClick={() => onPointsChange(DEFAULT_COASTAL_POINTS)} className="hover:underline whitespace-nowrap ml-2">Reset list</button>
+            </div>
+        </div>
+    );
+};
+
+const TemplatePreview: React.FC<{ profile: AlertProfile; event: EarthquakeEvent | null }> = ({ profile, event }) => {
+    const preview = useMemo<RenderedAlertMessage | null>(() => {
+        if (!event) return null;
+        try {
+            return renderAlertMessage(alertTemplatesFrom(profile), event);
+        } catch {
+            return null; // The editor already shows the syntax error.
+        }
+    }, [profile, event]);
+
+    if (!event) {
+        return <p className="text-xs text-gray-500 dark:text-sentinel-text-secondary">The preview appears once an event has loaded.</p>;
+    }
+    if (!preview) return null;
+    return (
+        <div className="rounded-md border border-gray-200 dark:border-sentinel-border text-xs">
+            <p className="px-2 py-1 border-b border-gray-200 dark:border-sentinel-border text-gray-500 dark:text-sentinel-text-secondary">Preview · {event.location}</p>
+            <div className="p-2 space-y-2">
+                <p className="font-semibold text-gray-800 dark:text-sentinel-text-primary">{preview.subject}</p>
+                <p className="whitespace-pre-wrap text-gray-600 dark:text-sentinel-text-secondary">{preview.text}</p>
+                {preview.html && (
+                    // Sandboxed so a template can't run scripts in the dashboard.
+                    <iframe title="HTML preview" sandbox="" srcDoc={preview.html} className="w-full h-40 rounded bg-white border border-gray-200 dark:border-sentinel-border" />
+                )}
+            </div>
+        </div>
+    );
+};
+
+const defaultChannelFor = (type: ChannelType): ChannelConfig => {
+    const id = `${type}-${Date.now()}`;
+    if (type === 'email') return { id, type, enabled: true };
+    if (type === 'desktop') return { id, type, enabled: true, soundOnWarning: true };
+    if (type === 'sms') return { id, type, enabled: true, gatewayUrl: '', numbers: [], template: DEFAULT_SMS_TEMPLATE, maxLength: SMS_MAX_LENGTH };
+    return { id, type, enabled: true, webhookUrl: '' };
+};
+
+const TRANSPORT_LABELS: Record<TransportConfig['type'], string> = {
+    sink: 'Console / file sink (testing)',
+    webhook: 'HTTP webhook',
+    smtp: 'SMTP (server runtime only)',
+};
+
+const defaultTransportFor = (type: TransportConfig['type']): TransportConfig => {
+    if (type === 'smtp') return { type, host: 'localhost', port: 25, secure: false, from: 'sentinel@localhost' };
+    if (type === 'webhook') return { type, url: '' };
+    return { type };
+};
+
+const TransportSettings: React.FC<{ transport: TransportConfig; onChange: (transport: TransportConfig) => void }> = ({ transport, onChange }) => {
+    const inputClass = "w-full bg-gray-100 dark:bg-sentinel-dark border border-gray-300 dark:border-sentinel-border text-gray-800 dark:text-sentinel-text-primary text-sm rounded-md p-2";
+    return (
+        <div className="space-y-2">
+            <label htmlFor="transport-type" className="block text-sm font-medium text-gray-500 dark:text-sentinel-text-secondary">Delivery Transport</label>
+            <select id="transport-type" value={transport.type} onChange={e => onChange(defaultTransportFor(e.target.value as TransportConfig['type']))} className={inputClass}>
+                {(Object.keys(TRANSPORT_LABELS) as TransportConfig['type'][]).map(type => <option key={type} value={type}>{TRANSPORT_LABELS[type]}</option>)}
+            </select>
+            {transport.type === 'webhook' && (
+                <input type="url" placeholder="https://hooks.example.com/alerts" value={transport.url} onChange={e => onChange({ ...transport, url: e.target.value })} className={inputClass} />
+            )}
+            {transport.type === 'smtp' && (
+                <div className="grid grid-cols-3 gap-2">
+                    <input type="text" placeholder="Host" value={transport.host} onChange={e => onChange({ ...transport, host: e.target.value })} className={`col-span-2 ${inputClass}`} />
+                    <input type="number" placeholder="Port" value={transport.port} onChange={e => onChange({ ...transport, port: parseInt(e.target.value, 10) || 25 })} className={inputClass} />
+                    <input type="text" placeholder="Username" value={transport.username ?? ''} onChange={e => onChange({ ...transport, username: e.target.value || undefined })} className={inputClass} />
+                    <input type="password" placeholder="Password" value={transport.password ?? ''} onChange={e => onChange({ ...transport, password: e.target.value || undefined })} className={inputClass} />
+                    <label className="flex items-center space-x-1 text-xs text-gray-500 dark:text-sentinel-text-secondary">
+                        <input type="checkbox" checked={transport.secure} onChange={e => onChange({ ...transport, secure: e.target.checked })} className="accent-sentinel-accent" />
+                        <span>TLS</span>
+                    </label>
+                    <input type="email" placeholder="From address" value={transport.from} onChange={e => onChange({ ...transport, from: e.target.value })} className={`col-span-3 ${inputClass}`} />
+                </div>
+            )}
+        </div>
+    );
+};
+
+const ChannelSettings: React.FC<{ channels: ChannelConfig[]; onChange: (channels: ChannelConfig[]) => void }> = ({ channels, onChange }) => {
+    const [newType, setNewType] = useState<ChannelType>('desktop');
+    const [permission, setPermission] = useState(() => (typeof Notification === 'undefined' ? 'unsupported' : Notification.permission));
+    const inputClass = "w-full bg-gray-100 dark:bg-sentinel-dark border border-gray-300 dark:border-sentinel-border text-gray-800 dark:text-sentinel-text-primary text-sm rounded-md p-2";
+
+    const update = (id: string, patch: Partial<ChannelConfig>) => {
+        onChange(channels.map(c => (c.id === id ? ({ ...c, ...patch } as ChannelConfig) : c)));
+    };
+
+    // Browsers only show the permission prompt in response to a user gesture.
+    const requestPermission = async () => {
+        if (typeof Notification === 'undefined') return;
+        setPermission(await Notification.requestPermission());
+    };
+
+    return (
+        <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-500 dark:text-sentinel-text-secondary">Notification Channels</label>
+            {channels.map(channel => (
+                <div key={channel.id} className="p-2 rounded-md bg-gray-100 dark:bg-sentinel-dark space-y-2">
+                    <div className="flex justify-between items-center text-sm">
+                        <label className="flex items-center space-x-2 text-gray-800 dark:text-sentinel-text-primary">
+                            <input type="checkbox" checked={channel.enabled} onChange={() => update(channel.id, { enabled: !channel.enabled })} className="accent-sentinel-accent" />
+                            <span className="font-semibold">{CHANNEL_LABELS[channel.type]}</span>
+                        </label>
+                        {channel.type !== 'email' && (
+                            <button type="button" onClick={() => onChange(channels.filter(c => c.id !== channel.id))} className="text-xs text-gray-400 dark:text-sentinel-text-secondary hover:text-danger">Remove</button>
+                        )}
+                    </div>
+                    {channel.type === 'email' && <p className="text-xs text-gray-500 dark:text-sentinel-text-secondary">Sends to the profile's recipients using the delivery transport below.</p>}
+                    {channel.type === 'desktop' && (
+                        <div className="flex justify-between items-center text-xs text-gray-500 dark:text-sentinel-text-secondary">
+                            <label className="flex items-center space-x-1">
+                                <input type="checkbox" checked={channel.soundOnWarning} onChange={() => update(channel.id, { soundOnWarning: !channel.soundOnWarning })} className="accent-sentinel-accent" />
+                                <span>Sound on warnings</span>
+                            </label>
+                            {permission === 'granted' ? <span>Permission granted</span> : permission === 'unsupported' ? <span>Not supported in this browser</span> : (
+                                <button type="button" onClick={requestPermission} className="text-sentinel-accent hover:underline">Allow notifications</button>
+                            )}
+                        </div>
+                    )}
+                    {(channel.type === 'slack' || channel.type === 'teams' || channel.type === 'discord') && (
+                        <input type="url" placeholder="Incoming webhook URL" value={channel.webhookUrl} onChange={e => update(channel.id, { webhookUrl: e.target.value })} className={inputClass} />
+                    )}
+                    {channel.type === 'sms' && (
+                        <>
+                            <input type="url" placeholder="SMS gateway URL" value={channel.gatewayUrl} onChange={e => update(channel.id, { gatewayUrl: e.target.value })} className={inputClass} />
+                            <input type="password" placeholder="Gateway token (optional)" value={channel.authToken ?? ''} onChange={e => update(channel.id, { authToken: e.target.value || undefined })} className={inputClass} />
+                            <input type="text" placeholder="Phone numbers (comma-separated)" value={channel.numbers.join(', ')} onChange={e => update(channel.id, { numbers: e.target.value.split(',').map(n => n.trim()).filter(Boolean) })} className={inputClass} />
+                            <textarea rows={2} value={channel.template} onChange={e => update(channel.id, { template: e.target.value })} className={inputClass} aria-label="SMS template" />
+                            <p className="text-xs text-gray-500 dark:text-sentinel-text-secondary">Messages are cut to {channel.maxLength} characters.</p>
+                        </>
+                    )}
+                </div>
+            ))}
+            <div className="flex items-center space-x-2">
+                <select value={newType} onChange={e => setNewType(e.target.value as ChannelType)} className={inputClass} aria-label="Channel type">
+                    {(Object.keys(CHANNEL_LABELS) as ChannelType[]).filter(type => type !== 'email').map(type => <option key={type} value={type}>{CHANNEL_LABELS[type]}</option>)}
+                </select>
+                <button type="button" onClick={() => onChange([...channels, defaultChannelFor(newType)])} className="text-xs bg-sentinel-info text-white px-3 py-2 rounded-md hover:bg-sentinel-accent shrink-0">Add Channel</button>
+            </div>
+        </div>
+    );
+};
+
+const ChannelPicker: React.FC<{ channels: ChannelConfig[]; selected: string[] | undefined; onChange: (channelIds: string[]) => void }> = ({ channels, selected, onChange }) => {
+    const ids = selected ?? channels.map(c => c.id);
+    return (
+        <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-gray-500 dark:text-sentinel-text-secondary">
+            {channels.map(channel => (
+                <label key={channel.id} className="flex items-center space-x-1">
+                    <input
+                        type="checkbox"
+                        checked={ids.includes(channel.id)}
+                        onChange={() => onChange(ids.includes(channel.id) ? ids.filter(id => id !== channel.id) : [...ids, channel.id])}
+                        className="accent-sentinel-accent"
+                    />
+                    <span>{CHANNEL_LABELS[channel.type]}</span>
+                </label>
+            ))}
+        </div>
+    );
+};
+
+const QUIET_HOURS_ACTION_LABELS: Record<QuietHours['action'], string> = {
+    suppress: 'Suppress',
+    digest: 'Hold for a digest',
+};
+
+// Warnings always go out, so they can't be silenced by quiet hours.
+const QUIET_HOURS_LEVELS = ALERT_LEVELS.filter(level => level !== 'warning');
+
+const QuietHoursSettings: React.FC<{ windows: QuietHours[]; onChange: (windows: QuietHours[]) => void }> = ({ windows, onChange }) => {
+    const [draft, setDraft] = useState<Omit<QuietHours, 'id'>>(() => ({ start: '22:00', end: '07:00', timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone, maxLevel: 'advisory', action: 'digest' }));
+    const inputClass = "bg-gray-100 dark:bg-sentinel-dark border border-gray-300 dark:border-sentinel-border text-gray-800 dark:text-sentinel-text-primary text-sm rounded-md p-2";
+    const timeZoneValid = isValidTimeZone(draft.timeZone);
+
+    const handleAdd = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!timeZoneValid || draft.start === draft.end) return;
+        onChange([...windows, { ...draft, id: `quiet-${Date.now()}` }]);
+    };
+
+    return (
+        <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-500 dark:text-sentinel-text-secondary">Quiet Hours</label>
+            {windows.map(window => (
+                <div key={window.id} className="flex justify-between items-center bg-gray-100 dark:bg-sentinel-dark p-1.5 pl-3 rounded-md text-sm">
+                    <span className="text-gray-800 dark:text-sentinel-text-primary">
+                        {window.start}–{window.end} <span className="text-xs text-gray-500 dark:text-sentinel-text-secondary">{window.timeZone} &middot; {window.maxLevel} and below &middot; {QUIET_HOURS_ACTION_LABELS[window.action].toLowerCase()}</span>
+                    </span>
+                    <button type="button" onClick={() => onChange(windows.filter(w => w.id !== window.id))} className="text-xs text-gray-400 dark:text-sentinel-text-secondary hover:text-danger">Remove</button>
+                </div>
+            ))}
+            <form onSubmit={handleAdd} className="grid grid-cols-2 gap-2">
+                <input type="time" value={draft.start} onChange={e => setDraft(d => ({ ...d, start: e.target.value }))} className={inputClass} aria-label="Quiet hours start" />
+                <input type="time" value={draft.end} onChange={e => setDraft(d => ({ ...d, end: e.target.value }))} className={inputClass} aria-label="Quiet hours end" />
+                <input type="text" placeholder="Time zone, e.g. Pacific/Auckland" value={draft.timeZone} onChange={e => setDraft(d => ({ ...d, timeZone: e.target.value }))} className={`col-span-2 ${inputClass}`} aria-label="Time zone" />
+                <select value={draft.maxLevel} onChange={e => setDraft(d => ({ ...d, maxLevel: e.target.value as QuietHours['maxLevel'] }))} className={inputClass} aria-label="Applies to levels up to">
+                    {QUIET_HOURS_LEVELS.map(level => <option key={level} value={level}>{level} and below</option>)}
+                </select>
+                <select value={draft.action} onChange={e => setDraft(d => ({ ...d, action: e.target.value as QuietHours['action'] }))} className={inputClass} aria-label="Action">
+                    {(Object.keys(QUIET_HOURS_ACTION_LABELS) as QuietHours['action'][]).map(action => <option key={action} value={action}>{QUIET_HOURS_ACTION_LABELS[action]}</option>)}
+                </select>
+                <button type="submit" disabled={!timeZoneValid || draft.start === draft.end} className="col-span-2 text-xs bg-sentinel-info text-white px-3 py-2 rounded-md hover:bg-sentinel-accent disabled:opacity-50 disabled:cursor-not-allowed">Add Quiet Hours</button>
+            </form>
+            {!timeZoneValid && <p className="text-xs text-danger">Unknown time zone "{draft.timeZone}".</p>}
+            <p className="text-xs text-gray-500 dark:text-sentinel-text-secondary">Warnings and anything above the chosen level still go out. Held alerts are sent as one digest when the quiet hours end.</p>
+        </div>
+    );
+};
+
+const EscalationSettings: React.FC<{ policy: EscalationPolicy | undefined; channels: ChannelConfig[]; onChange: (policy: EscalationPolicy) => void }> = ({ policy, channels, onChange }) => {
+    const current = policy ?? { enabled: false, afterMinutes: 15, recipients: [] };
+    // Kept as typed so a trailing comma survives until the next address is entered.
+    const [recipientsText, setRecipientsText] = useState(current.recipients.join(', '));
+    const inputClass = "bg-gray-100 dark:bg-sentinel-dark border border-gray-300 dark:border-sentinel-border text-gray-800 dark:text-sentinel-text-primary text-sm rounded-md p-2";
+
+    return (
+        <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm text-gray-800 dark:text-sentinel-text-primary">
+                <input type="checkbox" checked={current.enabled} onChange={e => onChange({ ...current, enabled: e.target.checked })} className="accent-sentinel-accent" />
+                Escalate if not acknowledged within
+                <input
+                    type="number" min="1"
+                    value={current.afterMinutes}
+                    onChange={e => onChange({ ...current, afterMinutes: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                    className="w-16 bg-gray-100 dark:bg-sentinel-dark border border-gray-300 dark:border-sentinel-border text-gray-800 dark:text-sentinel-text-primary text-sm rounded-md p-1"
+                    aria-label="Escalation delay (minutes)"
+                />
+                min
+            </label>
+            <input
+                type="text"
+                placeholder="Secondary on-call recipients (comma-separated)"
+                value={recipientsText}
+                onChange={e => {
+                    setRecipientsText(e.target.value);
+                    onChange({ ...current, recipients: e.target.value.split(',').map(r => r.trim()).filter(Boolean) });
+                }}
+                className={`w-full ${inputClass}`}
+            />
+            {channels.length > 1 && <ChannelPicker channels={channels} selected={current.channelIds} onChange={channelIds => onChange({ ...current, channelIds })} />}
+            {current.enabled && current.recipients.length === 0 && <p className="text-xs text-warning">Add at least one recipient to escalate to.</p>}
+        </div>
+    );
+};
+
+const ProfileEditor: React.FC<{
+    profile: AlertProfile;
+    channels: ChannelConfig[];
+    onChange: (patch: Partial<AlertProfile>) => void;
+    onDelete?: () => void;
+    previewEvent: EarthquakeEvent | null;
+}> = ({ profile, channels, onChange, onDelete, previewEvent }) => {
+    const [newRecipient, setNewRecipient] = useState('');
+    const templates = alertTemplatesFrom(profile);
+    const templateErrors = {
+        subject: validateTemplate(templates.subject),
+        text: validateTemplate(templates.text),
+        html: templates.html ? validateTemplate(templates.html) : null,
+    };
+    const templateInputClass = "w-full bg-gray-100 dark:bg-sentinel-dark border border-gray-300 dark:border-sentinel-border text-gray-800 dark:text-sentinel-text-primary text-sm rounded-md p-2";
+
+    const handleAddRecipient = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (newRecipient && !profile.recipients.includes(newRecipient)) {
+            onChange({ recipients: [...profile.recipients, newRecipient] });
+            setNewRecipient('');
+        }
+    };
+
+    const handleRemoveRecipient = (recipientToRemove: string) => {
+        onChange({ recipients: profile.recipients.filter(r => r !== recipientToRemove) });
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center space-x-2">
+                <input type="text" value={profile.name} onChange={e => onChange({ name: e.target.value })} className={templateInputClass} aria-label="Profile name" />
+                <label className="flex items-center space-x-1 text-sm text-gray-800 dark:text-sentinel-text-primary shrink-0">
+                    <input type="checkbox" checked={profile.enabled} onChange={e => onChange({ enabled: e.target.checked })} className="accent-sentinel-accent" />
+                    <span>Active</span>
+                </label>
+                {onDelete && <button type="button" onClick={onDelete} className="text-xs text-gray-400 dark:text-sentinel-text-secondary hover:text-danger shrink-0">Delete</button>}
+            </div>
+            <div>
+                <label htmlFor="min-magnitude" className="block text-sm font-medium text-gray-500 dark:text-sentinel-text-secondary">Min. Magnitude: <span className="font-bold text-gray-800 dark:text-sentinel-text-primary">{profile.minMagnitude.toFixed(1)}</span></label>
+                <input
+                    id="min-magnitude" type="range" min="6.0" max="9.0" step="0.1"
+                    value={profile.minMagnitude}
+                    onChange={(e) => onChange({ minMagnitude: parseFloat(e.target.value) })}
+                    className="w-full h-2 bg-gray-200 dark:bg-sentinel-border rounded-lg appearance-none cursor-pointer accent-sentinel-accent"
+                />
+            </div>
+            <div>
+                <label className="flex items-center gap-2 text-sm text-gray-800 dark:text-sentinel-text-primary">
+                    <input
+                        type="checkbox"
+                        checked={profile.aftershockMinMagnitude !== undefined}
+                        onChange={e => onChange({ aftershockMinMagnitude: e.target.checked ? Math.max(profile.minMagnitude, 7) : undefined })}
+                    />
+                    Mainshock only, plus aftershocks of at least
+                    <input
+                        type="number" step="0.1" min="0" max="10"
+                        value={profile.aftershockMinMagnitude ?? ''}
+                        disabled={profile.aftershockMinMagnitude === undefined}
+                        onChange={e => onChange({ aftershockMinMagnitude: parseFloat(e.target.value) || 0 })}
+                        className="w-16 bg-gray-100 dark:bg-sentinel-dark border border-gray-300 dark:border-sentinel-border text-gray-800 dark:text-sentinel-text-primary text-sm rounded-md p-1 disabled:opacity-50"
+                        aria-label="Aftershock alert magnitude"
+                    />
+                </label>
+                <p className="text-xs text-gray-500 dark:text-sentinel-text-secondary mt-1">Applies to this profile's threshold and to the watch zones that use it.</p>
+            </div>
+            <div>
+                <label className="block text-sm font-medium text-gray-500 dark:text-sentinel-text-secondary mb-1">Alert Recipients</label>
+                <form onSubmit={handleAddRecipient} className="flex items-center space-x-2">
+                    <input type="email" placeholder="Add email address" value={newRecipient} onChange={e => setNewRecipient(e.target.value)} className={templateInputClass} />
+                    <button type="submit" className="p-2 bg-sentinel-info rounded-md hover:bg-sentinel-accent shrink-0">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-white" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 5a1 1 0 011 1v3h3a1 1 0 110 2h-3v3a1 1 0 11-2 0v-3H6a1 1 0 110-2h3V6a1 1 0 011-1z" clipRule="evenodd" /></svg>
+                    </button>
+                </form>
+                <div className="mt-2 space-y-1">
+                    {profile.recipients.map(r => (
+                        <div key={r} className="flex justify-between items-center bg-gray-100 dark:bg-sentinel-dark p-1.5 pl-3 rounded-md text-sm">
+                            <span className="text-gray-800 dark:text-sentinel-text-primary">{r}</span>
+                            <button onClick={() => handleRemoveRecipient(r)} className="text-gray-400 dark:text-sentinel-text-secondary hover:text-danger p-1 rounded-full">
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
+                            </button>
+                        </div>
+                    ))}
+                </div>
+                {channels.length > 1 && (
+                    <div className="mt-2">
+                        <ChannelPicker channels={channels} selected={profile.channelIds} onChange={channelIds => onChange({ channelIds })} />
+                    </div>
+                )}
+            </div>
+            <div className="space-y-2">
+                <label htmlFor="email-subject" className="block text-sm font-medium text-gray-500 dark:text-sentinel-text-secondary">Subject Template</label>
+                <input id="email-subject" type="text" value={templates.subject} onChange={e => onChange({ emailSubject: e.target.value })} className={templateInputClass} />
+                {templateErrors.subject && <p className="text-xs text-danger">{templateErrors.subject}</p>}
+                <label htmlFor="email-template" className="block text-sm font-medium text-gray-500 dark:text-sentinel-text-secondary">Plain-text Body Template</label>
+                <textarea
+                    id="email-template"
+                    rows={4}
+                    value={profile.emailTemplate}
+                    onChange={(e) => onChange({ emailTemplate: e.target.value })}
+                    className={templateInputClass}
+                ></textarea>
+                {templateErrors.text && <p className="text-xs text-danger">{templateErrors.text}</p>}
+                <label htmlFor="email-html-template" className="block text-sm font-medium text-gray-500 dark:text-sentinel-text-secondary">HTML Body Template (optional)</label>
+                <textarea
+                    id="email-html-template"
+                    rows={3}
+                    placeholder="<h1>M{magnitude} {location}</h1>"
+                    value={profile.emailHtmlTemplate ?? ''}
+                    onChange={(e) => onChange({ emailHtmlTemplate: e.target.value })}
+                    className={`${templateInputClass} font-mono`}
+                ></textarea>
+                {templateErrors.html && <p className="text-xs text-danger">{templateErrors.html}</p>}
+                <details className="text-xs text-gray-500 dark:text-sentinel-text-secondary">
+                    <summary className="cursor-pointer">Placeholders, filters and conditions</summary>
+                    <ul className="mt-1 space-y-0.5">
+                        {Object.entries(TEMPLATE_FIELDS).map(([name, description]) => (
+                            <li key={name}><code className="text-gray-800 dark:text-sentinel-text-primary">{`{${name}}`}</code> {description}</li>
+                        ))}
+                    </ul>
+                    <p className="mt-1">Filters: {TEMPLATE_FILTERS.map(f => `|${f}`).join(' ')}, e.g. {'{depth|mi}'}, {'{time|utc}'}, {'{title|truncate:60}'}.</p>
+                    <p className="mt-1">Conditions: {'{#if isTsunamiWarning}...{else}...{/if}'}, {'{#if magnitude >= 7.5}...{/if}'}, {'{#unless inZone}...{/unless}'}.</p>
+                </details>
+                <TemplatePreview profile={profile} event={previewEvent} />
+            </div>
+            <QuietHoursSettings windows={profile.quietHours ?? []} onChange={quietHours => onChange({ quietHours })} />
+            <EscalationSettings policy={profile.escalation} channels={channels} onChange={escalation => onChange({ escalation })} />
+        </div>
+    );
+};
+
+const AlertProfilesCard: React.FC<{
+    settings: AlertSettings;
+    setSettings: React.Dispatch<React.SetStateAction<AlertSettings>>;
+    previewEvent: EarthquakeEvent | null;
+}> = ({ settings, setSettings, previewEvent }) => {
+    const [selectedId, setSelectedId] = useState(DEFAULT_PROFILE_ID);
+    const profile = findProfile(settings.profiles, selectedId);
+    const channels = settings.channels ?? DEFAULT_CHANNELS;
+
+    const updateProfile = (id: string, patch: Partial<AlertProfile>) => {
+        setSettings(s => ({ ...s, profiles: s.profiles.map(p => (p.id === id ? { ...p, ...patch } : p)) }));
+    };
+
+    const handleAddProfile = () => {
+        const id = `profile-${Date.now()}`;
+        setSettings(s => ({ ...s, profiles: [...s.profiles, { ...DEFAULT_ALERT_PROFILE, id, name: `Profile ${s.profiles.length + 1}`, recipients: [] }] }));
+        setSelectedId(id);
+    };
+
+    // Zones that used a deleted profile fall back to the default one.
+    const handleDeleteProfile = (id: string) => {
+        setSettings(s => ({
+            ...s,
+            profiles: s.profiles.filter(p => p.id !== id),
+            zones: s.zones?.map(zone => (zone.profileId === id ? { ...zone, profileId: undefined } : zone)),
+        }));
+        setSelectedId(DEFAULT_PROFILE_ID);
+    };
+
+    return (
+        <div className="p-6 rounded-lg bg-white dark:bg-sentinel-body border border-gray-200 dark:border-sentinel-border">
+            <h2 className="text-lg font-bold text-gray-900 dark:text-sentinel-text-primary mb-4 flex items-center">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" viewBox="0 0 20 20" fill="currentColor">
+                    <path d="M2.003 5.884L10 9.882l7.997-3.998A2 2 0 0016 4H4a2 2 0 00-1.997 1.884z" />
+                    <path d="M18 8.118l-8 4-8-4V14a2 2 0 002 2h12a2 2 0 002-2V8.118z" />
+                </svg>
+                Alert Profiles
+            </h2>
+            <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                    <label className="text-sm font-medium text-gray-800 dark:text-sentinel-text-primary">Enable Alerts</label>
+                    <button
+                        onClick={() => setSettings(s => ({ ...s, notificationsEnabled: !s.notificationsEnabled }))}
+                        className={`relative inline-flex items-center h-6 rounded-full w-11 transition-colors ${settings.notificationsEnabled ? 'bg-sentinel-accent' : 'bg-gray-300 dark:bg-sentinel-border'}`}
+                    >
+                        <span className={`inline-block w-4 h-4 transform bg-white rounded-full transition-transform ${settings.notificationsEnabled ? 'translate-x-6' : 'translate-x-1'}`} />
+                    </button>
+                </div>
+
+                <fieldset className="space-y-4 disabled:opacity-50" disabled={!settings.notificationsEnabled}>
+                    <div className="flex flex-wrap gap-1 text-xs">
+                        {settings.profiles.map(p => (
+                            <button
+                                key={p.id}
+                                type="button"
+                                onClick={() => setSelectedId(p.id)}
+                                className={`px-2 py-1 rounded-md border ${p.id === profile?.id ? 'border-sentinel-accent text-sentinel-accent' : 'border-gray-300 dark:border-sentinel-border text-gray-500 dark:text-sentinel-text-secondary'} ${p.enabled ? '' : 'line-through'}`}
+                            >
+                                {p.name || 'Untitled'}
+                            </button>
+                        ))}
+                        <button type="button" onClick={handleAddProfile} className="px-2 py-1 rounded-md text-sentinel-accent hover:underline">+ New profile</button>
+                    </div>
+                    {profile && (
+                        <ProfileEditor
+                            key={profile.id}
+                            profile={profile}
+                            channels={channels}
+                            onChange={patch => updateProfile(profile.id, patch)}
+                            onDelete={profile.id === DEFAULT_PROFILE_ID ? undefined : () => handleDeleteProfile(profile.id)}
+                            previewEvent={previewEvent}
+                        />
+                    )}
+                    <div className="pt-4 border-t border-gray-200 dark:border-sentinel-border space-y-4">
+                        <p className="text-xs text-gray-500 dark:text-sentinel-text-secondary">Channels and the delivery transport are shared by every profile.</p>
+                        <ChannelSettings channels={channels} onChange={channels => setSettings(s => ({ ...s, channels }))} />
+                        <TransportSettings transport={settings.transport ?? DEFAULT_TRANSPORT} onChange={transport => setSettings(s => ({ ...s, transport }))} />
+                    </div>
+                </fieldset>
+            </div>
+        </div>
+    );
+};
+
+const DIGEST_PERIOD_LABELS: Record<DigestPeriod, string> = { daily: 'Daily', weekly: 'Weekly' };
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const DigestSettingsCard: React.FC<{
+    settings: DigestSettings;
+    setSettings: React.Dispatch<React.SetStateAction<DigestSettings>>;
+    channels: ChannelConfig[];
+    events: EarthquakeEvent[];
+    alerts: GeneratedAlert[];
+    lastRuns: Partial<Record<DigestPeriod, string>>;
+    /** Absent in server mode, where the server sends the digests. */
+    onSendTest?: (period: DigestPeriod) => GeneratedAlert | null;
+}> = ({ settings, setSettings, channels, events, alerts, lastRuns, onSendTest }) => {
+    const [previewPeriod, setPreviewPeriod] = useState<DigestPeriod>('daily');
+    // Kept as typed so a trailing comma survives until the next address is entered.
+    const [recipientsText, setRecipientsText] = useState(settings.recipients.join(', '));
+    const [testResult, setTestResult] = useState<string | null>(null);
+    const now = useNow(60 * 1000);
+    const inputClass = "bg-gray-100 dark:bg-sentinel-dark border border-gray-300 dark:border-sentinel-border text-gray-800 dark:text-sentinel-text-primary text-sm rounded-md p-2";
+    const templates = digestTemplatesFrom(settings);
+    const templateErrors = {
+        subject: validateTemplate(templates.subject, DIGEST_TEMPLATE_FIELDS),
+        text: validateTemplate(templates.text, DIGEST_TEMPLATE_FIELDS),
+        html: templates.html ? validateTemplate(templates.html, DIGEST_TEMPLATE_FIELDS) : null,
+    };
+    const timeZoneValid = isValidTimeZone(settings.timeZone);
+
+    const report = useMemo(() => {
+        const from = new Date(now.getTime() - DIGEST_PERIOD_DAYS[previewPeriod] * DAY_MS);
+        return buildDigestReport(previewPeriod, from, now, events, alerts, settings.minMagnitude);
+    }, [previewPeriod, now, events, alerts, settings.minMagnitude]);
+    const preview = useMemo<RenderedAlertMessage | null>(() => {
+        try {
+            return renderDigestMessage(templates, report);
+        } catch {
+            return null; // The editor already shows the syntax error.
+        }
+    }, [templates.subject, templates.text, templates.html, report]);
+
+    const handleSendTest = () => {
+        const alert = onSendTest?.(previewPeriod) ?? null;
+        if (!alert) {
+            setTestResult('Nothing to send: no events in the period.');
+        } else if (!alert.deliveries || alert.deliveries.length === 0) {
+            setTestResult('Added to the alert log; no recipients or channels to deliver to.');
+        } else {
+            setTestResult(`Sent to ${alert.deliveries.length} recipient(s). Delivery status is in the alert log.`);
+        }
+    };
+
+    return (
+        <div className="p-6 rounded-lg bg-white dark:bg-sentinel-body border border-gray-200 dark:border-sentinel-border">
+            <h2 className="text-lg font-bold text-gray-900 dark:text-sentinel-text-primary mb-4 flex items-center">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M6 2a1 1 0 00-1 1v1H4a2 2 0 00-2 2v10a2 2 0 002 2h12a2 2 0 002-2V6a2 2 0 00-2-2h-1V3a1 1 0 10-2 0v1H7V3a1 1 0 00-1-1zm0 5a1 1 0 000 2h8a1 1 0 100-2H6z" clipRule="evenodd" /></svg>
+                Scheduled Digests
+            </h2>
+            <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                    <label className="text-sm font-medium text-gray-800 dark:text-sentinel-text-primary">Send Digests</label>
+                    <button
+                        onClick={() => setSettings(s => ({ ...s, enabled: !s.enabled }))}
+                        className={`relative inline-flex items-center h-6 rounded-full w-11 transition-colors ${settings.enabled ? 'bg-sentinel-accent' : 'bg-gray-300 dark:bg-sentinel-border'}`}
+                    >
+                        <span className={`inline-block w-4 h-4 transform bg-white rounded-full transition-transform ${settings.enabled ? 'translate-x-6' : 'translate-x-1'}`} />
+                    </button>
+                </div>
+                <fieldset className="space-y-4 disabled:opacity-50" disabled={!settings.enabled}>
+                    <div className="space-y-2 text-sm text-gray-800 dark:text-sentinel-text-primary">
+                        <label className="flex items-center gap-2">
+                            <input type="checkbox" checked={settings.daily} onChange={e => setSettings(s => ({ ...s, daily: e.target.checked }))} className="accent-sentinel-accent" />
+                            Daily
+                        </label>
+                        <label className="flex items-center gap-2">
+                            <input type="checkbox" checked={settings.weekly} onChange={e => setSettings(s => ({ ...s, weekly: e.target.checked }))} className="accent-sentinel-accent" />
+                            Weekly, on
+                            <select value={settings.weekday} onChange={e => setSettings(s => ({ ...s, weekday: parseInt(e.target.value, 10) }))} className={inputClass} aria-label="Weekly digest day">
+                                {WEEKDAYS.map((day, i) => <option key={day} value={i}>{day}</option>)}
+                            </select>
+                        </label>
+                        <div className="flex items-center gap-2">
+                            <span>at</span>
+                            <input type="time" value={settings.time} onChange={e => setSettings(s => ({ ...s, time: e.target.value }))} className={inputClass} aria-label="Digest time" />
+                            <input type="text" value={settings.timeZone} onChange={e => setSettings(s => ({ ...s, timeZone: e.target.value }))} className={`w-full ${inputClass}`} aria-label="Time zone" />
+                        </div>
+                        {!timeZoneValid && <p className="text-xs text-danger">Unknown time zone "{settings.timeZone}"; no digests are sent until it is fixed.</p>}
+                        <label className="flex items-center gap-2">
+                            Count events of at least M
+                            <input type="number" step="0.1" min="0" value={settings.minMagnitude} onChange={e => setSettings(s => ({ ...s, minMagnitude: parseFloat(e.target.value) || 0 }))} className={`w-20 ${inputClass}`} aria-label="Digest min. magnitude" />
+                        </label>
+                    </div>
+                    <div className="space-y-2">
+                        <label className="block text-sm font-medium text-gray-500 dark:text-sentinel-text-secondary">Digest Recipients</label>
+                        <input
+                            type="text"
+                            placeholder="Recipients (comma-separated)"
+                            value={recipientsText}
+                            onChange={e => {
+                                setRecipientsText(e.target.value);
+                                setSettings(s => ({ ...s, recipients: e.target.value.split(',').map(r => r.trim()).filter(Boolean) }));
+                            }}
+                            className={`w-full ${inputClass}`}
+                        />
+                        {channels.length > 1 && <ChannelPicker channels={channels} selected={settings.channelIds} onChange={channelIds => setSettings(s => ({ ...s, channelIds }))} />}
+                    </div>
+                    <div className="space-y-2">
+                        <label htmlFor="digest-subject" className="block text-sm font-medium text-gray-500 dark:text-sentinel-text-secondary">Subject Template</label>
+                        <input id="digest-subject" type="text" value={settings.subjectTemplate} onChange={e => setSettings(s => ({ ...s, subjectTemplate: e.target.value }))} className={`w-full ${inputClass}`} />
+                        {templateErrors.subject && <p className="text-xs text-danger">{templateErrors.subject}</p>}
+                        <label htmlFor="digest-template" className="block text-sm font-medium text-gray-500 dark:text-sentinel-text-secondary">Plain-text Body Template</label>
+                        <textarea id="digest-template" rows={6} value={settings.textTemplate} onChange={e => setSettings(s => ({ ...s, textTemplate: e.target.value }))} className={`w-full ${inputClass}`}></textarea>
+                        {templateErrors.text && <p className="text-xs text-danger">{templateErrors.text}</p>}
+                        <label htmlFor="digest-html-template" className="block text-sm font-medium text-gray-500 dark:text-sentinel-text-secondary">HTML Body Template (optional)</label>
+                        <textarea id="digest-html-template" rows={3} placeholder="<pre>{magnitudeBands}</pre>" value={settings.htmlTemplate ?? ''} onChange={e => setSettings(s => ({ ...s, htmlTemplate: e.target.value }))} className={`w-full ${inputClass} font-mono`}></textarea>
+                        {templateErrors.html && <p className="text-xs text-danger">{templateErrors.html}</p>}
+                        <details className="text-xs text-gray-500 dark:text-sentinel-text-secondary">
+                            <summary className="cursor-pointer">Placeholders</summary>
+                            <ul className="mt-1 space-y-0.5">
+                                {Object.entries(DIGEST_TEMPLATE_FIELDS).map(([name, description]) => (
+                                    <li key={name}><code className="text-gray-800 dark:text-sentinel-text-primary">{`{${name}}`}</code> {description}</li>
+                                ))}
+                            </ul>
+                            <p className="mt-1">Filters and conditions work as in alert templates, e.g. {'{#if tsunamiCount}...{/if}'}.</p>
+                        </details>
+                    </div>
+                </fieldset>
+                <div className="space-y-2">
+                    <div className="flex items-center justify-between text-xs">
+                        <select value={previewPeriod} onChange={e => setPreviewPeriod(e.target.value as DigestPeriod)} className={inputClass} aria-label="Preview period">
+                            {DIGEST_PERIODS.map(period => <option key={period} value={period}>{DIGEST_PERIOD_LABELS[period]} (last {DIGEST_PERIOD_DAYS[period] === 1 ? '24 hours' : `${DIGEST_PERIOD_DAYS[period]} days`})</option>)}
+                        </select>
+                        {onSendTest
+                            ? <button type="button" onClick={handleSendTest} className="bg-sentinel-info text-white px-3 py-2 rounded-md hover:bg-sentinel-accent">Send test digest now</button>
+                            : <span className="text-xs text-gray-500 dark:text-sentinel-text-secondary">Digests are sent by the server.</span>}
+                    </div>
+                    {testResult && <p className="text-xs text-gray-500 dark:text-sentinel-text-secondary">{testResult}</p>}
+                    {preview && (
+                        <div className="rounded-md border border-gray-200 dark:border-sentinel-border text-xs">
+                            <p className="px-2 py-1 border-b border-gray-200 dark:border-sentinel-border text-gray-500 dark:text-sentinel-text-secondary">Preview · {report.events.length} event(s), {report.alerts.length} alert(s)</p>
+                            <div className="p-2 space-y-2">
+                                <p className="font-semibold text-gray-800 dark:text-sentinel-text-primary">{preview.subject}</p>
+                                <p className="whitespace-pre-wrap text-gray-600 dark:text-sentinel-text-secondary">{preview.text}</p>
+                                {preview.html && (
+                                    // Sandboxed so a template can't run scripts in the dashboard.
+                                    <iframe title="HTML digest preview" sandbox="" srcDoc={preview.html} className="w-full h-40 rounded bg-white border border-gray-200 dark:border-sentinel-border" />
+                                )}
+                            </div>
+                        </div>
+                    )}
+                    <p className="text-xs text-gray-500 dark:text-sentinel-text-secondary">
+                        {DIGEST_PERIODS.map(period => `${DIGEST_PERIOD_LABELS[period]}: ${lastRuns[period] ? `last ran ${formatDateTime(new Date(lastRuns[period]!))}` : 'not run yet'}`).join(' · ')}.
+                        {' '}Periods without events are skipped, and only the latest missed digest is sent when the dashboard reopens.
+                    </p>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const FEED_KIND_LABELS: Record<FeedSourceKind, string> = {
+    'usgs-geojson': 'USGS GeoJSON',
+    'fdsn-text': 'FDSN text',
+    'nws-atom': 'NWS Atom',
+    'nws-cap': 'NWS CAP',
+};
+
+const DataSourcesCard: React.FC<{ sources: FeedSourceConfig[]; onChange: (sources: FeedSourceConfig[]) => void }> = ({ sources, onChange }) => {
+    const [newSource, setNewSource] = useState<{ name: string; kind: FeedSourceKind; url: string }>({ name: '', kind: 'usgs-geojson', url: '' });
+    const builtInIds = useMemo(() => new Set(DEFAULT_FEED_SOURCES.map(s => s.id)), []);
+
+    const handleToggle = (id: string) => {
+        onChange(sources.map(s => (s.id === id ? { ...s, enabled: !s.enabled } : s)));
+    };
+
+    const handleAddSource = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newSource.name || !newSource.url) return;
+        onChange([...sources, { ...newSource, id: `custom-${Date.now()}`, enabled: true }]);
+        setNewSource({ name: '', kind: newSource.kind, url: '' });
+    };
+
+    const handleRemoveSource = (id: string) => {
+        onChange(sources.filter(s => s.id !== id));
+    };
+
+    return (
+        <div className="p-6 rounded-lg bg-white dark:bg-sentinel-body border border-gray-200 dark:border-sentinel-border">
+            <h2 className="text-lg font-bold text-gray-900 dark:text-sentinel-text-primary mb-4 flex items-center">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" viewBox="0 0 20 20" fill="currentColor"><path d="M3 12v3c0 1.657 3.134 3 7 3s7-1.343 7-3v-3c0 1.657-3.134 3-7 3s-7-1.343-7-3z" /><path d="M3 7v3c0 1.657 3.134 3 7 3s7-1.343 7-3V7c0 1.657-3.134 3-7 3S3 8.657 3 7z" /><path d="M17 5c0 1.657-3.134 3-7 3S3 6.657 3 5s3.134-3 7-3 7 1.343 7 3z" /></svg>
+                Data Sources
+            </h2>
+            <div className="space-y-2">
+                {sources.map(source => (
+                    <div key={source.id} className="flex items-center justify-between bg-gray-100 dark:bg-sentinel-dark p-2 pl-3 rounded-md text-sm">
+                        <div className="min-w-0">
+                            <p className="text-gray-800 dark:text-sentinel-text-primary truncate">{source.name}</p>
+                            <p className="text-xs text-gray-500 dark:text-sentinel-text-secondary">{FEED_KIND_LABELS[source.kind]}</p>
+                        </div>
+                        <div className="flex items-center space-x-1 shrink-0">
+                            {!builtInIds.has(source.id) && (
+                                <button onClick={() => handleRemoveSource(source.id)} className="text-gray-400 dark:text-sentinel-text-secondary hover:text-danger p-1 rounded-full" aria-label={`Remove ${source.name}`}>
+                                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
+                                </button>
+                            )}
+                            <button
+                                onClick={() => handleToggle(source.id)}
+                                className={`relative inline-flex items-center h-6 rounded-full w-11 transition-colors ${source.enabled ? 'bg-sentinel-accent' : 'bg-gray-300 dark:bg-sentinel-border'}`}
+                                aria-label={`Toggle ${source.name}`}
+                            >
+                                <span className={`inline-block w-4 h-4 transform bg-white rounded-full transition-transform ${source.enabled ? 'translate-x-6' : 'translate-x-1'}`} />
+                            </button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+            <form onSubmit={handleAddSource} className="mt-4 space-y-2">
+                <label className="block text-sm font-medium text-gray-500 dark:text-sentinel-text-secondary">Add Custom Feed</label>
+                <div className="flex items-center space-x-2">
+                    <input type="text" placeholder="Name" value={newSource.name} onChange={e => setNewSource(s => ({ ...s, name: e.target.value }))} className="w-full bg-gray-100 dark:bg-sentinel-dark border border-gray-300 dark:border-sentinel-border text-gray-800 dark:text-sentinel-text-primary text-sm rounded-md p-2" />
+                    <select value={newSource.kind} onChange={e => setNewSource(s => ({ ...s, kind: e.target.value as FeedSourceKind }))} className="bg-gray-100 dark:bg-sentinel-dark border border-gray-300 dark:border-sentinel-border text-gray-800 dark:text-sentinel-text-primary text-sm rounded-md p-2">
+                        {(Object.keys(FEED_KIND_LABELS) as FeedSourceKind[]).map(kind => (
+                            <option key={kind} value={kind}>{FEED_KIND_LABELS[kind]}</option>
+                        ))}
+                    </select>
+                </div>
+                <div className="flex items-center space-x-2">
+                    <input type="url" placeholder="Feed URL" value={newSource.url} onChange={e => setNewSource(s => ({ ...s, url: e.target.value }))} className="w-full bg-gray-100 dark:bg-sentinel-dark border border-gray-300 dark:border-sentinel-border text-gray-800 dark:text-sentinel-text-primary text-sm rounded-md p-2" />
+                    <button type="submit" className="p-2 bg-sentinel-info rounded-md hover:bg-sentinel-accent shrink-0" aria-label="Add feed">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-white" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 5a1 1 0 011 1v3h3a1 1 0 110 2h-3v3a1 1 0 11-2 0v-3H6a1 1 0 110-2h3V6a1 1 0 011-1z" clipRule="evenodd" /></svg>
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+const THREAT_RULE_FIELD_LABELS: Record<ThreatRule['field'], string> = {
+    magnitude: 'Magnitude',
+    depth: 'Depth (km)',
+    coastDistanceKm: 'Distance to coast (km)',
+};
+
+const ThreatRulesCard: React.FC<{ rules: ThreatRule[]; onChange: (rules: ThreatRule[]) => void }> = ({ rules, onChange }) => {
+    const [draft, setDraft] = useState<Omit<ThreatRule, 'id' | 'enabled'>>({ description: '', field: 'magnitude', operator: '>=', value: 7.0, points: 10 });
+    const [showBuiltIn, setShowBuiltIn] = useState(false);
+
+    const handleAddRule = (e: React.FormEvent) => {
+        e.preventDefault();
+        const description = draft.description || `${THREAT_RULE_FIELD_LABELS[draft.field]} ${draft.operator} ${draft.value}`;
+        onChange([...rules, { ...draft, description, id: `user-${Date.now()}`, enabled: true }]);
+        setDraft(d => ({ ...d, description: '' }));
+    };
+
+    const inputClass = "bg-gray-100 dark:bg-sentinel-dark border border-gray-300 dark:border-sentinel-border text-gray-800 dark:text-sentinel-text-primary text-sm rounded-md p-2";
+
+    return (
+        <div className="p-6 rounded-lg bg-white dark:bg-sentinel-body border border-gray-200 dark:border-sentinel-border">
+            <h2 className="text-lg font-bold text-gray-900 dark:text-sentinel-text-primary mb-4 flex items-center">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M3 3a1 1 0 000 2v8a2 2 0 002 2h2.586l-1.293 1.293a1 1 0 101.414 1.414L10 15.414l2.293 2.293a1 1 0 001.414-1.414L12.414 15H15a2 2 0 002-2V5a1 1 0 100-2H3zm11.707 4.707a1 1 0 00-1.414-1.414L10 9.586 8.707 8.293a1 1 0 00-1.414 0l-2 2a1 1 0 101.414 1.414L8 10.414l1.293 1.293a1 1 0 001.414 0l4-4z" clipRule="evenodd" /></svg>
+                Threat Scoring Rules
+            </h2>
+            <button onClick={() => setShowBuiltIn(v => !v)} className="text-xs text-sentinel-accent hover:underline mb-2">
+                {showBuiltIn ? 'Hide' : 'Show'} built-in rules
+            </button>
+            {showBuiltIn && (
+                <ul className="mb-3 text-xs text-gray-500 dark:text-sentinel-text-secondary space-y-0.5">
+                    {BUILT_IN_THREAT_RULES.map(rule => (
+                        <li key={rule.id} className="flex justify-between"><span>{rule.description}</span><span className="font-mono">{rule.points > 0 ? `+${rule.points}` : rule.points}</span></li>
+                    ))}
+                </ul>
+            )}
+            <div className="space-y-1">
+                {rules.map(rule => (
+                    <div key={rule.id} className="flex justify-between items-center bg-gray-100 dark:bg-sentinel-dark p-1.5 pl-3 rounded-md text-sm">
+                        <label className="flex items-center space-x-2 text-gray-800 dark:text-sentinel-text-primary">
+                            <input type="checkbox" checked={rule.enabled} onChange={() => onChange(rules.map(r => (r.id === rule.id ? { ...r, enabled: !r.enabled } : r)))} className="accent-sentinel-accent" />
+                            <span>{rule.description}</span>
+                            <span className="font-mono text-xs text-gray-500 dark:text-sentinel-text-secondary">{rule.points > 0 ? `+${rule.points}` : rule.points}</span>
+                        </label>
+                        <button onClick={() => onChange(rules.filter(r => r.id !== rule.id))} className="text-gray-400 dark:text-sentinel-text-secondary hover:text-danger p-1 rounded-full" aria-label={`Remove ${rule.description}`}>
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
+                        </button>
+                    </div>
+                ))}
+            </div>
+            <form onSubmit={handleAddRule} className="mt-3 space-y-2">
+                <input type="text" placeholder="Rule description (optional)" value={draft.description} onChange={e => setDraft(d => ({ ...d, description: e.target.value }))} className={`w-full ${inputClass}`} />
+                <div className="flex items-center space-x-2">
+                    <select value={draft.field} onChange={e => setDraft(d => ({ ...d, field: e.target.value as ThreatRule['field'] }))} className={inputClass}>
+                        {(Object.keys(THREAT_RULE_FIELD_LABELS) as ThreatRule['field'][]).map(field => <option key={field} value={field}>{THREAT_RULE_FIELD_LABELS[field]}</option>)}
+                    </select>
+                    <select value={draft.operator} onChange={e => setDraft(d => ({ ...d, operator: e.target.value as ThreatRule['operator'] }))} className={inputClass}>
+                        {(['>=', '<=', '>', '<'] as ThreatRule['operator'][]).map(op => <option key={op} value={op}>{op}</option>)}
+                    </select>
+                    <input type="number" step="0.1" value={draft.value} onChange={e => setDraft(d => ({ ...d, value: parseFloat(e.target.value) || 0 }))} className={`w-20 ${inputClass}`} aria-label="Rule value" />
+                </div>
+                <div className="flex items-center space-x-2">
+                    <label className="text-sm text-gray-500 dark:text-sentinel-text-secondary">Points</label>
+                    <input type="number" value={draft.points} onChange={e => setDraft(d => ({ ...d, points: parseInt(e.target.value, 10) || 0 }))} className={`w-20 ${inputClass}`} />
+                    <button type="submit" className="ml-auto text-xs bg-sentinel-info text-white px-3 py-2 rounded-md hover:bg-sentinel-accent transition-colors">Add Rule</button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+const ZONE_SHAPE_LABELS: Record<ZoneShape['type'], string> = {
+    circle: 'Circle',
+    bbox: 'Bounding box',
+    polygon: 'Polygon',
+};
+
+const describeZoneShape = (shape: ZoneShape): string => {
+    if (shape.type === 'circle') return `${shape.radiusKm} km around ${shape.center.lat.toFixed(2)}°, ${shape.center.lon.toFixed(2)}°`;
+    if (shape.type === 'bbox') return `${shape.south.toFixed(1)}°..${shape.north.toFixed(1)}°N, ${shape.west.toFixed(1)}°..${shape.east.toFixed(1)}°E`;
+    return `${shape.points.length}-point polygon`;
+};
+
+const WatchZonesCard: React.FC<{
+    zones: WatchZone[];
+    channels: ChannelConfig[];
+    profiles: AlertProfile[];
+    onChange: (zones: WatchZone[]) => void;
+    isPicking: boolean;
+    onPickingChange: (picking: boolean) => void;
+    draftPoints: LatLon[];
+    onClearDraft: () => void;
+}> = ({ zones, channels, profiles, onChange, isPicking, onPickingChange, draftPoints, onClearDraft }) => {
+    const [draft, setDraft] = useState({ name: '', type: 'circle' as ZoneShape['type'], radiusKm: 300, minMagnitude: 6.5, maxDepth: '', recipients: '', channelIds: null as string[] | null, profileId: DEFAULT_PROFILE_ID });
+    const shape = shapeFromPoints(draft.type, draftPoints, draft.radiusKm);
+    const inputClass = "bg-gray-100 dark:bg-sentinel-dark border border-gray-300 dark:border-sentinel-border text-gray-800 dark:text-sentinel-text-primary text-sm rounded-md p-2";
+
+    const handleAddZone = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!draft.name || !shape) return;
+        const zone: WatchZone = {
+            id: `zone-${Date.now()}`,
+            name: draft.name,
+            shape,
+            minMagnitude: draft.minMagnitude,
+            maxDepth: draft.maxDepth === '' ? null : parseFloat(draft.maxDepth),
+            recipients: draft.recipients.split(',').map(r => r.trim()).filter(Boolean),
+            channelIds: draft.channelIds ?? undefined,
+            profileId: draft.profileId === DEFAULT_PROFILE_ID ? undefined : draft.profileId,
+            enabled: true,
+        };
+        onChange([...zones, zone]);
+        setDraft(d => ({ ...d, name: '', recipients: '', channelIds: null }));
+        onClearDraft();
+        onPickingChange(false);
+    };
+
+    return (
+        <div className="p-6 rounded-lg bg-white dark:bg-sentinel-body border border-gray-200 dark:border-sentinel-border">
+            <h2 className="text-lg font-bold text-gray-900 dark:text-sentinel-text-primary mb-4 flex items-center">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M5.05 4.05a7 7 0 119.9 9.9L10 18.9l-4.95-4.95a7 7 0 010-9.9zM10 11a2 2 0 100-4 2 2 0 000 4z" clipRule="evenodd" /></svg>
+                Watch Zones
+            </h2>
+            <div className="space-y-1">
+                {zones.length === 0 && <p className="text-sm text-gray-500 dark:text-sentinel-text-secondary">No watch zones defined. Alerts use the profile thresholds only.</p>}
+                {zones.map(zone => (
+                    <div key={zone.id} className="flex justify-between items-center bg-gray-100 dark:bg-sentinel-dark p-1.5 pl-3 rounded-md text-sm">
+                        <label className="flex items-start space-x-2 text-gray-800 dark:text-sentinel-text-primary min-w-0">
+                            <input type="checkbox" checked={zone.enabled} onChange={() => onChange(zones.map(z => (z.id === zone.id ? { ...z, enabled: !z.enabled } : z)))} className="mt-1 accent-sentinel-accent" />
+                            <span className="min-w-0">
+                                <span className="font-semibold">{zone.name}</span>
+                                <span className="block text-xs text-gray-500 dark:text-sentinel-text-secondary">
+                                    {describeZoneShape(zone.shape)} &middot; M{zone.minMagnitude.toFixed(1)}+{zone.maxDepth !== null && ` · ≤${zone.maxDepth} km`} &middot; {zone.recipients.length} recipient(s)
+                                    {zone.channelIds && ` · ${channels.filter(c => zone.channelIds!.includes(c.id)).map(c => CHANNEL_LABELS[c.type]).join(', ') || 'no channels'}`}
+                                    {zone.profileId && ` · ${findProfile(profiles, zone.profileId)?.name ?? 'default profile'}`}
+                                </span>
+                            </span>
+                        </label>
+                        <button onClick={() => onChange(zones.filter(z => z.id !== zone.id))} className="text-gray-400 dark:text-sentinel-text-secondary hover:text-danger p-1 rounded-full" aria-label={`Remove ${zone.name}`}>
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M4.293 4.293a1 1 0 011.414 0L10 8.586l4.293-4.293a1 1 0 111.414 1.414L11.414 10l4.293 4.293a1 1 0 01-1.414 1.414L10 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L8.586 10 4.293 5.707a1 1 0 010-1.414z" clipRule="evenodd" /></svg>
+                        </button>
+                    </div>
+                ))}
+            </div>
+            <form onSubmit={handleAddZone} className="mt-3 space-y-2">
+                <div className="flex items-center space-x-2">
+                    <input type="text" placeholder="Zone name" value={draft.name} onChange={e => setDraft(d => ({ ...d, name: e.target.value }))} className={`w-full ${inputClass}`} />
+                    <select value={draft.type} onChange={e => setDraft(d => ({ ...d, type: e.target.value as ZoneShape['type'] }))} className={inputClass}>
+                        {(Object.keys(ZONE_SHAPE_LABELS) as ZoneShape['type'][]).map(type => <option key={type} value={type}>{ZONE_SHAPE_LABELS[type]}</option>)}
+                    </select>
+                </div>
+                <div className="flex items-center justify-between text-xs text-gray-500 dark:text-sentinel-text-secondary">
+                    <span>
+                        {draftPoints.length} point(s) picked
+                        {draft.type === 'circle' ? ' · last click is the centre' : draft.type === 'bbox' ? ' · last two clicks are opposite corners' : ' · at least 3 points'}
+                    </span>
+                    <span className="space-x-2">
+                        <button type="button" onClick={() => onPickingChange(!isPicking)} className={`px-2 py-1 rounded-md border ${isPicking ? 'border-warning text-warning' : 'border-gray-300 dark:border-sentinel-border'}`}>
+                            {isPicking ? 'Stop drawing' : 'Draw on map'}
+                        </button>
+                        <button type="button" onClick={onClearDraft} className="hover:underline">Clear</button>
+                    </span>
+                </div>
+                <div className="flex items-center space-x-2">
+                    {draft.type === 'circle' && (
+                        <input type="number" min="10" value={draft.radiusKm} onChange={e => setDraft(d => ({ ...d, radiusKm: parseFloat(e.target.value) || 0 }))} className={`w-24 ${inputClass}`} aria-label="Radius (km)" title="Radius (km)" />
+                    )}
+                    <input type="number" step="0.1" min="0" value={draft.minMagnitude} onChange={e => setDraft(d => ({ ...d, minMagnitude: parseFloat(e.target.value) || 0 }))} className={`w-20 ${inputClass}`} aria-label="Min. magnitude" title="Min. magnitude" />
+                    <input type="number" min="0" placeholder="Max depth" value={draft.maxDepth} onChange={e => setDraft(d => ({ ...d, maxDepth: e.target.value }))} className={`w-28 ${inputClass}`} aria-label="Max. depth (km)" />
+                </div>
+                <input type="text" placeholder="Recipients (comma-separated)" value={draft.recipients} onChange={e => setDraft(d => ({ ...d, recipients: e.target.value }))} className={`w-full ${inputClass}`} />
+                {channels.length > 1 && <ChannelPicker channels={channels} selected={draft.channelIds ?? undefined} onChange={channelIds => setDraft(d => ({ ...d, channelIds }))} />}
+                {profiles.length > 1 && (
+                    <select value={draft.profileId} onChange={e => setDraft(d => ({ ...d, profileId: e.target.value }))} className={`w-full ${inputClass}`} aria-label="Alert profile">
+                        {profiles.map(profile => <option key={profile.id} value={profile.id}>Profile: {profile.name}</option>)}
+                    </select>
+                )}
+                <button type="submit" disabled={!draft.name || !shape} className="w-full text-xs bg-sentinel-info text-white px-3 py-2 rounded-md hover:bg-sentinel-accent transition-colors disabled:opacity-50 disabled:cursor-not-allowed">Add Zone</button>
+            </form>
+        </div>
+    );
+};
+
+const DELIVERY_STATUS_CLASSES: Record<DeliveryStatus, string> = {
+    queued: 'bg-gray-200 dark:bg-sentinel-border text-gray-600 dark:text-sentinel-text-secondary',
+    sent: 'bg-green-500/20 text-green-600 dark:text-green-400',
+    retrying: 'bg-warning/20 text-warning',
+    failed: 'bg-danger/20 text-danger',
+};
+
+const ALERT_KIND_BADGES: Record<AlertKind, { label: string; className: string }> = {
+    initial: { label: 'New', className: 'bg-sentinel-info/20 text-sentinel-accent' },
+    update: { label: 'Update', className: 'bg-warning/20 text-warning' },
+    cancelled: { label: 'Cancelled', className: 'bg-gray-200 dark:bg-sentinel-border text-gray-600 dark:text-sentinel-text-secondary' },
+    escalation: { label: 'Escalated', className: 'bg-danger/20 text-danger' },
+    digest: { label: 'Digest', className: 'bg-sentinel-info/20 text-sentinel-accent' },
+};
+
+const QUIET_HOURS_NOTES: Record<NonNullable<GeneratedAlert['quietHours']>, string> = {
+    held: 'Held during quiet hours for the next digest',
+    suppressed: 'Not sent: quiet hours',
+};
+
+export const GeneratedAlertsCard: React.FC<{
+    alerts: GeneratedAlert[];
+    onAcknowledge: (alertId: string, acknowledgedBy: string) => void;
+    onOpenReport: (event: EarthquakeEvent) => void;
+}> = ({ alerts, onAcknowledge, onOpenReport }) => {
+    const [copiedId, setCopiedId] = useState<string | null>(null);
+    const [operatorName, setOperatorName] = useSetting('operatorName', '');
+
+    // Alerts are stored newest first; a thread is listed by its latest message, oldest message on top.
+    const threads = useMemo(() => {
+        const byKey = new Map<string, GeneratedAlert[]>();
+        alerts.forEach(alert => {
+            const key = alert.threadKey ?? alert.id;
+            byKey.set(key, [alert, ...(byKey.get(key) ?? [])]);
+        });
+        return Array.from(byKey.entries());
+    }, [alerts]);
+
+    const handleCopy = (text: string, id: string) => {
+        navigator.clipboard.writeText(text);
+        setCopiedId(id);
+        setTimeout(() => setCopiedId(null), 2000);
+    };
+
+    return (
+        <div className="p-6 rounded-lg bg-white dark:bg-sentinel-body border border-gray-200 dark:border-sentinel-border">
+            <h2 className="text-lg font-bold text-gray-900 dark:text-sentinel-text-primary mb-4 flex items-center">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" viewBox="0 0 20 20" fill="currentColor"><path d="M8.707 7.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l2-2a1 1 0 00-1.414-1.414L11 8.586V3a1 1 0 10-2 0v5.586L8.707 7.293zM3 9a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1z" /><path d="M3 15a1 1 0 011-1h12a1 1 0 110 2H4a1 1 0 01-1-1z" /></svg>
+                Generated Email Alerts
+            </h2>
+            <input
+                type="text"
+                placeholder="Your name (recorded on acknowledgements)"
+                value={operatorName}
+                onChange={e => setOperatorName(e.target.value)}
+                className="w-full mb-3 bg-gray-100 dark:bg-sentinel-dark border border-gray-300 dark:border-sentinel-border text-gray-800 dark:text-sentinel-text-primary text-sm rounded-md p-2"
+            />
+             <div className="max-h-96 overflow-y-auto pr-2 scrollbar-thin scrollbar-thumb-gray-300 dark:scrollbar-thumb-sentinel-border scrollbar-track-gray-100 dark:scrollbar-track-sentinel-body space-y-3">
+                 {threads.length > 0 ? (
+                     threads.map(([key, messages]) => {
+                        const latest = messages[messages.length - 1];
+                        const unacknowledged = messages.filter(m => !m.acknowledgedAt).length;
+                        return (
+                        <div key={key} className="bg-gray-50 dark:bg-sentinel-dark p-3 rounded-md">
+                            <div className="flex justify-between items-start">
+                                <div>
+                                    <p className="font-bold text-sm text-gray-800 dark:text-sentinel-text-primary">{latest.digestPeriod ? latest.subject : `M${latest.event.magnitude.toFixed(1)} - ${latest.event.location}`}</p>
+                                    <p className="text-xs text-gray-500 dark:text-sentinel-text-secondary">{messages.length} message(s){latest.profileName && ` · Profile: ${latest.profileName}`}{latest.zoneName && ` · Zone: ${latest.zoneName}`}</p>
+                                </div>
+                                <div className="flex flex-col items-end gap-1">
+                                    {latest.exercise && <ExerciseBadge />}
+                                    {unacknowledged > 0 && <span className="text-[10px] font-bold uppercase px-1.5 py-0.5 rounded bg-danger/20 text-danger">{unacknowledged} unacknowledged</span>}
+                                    {!latest.digestPeriod && <button onClick={() => onOpenReport(latest.event)} className="text-xs text-sentinel-accent hover:underline">Incident report</button>}
+                                </div>
+                            </div>
+                            <ol className="mt-2 space-y-3 border-l-2 border-gray-200 dark:border-sentinel-border pl-3">
+                                {messages.map(alert => {
+                                    const badge = ALERT_KIND_BADGES[alert.kind ?? 'initial'];
+                                    return (
+                                    <li key={alert.id}>
+                                        <div className="flex justify-between items-center">
+                                            <p className="text-xs text-gray-500 dark:text-sentinel-text-secondary">
+                                                <span className={`mr-1 px-1.5 py-0.5 rounded font-semibold uppercase ${badge.className}`}>{alert.digestPeriod ? `${DIGEST_PERIOD_LABELS[alert.digestPeriod]} digest` : badge.label}</span>
+                                                {formatDateTime(new Date(alert.timestamp))}
+                                            </p>
+                                            <button
+                                                onClick={() => handleCopy(alert.body, alert.id)}
+                                                className="text-xs bg-sentinel-info text-white px-2 py-1 rounded-md hover:bg-sentinel-accent transition-colors"
+                                            >
+                                                {copiedId === alert.id ? 'Copied!' : 'Copy'}
+                                            </button>
+                                        </div>
+                                        {alert.changes && <p className="mt-1 text-xs text-warning">{alert.changes.join(' · ')}</p>}
+                                        {alert.quietHours && <p className="mt-1 text-xs text-gray-500 dark:text-sentinel-text-secondary">{alert.digestAlertId ? 'Held during quiet hours, sent in a digest' : QUIET_HOURS_NOTES[alert.quietHours]}</p>}
+                                        {alert.escalatedAt && <p className="mt-1 text-xs text-danger">Escalated at {formatDateTime(new Date(alert.escalatedAt))}</p>}
+                                        {alert.subject && <p className="mt-2 text-xs font-semibold text-gray-800 dark:text-sentinel-text-primary">{alert.subject}</p>}
+                                        <pre className="mt-2 text-xs bg-gray-100 dark:bg-sentinel-darker p-2 rounded whitespace-pre-wrap font-mono text-gray-600 dark:text-sentinel-text-secondary">{alert.body}</pre>
+                                        {alert.deliveries && alert.deliveries.length > 0 && (
+                                            <ul className="mt-2 space-y-1 text-xs">
+                                                {alert.deliveries.map(delivery => (
+                                                    <li key={`${delivery.channelId}:${delivery.recipient}`} className="flex justify-between items-center" title={delivery.lastError}>
+                                                        <span className="text-gray-600 dark:text-sentinel-text-secondary truncate">
+                                                            {delivery.channel !== 'email' && delivery.channel !== 'sms' ? delivery.recipient : `${CHANNEL_LABELS[delivery.channel ?? 'email']} · ${delivery.recipient}`}
+                                                        </span>
+                                                        <span className={`px-1.5 py-0.5 rounded font-semibold uppercase ${DELIVERY_STATUS_CLASSES[delivery.status]}`}>
+                                                            {delivery.status}{delivery.attempts > 1 && ` (${delivery.attempts})`}
+                                                        </span>
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        )}
+                                        <div className="mt-2 text-xs text-gray-500 dark:text-sentinel-text-secondary">
+                                            {alert.acknowledgedAt ? (
+                                                <span>Acknowledged by <span className="font-semibold text-gray-800 dark:text-sentinel-text-primary">{alert.acknowledgedBy}</span> at {formatDateTime(new Date(alert.acknowledgedAt))}</span>
+                                            ) : (
+                                                <button
+                                                    onClick={() => onAcknowledge(alert.id, operatorName.trim())}
+                                                    disabled={!operatorName.trim()}
+                                                    title={operatorName.trim() ? undefined : 'Enter your name above first'}
+                                                    className="px-2 py-1 rounded-md border border-gray-300 dark:border-sentinel-border hover:border-sentinel-accent disabled:opacity-50 disabled:cursor-not-allowed"
+                                                >
+                                                    Acknowledge
+                                                </button>
+                                            )}
+                                        </div>
+                                    </li>
+                                    );
+                                })}
+                            </ol>
+                        </div>
+                        );
+                     })
+                 ) : (
+                    <p className="text-center text-gray-500 dark:text-sentinel-text-secondary py-8">No alerts generated yet.</p>
+                 )}
+            </div>
+            <div className="mt-3 text-right">
+                <ExportLinks label="Export log" disabled={alerts.length === 0} onExport={format => downloadFile(exportFilename('alerts', format), exportAlerts(alerts, format), EXPORT_MIME_TYPES[format])} />
+            </div>
+        </div>
+    );
+};
+
+
+const formatExerciseClock = (ms: number): string => {
+    const seconds = Math.floor(ms / 1000);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `T+${Math.floor(seconds / 3600)}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`;
+};
+
+// Replay windows are entered in UTC, like the history search.
+const toUtcInput = (date: Date) => date.toISOString().slice(0, 16);
+
+const newScenarioEvent = (offsetMinutes: number): ScenarioEvent => ({
+    id: `event-${Date.now()}`,
+    offsetMinutes,
+    location: 'Exercise location',
+    lat: 0,
+    lon: 0,
+    depth: 10,
+    magnitude: 7.5,
+    tsunami: false,
+    revisions: [],
+});
+
+const ExerciseStatus: React.FC<{ exercise: Exercise; onStop: () => void }> = ({ exercise, onStop }) => {
+    const now = useNow(1000);
+    const complete = exercise.reported === exercise.run.timeline.length;
+    return (
+        <div className="space-y-2">
+            <p className="text-sm font-semibold text-gray-800 dark:text-sentinel-text-primary">{exercise.run.name}</p>
+            <p className="text-xs text-gray-500 dark:text-sentinel-text-secondary">
+                <span className="font-mono">{formatExerciseClock(exerciseElapsedMs(exercise.run, now))}</span> at {exercise.run.speed}&times; &middot; {exercise.reported} of {exercise.run.timeline.length} reports injected
+                {complete && ' · timeline complete'}
+            </p>
+            <button onClick={onStop} className="text-xs bg-danger text-white px-3 py-2 rounded-md hover:opacity-90 transition-opacity">Stop exercise</button>
+        </div>
+    );
+};
+
+const ExerciseCard: React.FC<{
+    scenarios: ExerciseScenario[];
+    onScenariosChange: (scenarios: ExerciseScenario[]) => void;
+    exercise: Exercise | null;
+    archive: EventArchive | null;
+    disabled: boolean;
+    onStart: (run: ExerciseRun) => void;
+    onStop: () => void;
+}> = ({ scenarios, onScenariosChange, exercise, archive, disabled, onStart, onStop }) => {
+    const [mode, setMode] = useState<ExerciseRun['mode']>('scenario');
+    const [scenarioId, setScenarioId] = useState(scenarios[0]?.id ?? '');
+    const [speed, setSpeed] = useState(10);
+    const [replay, setReplay] = useState(() => ({ from: toUtcInput(new Date(Date.now() - DAY_MS)), to: toUtcInput(new Date()), minMagnitude: '5' }));
+    const [status, setStatus] = useState<{ message: string; error: boolean } | null>(null);
+    const inputClass = "bg-gray-100 dark:bg-sentinel-dark border border-gray-300 dark:border-sentinel-border text-gray-800 dark:text-sentinel-text-primary text-sm rounded-md p-2";
+    const smallInputClass = "bg-gray-100 dark:bg-sentinel-dark border border-gray-300 dark:border-sentinel-border text-gray-800 dark:text-sentinel-text-primary text-xs rounded-md p-1";
+    const scenario = scenarios.find(s => s.id === scenarioId) ?? scenarios[0];
+
+    const updateScenario = (patch: Partial<ExerciseScenario>) =>
+        onScenariosChange(scenarios.map(s => (s.id === scenario.id ? { ...s, ...patch } : s)));
+    const updateEvent = (eventId: string, patch: Partial<ScenarioEvent>) =>
+        updateScenario({ events: scenario.events.map(e => (e.id === eventId ? { ...e, ...patch } : e)) });
+    const updateRevision = (event: ScenarioEvent, revisionId: string, patch: Partial<ScenarioRevision>) =>
+        updateEvent(event.id, { revisions: event.revisions.map(r => (r.id === revisionId ? { ...r, ...patch } : r)) });
+
+    const handleAddScenario = () => {
+        const created: ExerciseScenario = { id: `scenario-${Date.now()}`, name: 'New scenario', events: [newScenarioEvent(0)] };
+        onScenariosChange([...scenarios, created]);
+        setScenarioId(created.id);
+    };
+
+    const handleRemoveScenario = () => {
+        const remaining = scenarios.filter(s => s.id !== scenario.id);
+        onScenariosChange(remaining);
+        setScenarioId(remaining[0]?.id ?? '');
+    };
+
+    // A revision starts from the solution it revises, so only what changes needs editing.
+    const handleAddRevision = (event: ScenarioEvent) => {
+        const previous = event.revisions[event.revisions.length - 1];
+        const { lat, lon, depth, magnitude, tsunami } = previous ?? event;
+        updateEvent(event.id, { revisions: [...event.revisions, { id: `revision-${Date.now()}`, afterMinutes: (previous?.afterMinutes ?? 0) + 10, lat, lon, depth, magnitude, tsunami }] });
+    };
+
+    const handleStart = async () => {
+        setStatus(null);
+        if (mode === 'scenario') {
+            onStart(compileScenario(scenario, Date.now(), speed));
+            return;
+        }
+        const options = { from: new Date(`${replay.from}:00Z`), to: new Date(`${replay.to}:00Z`), minMagnitude: parseFloat(replay.minMagnitude) || 0 };
+        if (!archive || Number.isNaN(options.from.getTime()) || Number.isNaN(options.to.getTime()) || options.from >= options.to) {
+            setStatus({ message: 'Choose a replay window that ends after it starts.', error: true });
+            return;
+        }
+        try {
+            onStart(await loadReplay(archive, options, Date.now(), speed));
+        } catch (err) {
+            console.error(err);
+            setStatus({ message: err instanceof Error ? err.message : 'The replay could not be loaded.', error: true });
+        }
+    };
+
+    const numberField = (label: string, value: number, onChange: (value: number) => void, step = '0.1', width = 'w-16') => (
+        <label className="flex flex-col text-[10px] text-gray-500 dark:text-sentinel-text-secondary">
+            {label}
+            <input type="number" step={step} value={value} onChange={e => onChange(parseFloat(e.target.value) || 0)} className={`${width} ${smallInputClass}`} />
+        </label>
+    );
+
+    return (
+        <div className="p-6 rounded-lg bg-white dark:bg-sentinel-body border border-gray-200 dark:border-sentinel-border">
+            <h2 className="text-lg font-bold text-gray-900 dark:text-sentinel-text-primary mb-2 flex items-center">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" viewBox="0 0 20 20" fill="currentColor"><path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM9.555 7.168A1 1 0 008 8v4a1 1 0 001.555.832l3-2a1 1 0 000-1.664l-3-2z" clipRule="evenodd" /></svg>
+                Exercises
+            </h2>
+            <p className="mb-3 text-xs text-gray-500 dark:text-sentinel-text-secondary">
+                Injects synthetic earthquakes, or replays archived ones, alongside the live feeds. Everything an exercise produces is marked EXERCISE, including the alerts it sends.
+            </p>
+            {exercise ? (
+                <ExerciseStatus exercise={exercise} onStop={onStop} />
+            ) : disabled ? (
+                <p className="text-xs text-gray-500 dark:text-sentinel-text-secondary">Exercises run in direct mode, where this browser generates the alerts.</p>
+            ) : (
+                <div className="space-y-3">
+                    <div className="flex space-x-4 text-sm text-gray-800 dark:text-sentinel-text-primary">
+                        <label className="flex items-center space-x-2">
+                            <input type="radio" checked={mode === 'scenario'} onChange={() => setMode('scenario')} className="accent-sentinel-accent" />
+                            <span>Scenario</span>
+                        </label>
+                        <label className="flex items-center space-x-2">
+                            <input type="radio" checked={mode === 'replay'} onChange={() => setMode('replay')} className="accent-sentinel-accent" />
+                            <span>Replay from archive</span>
+                        </label>
+                    </div>
+                    {mode === 'scenario' ? (
+                        <div className="space-y-2">
+                            <div className="flex items-center space-x-2">
+                                <select value={scenario?.id ?? ''} onChange={e => setScenarioId(e.target.value)} className={`flex-1 ${inputClass}`} aria-label="Scenario">
+                                    {scenarios.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                                </select>
+                                <button onClick={handleAddScenario} className="text-xs text-sentinel-accent hover:underline">New</button>
+                                {scenario && <button onClick={handleRemoveScenario} className="text-xs text-danger hover:underline">Delete</button>}
+                            </div>
+                            {scenario && (
+                                <>
+                                    <input type="text" value={scenario.name} onChange={e => updateScenario({ name: e.target.value })} className={`w-full ${inputClass}`} aria-label="Scenario name" />
+                                    {scenario.events.map(event => (
+                                        <div key={event.id} className="p-2 rounded-md bg-gray-50 dark:bg-sentinel-dark border border-gray-200 dark:border-sentinel-border space-y-2">
+                                            <div className="flex items-center space-x-2">
+                                                <input type="text" value={event.location} onChange={e => updateEvent(event.id, { location: e.target.value })} className={`flex-1 ${smallInputClass}`} aria-label="Location" />
+                                                <button onClick={() => updateScenario({ events: scenario.events.filter(e => e.id !== event.id) })} className="text-xs text-danger hover:underline">Remove</button>
+                                            </div>
+                                            <div className="flex flex-wrap items-end gap-2">
+                                                {numberField('At T+ (min)', event.offsetMinutes, offsetMinutes => updateEvent(event.id, { offsetMinutes: Math.max(0, offsetMinutes) }), '1', 'w-14')}
+                                                {numberField('Magnitude', event.magnitude, magnitude => updateEvent(event.id, { magnitude }), '0.1', 'w-14')}
+                                                {numberField('Lat', event.lat, lat => updateEvent(event.id, { lat }))}
+                                                {numberField('Lon', event.lon, lon => updateEvent(event.id, { lon }))}
+                                                {numberField('Depth (km)', event.depth, depth => updateEvent(event.id, { depth }), '1', 'w-14')}
+                                                <label className="flex items-center space-x-1 text-xs text-gray-800 dark:text-sentinel-text-primary pb-1">
+                                                    <input type="checkbox" checked={event.tsunami} onChange={e => updateEvent(event.id, { tsunami: e.target.checked })} className="accent-sentinel-accent" />
+                                                    <span>Tsunami</span>
+                                                </label>
+                                            </div>
+                                            {event.revisions.map(revision => (
+                                                <div key={revision.id} className="flex flex-wrap items-end gap-2 pl-3 border-l-2 border-warning/50">
+                                                    {numberField('Revised after (min)', revision.afterMinutes, afterMinutes => updateRevision(event, revision.id, { afterMinutes: Math.max(0, afterMinutes) }), '1', 'w-14')}
+                                                    {numberField('Magnitude', revision.magnitude, magnitude => updateRevision(event, revision.id, { magnitude }), '0.1', 'w-14')}
+                                                    {numberField('Lat', revision.lat, lat => updateRevision(event, revision.id, { lat }))}
+                                                    {numberField('Lon', revision.lon, lon => updateRevision(event, revision.id, { lon }))}
+                                                    {numberField('Depth (km)', revision.depth, depth => updateRevision(event, revision.id, { depth }), '1', 'w-14')}
+                                                    <label className="flex items-center space-x-1 text-xs text-gray-800 dark:text-sentinel-text-primary pb-1">
+                                                        <input type="checkbox" checked={revision.tsunami} onChange={e => updateRevision(event, revision.id, { tsunami: e.target.checked })} className="accent-sentinel-accent" />
+                                                        <span>Tsunami</span>
+                                                    </label>
+                                                    <button onClick={() => updateEvent(event.id, { revisions: event.revisions.filter(r => r.id !== revision.id) })} className="text-xs text-danger hover:underline pb-1">Remove</button>
+                                                </div>
+                                            ))}
+                                            <button onClick={() => handleAddRevision(event)} className="text-xs text-sentinel-accent hover:underline">Add revision</button>
+                                        </div>
+                                    ))}
+                                    <button
+                                        onClick={() => updateScenario({ events: [...scenario.events, newScenarioEvent(Math.max(0, ...scenario.events.map(e => e.offsetMinutes)) + 10)] })}
+                                        className="text-xs text-sentinel-accent hover:underline"
+                                    >
+                                        Add event
+                                    </button>
+                                </>
+                            )}
+                        </div>
+                    ) : (
+                        <div className="space-y-2">
+                            <div className="flex items-center space-x-2">
+                                <input type="datetime-local" value={replay.from} onChange={e => setReplay(r => ({ ...r, from: e.target.value }))} className={inputClass} aria-label="Replay from (UTC)" title="Replay from (UTC)" />
+                                <input type="datetime-local" value={replay.to} onChange={e => setReplay(r => ({ ...r, to: e.target.value }))} className={inputClass} aria-label="Replay to (UTC)" title="Replay to (UTC)" />
+                            </div>
+                            <label className="flex items-center space-x-2 text-sm text-gray-500 dark:text-sentinel-text-secondary">
+                                <span>Min magnitude</span>
+                                <input type="number" step="0.1" value={replay.minMagnitude} onChange={e => setReplay(r => ({ ...r, minMagnitude: e.target.value }))} className={`w-20 ${inputClass}`} />
+                            </label>
+                            {!archive && <p className="text-xs text-gray-500 dark:text-sentinel-text-secondary">The event archive is not available in this browser.</p>}
+                        </div>
+                    )}
+                    <div className="flex items-center space-x-2">
+                        <label className="text-sm text-gray-500 dark:text-sentinel-text-secondary">Speed</label>
+                        <select value={speed} onChange={e => setSpeed(parseInt(e.target.value, 10))} className={inputClass}>
+                            {EXERCISE_SPEEDS.map(option => <option key={option} value={option}>{option}&times;</option>)}
+                        </select>
+                        <button
+                            onClick={handleStart}
+                            disabled={mode === 'scenario' ? !scenario || scenario.events.length === 0 : !archive}
+                            className="ml-auto text-xs bg-warning text-white px-3 py-2 rounded-md hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Start exercise
+                        </button>
+                    </div>
+                </div>
+            )}
+            {status && <p className={`mt-3 text-xs ${status.error ? 'text-danger' : 'text-gray-500 dark:text-sentinel-text-secondary'}`}>{status.message}</p>}
+        </div>
+    );
+};
+
+const SERVER_CONNECTION_LABELS: Record<ServerConnection, string> = {
+    connecting: 'Connecting…',
+    open: 'Connected',
+    reconnecting: 'Connection lost, retrying…',
+    closed: 'Connection refused',
+};
+
+const DataSourceModeCard: React.FC<{ settings: ApiServerSettings; onChange: (settings: ApiServerSettings) => void; server: SentinelServer | null }> = ({ settings, onChange, server }) => {
+    // Edited as drafts so the stream isn't reopened on every keystroke.
+    const [url, setUrl] = useState(settings.url);
+    const [token, setToken] = useState(settings.token ?? '');
+    const inputClass = "w-full bg-gray-100 dark:bg-sentinel-dark border border-gray-300 dark:border-sentinel-border text-gray-800 dark:text-sentinel-text-primary text-sm rounded-md p-2";
+    const commit = () => onChange({ ...settings, url: url.trim(), token: token || undefined });
+
+    return (
+        <div className="p-6 rounded-lg bg-white dark:bg-sentinel-body border border-gray-200 dark:border-sentinel-border">
+            <h2 className="text-lg font-bold text-gray-900 dark:text-sentinel-text-primary mb-2">Data Source</h2>
+            <p className="text-xs text-gray-500 dark:text-sentinel-text-secondary mb-4">
+                In server mode a shared <span className="font-mono">sentinel serve</span> fetches the feeds once and sends the alerts, and every dashboard shows the same events and alert log. Alert settings, digests, data sources, threat rules and the refresh interval are then edited on the server.
+            </p>
+            <div className="space-y-2 text-sm">
+                <label className="flex items-center gap-2">
+                    <input type="radio" name="data-source" checked={!settings.enabled} onChange={() => onChange({ ...settings, enabled: false })} />
+                    Fetch feeds directly in this browser
+                </label>
+                <label className="flex items-center gap-2">
+                    <input type="radio" name="data-source" checked={settings.enabled} onChange={() => onChange({ ...settings, enabled: true, url: url.trim(), token: token || undefined })} />
+                    Use a Tsunami Sentinel server
+                </label>
+            </div>
+            <div className="mt-3 grid grid-cols-1 gap-2">
+                <input type="url" value={url} onChange={e => setUrl(e.target.value)} onBlur={commit} onKeyDown={e => e.key === 'Enter' && commit()} placeholder="http://localhost:8787" className={inputClass} aria-label="Server URL" />
+                <input type="password" value={token} onChange={e => setToken(e.target.value)} onBlur={commit} onKeyDown={e => e.key === 'Enter' && commit()} placeholder="API token (needed when the server has one)" className={inputClass} aria-label="API token" />
+            </div>
+            {server && (
+                <p className={`mt-3 text-xs ${server.connection === 'open' ? 'text-gray-500 dark:text-sentinel-text-secondary' : 'text-warning'}`}>
+                    {SERVER_CONNECTION_LABELS[server.connection]}
+                    {server.loaded && ` · ${server.events.length} events, ${server.alerts.length} alerts`}
+                    {server.fetchedAt && ` · server last polled ${timeAgo(server.fetchedAt)}`}
+                </p>
+            )}
+        </div>
+    );
+};
+
+const SettingsTransferCard: React.FC = () => {
+    const [includeCredentials, setIncludeCredentials] = useState(false);
+    const [status, setStatus] = useState<{ message: string; error: boolean } | null>(null);
+
+    const handleExport = () => {
+        const date = new Date().toISOString().slice(0, 10);
+        downloadFile(`tsunami-sentinel-settings-${date}.json`, exportSettings(window.localStorage, { includeCredentials }), 'application/json');
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const { settings, rejected } = parseSettingsFile(await file.text());
+            const imported = Object.keys(settings);
+            if (imported.length > 0 && !window.confirm(`Replace your current ${imported.join(', ')} with the settings from ${file.name}?`)) return;
+            // A shared file leaves credentials out; keep this browser's own.
+            const current = readSetting(window.localStorage, 'alertSettings');
+            applySettings(window.localStorage, settings.alertSettings && current ? { ...settings, alertSettings: keepCredentials(settings.alertSettings, current) } : settings);
+            setStatus({
+                message: `Imported ${imported.length} setting${imported.length === 1 ? '' : 's'}.${rejected.length > 0 ? ` Skipped: ${rejected.join(', ')}.` : ''}`,
+                error: imported.length === 0,
+            });
+        } catch (err) {
+            console.error(err);
+            setStatus({ message: err instanceof Error ? err.message : 'The settings file could not be imported.', error: true });
+        }
+    };
+
+    return (
+        <div className="p-6 rounded-lg bg-white dark:bg-sentinel-body border border-gray-200 dark:border-sentinel-border">
+            <h2 className="text-lg font-bold text-gray-900 dark:text-sentinel-text-primary mb-2">Configuration</h2>
+            <p className="text-xs text-gray-500 dark:text-sentinel-text-secondary mb-4">
+                Share a standard setup: alert settings, watch zones, channels, data sources, threat rules, coastal points and display preferences. Alert history stays in this browser. Settings version {SETTINGS_SCHEMA_VERSION}.
+            </p>
+            <div className="flex flex-wrap items-center gap-3">
+                <button onClick={handleExport} className="px-3 py-2 text-sm bg-sentinel-info text-white rounded-md hover:bg-sentinel-accent">Export settings</button>
+                <label className="px-3 py-2 text-sm border border-gray-300 dark:border-sentinel-border rounded-md cursor-pointer hover:bg-gray-100 dark:hover:bg-sentinel-border">
+                    Import…
+                    <input type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+                </label>
+            </div>
+            <label className="mt-3 flex items-center gap-2 text-xs text-gray-500 dark:text-sentinel-text-secondary">
+                <input type="checkbox" checked={includeCredentials} onChange={e => setIncludeCredentials(e.target.checked)} />
+                Include credentials in the export: SMTP password, webhook headers, SMS token and Slack, Teams and Discord webhook URLs
+            </label>
+            {status && <p className={`mt-3 text-xs ${status.error ? 'text-danger' : 'text-gray-500 dark:text-sentinel-text-secondary'}`}>{status.message}</p>}
+        </div>
+    );
+};
+
+const Footer: React.FC = () => (
+    <footer className="text-center p-4 mt-4 text-xs text-gray-500 dark:text-sentinel-text-secondary border-t border-gray-200 dark:border-sentinel-border">
+        Data sourced from NOAA/NWS Tsunami Warning Centers. For more information, visit{' '}
+        <a href="https://www.tsunami.gov/" target="_blank" rel="noopener noreferrer" className="text-sentinel-accent hover:underline">
+            tsunami.gov
         </a>.
     </footer>
 );
 
 
 // --- MAIN APP COMPONENT ---
+const MAX_POLL_BACKOFF_MS = 30 * 60 * 1000;
+
 function TsunamiDashboard() {
-    const [events, setEvents] = useState<EarthquakeEvent[]>([]);
-    const [isInitialLoad, setIsInitialLoad] = useState<boolean>(true);
-    const [isRefreshing, setIsRefreshing] = useState<boolean>(false);
+    const [cachedFeed, setCachedFeed] = useSetting('lastGoodFeed', null);
+    const [directEvents, setDirectEvents] = useState<EarthquakeEvent[]>(() => cachedFeed ? cachedFeed.events.map(reviveEarthquakeEvent) : []);
+    const [isInitialLoad, setIsInitialLoad] = useState<boolean>(cachedFeed === null);
     const [error, setError] = useState<string | null>(null);
-    const [alertSettings] = useLocalStorage<AlertSettings>('alertSettings', {
-        minMagnitude: 7.0, notificationsEnabled: true, recipients: [], emailTemplate: 'ALERT: A magnitude {magnitude} earthquake occurred near {location} at {time}. More details: {link}'
-    });
-    const [processedEvents, setProcessedEvents] = useLocalStorage<string[]>('processedEvents', []);
-    const [generatedAlerts, setGeneratedAlerts] = useLocalStorage<GeneratedAlert[]>('generatedAlerts', []);
+    const [pollIntervalMinutes, setPollIntervalMinutes] = useSetting('pollIntervalMinutes', 2);
+    const [alertSettings, setAlertSettings] = useSetting('alertSettings', DEFAULT_ALERT_SETTINGS);
+    const [isPickingZonePoint, setIsPickingZonePoint] = useState(false);
+    const [zoneDraftPoints, setZoneDraftPoints] = useState<LatLon[]>([]);
+    const [selectedEventId, setSelectedEventId] = useState<string | null>(null);
+    // Seeded from the old `processedEvents` list by the settings migration, so old events stay quiet.
+    const [alertThreads, setAlertThreads] = useSetting('alertThreads', {});
+    const [generatedAlerts, setGeneratedAlerts] = useSetting('generatedAlerts', []);
+    const [digestSettings, setDigestSettings] = useSetting('digestSettings', DEFAULT_DIGEST_SETTINGS);
+    const [digestRuns, setDigestRuns] = useSetting('digestRuns', {});
+    const transportConfig = alertSettings.transport ?? DEFAULT_TRANSPORT;
+    const channelConfigs = alertSettings.channels ?? DEFAULT_CHANNELS;
+    const dispatchAlert = useAlertDispatcher(channelConfigs, transportConfig, useCallback((alertId, deliveries) => {
+        setGeneratedAlerts(prev => prev.map(alert => (alert.id === alertId ? { ...alert, deliveries } : alert)));
+    }, [setGeneratedAlerts]));
+    const resumedDeliveriesRef = useRef(false);
+    const [feedSources, setFeedSources] = useSetting('feedSources', DEFAULT_FEED_SOURCES);
+    const [threatRules, setThreatRules] = useSetting('threatRules', []);
+    const [coastalPoints, setCoastalPoints] = useSetting('coastalPoints', DEFAULT_COASTAL_POINTS);
+    const [showIsochrones, setShowIsochrones] = useSetting('showIsochrones', true);
+    const [exerciseScenarios, setExerciseScenarios] = useSetting('exerciseScenarios', DEFAULT_SCENARIOS);
+    const archive = useEventArchive();
+    const [filters, setFilters] = useEventFilters();
+    const [isPickingDistancePoint, setIsPickingDistancePoint] = useState(false);
+    const now = useNow(60 * 1000);
+    const [apiServer, setApiServer] = useSetting('apiServer', DEFAULT_API_SERVER);
+    const serverMode = apiServer.enabled;
+    const serverSettings = useMemo(
+        () => ({ alertSettings, digestSettings, feedSources, threatRules, pollIntervalMinutes }),
+        [alertSettings, digestSettings, feedSources, threatRules, pollIntervalMinutes],
+    );
+    // In server mode the server fetches the feeds and generates the alerts; this browser only shows them.
+    const server = useSentinelServer(apiServer, serverSettings);
+    // Exercise events run alongside the live ones, so real alerting carries on during a drill.
+    const { exercise, startExercise, stopExercise } = useExercise(threatRules);
+    const liveEvents = server ? server.events : directEvents;
+    const events = useMemo(
+        () => exercise && !server ? [...exercise.events, ...liveEvents].sort((a, b) => b.time.getTime() - a.time.getTime()) : liveEvents,
+        [exercise, server, liveEvents],
+    );
+    const alertLog = server ? server.alerts : generatedAlerts;
+    // Read by loadData, so revisions are tracked without recreating the poll callback on every update.
+    const eventsRef = useRef(directEvents);
+    eventsRef.current = directEvents;
 
     const loadData = useCallback(async () => {
-        setError(null);
+        if (serverMode) {
+            setIsInitialLoad(false);
+            return;
+        }
         try {
-            const data = await fetchTsunamiData();
-            setEvents(data);
+            const data = await fetchTsunamiData(feedSources, { threatRules, previous: eventsRef.current });
+            setDirectEvents(data);
+            setCachedFeed({ fetchedAt: new Date().toISOString(), events: data });
+            setError(null);
         } catch (err) {
-            setError('Failed to fetch data. Please try again later.');
+            // Keep showing the last good dataset; the banner explains how old it is.
+            setError('Failed to fetch data.');
             console.error(err);
             throw err;
+        } finally {
+            setIsInitialLoad(false);
         }
-    }, []);
+    }, [serverMode, feedSources, threatRules, setCachedFeed]);
 
-    const handleRefresh = useCallback(async () => {
-        if (isRefreshing) return;
-        setIsRefreshing(true);
-        try {
-            await loadData();
-        } catch (e) {
-            // Error is already set within loadData
-        } finally {
-            setIsRefreshing(false);
+    const { state: pollState, refresh } = usePollScheduler(loadData, pollIntervalMinutes * 60 * 1000, MAX_POLL_BACKOFF_MS);
+    const lastUpdated = server ? server.fetchedAt : pollState.lastSuccessAt ?? (cachedFeed ? new Date(cachedFeed.fetchedAt) : null);
+
+    const handleRefresh = useCallback(() => {
+        if (server) {
+            server.reconnect();
+        } else {
+            refresh();
         }
-    }, [loadData, isRefreshing]);
+    }, [server, refresh]);
+
+    // Sequences are grouped over every event, so counts don't depend on the list filters.
+    const sequences = useMemo(() => groupSequences(events), [events]);
 
     useEffect(() => {
-        const initialFetch = async () => {
-            try {
-                await loadData();
-            } catch (e) {
-                // Error is set, initial load will fail and show error message
-            } finally {
-                setIsInitialLoad(false);
-            }
-        };
-        initialFetch();
-    }, [loadData]);
+        if (serverMode) {
+            return;
+        }
+        const run = generateAlerts({
+            events,
+            threads: alertThreads,
+            sequences,
+            settings: alertSettings,
+            fetchedAt: cachedFeed?.fetchedAt ?? '',
+            at: new Date(),
+        });
+        if (!run.changed) {
+            return;
+        }
+        setAlertThreads(run.threads);
+        if (run.alerts.length > 0) {
+            setGeneratedAlerts(prev => recordAlerts(prev, run.alerts));
+            run.alerts.filter(hasDeliveries).forEach(dispatchAlert);
+        }
+    }, [serverMode, events, sequences, cachedFeed, alertSettings, alertThreads, setAlertThreads, setGeneratedAlerts, dispatchAlert]);
 
+    // Escalations and quiet-hours digests fall due with time rather than with new data.
     useEffect(() => {
-        if (!alertSettings.notificationsEnabled || alertSettings.recipients.length === 0 || events.length === 0) {
+        if (serverMode) {
             return;
         }
+        const followUps = generateFollowUps(generatedAlerts, alertSettings, now);
+        if (followUps.alerts.length === 0) {
+            return;
+        }
+        setGeneratedAlerts(prev => recordAlerts(prev, followUps.alerts, followUps.patches));
+        followUps.alerts.filter(hasDeliveries).forEach(dispatchAlert);
+    }, [serverMode, now, generatedAlerts, alertSettings, setGeneratedAlerts, dispatchAlert]);
 
-        const newProcessed = new Set(processedEvents);
-        const newAlerts: GeneratedAlert[] = [];
-        
-        events.forEach(event => {
-            if (newProcessed.has(event.id)) {
-                return; // Already processed this event
-            }
-            
-            if (event.magnitude >= alertSettings.minMagnitude) {
-                const body = alertSettings.emailTemplate
-                    .replace('{magnitude}', event.magnitude.toFixed(1))
-                    .replace('{location}', event.location)
-                    .replace('{depth}', event.depth.toFixed(1) + ' km')
-                    .replace('{time}', formatDateTime(event.updated))
-                    .replace('{link}', event.link);
-
-                const newAlert: GeneratedAlert = {
-                    id: `${event.id}-${new Date().toISOString()}`,
-                    timestamp: new Date().toISOString(),
-                    event,
-                    body,
-                };
-                newAlerts.push(newAlert);
-                newProcessed.add(event.id);
-            }
-        });
+    // Scheduled and test digests share one path, so a test shows exactly what would go out.
+    const sendDigest = useCallback((period: DigestPeriod, from: Date, to: Date, test = false): GeneratedAlert | null => {
+        const alert = generatePeriodicDigest({ period, from, to, events, log: generatedAlerts, digest: digestSettings, settings: alertSettings, test, at: new Date() });
+        if (!alert) {
+            return null;
+        }
+        setGeneratedAlerts(prev => recordAlerts(prev, [alert]));
+        if (hasDeliveries(alert)) {
+            dispatchAlert(alert);
+        }
+        return alert;
+    }, [events, generatedAlerts, digestSettings, alertSettings, setGeneratedAlerts, dispatchAlert]);
+
+    const handleSendTestDigest = useCallback((period: DigestPeriod) => {
+        const to = new Date();
+        return sendDigest(period, new Date(to.getTime() - DIGEST_PERIOD_DAYS[period] * DAY_MS), to, true);
+    }, [sendDigest]);
 
-        if (newAlerts.length > 0) {
-            setGeneratedAlerts(prev => [...newAlerts, ...prev].slice(0, 50)); // Keep last 50 alerts
-            setProcessedEvents(Array.from(newProcessed));
+    useEffect(() => {
+        const runs = dueDigestRuns(digestSettings, digestRuns, now);
+        if (serverMode || runs.length === 0) {
+            return;
+        }
+        runs.filter(run => !run.firstRun).forEach(run => sendDigest(run.period, run.from, run.to));
+        setDigestRuns(prev => ({ ...prev, ...Object.fromEntries(runs.map(run => [run.period, run.to.toISOString()])) }));
+    }, [serverMode, now, digestSettings, digestRuns, setDigestRuns, sendDigest]);
+
+    // Every version the feeds deliver is kept locally, including the cached feed restored on load.
+    useEffect(() => {
+        archive?.archive(liveEvents).catch(err => console.error('Failed to archive events:', err));
+    }, [archive, liveEvents]);
+
+    // The exercise's threads go with it; left behind, they would be cancelled as events gone missing.
+    const handleStopExercise = useCallback(() => {
+        stopExercise();
+        setAlertThreads(withoutExerciseThreads);
+    }, [stopExercise, setAlertThreads]);
+
+    useEffect(() => {
+        if (serverMode && exercise) handleStopExercise();
+    }, [serverMode, exercise, handleStopExercise]);
+
+    const handleAcknowledge = useCallback((alertId: string, acknowledgedBy: string) => {
+        if (server) {
+            server.acknowledge(alertId, acknowledgedBy).catch(err => {
+                console.error(err);
+                window.alert(err instanceof Error ? err.message : 'The server did not record the acknowledgement.');
+            });
+            return;
+        }
+        const acknowledgedAt = new Date().toISOString();
+        setGeneratedAlerts(prev => prev.map(alert => (alert.id === alertId ? { ...alert, acknowledgedBy, acknowledgedAt } : alert)));
+    }, [server, setGeneratedAlerts]);
+
+    // Reports describe the event as currently reported, even when opened from an older alert.
+    const handleOpenReport = useCallback((event: EarthquakeEvent) => {
+        const current = events.find(e => e.id === event.id || e.reports?.some(report => report.id === event.id)) ?? event;
+        try {
+            openReportWindow(buildIncidentReport({ event: current, alerts: alertLog, nearbyEvents: events, zones: alertSettings.zones ?? [] }));
+        } catch (err) {
+            console.error(err);
+            window.alert(err instanceof Error ? err.message : 'Could not open the report.');
         }
+    }, [events, alertLog, alertSettings.zones]);
 
-    }, [events, alertSettings, processedEvents, setProcessedEvents, setGeneratedAlerts]);
+    // Deliveries still queued or retrying when the page was closed are picked up again on load.
+    useEffect(() => {
+        if (resumedDeliveriesRef.current || serverMode) return;
+        resumedDeliveriesRef.current = true;
+        generatedAlerts
+            .filter(alert => alert.deliveries?.some(d => d.status === 'queued' || d.status === 'retrying'))
+            .forEach(dispatchAlert);
+    }, [serverMode, generatedAlerts, dispatchAlert]);
 
 
+    // The filters apply to the stat cards, the map and the list alike; alerting always sees every event.
     const {
         activeAlerts,
         highPriorityAlerts,
         twentyFourHourQuakes,
         latestSignificant,
-        recentM6PlusQuakes
+        filteredEvents
     } = useMemo(() => {
-        const now = new Date();
         const twentyFourHoursAgo = now.getTime() - (24 * 60 * 60 * 1000);
+        const filteredEvents = applyEventFilters(events, filters, now);
+
+        const activeAlerts = filteredEvents.filter(e => e.alertLevel === 'watch' || e.alertLevel === 'warning' || e.alertLevel === 'advisory');
+        const highPriorityAlerts = filteredEvents.filter(e => e.alertLevel === 'warning');
+        const twentyFourHourQuakes = filteredEvents.filter(e => e.time.getTime() > twentyFourHoursAgo);
 
-        const activeAlerts = events.filter(e => e.alertLevel === 'watch' || e.alertLevel === 'warning' || e.alertLevel === 'advisory');
-        const highPriorityAlerts = events.filter(e => e.alertLevel === 'warning');
-        const twentyFourHourQuakes = events.filter(e => e.updated.getTime() > twentyFourHoursAgo && e.magnitude >= 6.0);
-        const recentM6PlusQuakes = events.filter(e => e.magnitude >= 6.0).slice(0, 10);
-        
         return {
             activeAlerts: activeAlerts.length,
             highPriorityAlerts: highPriorityAlerts.length,
             twentyFourHourQuakes: twentyFourHourQuakes.length,
             latestSignificant: events.length > 0 ? events[0] : null,
-            recentM6PlusQuakes
+            filteredEvents
         }
-    }, [events]);
+    }, [events, filters, now]);
     
+    const travelTimeEvent = travelTimeEventFor(events, selectedEventId);
+    // The field takes a few hundred milliseconds, so it's only recomputed when the epicentre moves.
+    const travelTimeField = useMemo(
+        () => travelTimeEvent ? computeTravelTimeField(travelTimeEvent.lat, travelTimeEvent.lon) : null,
+        [travelTimeEvent?.lat, travelTimeEvent?.lon],
+    );
+    const arrivals = useMemo(
+        () => travelTimeEvent && travelTimeField ? estimateArrivals(travelTimeEvent, coastalPoints, travelTimeField) : null,
+        [travelTimeEvent, coastalPoints, travelTimeField],
+    );
+    const isochrones = useMemo(
+        () => showIsochrones && travelTimeField ? traceIsochrones(travelTimeField, ISOCHRONE_HOURS.map(hours => hours * 60)) : [],
+        [showIsochrones, travelTimeField],
+    );
+
     if (isInitialLoad) {
         return (
             <div className="min-h-screen bg-gray-50 dark:bg-sentinel-dark text-gray-800 dark:text-sentinel-text-primary font-sans flex items-center justify-center">
@@ -627,9 +3094,43 @@ function TsunamiDashboard() {
 
     return (
         <div className="min-h-screen bg-gray-50 dark:bg-sentinel-dark text-gray-800 dark:text-sentinel-text-primary font-sans transition-colors duration-300">
-            <Header onRefresh={handleRefresh} loading={isRefreshing} />
-            {error && <div className="p-4 m-4 text-center text-danger bg-danger/20 rounded-md">{error}</div>}
+            <Header
+                onRefresh={handleRefresh}
+                loading={server ? server.connection === 'connecting' : pollState.running}
+                freshness={<FreshnessIndicator lastUpdated={lastUpdated} intervalMinutes={pollIntervalMinutes} onIntervalChange={setPollIntervalMinutes} paused={!server && pollState.paused} />}
+                exerciseName={exercise?.run.name}
+            />
+            {exercise && (
+                <div className="p-3 m-4 flex flex-wrap items-center justify-center gap-3 text-sm font-semibold text-white bg-warning rounded-md">
+                    <span>EXERCISE IN PROGRESS: {exercise.run.name}. Events and alerts marked EXERCISE are not real.</span>
+                    <button onClick={handleStopExercise} className="px-2 py-1 text-xs rounded-md border border-white hover:bg-white/20">Stop exercise</button>
+                </div>
+            )}
+            {server && (server.connection === 'reconnecting' || server.connection === 'closed' || server.error) && (
+                <div className="p-4 m-4 text-center text-danger bg-danger/20 rounded-md">
+                    {server.connection === 'reconnecting' && `Not connected to the server at ${apiServer.url}; retrying automatically.`}
+                    {server.connection === 'closed' && `The server at ${apiServer.url} refused the connection; use Refresh Data to try again.`}
+                    {server.connection === 'open' && server.error}{' '}
+                    {lastUpdated ? `Showing data from ${formatDateTime(lastUpdated)}.` : 'No data is available yet.'}
+                </div>
+            )}
+            {!server && error && (
+                <div className="p-4 m-4 text-center text-danger bg-danger/20 rounded-md">
+                    {error}{' '}
+                    {lastUpdated ? `Showing data from ${formatDateTime(lastUpdated)}.` : 'No data is available yet.'}
+                    {pollState.nextRunAt && ` Retrying automatically at ${pollState.nextRunAt.toLocaleTimeString('en-US', { hour12: false })}.`}
+                    {pollState.consecutiveFailures > 1 && ` (${pollState.consecutiveFailures} consecutive failures)`}
+                </div>
+            )}
             <main className="p-4 lg:p-6">
+                <FilterBar
+                    filters={filters}
+                    onChange={setFilters}
+                    matchCount={filteredEvents.length}
+                    totalCount={events.length}
+                    isPickingPoint={isPickingDistancePoint}
+                    onPickingPointChange={picking => { setIsPickingDistancePoint(picking); if (picking) setIsPickingZonePoint(false); }}
+                />
                  <div className="grid grid-cols-1 gap-4 mb-4 md:grid-cols-2 lg:grid-cols-3">
                     <StatCard title="Active Alerts" value={activeAlerts} colorClass="text-sentinel-accent" icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" /></svg>} />
                     <StatCard title="High Priority" value={highPriorityAlerts} colorClass="text-danger" icon={<svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>} />
@@ -639,13 +3140,66 @@ function TsunamiDashboard() {
                 <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
                     <div className="lg:col-span-2 flex flex-col gap-4">
                         <LatestEarthquakeCard event={latestSignificant} />
-                        <EarthquakeMapCard events={recentM6PlusQuakes} />
-                        <RecentEarthquakesCard events={recentM6PlusQuakes} />
+                        <EarthquakeMapCard
+                            events={filteredEvents}
+                            zones={alertSettings.zones}
+                            draftPoints={zoneDraftPoints}
+                            onPickPoint={isPickingZonePoint ? (point => setZoneDraftPoints(points => [...points, point]))
+                                : isPickingDistancePoint ? (point => { setFilters(f => ({ ...f, distanceFrom: point })); setIsPickingDistancePoint(false); })
+                                : undefined}
+                            selectedEventId={selectedEventId}
+                            onSelectEvent={setSelectedEventId}
+                            isochrones={isochrones}
+                            coastalPoints={coastalPoints}
+                        />
+                        <RecentEarthquakesCard events={filteredEvents} sequences={sequences} filters={filters} selectedEventId={selectedEventId} onSelectEvent={setSelectedEventId} onOpenReport={handleOpenReport} />
+                        <StatisticsCard feedEvents={events} archive={archive} />
+                        <HistoryCard archive={archive} threatRules={threatRules} />
                     </div>
                     <div className="flex flex-col gap-4">
                         <TsunamiAlertsCard events={events} />
-                        <EmailSettingsCard />
-                        <GeneratedAlertsCard alerts={generatedAlerts} />
+                        <TravelTimeCard
+                            event={travelTimeEvent}
+                            arrivals={arrivals}
+                            points={coastalPoints}
+                            onPointsChange={setCoastalPoints}
+                            showIsochrones={showIsochrones}
+                            onShowIsochronesChange={setShowIsochrones}
+                        />
+                        <AlertProfilesCard settings={alertSettings} setSettings={setAlertSettings} previewEvent={latestSignificant} />
+                        <WatchZonesCard
+                            zones={alertSettings.zones ?? []}
+                            channels={channelConfigs}
+                            profiles={alertSettings.profiles}
+                            onChange={zones => setAlertSettings(s => ({ ...s, zones }))}
+                            isPicking={isPickingZonePoint}
+                            onPickingChange={picking => { setIsPickingZonePoint(picking); if (picking) setIsPickingDistancePoint(false); }}
+                            draftPoints={zoneDraftPoints}
+                            onClearDraft={() => setZoneDraftPoints([])}
+                        />
+                        <GeneratedAlertsCard alerts={alertLog} onAcknowledge={handleAcknowledge} onOpenReport={handleOpenReport} />
+                        <DigestSettingsCard
+                            settings={digestSettings}
+                            setSettings={setDigestSettings}
+                            channels={channelConfigs}
+                            events={events}
+                            alerts={alertLog}
+                            lastRuns={server ? server.digestRuns : digestRuns}
+                            onSendTest={server ? undefined : handleSendTestDigest}
+                        />
+                        <ThreatRulesCard rules={threatRules} onChange={setThreatRules} />
+                        <DataSourcesCard sources={feedSources} onChange={setFeedSources} />
+                        <ExerciseCard
+                            scenarios={exerciseScenarios}
+                            onScenariosChange={setExerciseScenarios}
+                            exercise={exercise}
+                            archive={archive}
+                            disabled={serverMode}
+                            onStart={startExercise}
+                            onStop={handleStopExercise}
+                        />
+                        <DataSourceModeCard settings={apiServer} onChange={setApiServer} server={server} />
+                        <SettingsTransferCard />
                     </div>
                 </div>
             </main>
@@ -0,0 +1,45 @@
+import { EarthquakeEvent } from '../types';
+import { fetchTsunamiData } from '../services/tsunamiService';
+import { exportEvents } from '../services/exporters';
+import { SentinelConfig } from './config';
+
+export const CHECK_FORMATS = ['text', 'json', 'csv', 'geojson', 'kml'] as const;
+export type CheckFormat = typeof CHECK_FORMATS[number];
+
+export interface CheckOptions {
+  sinceMs: number;
+  minMagnitude: number;
+  format: CheckFormat;
+  tsunamiOnly: boolean;
+}
+
+const textLine = (event: EarthquakeEvent): string => [
+  event.time.toISOString().replace('T', ' ').slice(0, 19),
+  `M${event.magnitude.toFixed(1)}${event.magType ? ` ${event.magType}` : ''}`.padEnd(9),
+  `${event.depth.toFixed(0)} km`.padStart(7),
+  event.alertLevel.padEnd(8),
+  `${event.location}${event.isTsunamiWarning ? ' [TSUNAMI]' : ''}`,
+].join('  ');
+
+/** Formats the events a check found, newest first. */
+export const formatCheckResult = (events: EarthquakeEvent[], format: CheckFormat): string => {
+  switch (format) {
+    case 'text':
+      return events.length === 0 ? 'No matching events.' : events.map(textLine).join('\n');
+    case 'json':
+      return JSON.stringify(events, null, 2);
+    default:
+      return exportEvents(events, format);
+  }
+};
+
+/** The events with an origin time within `sinceMs` of `at` that meet the magnitude and tsunami options. */
+export const filterEvents = (events: EarthquakeEvent[], options: Pick<CheckOptions, 'sinceMs' | 'minMagnitude' | 'tsunamiOnly'>, at: Date = new Date()): EarthquakeEvent[] => {
+  const since = at.getTime() - options.sinceMs;
+  return events.filter(event =>
+    event.time.getTime() >= since && event.magnitude >= options.minMagnitude && (!options.tsunamiOnly || event.isTsunamiWarning));
+};
+
+/** Fetches the configured feeds once and returns the events matching the options. */
+export const runCheck = async (config: SentinelConfig, options: CheckOptions, at: Date = new Date()): Promise<EarthquakeEvent[]> =>
+  filterEvents(await fetchTsunamiData(config.feedSources, { threatRules: config.threatRules }), options, at);
@@ -0,0 +1,82 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { AlertSettings } from '../types';
+import { DEFAULT_ALERT_SETTINGS } from '../services/alertEngine';
+import { SETTINGS_FILE_FORMAT, SETTINGS_SCHEMA_VERSION, SettingsFile, exportSettings } from '../services/settingsStore';
+import { DEFAULT_CONFIG, loadConfig } from './config';
+
+describe('loadConfig', () => {
+  let directory: string;
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'sentinel-config-'));
+  });
+  afterEach(() => rm(directory, { recursive: true, force: true }));
+
+  const configFile = async (content: unknown): Promise<string> => {
+    const path = join(directory, 'config.json');
+    await writeFile(path, typeof content === 'string' ? content : JSON.stringify(content), 'utf8');
+    return path;
+  };
+
+  it('reads a bare AlertSettings object', async () => {
+    const config = await loadConfig(await configFile(DEFAULT_ALERT_SETTINGS), {});
+    expect(config.alertSettings).toEqual(DEFAULT_ALERT_SETTINGS);
+    expect(config.feedSources).toBe(DEFAULT_CONFIG.feedSources);
+  });
+
+  it('upgrades a bare AlertSettings object from before alert profiles', async () => {
+    const legacy = { ...DEFAULT_ALERT_SETTINGS, profiles: undefined, minMagnitude: 6.8, recipients: ['duty@example.org'], emailTemplate: '{{place}}' };
+    const config = await loadConfig(await configFile(legacy), {});
+    expect(config.alertSettings.profiles).toEqual([
+      expect.objectContaining({ id: 'default', enabled: true, minMagnitude: 6.8, recipients: ['duty@example.org'], emailTemplate: '{{place}}' }),
+    ]);
+    expect(config.alertSettings).not.toHaveProperty('minMagnitude');
+  });
+
+  it('reads a settings export and takes credentials from the environment', async () => {
+    const alertSettings = { ...DEFAULT_ALERT_SETTINGS, transport: { type: 'smtp' as const, host: 'mail.example.org', port: 587, secure: false, username: 'sentinel', password: '', from: 'sentinel@example.org' } };
+    const file: SettingsFile = { format: SETTINGS_FILE_FORMAT, version: SETTINGS_SCHEMA_VERSION, exportedAt: '2026-01-01T00:00:00Z', settings: { alertSettings, pollIntervalMinutes: 5 } };
+    const path = await configFile(file);
+    const config = await loadConfig(path, { SENTINEL_SMTP_PASSWORD: 'hunter2' });
+    expect(config.pollIntervalMinutes).toBe(5);
+    expect(config.alertSettings.transport).toMatchObject({ type: 'smtp', password: 'hunter2' });
+  });
+
+  it('takes every credential an export leaves out from the environment', async () => {
+    const alertSettings: AlertSettings = {
+      ...DEFAULT_ALERT_SETTINGS,
+      transport: { type: 'webhook', url: 'https://mail.example.org/send', headers: { Authorization: 'Bearer mail-key' } },
+      channels: [
+        { id: 'slack-1700000000000', type: 'slack', enabled: true, webhookUrl: 'https://hooks.slack.com/services/T000/B000/secret' },
+        { id: 'discord', type: 'discord', enabled: false, webhookUrl: 'https://discord.com/api/webhooks/1/secret' },
+        { id: 'sms', type: 'sms', enabled: true, gatewayUrl: 'https://sms.example.org', authToken: 'sms-token', numbers: ['+15550100'], template: 'M{magnitude}', maxLength: 160 },
+      ],
+    };
+    const exported = exportSettings({ getItem: key => (key === 'alertSettings' ? JSON.stringify(alertSettings) : null) } as Storage);
+    const path = await configFile(exported);
+
+    await expect(loadConfig(path, {})).rejects.toThrow(/slack channel slack-1700000000000 has no webhook URL.*SENTINEL_WEBHOOK_URL_SLACK_1700000000000/);
+    const config = await loadConfig(path, {
+      SENTINEL_WEBHOOK_URL_SLACK_1700000000000: 'https://hooks.slack.com/services/T000/B000/secret',
+      SENTINEL_WEBHOOK_URL_DISCORD: 'https://discord.com/api/webhooks/1/secret',
+      SENTINEL_WEBHOOK_HEADERS: '{"Authorization":"Bearer mail-key"}',
+      SENTINEL_SMS_AUTH_TOKEN: 'sms-token',
+    });
+    expect(config.alertSettings).toEqual(alertSettings);
+  });
+
+  it('rejects webhook headers that are not a JSON object of strings', async () => {
+    const alertSettings: AlertSettings = { ...DEFAULT_ALERT_SETTINGS, transport: { type: 'webhook', url: 'https://mail.example.org/send' } };
+    const path = await configFile(alertSettings);
+    await expect(loadConfig(path, { SENTINEL_WEBHOOK_HEADERS: 'Bearer mail-key' })).rejects.toThrow(/not valid JSON/);
+    await expect(loadConfig(path, { SENTINEL_WEBHOOK_HEADERS: '{"Retry":3}' })).rejects.toThrow(/JSON object of header names to values/);
+  });
+
+  it('rejects a file that is neither format', async () => {
+    const path = await configFile({ minMagnitude: 'high' });
+    await expect(loadConfig(path, {})).rejects.toThrow(/is neither a Tsunami Sentinel settings export nor an AlertSettings object/);
+    await expect(loadConfig(await configFile('{'), {})).rejects.toThrow(/is not valid JSON/);
+  });
+});
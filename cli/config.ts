@@ -0,0 +1,185 @@
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import { AlertSettings, AlertThread, DigestPeriod, EarthquakeEvent, GeneratedAlert } from '../types';
+import { DEFAULT_ALERT_SETTINGS, DEFAULT_DIGEST_SETTINGS } from '../services/alertEngine';
+import { DEFAULT_FEED_SOURCES } from '../services/feeds';
+import { reviveEarthquakeEvent } from '../services/eventSerialization';
+import { SERVER_SETTING_KEYS, ServerSettings } from '../services/sentinelApi';
+import { SETTINGS_FILE_FORMAT, SettingKey, isValidSetting, migrateSettings, parseSettingsFile, withoutCredentials } from '../services/settingsStore';
+
+/** The settings the daemon uses, the same ones a dashboard in server mode edits on the server. */
+export type SentinelConfig = ServerSettings;
+
+export const DEFAULT_CONFIG: SentinelConfig = {
+  alertSettings: DEFAULT_ALERT_SETTINGS,
+  digestSettings: DEFAULT_DIGEST_SETTINGS,
+  feedSources: DEFAULT_FEED_SOURCES,
+  threatRules: [],
+  pollIntervalMinutes: 2,
+};
+
+// The variable that supplies a chat channel's webhook URL, e.g. SENTINEL_WEBHOOK_URL_SLACK_1700000000000.
+const webhookUrlVariable = (channelId: string): string =>
+  `SENTINEL_WEBHOOK_URL_${channelId.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}`;
+
+const parseHeaders = (value: string): Record<string, string> => {
+  let headers: unknown;
+  try {
+    headers = JSON.parse(value);
+  } catch {
+    throw new Error('SENTINEL_WEBHOOK_HEADERS is not valid JSON.');
+  }
+  if (typeof headers !== 'object' || headers === null || Array.isArray(headers) || Object.values(headers).some(header => typeof header !== 'string')) {
+    throw new Error('SENTINEL_WEBHOOK_HEADERS must be a JSON object of header names to values.');
+  }
+  return headers as Record<string, string>;
+};
+
+/**
+ * Settings exports leave out the SMTP password, the webhook transport's headers, the SMS token
+ * and chat webhook URLs, so the daemon takes them from the environment instead of from a file
+ * that may be shared or checked in.
+ * @throws Error when SENTINEL_WEBHOOK_HEADERS is malformed, or an enabled chat channel is left
+ * without a webhook URL, since every delivery to it would fail.
+ */
+const withCredentialsFromEnv = (settings: AlertSettings, env: NodeJS.ProcessEnv): AlertSettings => {
+  const channels = settings.channels?.map(channel => {
+    if (channel.type === 'sms' && !channel.authToken && env.SENTINEL_SMS_AUTH_TOKEN) {
+      return { ...channel, authToken: env.SENTINEL_SMS_AUTH_TOKEN };
+    }
+    if ((channel.type === 'slack' || channel.type === 'teams' || channel.type === 'discord') && !channel.webhookUrl) {
+      const webhookUrl = env[webhookUrlVariable(channel.id)];
+      if (!webhookUrl && channel.enabled) {
+        throw new Error(`The ${channel.type} channel ${channel.id} has no webhook URL, which settings exports leave out. Set ${webhookUrlVariable(channel.id)}, disable the channel, or export with credentials.`);
+      }
+      return webhookUrl ? { ...channel, webhookUrl } : channel;
+    }
+    return channel;
+  });
+
+  const { transport } = settings;
+  return {
+    ...settings,
+    transport: transport?.type === 'smtp' && env.SENTINEL_SMTP_PASSWORD
+      ? { ...transport, password: env.SENTINEL_SMTP_PASSWORD }
+      : transport?.type === 'webhook' && !transport.headers && env.SENTINEL_WEBHOOK_HEADERS
+        ? { ...transport, headers: parseHeaders(env.SENTINEL_WEBHOOK_HEADERS) }
+        : transport,
+    channels,
+  };
+};
+
+/** The settings as shown to API clients, without credentials. */
+export const publicConfig = (config: SentinelConfig): SentinelConfig => ({ ...config, alertSettings: withoutCredentials(config.alertSettings) });
+
+/** Splits an object into the valid config settings it carries and the keys that aren't. */
+export const parseConfigPatch = (raw: unknown): { patch: Partial<SentinelConfig>; rejected: string[] } => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return { patch: {}, rejected: ['(body)'] };
+  }
+  const patch: Partial<Record<keyof SentinelConfig, unknown>> = {};
+  const rejected: string[] = [];
+  Object.entries(raw).forEach(([key, value]) => {
+    if ((SERVER_SETTING_KEYS as readonly string[]).includes(key) && isValidSetting(key as SettingKey, value)) {
+      patch[key as keyof SentinelConfig] = value;
+    } else {
+      rejected.push(key);
+    }
+  });
+  return { patch: patch as Partial<SentinelConfig>, rejected };
+};
+
+/**
+ * Reads a config file: either a settings file exported from the dashboard, or a bare
+ * `AlertSettings` object, which is upgraded first in case it predates alert profiles. Settings
+ * the file doesn't carry keep their defaults, and credentials it leaves out come from the environment.
+ * @throws Error when the file can't be read or is neither format, or when credentials an enabled
+ * channel needs are missing.
+ */
+export const loadConfig = async (path: string | undefined, env: NodeJS.ProcessEnv = process.env): Promise<SentinelConfig> => {
+  if (!path) {
+    return DEFAULT_CONFIG;
+  }
+  const content = await readFile(path, 'utf8');
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch {
+    throw new Error(`${path} is not valid JSON.`);
+  }
+
+  let config: SentinelConfig;
+  if (typeof raw === 'object' && raw !== null && (raw as { format?: unknown }).format === SETTINGS_FILE_FORMAT) {
+    const { settings, rejected } = parseSettingsFile(content);
+    if (rejected.length > 0) {
+      console.warn(`Ignoring settings in ${path} that are unknown or invalid: ${rejected.join(', ')}`);
+    }
+    config = {
+      alertSettings: settings.alertSettings ?? DEFAULT_CONFIG.alertSettings,
+      digestSettings: settings.digestSettings ?? DEFAULT_CONFIG.digestSettings,
+      feedSources: settings.feedSources ?? DEFAULT_CONFIG.feedSources,
+      threatRules: settings.threatRules ?? DEFAULT_CONFIG.threatRules,
+      pollIntervalMinutes: settings.pollIntervalMinutes ?? DEFAULT_CONFIG.pollIntervalMinutes,
+    };
+  } else {
+    // A bare object carries no schema version, so it goes through every migration; each one
+    // leaves settings that are already current alone.
+    const { alertSettings } = migrateSettings({ alertSettings: raw }, 0);
+    if (!isValidSetting('alertSettings', alertSettings)) {
+      throw new Error(`${path} is neither a Tsunami Sentinel settings export nor an AlertSettings object.`);
+    }
+    config = { ...DEFAULT_CONFIG, alertSettings };
+  }
+  return { ...config, alertSettings: withCredentialsFromEnv(config.alertSettings, env) };
+};
+
+const DURATION_UNITS_MS: Record<string, number> = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000, w: 7 * 24 * 60 * 60 * 1000 };
+
+/**
+ * Parses a duration such as "90s", "15m", "1h", "2d" or "1w" into milliseconds.
+ * @throws Error when the value isn't a positive number followed by a unit.
+ */
+export const parseDuration = (value: string): number => {
+  const match = /^(\d+(?:\.\d+)?)\s*([smhdw])$/.exec(value.trim());
+  if (!match || Number(match[1]) <= 0) {
+    throw new Error(`Invalid duration "${value}"; use a number and a unit, e.g. 30m, 1h or 7d.`);
+  }
+  return Number(match[1]) * DURATION_UNITS_MS[match[2]];
+};
+
+/** Everything the daemon needs to pick up where it left off after a restart. */
+export interface DaemonState {
+  fetchedAt: string;
+  events: EarthquakeEvent[];
+  threads: Record<string, AlertThread>;
+  alerts: GeneratedAlert[];
+  digestRuns: Partial<Record<DigestPeriod, string>>;
+  /** Settings changed through the API server, which take precedence over the config file. Stored without credentials. */
+  settings?: Partial<SentinelConfig>;
+}
+
+/** The saved state, or null when there is none yet (the daemon's first run). */
+export const loadState = async (path: string): Promise<DaemonState | null> => {
+  let content: string;
+  try {
+    content = await readFile(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+  const raw = JSON.parse(content) as DaemonState;
+  return {
+    settings: raw.settings,
+    fetchedAt: raw.fetchedAt ?? '',
+    events: (raw.events ?? []).map(reviveEarthquakeEvent),
+    threads: raw.threads ?? {},
+    alerts: raw.alerts ?? [],
+    digestRuns: raw.digestRuns ?? {},
+  };
+};
+
+/** Writes the state through a temporary file, so a crash mid-write can't leave it truncated. */
+export const saveState = async (path: string, state: DaemonState): Promise<void> => {
+  const temporary = `${path}.tmp`;
+  await writeFile(temporary, `${JSON.stringify(state, null, 2)}\n`, 'utf8');
+  await rename(temporary, path);
+};
@@ -0,0 +1,29 @@
+import { SentinelConfig } from './config';
+import { createMonitor, log } from './monitor';
+
+export interface DaemonOptions {
+  statePath: string;
+  intervalMs?: number;
+  /** Runs a single cycle and returns once its deliveries have settled, e.g. from cron. */
+  once: boolean;
+  alertExisting: boolean;
+}
+
+/** Resolves on SIGINT or SIGTERM, so a daemon can shut down cleanly. */
+export const untilStopped = (): Promise<string> =>
+  new Promise(resolve => {
+    process.once('SIGINT', () => resolve('SIGINT'));
+    process.once('SIGTERM', () => resolve('SIGTERM'));
+  });
+
+/** Runs the monitor on a schedule until the process is told to stop. */
+export const runDaemon = async (config: SentinelConfig, options: DaemonOptions): Promise<void> => {
+  const monitor = await createMonitor(config, options);
+  if (options.once) {
+    await monitor.runOnce();
+    return;
+  }
+  monitor.start();
+  log(`Received ${await untilStopped()}, stopping.`);
+  await monitor.stop();
+};
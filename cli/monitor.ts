@@ -0,0 +1,208 @@
+import { EarthquakeEvent, GeneratedAlert } from '../types';
+import { fetchTsunamiData } from '../services/tsunamiService';
+import { groupSequences } from '../services/sequences';
+import { dueDigestRuns } from '../services/periodicDigest';
+import { createDispatcher } from '../services/dispatch/dispatcher';
+import { createPollScheduler } from '../services/pollScheduler';
+import { DEFAULT_CHANNELS, DEFAULT_TRANSPORT, generateAlerts, generateFollowUps, generatePeriodicDigest, hasDeliveries, recordAlerts } from '../services/alertEngine';
+import { ServerStatus, ServerUpdate } from '../services/sentinelApi';
+import { keepCredentials } from '../services/settingsStore';
+import { DaemonState, SentinelConfig, loadState, publicConfig, saveState } from './config';
+
+const MAX_POLL_BACKOFF_MS = 30 * 60 * 1000;
+const SETTLE_CHECK_MS = 500;
+
+export interface MonitorOptions {
+  statePath: string;
+  /** Overrides the config's poll interval. */
+  intervalMs?: number;
+  /**
+   * Without a saved state, the first cycle records what is already in the feeds without alerting,
+   * so starting the monitor doesn't announce every recent event. This sends those alerts instead.
+   */
+  alertExisting: boolean;
+}
+
+export interface Monitor {
+  getState: () => DaemonState;
+  /** The settings in effect, credentials included. */
+  getConfig: () => SentinelConfig;
+  getStatus: () => ServerStatus;
+  /** Polls on the configured interval until stopped. */
+  start: () => void;
+  /** Stops polling and retrying, and waits for the state to be saved. */
+  stop: () => Promise<void>;
+  /** Runs a single cycle and waits until its deliveries have been sent or have failed. */
+  runOnce: () => Promise<void>;
+  /** Marks an alert as acknowledged, which stops its escalation. Returns null for an unknown id. */
+  acknowledge: (alertId: string, acknowledgedBy: string) => GeneratedAlert | null;
+  /** Replaces some of the settings and keeps them across restarts. */
+  updateConfig: (patch: Partial<SentinelConfig>) => SentinelConfig;
+  subscribe: (listener: (update: ServerUpdate) => void) => () => void;
+}
+
+export const log = (message: string) => console.log(`${new Date().toISOString()} ${message}`);
+
+const isPending = (alert: GeneratedAlert) => alert.deliveries?.some(d => d.status === 'queued' || d.status === 'retrying') ?? false;
+
+/** Events that are new or differ from the previous poll, and the ids of those that are gone. */
+const diffEvents = (previous: EarthquakeEvent[], next: EarthquakeEvent[]): { upserted: EarthquakeEvent[]; removed: string[] } => {
+  const before = new Map(previous.map(event => [event.id, JSON.stringify(event)]));
+  const ids = new Set(next.map(event => event.id));
+  return {
+    upserted: next.filter(event => before.get(event.id) !== JSON.stringify(event)),
+    removed: previous.filter(event => !ids.has(event.id)).map(event => event.id),
+  };
+};
+
+/**
+ * Creates the headless monitor: each cycle fetches the feeds, opens and updates alert threads,
+ * sends escalations and digests that have fallen due, and saves its state so a restart neither
+ * repeats nor loses alerts.
+ */
+export const createMonitor = async (fileConfig: SentinelConfig, options: MonitorOptions): Promise<Monitor> => {
+  const saved = await loadState(options.statePath);
+  let state: DaemonState = saved ?? { fetchedAt: '', events: [], threads: {}, alerts: [], digestRuns: {} };
+  let config: SentinelConfig = { ...fileConfig, ...state.settings };
+  config = { ...config, alertSettings: keepCredentials(config.alertSettings, fileConfig.alertSettings) };
+  let firstRun = saved === null && !options.alertExisting;
+  let error: string | null = null;
+  let saving: Promise<void> = Promise.resolve();
+  const listeners = new Set<(update: ServerUpdate) => void>();
+
+  const status = (): ServerStatus => ({ fetchedAt: state.fetchedAt, error, digestRuns: state.digestRuns });
+  const notify = (update: ServerUpdate) => listeners.forEach(listener => listener(update));
+
+  // Saves are chained so delivery updates arriving mid-write can't be overtaken by an older state.
+  const persist = () => {
+    const snapshot = state;
+    saving = saving.then(() => saveState(options.statePath, snapshot)).catch(err => console.error('Failed to save state:', err));
+    return saving;
+  };
+
+  const dispatcher = createDispatcher({
+    getConfig: () => ({ channels: config.alertSettings.channels ?? DEFAULT_CHANNELS, transport: config.alertSettings.transport ?? DEFAULT_TRANSPORT }),
+    onUpdate: (alertId, deliveries) => {
+      state = { ...state, alerts: state.alerts.map(alert => (alert.id === alertId ? { ...alert, deliveries } : alert)) };
+      deliveries.filter(d => d.status === 'failed').forEach(d => log(`Delivery of ${alertId} to ${d.recipient} failed: ${d.lastError}`));
+      notify({ type: 'alerts', alerts: state.alerts });
+      void persist();
+    },
+  });
+
+  const send = (alerts: GeneratedAlert[]) => {
+    alerts.forEach(alert => log(`${alert.kind ?? 'initial'} alert: ${alert.subject ?? alert.event.location}${hasDeliveries(alert) ? '' : ` (${alert.quietHours ?? 'not sent'})`}`));
+    alerts.filter(hasDeliveries).forEach(dispatcher.dispatch);
+  };
+
+  const cycle = async () => {
+    const at = new Date();
+    let events: EarthquakeEvent[];
+    try {
+      events = await fetchTsunamiData(config.feedSources, { threatRules: config.threatRules, previous: state.events });
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+      notify({ type: 'status', ...status() });
+      throw err;
+    }
+    const { upserted, removed } = diffEvents(state.events, events);
+    state = { ...state, events, fetchedAt: at.toISOString() };
+    error = null;
+    if (upserted.length > 0 || removed.length > 0) {
+      notify({ type: 'events', fetchedAt: state.fetchedAt, upserted, removed });
+    }
+
+    const { alertSettings, digestSettings } = config;
+    const run = generateAlerts({ events, threads: state.threads, sequences: groupSequences(events), settings: alertSettings, fetchedAt: state.fetchedAt, at });
+    const followUps = generateFollowUps(state.alerts, alertSettings, at);
+    const digestRuns = dueDigestRuns(digestSettings, state.digestRuns, at);
+    const digests = digestRuns
+      .filter(digestRun => !digestRun.firstRun)
+      .flatMap(digestRun => generatePeriodicDigest({ ...digestRun, events, log: state.alerts, digest: digestSettings, settings: alertSettings, at }) ?? []);
+    const lastDigestRuns = { ...state.digestRuns, ...Object.fromEntries(digestRuns.map(digestRun => [digestRun.period, digestRun.to.toISOString()])) };
+
+    if (firstRun) {
+      firstRun = false;
+      state = { ...state, threads: run.threads, digestRuns: lastDigestRuns };
+      notify({ type: 'status', ...status() });
+      log(`First run: recorded ${Object.keys(run.threads).length} alert threads for events already in the feeds without alerting.`);
+      await persist();
+      return;
+    }
+
+    const added = [...digests, ...followUps.alerts, ...run.alerts];
+    state = { ...state, threads: run.threads, digestRuns: lastDigestRuns, alerts: recordAlerts(state.alerts, added, followUps.patches) };
+    log(`Fetched ${events.length} events; ${added.length} new alert${added.length === 1 ? '' : 's'}.`);
+    if (added.length > 0) {
+      notify({ type: 'alerts', alerts: state.alerts });
+    }
+    notify({ type: 'status', ...status() });
+    await persist();
+    send(added);
+  };
+
+  const intervalFor = () => options.intervalMs ?? config.pollIntervalMinutes * 60 * 1000;
+  const scheduler = createPollScheduler({
+    task: cycle,
+    intervalMs: intervalFor(),
+    maxBackoffMs: MAX_POLL_BACKOFF_MS,
+    visibility: null,
+    onStateChange: pollState => {
+      // Reported once per failure, when the retry is scheduled.
+      if (pollState.nextRunAt && pollState.lastError && pollState.consecutiveFailures > 0) {
+        log(`Poll failed (${pollState.consecutiveFailures} in a row), retrying at ${pollState.nextRunAt.toISOString()}: ${pollState.lastError.message}`);
+      }
+    },
+  });
+
+  // Deliveries still queued or retrying when the monitor stopped are picked up again.
+  state.alerts.filter(isPending).forEach(dispatcher.dispatch);
+
+  return {
+    getState: () => state,
+    getConfig: () => config,
+    getStatus: status,
+    start: () => {
+      log(`Monitoring ${config.feedSources.filter(source => source.enabled).length} feeds every ${Math.round(intervalFor() / 1000)}s; state in ${options.statePath}.`);
+      scheduler.start();
+    },
+    stop: async () => {
+      scheduler.stop();
+      dispatcher.stop();
+      await saving;
+    },
+    runOnce: async () => {
+      await cycle();
+      while (state.alerts.some(isPending)) {
+        await new Promise(resolve => setTimeout(resolve, SETTLE_CHECK_MS));
+      }
+      dispatcher.stop();
+      await saving;
+    },
+    acknowledge: (alertId, acknowledgedBy) => {
+      const alert = state.alerts.find(candidate => candidate.id === alertId);
+      if (!alert) return null;
+      const acknowledged = { ...alert, acknowledgedBy, acknowledgedAt: new Date().toISOString() };
+      state = { ...state, alerts: state.alerts.map(candidate => (candidate.id === alertId ? acknowledged : candidate)) };
+      notify({ type: 'alerts', alerts: state.alerts });
+      void persist();
+      return acknowledged;
+    },
+    updateConfig: patch => {
+      const next = { ...config, ...patch };
+      config = { ...next, alertSettings: keepCredentials(next.alertSettings, config.alertSettings) };
+      const settings = { ...state.settings, ...patch };
+      state = { ...state, settings: settings.alertSettings ? { ...settings, alertSettings: publicConfig(config).alertSettings } : settings };
+      if (patch.pollIntervalMinutes !== undefined && options.intervalMs === undefined) {
+        scheduler.setInterval(intervalFor());
+      }
+      notify({ type: 'settings', settings: publicConfig(config) });
+      void persist();
+      return config;
+    },
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
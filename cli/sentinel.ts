@@ -0,0 +1,124 @@
+#!/usr/bin/env node
+import { parseArgs } from 'node:util';
+import { CHECK_FORMATS, CheckFormat, formatCheckResult, runCheck } from './check';
+import { loadConfig, parseDuration } from './config';
+import { runDaemon, untilStopped } from './daemon';
+import { createMonitor, log } from './monitor';
+import { startServer } from './server';
+
+const USAGE = `Usage: sentinel <command> [options]
+
+Commands:
+  check    Fetch the feeds once and print the matching events
+  run      Monitor the feeds and dispatch alerts until stopped
+  serve    Monitor like run, and serve events, alerts and settings to dashboards
+
+Options:
+  --config <file>     Settings exported from the dashboard, or an AlertSettings JSON file
+  -h, --help          Show this help
+
+check:
+  --since <duration>  Only events from this far back, e.g. 30m, 1h, 7d (default 24h)
+  --min-mag <number>  Only events of at least this magnitude (default 0)
+  --tsunami           Only events flagged as a tsunami threat
+  --format <format>   ${CHECK_FORMATS.join(', ')} (default text)
+
+run:
+  --interval <duration>  Time between polls (default: the config's poll interval)
+  --state <file>         Where threads and alerts are kept between runs (default sentinel-state.json)
+  --once                 Run a single cycle, wait for its deliveries and exit, e.g. from cron
+  --alert-existing       Alert on events already in the feeds when there is no saved state yet
+
+serve (also takes --interval, --state and --alert-existing):
+  --port <number>        Port to listen on (default 8787)
+  --host <address>       Address to listen on (default 127.0.0.1)
+  --allow-origin <url>   Dashboard origin allowed to call the API from a browser (default: none)
+
+SENTINEL_SMTP_PASSWORD and SENTINEL_SMS_AUTH_TOKEN supply the SMTP password and SMS token that settings exports leave out.
+SENTINEL_WEBHOOK_HEADERS supplies the webhook transport's headers, as a JSON object.
+SENTINEL_WEBHOOK_URL_<CHANNEL ID> supplies a chat channel's webhook URL, e.g. SENTINEL_WEBHOOK_URL_SLACK_1700000000000;
+  the daemon won't start while an enabled chat channel has none.
+SENTINEL_API_TOKEN is required for every API request, and lets clients change settings and acknowledge alerts;
+  without it, the API is read-only and open to anyone who can reach it.`;
+
+const main = async (argv: string[]): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      config: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+      since: { type: 'string', default: '24h' },
+      'min-mag': { type: 'string', default: '0' },
+      tsunami: { type: 'boolean', default: false },
+      format: { type: 'string', default: 'text' },
+      interval: { type: 'string' },
+      state: { type: 'string', default: 'sentinel-state.json' },
+      once: { type: 'boolean', default: false },
+      'alert-existing': { type: 'boolean', default: false },
+      port: { type: 'string', default: '8787' },
+      host: { type: 'string', default: '127.0.0.1' },
+      'allow-origin': { type: 'string' },
+    },
+  });
+  const [command] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return command || values.help ? 0 : 1;
+  }
+
+  const config = await loadConfig(values.config);
+  switch (command) {
+    case 'check': {
+      const minMagnitude = Number(values['min-mag']);
+      if (!Number.isFinite(minMagnitude)) {
+        throw new Error(`Invalid magnitude "${values['min-mag']}".`);
+      }
+      if (!(CHECK_FORMATS as readonly string[]).includes(values.format!)) {
+        throw new Error(`Unknown format "${values.format}"; use one of ${CHECK_FORMATS.join(', ')}.`);
+      }
+      const format = values.format as CheckFormat;
+      const events = await runCheck(config, { sinceMs: parseDuration(values.since!), minMagnitude, format, tsunamiOnly: values.tsunami! });
+      console.log(formatCheckResult(events, format));
+      return 0;
+    }
+    case 'run':
+      await runDaemon(config, {
+        statePath: values.state!,
+        intervalMs: values.interval ? parseDuration(values.interval) : undefined,
+        once: values.once!,
+        alertExisting: values['alert-existing']!,
+      });
+      return 0;
+    case 'serve': {
+      const port = Number(values.port);
+      if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        throw new Error(`Invalid port "${values.port}".`);
+      }
+      const monitor = await createMonitor(config, {
+        statePath: values.state!,
+        intervalMs: values.interval ? parseDuration(values.interval) : undefined,
+        alertExisting: values['alert-existing']!,
+      });
+      const close = await startServer(monitor, { host: values.host!, port, token: process.env.SENTINEL_API_TOKEN || undefined, allowOrigin: values['allow-origin'] });
+      monitor.start();
+      log(`Received ${await untilStopped()}, stopping.`);
+      await close();
+      await monitor.stop();
+      return 0;
+    }
+    default:
+      console.error(`Unknown command "${command}".\n\n${USAGE}`);
+      return 1;
+  }
+};
+
+main(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  },
+);
@@ -0,0 +1,129 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { AddressInfo, createServer } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_CONFIG } from './config';
+import { Monitor, createMonitor } from './monitor';
+import { ServerOptions, startServer } from './server';
+
+const DASHBOARD = 'http://localhost:3000';
+
+const freePort = (): Promise<number> => new Promise((resolve, reject) => {
+  const probe = createServer();
+  probe.once('error', reject);
+  probe.listen(0, '127.0.0.1', () => {
+    const { port } = probe.address() as AddressInfo;
+    probe.close(() => resolve(port));
+  });
+});
+
+describe('startServer', () => {
+  let directory: string;
+  let monitor: Monitor;
+  let close: (() => Promise<void>) | undefined;
+  let base: string;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    directory = await mkdtemp(join(tmpdir(), 'sentinel-server-'));
+    monitor = await createMonitor(DEFAULT_CONFIG, { statePath: join(directory, 'state.json'), alertExisting: false });
+  });
+  afterEach(async () => {
+    await close?.();
+    close = undefined;
+    await monitor.stop();
+    await rm(directory, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  const serve = async (options: Partial<ServerOptions> = {}) => {
+    const port = await freePort();
+    close = await startServer(monitor, { host: '127.0.0.1', port, ...options });
+    base = `http://127.0.0.1:${port}`;
+  };
+
+  const putSettings = (headers: Record<string, string> = {}) =>
+    fetch(`${base}/settings`, { method: 'PUT', headers: { 'Content-Type': 'application/json', ...headers }, body: JSON.stringify({ pollIntervalMinutes: 5 }) });
+
+  it('sends no CORS headers unless an origin is allowed', async () => {
+    await serve();
+    const res = await fetch(`${base}/alerts`, { headers: { Origin: 'https://example.com' } });
+    expect(res.status).toBe(200);
+    expect(res.headers.get('access-control-allow-origin')).toBeNull();
+    const preflight = await fetch(`${base}/settings`, { method: 'OPTIONS' });
+    expect(preflight.headers.get('access-control-allow-methods')).toBeNull();
+  });
+
+  it('allows the configured origin, and only to read when there is no token', async () => {
+    await serve({ allowOrigin: DASHBOARD });
+    const preflight = await fetch(`${base}/settings`, { method: 'OPTIONS' });
+    expect(preflight.headers.get('access-control-allow-origin')).toBe(DASHBOARD);
+    expect(preflight.headers.get('access-control-allow-methods')).toBe('GET, OPTIONS');
+  });
+
+  it('refuses changes when started without a token', async () => {
+    await serve({ allowOrigin: DASHBOARD });
+    const res = await putSettings();
+    expect(res.status).toBe(403);
+    expect(await res.json()).toEqual({ error: expect.stringMatching(/read-only/) });
+    const acknowledge = await fetch(`${base}/alerts/a1/acknowledge`, { method: 'POST', body: JSON.stringify({ acknowledgedBy: 'Kai' }) });
+    expect(acknowledge.status).toBe(403);
+    expect(monitor.getConfig().pollIntervalMinutes).toBe(DEFAULT_CONFIG.pollIntervalMinutes);
+  });
+
+  it('takes changes that carry the token', async () => {
+    await serve({ allowOrigin: DASHBOARD, token: 's3cret' });
+    expect((await putSettings()).status).toBe(401);
+    expect((await putSettings({ Authorization: 'Bearer wrong' })).status).toBe(401);
+    const res = await putSettings({ Authorization: 'Bearer s3cret' });
+    expect(res.status).toBe(200);
+    expect(monitor.getConfig().pollIntervalMinutes).toBe(5);
+    const preflight = await fetch(`${base}/settings`, { method: 'OPTIONS' });
+    expect(preflight.headers.get('access-control-allow-methods')).toBe('GET, PUT, POST, OPTIONS');
+  });
+
+  it('refuses reads without the token when the server has one', async () => {
+    await serve({ allowOrigin: DASHBOARD, token: 's3cret' });
+    for (const path of ['/events', '/alerts', '/settings', '/stream']) {
+      const res = await fetch(`${base}${path}`);
+      expect(res.status).toBe(401);
+      expect(await res.json()).toEqual({ error: 'Missing or invalid API token.' });
+    }
+    expect((await fetch(`${base}/alerts`, { headers: { Authorization: 'Bearer wrong' } })).status).toBe(401);
+    // Only the stream, which browsers open without headers, takes the token in the query string.
+    expect((await fetch(`${base}/alerts?token=s3cret`)).status).toBe(401);
+    expect((await fetch(`${base}/stream?token=wrong`)).status).toBe(401);
+
+    expect((await fetch(`${base}/alerts`, { headers: { Authorization: 'Bearer s3cret' } })).status).toBe(200);
+    const stream = new AbortController();
+    const res = await fetch(`${base}/stream?token=s3cret`, { signal: stream.signal });
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toBe('text/event-stream');
+    stream.abort();
+  });
+
+  it('keeps the stored SMTP password only while the transport points at the same server', async () => {
+    const transport = { type: 'smtp' as const, host: 'mail.example.org', port: 587, secure: false, username: 'sentinel', from: 'sentinel@example.org' };
+    await monitor.stop();
+    monitor = await createMonitor(
+      { ...DEFAULT_CONFIG, alertSettings: { ...DEFAULT_CONFIG.alertSettings, transport: { ...transport, password: 'p4ss' } } },
+      { statePath: join(directory, 'state.json'), alertExisting: false },
+    );
+    await serve({ token: 's3cret' });
+    const putTransport = (changes: Partial<typeof transport>) => fetch(`${base}/settings`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer s3cret' },
+      body: JSON.stringify({ alertSettings: { ...DEFAULT_CONFIG.alertSettings, transport: { ...transport, ...changes } } }),
+    });
+
+    expect((await putTransport({ secure: true })).status).toBe(200);
+    expect(monitor.getConfig().alertSettings.transport).toMatchObject({ secure: true, password: 'p4ss' });
+    expect((await putTransport({ host: 'mail.attacker.example' })).status).toBe(200);
+    expect(monitor.getConfig().alertSettings.transport).not.toHaveProperty('password');
+  });
+
+  it('refuses to start a server that takes changes from any origin', async () => {
+    await expect(serve({ allowOrigin: '*', token: 's3cret' })).rejects.toThrow(/can't allow every origin/);
+  });
+});
@@ -0,0 +1,194 @@
+import { IncomingMessage, ServerResponse, createServer } from 'node:http';
+import { filterEvents } from './check';
+import { parseConfigPatch, parseDuration, publicConfig } from './config';
+import { ServerSnapshot, ServerUpdate } from '../services/sentinelApi';
+import { Monitor, log } from './monitor';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const HEARTBEAT_MS = 25 * 1000;
+
+export interface ServerOptions {
+  host: string;
+  port: number;
+  /**
+   * Every request needs `Authorization: Bearer <token>`, or `?token=<token>` on /stream, which
+   * browsers open without headers. Without a token the server is read-only and open to reads.
+   */
+  token?: string;
+  /**
+   * The dashboard origin allowed to call the API from a browser, or "*" for any. Without one,
+   * browsers on other origins can't read the API.
+   */
+  allowOrigin?: string;
+}
+
+type HttpError = Error & { status: number };
+
+const httpError = (status: number, message: string): HttpError => Object.assign(new Error(message), { status });
+
+const isHttpError = (error: unknown): error is HttpError => error instanceof Error && typeof (error as Partial<HttpError>).status === 'number';
+
+// Dashboards are served from another origin (the Vite dev server, or a static host), which has
+// to be allowed explicitly: any page a browser opens could otherwise read the API.
+const corsHeaders = ({ allowOrigin, token }: ServerOptions): Record<string, string> => (allowOrigin
+  ? {
+      'Access-Control-Allow-Origin': allowOrigin,
+      'Access-Control-Allow-Methods': token ? 'GET, PUT, POST, OPTIONS' : 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    }
+  : {});
+
+const readJson = async (req: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw httpError(413, 'Request body too large.');
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8') || 'null');
+  } catch {
+    throw httpError(400, 'Request body is not valid JSON.');
+  }
+};
+
+const sseMessage = (update: ServerUpdate | ServerSnapshot) =>
+  `event: ${update.type}\ndata: ${JSON.stringify(update)}\n\n`;
+
+/**
+ * Serves the monitor's events, alerts and settings over HTTP, and pushes every change to
+ * connected dashboards as server-sent events on /stream.
+ *
+ *   GET  /events?since=1h&minMag=6.5   events, newest first
+ *   GET  /alerts                       the alert log, newest first
+ *   POST /alerts/:id/acknowledge       { acknowledgedBy }
+ *   GET  /settings                     settings in effect, without credentials
+ *   PUT  /settings                     replaces the settings it carries
+ *   GET  /stream                       a snapshot, then events, alerts, settings and status updates
+ *
+ * With an API token, every request needs it; without one, PUT and POST are refused.
+ * @throws Error when the server would take changes from any origin.
+ */
+export const startServer = (monitor: Monitor, options: ServerOptions): Promise<() => Promise<void>> => {
+  if (options.token && options.allowOrigin === '*') {
+    throw new Error('A server that accepts changes can\'t allow every origin; pass the dashboard\'s origin to --allow-origin.');
+  }
+  const clients = new Set<ServerResponse>();
+  const cors = corsHeaders(options);
+
+  const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { ...cors, 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify(body));
+  };
+
+  // The alert log and settings name the people alerted and where, so reads need the token too.
+  const authorizeRead = (req: IncomingMessage, url: URL) => {
+    if (!options.token) return;
+    const queryToken = url.pathname === '/stream' ? url.searchParams.get('token') : null;
+    if (req.headers.authorization !== `Bearer ${options.token}` && queryToken !== options.token) {
+      throw httpError(401, 'Missing or invalid API token.');
+    }
+  };
+
+  const authorize = (req: IncomingMessage) => {
+    if (!options.token) {
+      throw httpError(403, 'This server is read-only; start it with SENTINEL_API_TOKEN set to allow changes.');
+    }
+    if (req.headers.authorization !== `Bearer ${options.token}`) {
+      throw httpError(401, 'Missing or invalid API token.');
+    }
+  };
+
+  const route = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const method = req.method ?? 'GET';
+    if (method === 'OPTIONS') {
+      res.writeHead(204, cors);
+      res.end();
+      return;
+    }
+    if (method === 'GET') {
+      authorizeRead(req, url);
+    }
+
+    if (method === 'GET' && url.pathname === '/events') {
+      const since = url.searchParams.get('since');
+      const minMagnitude = Number(url.searchParams.get('minMag') ?? 0);
+      if (!Number.isFinite(minMagnitude)) throw httpError(400, 'minMag must be a number.');
+      let sinceMs = Infinity;
+      if (since) {
+        try {
+          sinceMs = parseDuration(since);
+        } catch (err) {
+          throw httpError(400, (err as Error).message);
+        }
+      }
+      sendJson(res, 200, filterEvents(monitor.getState().events, { sinceMs, minMagnitude, tsunamiOnly: url.searchParams.has('tsunami') }));
+      return;
+    }
+    if (method === 'GET' && url.pathname === '/alerts') {
+      sendJson(res, 200, monitor.getState().alerts);
+      return;
+    }
+    const acknowledge = /^\/alerts\/([^/]+)\/acknowledge$/.exec(url.pathname);
+    if (method === 'POST' && acknowledge) {
+      authorize(req);
+      const body = await readJson(req) as { acknowledgedBy?: unknown } | null;
+      const acknowledgedBy = typeof body?.acknowledgedBy === 'string' ? body.acknowledgedBy.trim() : '';
+      if (!acknowledgedBy) throw httpError(400, 'acknowledgedBy is required.');
+      const alert = monitor.acknowledge(decodeURIComponent(acknowledge[1]), acknowledgedBy);
+      if (!alert) throw httpError(404, 'No such alert.');
+      sendJson(res, 200, alert);
+      return;
+    }
+    if (method === 'GET' && url.pathname === '/settings') {
+      sendJson(res, 200, publicConfig(monitor.getConfig()));
+      return;
+    }
+    if (method === 'PUT' && url.pathname === '/settings') {
+      authorize(req);
+      const { patch, rejected } = parseConfigPatch(await readJson(req));
+      if (rejected.length > 0) throw httpError(400, `Unknown or invalid settings: ${rejected.join(', ')}`);
+      sendJson(res, 200, publicConfig(monitor.updateConfig(patch)));
+      return;
+    }
+    if (method === 'GET' && url.pathname === '/stream') {
+      res.writeHead(200, { ...cors, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+      const { events, alerts } = monitor.getState();
+      res.write(sseMessage({ type: 'snapshot', ...monitor.getStatus(), events, alerts, settings: publicConfig(monitor.getConfig()) }));
+      clients.add(res);
+      req.on('close', () => clients.delete(res));
+      return;
+    }
+    throw httpError(404, 'Not found.');
+  };
+
+  const server = createServer((req, res) => {
+    route(req, res).catch(err => {
+      if (isHttpError(err)) {
+        sendJson(res, err.status, { error: err.message });
+        return;
+      }
+      console.error(err);
+      sendJson(res, 500, { error: 'Internal server error.' });
+    });
+  });
+
+  const unsubscribe = monitor.subscribe(update => clients.forEach(client => client.write(sseMessage(update))));
+  // A comment line now and then stops proxies from closing idle streams.
+  const heartbeat = setInterval(() => clients.forEach(client => client.write(': keep-alive\n\n')), HEARTBEAT_MS);
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      log(`API listening on http://${options.host}:${options.port}`);
+      resolve(() => new Promise<void>(done => {
+        unsubscribe();
+        clearInterval(heartbeat);
+        clients.forEach(client => client.end());
+        server.close(() => done());
+      }));
+    });
+  });
+};
@@ -0,0 +1,33 @@
+import React from 'react';
+import { ChannelConfig, DeliveryRecord, GeneratedAlert, TransportConfig } from '../types';
+import { createDispatcher, Dispatcher } from '../services/dispatch/dispatcher';
+
+/**
+ * Keeps one alert dispatcher alive for the component's lifetime. The latest channel and transport
+ * configuration and update callback are always used, without recreating the dispatcher.
+ */
+export function useAlertDispatcher(
+  channels: ChannelConfig[],
+  transport: TransportConfig,
+  onUpdate: (alertId: string, deliveries: DeliveryRecord[]) => void,
+): (alert: GeneratedAlert) => void {
+  const configRef = React.useRef({ channels, transport });
+  const onUpdateRef = React.useRef(onUpdate);
+  const dispatcherRef = React.useRef<Dispatcher | null>(null);
+  configRef.current = { channels, transport };
+  onUpdateRef.current = onUpdate;
+
+  React.useEffect(() => {
+    const dispatcher = createDispatcher({
+      getConfig: () => configRef.current,
+      onUpdate: (alertId, deliveries) => onUpdateRef.current(alertId, deliveries),
+    });
+    dispatcherRef.current = dispatcher;
+    return () => {
+      dispatcher.stop();
+      dispatcherRef.current = null;
+    };
+  }, []);
+
+  return React.useCallback((alert: GeneratedAlert) => dispatcherRef.current?.dispatch(alert), []);
+}
@@ -0,0 +1,31 @@
+import React from 'react';
+import { EventArchive, openEventArchive } from '../services/eventArchive';
+
+/**
+ * Opens the local event archive for the component's lifetime.
+ * @returns The archive once it is open, or null while opening or where IndexedDB is unavailable.
+ */
+export function useEventArchive(): EventArchive | null {
+  const [archive, setArchive] = React.useState<EventArchive | null>(null);
+
+  React.useEffect(() => {
+    let opened: EventArchive | null = null;
+    let cancelled = false;
+    openEventArchive()
+      .then(result => {
+        if (cancelled) {
+          result.close();
+          return;
+        }
+        opened = result;
+        setArchive(result);
+      })
+      .catch(error => console.error('Event archive unavailable:', error));
+    return () => {
+      cancelled = true;
+      opened?.close();
+    };
+  }, []);
+
+  return archive;
+}
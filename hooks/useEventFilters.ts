@@ -0,0 +1,31 @@
+import React, { Dispatch, SetStateAction } from 'react';
+import { EventFilters, FILTER_SEARCH_PARAMS, filtersFromSearchParams, filtersToSearchParams } from '../services/eventFilters';
+
+/**
+ * Event filters kept in the page URL, so a filtered view can be bookmarked or shared. Changes
+ * replace the current history entry rather than adding one per slider step; unrelated query
+ * parameters are left alone.
+ */
+export function useEventFilters(): [EventFilters, Dispatch<SetStateAction<EventFilters>>] {
+  const [filters, setFilters] = React.useState<EventFilters>(() => filtersFromSearchParams(new URLSearchParams(window.location.search)));
+
+  React.useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    FILTER_SEARCH_PARAMS.forEach(key => params.delete(key));
+    filtersToSearchParams(filters).forEach((value, key) => params.set(key, value));
+    const query = params.toString();
+    const url = `${window.location.pathname}${query ? `?${query}` : ''}${window.location.hash}`;
+    if (url !== `${window.location.pathname}${window.location.search}${window.location.hash}`) {
+      window.history.replaceState(window.history.state, '', url);
+    }
+  }, [filters]);
+
+  // Following a shared link within the open app (or going back to one) applies its filters.
+  React.useEffect(() => {
+    const handlePopState = () => setFilters(filtersFromSearchParams(new URLSearchParams(window.location.search)));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  return [filters, setFilters];
+}
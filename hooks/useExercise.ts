@@ -0,0 +1,62 @@
+import React from 'react';
+import { EarthquakeEvent, ThreatRule } from '../types';
+import { ExerciseRun, fetchExerciseData, reportedCount } from '../services/simulation';
+
+// The exercise clock is checked often enough for fast replays to look continuous.
+const EXERCISE_TICK_MS = 1000;
+// Events are reprocessed this often even without new reports, so bulletins still expire on time.
+const EXERCISE_REFRESH_MS = 60 * 1000;
+
+export interface Exercise {
+  run: ExerciseRun;
+  /** The exercise's events as of the last tick, processed like a poll. */
+  events: EarthquakeEvent[];
+  /** Versions reported so far, out of `run.timeline.length`. */
+  reported: number;
+}
+
+/**
+ * Runs one exercise at a time, replaying its timeline against the wall clock. Nothing is
+ * persisted: reloading the page ends the exercise.
+ */
+export function useExercise(threatRules: ThreatRule[]): { exercise: Exercise | null; startExercise: (run: ExerciseRun) => void; stopExercise: () => void } {
+  const [run, setRun] = React.useState<ExerciseRun | null>(null);
+  const [events, setEvents] = React.useState<EarthquakeEvent[]>([]);
+  const [reported, setReported] = React.useState(0);
+  // Read by the tick, so revisions are tracked without restarting the clock on every update.
+  const eventsRef = React.useRef(events);
+  eventsRef.current = events;
+
+  React.useEffect(() => {
+    if (!run) return;
+    let count = -1;
+    let processedAt = 0;
+    const tick = () => {
+      const at = new Date();
+      const next = reportedCount(run, at);
+      if (next === count && at.getTime() - processedAt < EXERCISE_REFRESH_MS) return;
+      count = next;
+      processedAt = at.getTime();
+      setReported(next);
+      setEvents(fetchExerciseData(run, at, { threatRules, previous: eventsRef.current }));
+    };
+    tick();
+    const timer = setInterval(tick, EXERCISE_TICK_MS);
+    return () => clearInterval(timer);
+  }, [run, threatRules]);
+
+  const startExercise = React.useCallback((next: ExerciseRun) => {
+    eventsRef.current = [];
+    setEvents([]);
+    setReported(0);
+    setRun(next);
+  }, []);
+
+  const stopExercise = React.useCallback(() => {
+    setRun(null);
+    setEvents([]);
+    setReported(0);
+  }, []);
+
+  return { exercise: run ? { run, events, reported } : null, startExercise, stopExercise };
+}
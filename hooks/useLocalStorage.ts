@@ -1,15 +1,27 @@
 import React, { Dispatch, SetStateAction } from 'react';
+import { SETTINGS_CHANGED_EVENT } from '../services/settingsStore';
 
-export function useLocalStorage<T>(key: string, initialValue: T): [T, Dispatch<SetStateAction<T>>] {
-  const [storedValue, setStoredValue] = React.useState<T>(() => {
+/**
+ * State persisted as JSON under a localStorage key. Stored values that fail `validate` fall back to
+ * the initial value. Changes made in other tabs (`storage` events) or written directly by this tab
+ * (SETTINGS_CHANGED_EVENT) are picked up while mounted.
+ */
+export function useLocalStorage<T>(key: string, initialValue: T | (() => T), validate?: (value: unknown) => boolean): [T, Dispatch<SetStateAction<T>>] {
+  const read = React.useCallback((): T => {
     try {
       const item = window.localStorage.getItem(key);
-      return item ? JSON.parse(item) : initialValue;
+      if (item) {
+        const value = JSON.parse(item);
+        if (!validate || validate(value)) return value;
+        console.warn(`Ignoring invalid stored value for "${key}".`);
+      }
     } catch (error) {
       console.error(error);
-      return initialValue;
     }
-  });
+    return initialValue instanceof Function ? initialValue() : initialValue;
+  }, [key]);
+
+  const [storedValue, setStoredValue] = React.useState<T>(read);
 
   React.useEffect(() => {
     try {
@@ -19,5 +31,20 @@ export function useLocalStorage<T>(key: string, initialValue: T): [T, Dispatch<S
     }
   }, [key, storedValue]);
 
+  React.useEffect(() => {
+    const handleStorage = (e: StorageEvent) => {
+      if (e.storageArea === window.localStorage && (e.key === key || e.key === null)) setStoredValue(read());
+    };
+    const handleLocalChange = (e: Event) => {
+      if ((e as CustomEvent<{ key: string }>).detail?.key === key) setStoredValue(read());
+    };
+    window.addEventListener('storage', handleStorage);
+    window.addEventListener(SETTINGS_CHANGED_EVENT, handleLocalChange);
+    return () => {
+      window.removeEventListener('storage', handleStorage);
+      window.removeEventListener(SETTINGS_CHANGED_EVENT, handleLocalChange);
+    };
+  }, [key, read]);
+
   return [storedValue, setStoredValue];
-}
\ No newline at end of file
+}
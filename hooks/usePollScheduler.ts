@@ -0,0 +1,59 @@
+import React from 'react';
+import { createPollScheduler, PollScheduler, PollState } from '../services/pollScheduler';
+
+/**
+ * Runs `task` in the background on a schedule, with exponential backoff on failure and
+ * pausing while the tab is hidden. A change of `task` triggers an immediate run, and so does
+ * the browser coming back online.
+ */
+export function usePollScheduler(
+  task: () => Promise<void>,
+  intervalMs: number,
+  maxBackoffMs: number,
+): { state: PollState; refresh: () => Promise<void> } {
+  const taskRef = React.useRef(task);
+  const schedulerRef = React.useRef<PollScheduler | null>(null);
+  const [state, setState] = React.useState<PollState>({
+    lastAttemptAt: null,
+    lastSuccessAt: null,
+    lastError: null,
+    consecutiveFailures: 0,
+    nextRunAt: null,
+    running: false,
+    paused: false,
+  });
+
+  React.useEffect(() => {
+    const scheduler = createPollScheduler({
+      task: () => taskRef.current(),
+      intervalMs,
+      maxBackoffMs,
+      onStateChange: setState,
+    });
+    schedulerRef.current = scheduler;
+    scheduler.start();
+
+    const handleOnline = () => void scheduler.runNow();
+    window.addEventListener('online', handleOnline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      scheduler.stop();
+      schedulerRef.current = null;
+    };
+    // The interval is applied via setInterval below, so the scheduler isn't recreated when it changes.
+  }, [maxBackoffMs]);
+
+  React.useEffect(() => {
+    schedulerRef.current?.setInterval(intervalMs);
+  }, [intervalMs]);
+
+  React.useEffect(() => {
+    if (taskRef.current === task) return;
+    taskRef.current = task;
+    void schedulerRef.current?.runNow();
+  }, [task]);
+
+  const refresh = React.useCallback(() => schedulerRef.current?.runNow() ?? Promise.resolve(), []);
+
+  return { state, refresh };
+}
@@ -0,0 +1,126 @@
+import React from 'react';
+import { ApiServerSettings, DigestPeriod, EarthquakeEvent, GeneratedAlert } from '../types';
+import { reviveEarthquakeEvent } from '../services/eventSerialization';
+import { applySettings, keepCredentials } from '../services/settingsStore';
+import { SERVER_SETTING_KEYS, ServerConnection, ServerSettings, acknowledgeServerAlert, openServerStream, updateServerSettings } from '../services/sentinelApi';
+
+// Settings edits are sent once typing pauses rather than on every keystroke.
+const SETTINGS_PUSH_DELAY_MS = 1000;
+
+export interface SentinelServer {
+  connection: ServerConnection;
+  /** False until the first snapshot arrives. */
+  loaded: boolean;
+  events: EarthquakeEvent[];
+  alerts: GeneratedAlert[];
+  fetchedAt: Date | null;
+  /** The server's last poll error, or a failure to save settings to it. */
+  error: string | null;
+  digestRuns: Partial<Record<DigestPeriod, string>>;
+  acknowledge: (alertId: string, acknowledgedBy: string) => Promise<void>;
+  /** Reconnects, which brings a fresh snapshot. */
+  reconnect: () => void;
+}
+
+const byOriginTime = (a: EarthquakeEvent, b: EarthquakeEvent) => b.time.getTime() - a.time.getTime();
+
+/**
+ * Follows a `sentinel serve` instance while `server.enabled` is set. The server's events and
+ * alerts replace the ones this browser would fetch and generate, and the settings it owns are
+ * two-way synced: the server's copy is written to local storage, and local edits are sent back.
+ * The server leaves credentials out of what it sends, so this browser's own are kept.
+ * @returns The server's state, or null in direct-fetch mode.
+ */
+export function useSentinelServer(server: ApiServerSettings, settings: ServerSettings): SentinelServer | null {
+  const [connection, setConnection] = React.useState<ServerConnection>('connecting');
+  const [loaded, setLoaded] = React.useState(false);
+  const [events, setEvents] = React.useState<EarthquakeEvent[]>([]);
+  const [alerts, setAlerts] = React.useState<GeneratedAlert[]>([]);
+  const [fetchedAt, setFetchedAt] = React.useState<Date | null>(null);
+  const [pollError, setPollError] = React.useState<string | null>(null);
+  const [syncError, setSyncError] = React.useState<string | null>(null);
+  const [digestRuns, setDigestRuns] = React.useState<Partial<Record<DigestPeriod, string>>>({});
+  const [generation, setGeneration] = React.useState(0);
+  // The JSON of each setting as the server last reported it; local values that differ are edits.
+  const syncedRef = React.useRef<Partial<Record<keyof ServerSettings, string>> | null>(null);
+  const settingsRef = React.useRef(settings);
+  settingsRef.current = settings;
+
+  React.useEffect(() => {
+    if (!server.enabled) return;
+    syncedRef.current = null;
+    setLoaded(false);
+
+    const receiveSettings = (received: ServerSettings) => {
+      const incoming = { ...received, alertSettings: keepCredentials(received.alertSettings, settingsRef.current.alertSettings) };
+      const synced: Partial<Record<keyof ServerSettings, string>> = {};
+      const changed: Partial<ServerSettings> = {};
+      SERVER_SETTING_KEYS.forEach(key => {
+        synced[key] = JSON.stringify(incoming[key]);
+        if (synced[key] !== JSON.stringify(settingsRef.current[key])) {
+          (changed as Record<string, unknown>)[key] = incoming[key];
+        }
+      });
+      syncedRef.current = synced;
+      applySettings(window.localStorage, changed);
+    };
+
+    return openServerStream(server, message => {
+      switch (message.type) {
+        case 'snapshot':
+          setEvents(message.events.map(reviveEarthquakeEvent).sort(byOriginTime));
+          setAlerts(message.alerts);
+          receiveSettings(message.settings);
+          setLoaded(true);
+          break;
+        case 'events': {
+          const upserted = message.upserted.map(reviveEarthquakeEvent);
+          const replaced = new Set([...message.removed, ...upserted.map(event => event.id)]);
+          setEvents(prev => [...prev.filter(event => !replaced.has(event.id)), ...upserted].sort(byOriginTime));
+          break;
+        }
+        case 'alerts':
+          setAlerts(message.alerts);
+          break;
+        case 'settings':
+          receiveSettings(message.settings);
+          break;
+        case 'status':
+          break;
+      }
+      if (message.type === 'snapshot' || message.type === 'status') {
+        setFetchedAt(message.fetchedAt ? new Date(message.fetchedAt) : null);
+        setPollError(message.error);
+        setDigestRuns(message.digestRuns);
+      }
+    }, setConnection);
+  }, [server.enabled, server.url, server.token, generation]);
+
+  React.useEffect(() => {
+    const synced = syncedRef.current;
+    if (!server.enabled || !synced) return;
+    const patch: Partial<ServerSettings> = {};
+    SERVER_SETTING_KEYS.forEach(key => {
+      if (JSON.stringify(settings[key]) !== synced[key]) {
+        (patch as Record<string, unknown>)[key] = settings[key];
+      }
+    });
+    if (Object.keys(patch).length === 0) return;
+    const timer = setTimeout(() => {
+      updateServerSettings(server, patch).then(
+        () => setSyncError(null),
+        err => setSyncError(`Settings were not saved to the server: ${err instanceof Error ? err.message : err}`),
+      );
+    }, SETTINGS_PUSH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [server, settings, loaded]);
+
+  const acknowledge = React.useCallback(async (alertId: string, acknowledgedBy: string) => {
+    await acknowledgeServerAlert(server, alertId, acknowledgedBy);
+  }, [server]);
+
+  const reconnect = React.useCallback(() => setGeneration(g => g + 1), []);
+
+  if (!server.enabled) return null;
+  return { connection, loaded, events, alerts, fetchedAt, error: syncError ?? pollError, digestRuns, acknowledge, reconnect };
+}
@@ -0,0 +1,8 @@
+import { Dispatch, SetStateAction } from 'react';
+import { SettingKey, SettingsSchema, isValidSetting } from '../services/settingsStore';
+import { useLocalStorage } from './useLocalStorage';
+
+/** A persisted setting from the versioned schema, validated on load and synced across tabs. */
+export function useSetting<K extends SettingKey>(key: K, initialValue: SettingsSchema[K] | (() => SettingsSchema[K])): [SettingsSchema[K], Dispatch<SetStateAction<SettingsSchema[K]>>] {
+  return useLocalStorage<SettingsSchema[K]>(key, initialValue, value => isValidSetting(key, value));
+}
@@ -2,6 +2,10 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { migrateStoredSettings } from './services/settingsStore';
+
+// Stored settings are upgraded before any component reads them.
+migrateStoredSettings();
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import { AlertSettings, AlertThread, EarthquakeEvent, GeneratedAlert } from '../types';
+import { ALERT_LOG_LIMIT, DEFAULT_ALERT_SETTINGS, generateAlerts, generateFollowUps, recordAlerts } from './alertEngine';
+import { MISSING_POLLS_BEFORE_CANCEL } from './alertLifecycle';
+import { groupSequences } from './sequences';
+import { testEvent } from '../test/mockUsgsServer';
+
+const AT = new Date('2026-01-01T00:10:00Z');
+
+const SETTINGS: AlertSettings = {
+  ...DEFAULT_ALERT_SETTINGS,
+  profiles: DEFAULT_ALERT_SETTINGS.profiles.map(profile => ({ ...profile, minMagnitude: 7.0, recipients: ['duty@example.org'] })),
+};
+
+/** Runs one poll's worth of alerting, the way the dashboard and the daemon do. */
+const poll = (events: EarthquakeEvent[], threads: Record<string, AlertThread>, fetchedAt: string, settings: AlertSettings = SETTINGS) =>
+  generateAlerts({ events, threads, sequences: groupSequences(events), settings, fetchedAt, at: AT });
+
+describe('generateAlerts', () => {
+  it('alerts once for a new event at or above the threshold', () => {
+    const run = poll([testEvent()], {}, 'poll-1');
+    expect(run.changed).toBe(true);
+    expect(run.alerts).toHaveLength(1);
+    expect(run.alerts[0]).toMatchObject({ kind: 'initial', threadKey: 'us1', recipients: ['duty@example.org'] });
+    expect(run.alerts[0].subject).toContain('M7.5');
+    expect(run.alerts[0].deliveries).toEqual([expect.objectContaining({ recipient: 'duty@example.org', status: 'queued' })]);
+  });
+
+  it('does not alert again for an event it has already announced', () => {
+    const first = poll([testEvent()], {}, 'poll-1');
+    const second = poll([testEvent()], first.threads, 'poll-2');
+    expect(second.alerts).toEqual([]);
+    expect(second.changed).toBe(false);
+  });
+
+  it('ignores events below the threshold', () => {
+    const run = poll([testEvent({ magnitude: 6.9 })], {}, 'poll-1');
+    expect(run.alerts).toEqual([]);
+  });
+
+  it('does nothing while notifications are off', () => {
+    const run = poll([testEvent()], {}, 'poll-1', { ...SETTINGS, notificationsEnabled: false });
+    expect(run).toMatchObject({ alerts: [], changed: false });
+  });
+
+  it('does not open a second thread when association changes the event id', () => {
+    const first = poll([testEvent()], {}, 'poll-1');
+    const renamed = testEvent({ id: 'at1', reports: [
+      { source: 'ntwc', id: 'at1', time: new Date('2026-01-01T00:00:00Z'), magnitude: 7.5, depth: 20, lat: 38, lon: 142 },
+      { source: 'usgs-4.5-month', id: 'us1', time: new Date('2026-01-01T00:00:00Z'), magnitude: 7.5, depth: 20, lat: 38, lon: 142 },
+    ] });
+    const second = poll([renamed], first.threads, 'poll-2');
+    expect(second.alerts).toEqual([]);
+  });
+
+  it('sends an update for a material magnitude revision only', () => {
+    const first = poll([testEvent()], {}, 'poll-1');
+    expect(poll([testEvent({ magnitude: 7.6 })], first.threads, 'poll-2').alerts).toEqual([]);
+
+    const revised = poll([testEvent({ magnitude: 7.9 })], first.threads, 'poll-2');
+    expect(revised.alerts).toHaveLength(1);
+    expect(revised.alerts[0].kind).toBe('update');
+    expect(revised.alerts[0].subject).toMatch(/^UPDATE: /);
+    expect(revised.alerts[0].changes).toEqual(['Magnitude revised from M7.5 to M7.9']);
+  });
+
+  it('cancels an event once it has been missing for enough polls', () => {
+    const other = testEvent({ id: 'us2', magnitude: 5.0, time: new Date('2025-12-31T23:00:00Z') });
+    let threads = poll([testEvent(), other], {}, 'poll-1').threads;
+    const alerts: GeneratedAlert[] = [];
+    for (let i = 0; i < MISSING_POLLS_BEFORE_CANCEL; i++) {
+      const run = poll([other], threads, `missing-${i}`);
+      threads = run.threads;
+      alerts.push(...run.alerts);
+    }
+    expect(alerts.map(alert => alert.kind)).toEqual(['cancelled']);
+    expect(threads.us1.cancelled).toBe(true);
+  });
+
+  it('counts a poll only once however often it is re-planned', () => {
+    const other = testEvent({ id: 'us2', magnitude: 5.0, time: new Date('2025-12-31T23:00:00Z') });
+    let threads = poll([testEvent(), other], {}, 'poll-1').threads;
+    threads = poll([other], threads, 'poll-2').threads;
+    const replanned = poll([other], threads, 'poll-2');
+    expect(replanned.alerts).toEqual([]);
+    expect(replanned.threads.us1.missingPolls).toBe(1);
+  });
+
+  it('opens a separate thread for each enabled profile', () => {
+    const settings: AlertSettings = {
+      ...SETTINGS,
+      profiles: [...SETTINGS.profiles, { ...SETTINGS.profiles[0], id: 'night', name: 'Night', recipients: ['night@example.org'] }],
+    };
+    const run = poll([testEvent()], {}, 'poll-1', settings);
+    expect(run.alerts.map(alert => alert.threadKey).sort()).toEqual(['us1', 'us1@night']);
+  });
+
+  it('watermarks alerts raised by exercise events', () => {
+    const [alert] = poll([testEvent({ id: 'EXERCISE-drill', exercise: true })], {}, 'poll-1').alerts;
+    expect(alert.exercise).toBe(true);
+    expect(alert.subject).toMatch(/^\[EXERCISE\] /);
+    expect(alert.body).toMatch(/^\*\*\* EXERCISE/);
+  });
+});
+
+describe('recordAlerts', () => {
+  it('adds new alerts to the front and patches existing ones', () => {
+    const [alert] = poll([testEvent()], {}, 'poll-1').alerts;
+    const log = recordAlerts([alert], [{ ...alert, id: 'newer' }], new Map([[alert.id, { acknowledgedBy: 'Kai' }]]));
+    expect(log.map(a => a.id)).toEqual(['newer', alert.id]);
+    expect(log[1].acknowledgedBy).toBe('Kai');
+  });
+
+  const logged = (id: string, overrides: Partial<GeneratedAlert> = {}): GeneratedAlert => ({
+    id,
+    timestamp: AT.toISOString(),
+    kind: 'initial',
+    threadKey: id,
+    event: testEvent({ id }),
+    body: id,
+    deliveries: [{ recipient: 'duty@example.org', channelId: 'email', channel: 'email', status: 'sent', attempts: 1, updatedAt: AT.toISOString() }],
+    ...overrides,
+  });
+  const newer = Array.from({ length: ALERT_LOG_LIMIT }, (_, i) => logged(`newer-${i}`));
+
+  it('drops the oldest alerts once they are done with', () => {
+    const log = recordAlerts([logged('done')], newer);
+    expect(log).toHaveLength(ALERT_LOG_LIMIT);
+    expect(log.map(alert => alert.id)).not.toContain('done');
+  });
+
+  it('keeps alerts still waiting for their digest, delivery or escalation', () => {
+    const pending = [
+      logged('held', { quietHours: 'held', deliveries: [] }),
+      logged('retrying', { deliveries: [{ recipient: 'duty@example.org', channelId: 'email', channel: 'email', status: 'retrying', attempts: 2, updatedAt: AT.toISOString() }] }),
+      logged('escalating', { escalateAt: new Date(AT.getTime() + 15 * 60e3).toISOString() }),
+    ];
+    const log = recordAlerts(pending, newer);
+    expect(log).toHaveLength(ALERT_LOG_LIMIT + 3);
+    expect(log.slice(ALERT_LOG_LIMIT).map(alert => alert.id)).toEqual(['held', 'retrying', 'escalating']);
+
+    // Once handled, they go at the next write.
+    const handled = recordAlerts(log, [], new Map<string, Partial<GeneratedAlert>>([
+      ['held', { digestAlertId: 'digest-1' }],
+      ['retrying', { deliveries: [] }],
+      ['escalating', { acknowledgedAt: AT.toISOString(), acknowledgedBy: 'Kai' }],
+    ]));
+    expect(handled).toHaveLength(ALERT_LOG_LIMIT);
+  });
+
+  it('lets a held alert reach its digest however many alerts came after it', () => {
+    const settings: AlertSettings = { ...SETTINGS, profiles: SETTINGS.profiles.map(profile => ({ ...profile, quietHours: [] })) };
+    const log = recordAlerts([logged('held', { quietHours: 'held', deliveries: [] })], newer);
+    const { alerts } = generateFollowUps(log, settings, AT);
+    expect(alerts.map(alert => alert.digestOf)).toEqual([['held']]);
+  });
+});
+
+describe('generateFollowUps', () => {
+  it('escalates an unacknowledged alert once its deadline passes', () => {
+    const settings: AlertSettings = {
+      ...SETTINGS,
+      profiles: SETTINGS.profiles.map(profile => ({ ...profile, escalation: { enabled: true, afterMinutes: 15, recipients: ['manager@example.org'] } })),
+    };
+    const [alert] = poll([testEvent()], {}, 'poll-1', settings).alerts;
+    expect(generateFollowUps([alert], settings, new Date(AT.getTime() + 10 * 60e3)).alerts).toEqual([]);
+
+    const { alerts, patches } = generateFollowUps([alert], settings, new Date(AT.getTime() + 16 * 60e3));
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({ kind: 'escalation', escalationOf: alert.id, recipients: ['manager@example.org'] });
+    expect(patches.get(alert.id)?.escalatedAt).toBeDefined();
+
+    const acknowledged = { ...alert, acknowledgedAt: AT.toISOString(), acknowledgedBy: 'Kai' };
+    expect(generateFollowUps([acknowledged], settings, new Date(AT.getTime() + 16 * 60e3)).alerts).toEqual([]);
+  });
+});
@@ -0,0 +1,325 @@
+import { AlertProfile, AlertSettings, AlertThread, ChannelConfig, DigestPeriod, DigestSettings, EarthquakeEvent, GeneratedAlert, TransportConfig, WatchZone } from '../types';
+import { LifecycleStep, decorateAlertMessage, planAlertLifecycle, watermarkExercise } from './alertLifecycle';
+import { DEFAULT_PROFILE_ID, awaitingEscalation, digestMessage, dueDigests, dueEscalations, findProfile, isAwaitingDigest, profileTarget, quietHoursAction } from './alertProfiles';
+import { AlertTemplates, RenderedAlertMessage, renderAlertMessage } from './alertTemplate';
+import { createDeliveryRecords } from './dispatch/channels';
+import { buildDigestReport, renderDigestMessage } from './periodicDigest';
+import { SequenceIndex, isSuppressedAftershock } from './sequences';
+import { matchZones } from './watchZones';
+
+// The alerting core shared by the dashboard and the headless daemon. Everything here is a pure
+// function of events, settings and the alert log: callers keep the state and dispatch the result.
+
+/** How many alerts the log keeps, newest first, besides older ones that something is still due for. */
+export const ALERT_LOG_LIMIT = 50;
+
+export const DEFAULT_ALERT_PROFILE: AlertProfile = {
+  id: DEFAULT_PROFILE_ID,
+  name: 'Default',
+  enabled: true,
+  minMagnitude: 7.0,
+  recipients: ['example@email.com'],
+  emailTemplate: 'ALERT: A magnitude {magnitude} earthquake occurred near {location} at {time}. More details: {link}',
+  emailSubject: 'Tsunami Sentinel: M{magnitude} - {location}{#if isTsunamiWarning} [{alertLevel|upper}]{/if}',
+  emailHtmlTemplate: '',
+};
+
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+  notificationsEnabled: true,
+  profiles: [DEFAULT_ALERT_PROFILE],
+  zones: [],
+};
+
+export const DEFAULT_TRANSPORT: TransportConfig = { type: 'sink' };
+
+export const DEFAULT_CHANNELS: ChannelConfig[] = [{ id: 'email', type: 'email', enabled: true }];
+
+export const DEFAULT_DIGEST_SETTINGS: DigestSettings = {
+  enabled: false,
+  daily: true,
+  weekly: true,
+  time: '08:00',
+  weekday: 1,
+  timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  minMagnitude: 5.0,
+  recipients: [],
+  subjectTemplate: 'Tsunami Sentinel {period} digest: {eventCount} events, largest M{largestMagnitude|round:1}',
+  textTemplate: 'Seismic activity from {from} to {to}\n\n{eventCount} events by magnitude:\n{magnitudeBands}\n\nLargest: M{largestMagnitude|round:1} {largestLocation} at {largestTime} {largestLink}\n\n{#if tsunamiCount}Tsunami threats flagged ({tsunamiCount}):\n{tsunamiEvents}{else}No tsunami threats flagged.{/if}\n\nAlerts sent: {alertCount}\n{alertList}',
+  htmlTemplate: '',
+};
+
+export const alertTemplatesFrom = (profile: AlertProfile): AlertTemplates => ({
+  subject: profile.emailSubject ?? DEFAULT_ALERT_PROFILE.emailSubject!,
+  text: profile.emailTemplate,
+  html: profile.emailHtmlTemplate || undefined,
+});
+
+export const digestTemplatesFrom = (settings: DigestSettings): AlertTemplates => ({
+  subject: settings.subjectTemplate,
+  text: settings.textTemplate,
+  html: settings.htmlTemplate || undefined,
+});
+
+/** The channels an alert fans out to: those selected by its zone or profile, or every channel when none are. */
+export const channelsFor = (channels: ChannelConfig[], channelIds?: string[]): ChannelConfig[] =>
+  channelIds ? channels.filter(channel => channelIds.includes(channel.id)) : channels;
+
+/** Whether an alert has anything to send. Alerts held or suppressed by quiet hours don't. */
+export const hasDeliveries = (alert: GeneratedAlert): boolean => (alert.deliveries?.length ?? 0) > 0;
+
+/** Alerts something is still due for: a delivery, a quiet-hours digest or an escalation. */
+const pendingAlertIds = (log: GeneratedAlert[]): Set<string> => new Set([
+  ...log.filter(alert => isAwaitingDigest(alert) || alert.deliveries?.some(delivery => delivery.status === 'queued' || delivery.status === 'retrying')),
+  ...awaitingEscalation(log),
+].map(alert => alert.id));
+
+/**
+ * Adds new alerts to the front of the log and applies patches to the alerts already in it. Beyond
+ * ALERT_LOG_LIMIT, alerts are only kept while still pending, so none is dropped before it is done.
+ */
+export const recordAlerts = (log: GeneratedAlert[], added: GeneratedAlert[], patches: Map<string, Partial<GeneratedAlert>> = new Map()): GeneratedAlert[] => {
+  const next = [...added, ...log.map(alert => (patches.has(alert.id) ? { ...alert, ...patches.get(alert.id) } : alert))];
+  if (next.length <= ALERT_LOG_LIMIT) return next;
+  const pending = pendingAlertIds(next);
+  return next.filter((alert, index) => index < ALERT_LOG_LIMIT || pending.has(alert.id));
+};
+
+export interface AlertRunInput {
+  events: EarthquakeEvent[];
+  threads: Record<string, AlertThread>;
+  sequences: SequenceIndex;
+  settings: AlertSettings;
+  /** When the events were fetched; threads use it to count the polls an event has been missing. */
+  fetchedAt: string;
+  at: Date;
+}
+
+export interface AlertRun {
+  threads: Record<string, AlertThread>;
+  /** New alerts, newest last. Those without deliveries are only logged. */
+  alerts: GeneratedAlert[];
+  /** False when nothing changed and the threads can be left as they are. */
+  changed: boolean;
+}
+
+const createAlert = (step: LifecycleStep, profile: AlertProfile, zone: WatchZone | undefined, settings: AlertSettings, at: Date): GeneratedAlert | null => {
+  const transport = settings.transport ?? DEFAULT_TRANSPORT;
+  const recipients = zone ? zone.recipients : profile.recipients;
+  const deliveries = createDeliveryRecords(recipients, channelsFor(settings.channels ?? DEFAULT_CHANNELS, zone?.channelIds ?? profile.channelIds), transport);
+  if (deliveries.length === 0) {
+    return null;
+  }
+  let message: RenderedAlertMessage;
+  try {
+    message = renderAlertMessage(alertTemplatesFrom(profile), step.event, zone?.name);
+  } catch (err) {
+    // A broken template must not swallow the alert; fall back to the defaults.
+    console.error(err);
+    message = renderAlertMessage(alertTemplatesFrom(DEFAULT_ALERT_PROFILE), step.event, zone?.name);
+  }
+  message = decorateAlertMessage(message, step.kind, step.changes);
+  if (step.event.exercise) {
+    message = watermarkExercise(message);
+  }
+  // Alerts kept back by quiet hours are still logged, just not delivered.
+  const quietHours = quietHoursAction(profile, step.event, at);
+  const escalation = profile.escalation;
+
+  return {
+    id: `${step.event.id}-${zone ? `${zone.id}-` : ''}${profile.id === DEFAULT_PROFILE_ID ? '' : `${profile.id}-`}${at.toISOString()}`,
+    timestamp: at.toISOString(),
+    kind: step.kind,
+    threadKey: step.thread.key,
+    changes: step.changes.length > 0 ? step.changes : undefined,
+    event: step.event,
+    subject: message.subject,
+    body: message.text,
+    html: message.html,
+    zoneId: zone?.id,
+    zoneName: zone?.name,
+    profileId: profile.id,
+    profileName: profile.name,
+    recipients,
+    deliveries: quietHours ? [] : deliveries,
+    quietHours: quietHours === 'digest' ? 'held' : quietHours === 'suppress' ? 'suppressed' : undefined,
+    escalateAt: !quietHours && escalation?.enabled && step.kind !== 'cancelled'
+      ? new Date(at.getTime() + escalation.afterMinutes * 60 * 1000).toISOString()
+      : undefined,
+    exercise: step.event.exercise || undefined,
+  };
+};
+
+/**
+ * Works out the alerts a batch of events calls for: new threads for events that meet a profile's
+ * threshold or fall in a watch zone, and updates or cancellations for threads already open.
+ */
+export const generateAlerts = ({ events, threads, sequences, settings, fetchedAt, at }: AlertRunInput): AlertRun => {
+  if (!settings.notificationsEnabled || events.length === 0) {
+    return { threads, alerts: [], changed: false };
+  }
+  const channels = settings.channels ?? DEFAULT_CHANNELS;
+  const transport = settings.transport ?? DEFAULT_TRANSPORT;
+  const profiles = settings.profiles.filter(profile => profile.enabled);
+  const zones = (settings.zones ?? []).filter(zone => zone.enabled);
+
+  // Each profile and each zone is a separate thread, so an event already alerted by one
+  // profile can still alert another profile's or a zone's own recipients.
+  // Targets nobody would hear about are skipped, so they alert once someone is configured.
+  const canDeliver = (recipients: string[], channelIds?: string[]) => createDeliveryRecords(recipients, channelsFor(channels, channelIds), transport).length > 0;
+  // Aftershocks below a profile's magnitude open no new threads for it; existing ones still update.
+  const plan = planAlertLifecycle(events, threads, event => [
+    ...profiles
+      .filter(profile => event.magnitude >= profile.minMagnitude && !isSuppressedAftershock(sequences, event, profile.aftershockMinMagnitude))
+      .filter(profile => canDeliver(profile.recipients, profile.channelIds))
+      .map(profile => profileTarget(event, profile)),
+    ...matchZones(event, zones)
+      .filter(zone => {
+        const profile = findProfile(settings.profiles, zone.profileId);
+        return !isSuppressedAftershock(sequences, event, profile?.aftershockMinMagnitude)
+          && canDeliver(zone.recipients, zone.channelIds ?? profile?.channelIds);
+      })
+      .map(zone => ({ key: `${event.id}#${zone.id}`, zoneId: zone.id })),
+  ], fetchedAt);
+  if (!plan.changed) {
+    return { threads, alerts: [], changed: false };
+  }
+
+  const alerts = plan.steps.flatMap(step => {
+    const zone = step.thread.zoneId ? (settings.zones ?? []).find(z => z.id === step.thread.zoneId) : undefined;
+    if (step.thread.zoneId && !zone) {
+      return []; // The zone was deleted since its thread opened.
+    }
+    // A zone whose profile was deleted falls back to the default one; a deleted profile's own threads go quiet.
+    const profile = zone
+      ? findProfile(settings.profiles, zone.profileId)
+      : settings.profiles.find(p => p.id === (step.thread.profileId ?? DEFAULT_PROFILE_ID));
+    if (!profile?.enabled) {
+      return [];
+    }
+    const alert = createAlert(step, profile, zone, settings, at);
+    return alert ? [alert] : [];
+  });
+  return { threads: plan.threads, alerts, changed: true };
+};
+
+export interface FollowUps {
+  alerts: GeneratedAlert[];
+  /** Changes to alerts already in the log, keyed by alert id. */
+  patches: Map<string, Partial<GeneratedAlert>>;
+}
+
+/**
+ * The alerts that fall due with time rather than with new data: escalations of unacknowledged
+ * alerts, and digests of alerts held during quiet hours that have since ended.
+ */
+export const generateFollowUps = (log: GeneratedAlert[], settings: AlertSettings, at: Date): FollowUps => {
+  const alerts: GeneratedAlert[] = [];
+  const patches = new Map<string, Partial<GeneratedAlert>>();
+  if (!settings.notificationsEnabled) {
+    return { alerts, patches };
+  }
+  const channels = settings.channels ?? DEFAULT_CHANNELS;
+  const transport = settings.transport ?? DEFAULT_TRANSPORT;
+  const timestamp = at.toISOString();
+
+  dueEscalations(log, settings.profiles, at).forEach(({ alert, profile }) => {
+    const policy = profile.escalation!;
+    patches.set(alert.id, { escalatedAt: timestamp });
+    const message = decorateAlertMessage(
+      { subject: alert.subject ?? '', text: alert.body, html: alert.html },
+      'escalation',
+      [`Not acknowledged within ${policy.afterMinutes} minutes`],
+    );
+    alerts.push({
+      ...alert,
+      id: `${alert.id}-escalation`,
+      timestamp,
+      kind: 'escalation',
+      changes: undefined,
+      subject: message.subject,
+      body: message.text,
+      html: message.html,
+      recipients: policy.recipients,
+      deliveries: createDeliveryRecords(policy.recipients, channelsFor(channels, policy.channelIds ?? profile.channelIds), transport),
+      acknowledgedAt: undefined,
+      acknowledgedBy: undefined,
+      escalateAt: undefined,
+      escalationOf: alert.id,
+    });
+  });
+
+  dueDigests(log, settings.profiles, at).forEach(batch => {
+    const zone = batch.zoneId ? (settings.zones ?? []).find(z => z.id === batch.zoneId) : undefined;
+    const recipients = zone ? zone.recipients : batch.profile.recipients;
+    const id = `digest-${batch.profile.id}${zone ? `-${zone.id}` : ''}-${timestamp}`;
+    // Marked as sent even when nobody is left to send to, so they don't pile up.
+    batch.alerts.forEach(alert => patches.set(alert.id, { digestAlertId: id }));
+    // Exercise alerts are marked in their own lines; a digest of nothing else is an exercise too.
+    const exercise = batch.alerts.every(alert => alert.exercise);
+    const message = exercise ? watermarkExercise(digestMessage(batch)) : digestMessage(batch);
+    const largest = batch.alerts.reduce((a, b) => (b.event.magnitude > a.event.magnitude ? b : a));
+    alerts.push({
+      id,
+      timestamp,
+      kind: 'digest',
+      event: largest.event,
+      subject: message.subject,
+      body: message.text,
+      html: message.html,
+      zoneId: zone?.id,
+      zoneName: zone?.name,
+      profileId: batch.profile.id,
+      profileName: batch.profile.name,
+      recipients,
+      deliveries: createDeliveryRecords(recipients, channelsFor(channels, zone?.channelIds ?? batch.profile.channelIds), transport),
+      digestOf: batch.alerts.map(alert => alert.id),
+      exercise: exercise || undefined,
+    });
+  });
+
+  return { alerts, patches };
+};
+
+export interface PeriodicDigestInput {
+  period: DigestPeriod;
+  from: Date;
+  to: Date;
+  events: EarthquakeEvent[];
+  log: GeneratedAlert[];
+  digest: DigestSettings;
+  settings: AlertSettings;
+  /** Test digests are marked as such and don't count as a scheduled run. */
+  test?: boolean;
+  at: Date;
+}
+
+/**
+ * The daily or weekly digest for a window, or null when no event in it reaches the digest's
+ * magnitude: every message is about an event, and there is nothing to summarise.
+ */
+export const generatePeriodicDigest = ({ period, from, to, events, log, digest, settings, test = false, at }: PeriodicDigestInput): GeneratedAlert | null => {
+  const report = buildDigestReport(period, from, to, events, log, digest.minMagnitude);
+  if (!report.largest) {
+    return null;
+  }
+  let message: RenderedAlertMessage;
+  try {
+    message = renderDigestMessage(digestTemplatesFrom(digest), report);
+  } catch (err) {
+    console.error(err);
+    message = renderDigestMessage(digestTemplatesFrom(DEFAULT_DIGEST_SETTINGS), report);
+  }
+  const timestamp = at.toISOString();
+  return {
+    id: `digest-${test ? 'test-' : ''}${period}-${timestamp}`,
+    timestamp,
+    kind: 'digest',
+    digestPeriod: period,
+    event: report.largest,
+    subject: test ? `[Test] ${message.subject}` : message.subject,
+    body: message.text,
+    html: message.html,
+    recipients: digest.recipients,
+    deliveries: createDeliveryRecords(digest.recipients, channelsFor(settings.channels ?? DEFAULT_CHANNELS, digest.channelIds), settings.transport ?? DEFAULT_TRANSPORT),
+  };
+};
@@ -0,0 +1,177 @@
+import { AlertKind, AlertThread, EarthquakeEvent } from '../types';
+import { RenderedAlertMessage, escapeHtml } from './alertTemplate';
+
+/** Magnitude revisions smaller than this are noise and don't warrant an update. */
+export const MATERIAL_MAGNITUDE_CHANGE = 0.3;
+
+/**
+ * Polls an event must be missing from before it is treated as deleted upstream. One miss can
+ * just be a feed that failed while the others succeeded.
+ */
+export const MISSING_POLLS_BEFORE_CANCEL = 2;
+
+/** Alert levels from least to most severe; a level's index is its rank. */
+export const LEVEL_RANK: EarthquakeEvent['alertLevel'][] = ['none', 'info', 'advisory', 'watch', 'warning'];
+
+export interface LifecycleTarget {
+  key: string;
+  zoneId?: string;
+  profileId?: string;
+}
+
+export interface LifecycleStep {
+  kind: AlertKind;
+  thread: AlertThread;
+  event: EarthquakeEvent;
+  changes: string[];
+}
+
+export interface LifecyclePlan {
+  steps: LifecycleStep[];
+  threads: Record<string, AlertThread>;
+  changed: boolean;
+}
+
+/**
+ * Lists the material differences between the event as last announced and as now reported.
+ * Moves between 'none' and 'info' are not material; any other level change is.
+ */
+export const describeChanges = (previous: EarthquakeEvent, current: EarthquakeEvent): string[] => {
+  const changes: string[] = [];
+  if (Math.abs(current.magnitude - previous.magnitude) >= MATERIAL_MAGNITUDE_CHANGE - 1e-9) {
+    changes.push(`Magnitude revised from M${previous.magnitude.toFixed(1)} to M${current.magnitude.toFixed(1)}`);
+  }
+  const before = LEVEL_RANK.indexOf(previous.alertLevel);
+  const after = LEVEL_RANK.indexOf(current.alertLevel);
+  if (before !== after && Math.max(before, after) >= LEVEL_RANK.indexOf('advisory')) {
+    changes.push(`Alert level ${after > before ? 'raised' : 'lowered'} from ${previous.alertLevel} to ${current.alertLevel}`);
+  }
+  if (current.isTsunamiWarning !== previous.isTsunamiWarning) {
+    changes.push(current.isTsunamiWarning ? 'Tsunami threat flagged' : 'Tsunami threat flag cleared');
+  }
+  return changes;
+};
+
+/** Threads from the old `processedEvents` list, which recorded keys without event state. */
+export const threadsFromProcessedKeys = (keys: string[]): Record<string, AlertThread> =>
+  Object.fromEntries(
+    keys.map(key => {
+      const [eventId, zoneId] = key.split('#');
+      return [key, { key, eventId, zoneId, event: null, cancelled: false, missingPolls: 0 }];
+    }),
+  );
+
+/**
+ * Works out which initial, update and cancellation alerts a poll calls for.
+ *
+ * New qualifying events open a thread and get an initial alert. Events with an open thread are
+ * compared with their last announced state, whether or not they still qualify, so a downgrade is
+ * announced as well. An event that disappears from the feeds while still inside the window they
+ * cover is cancelled once it has been missing for MISSING_POLLS_BEFORE_CANCEL polls; one that has
+ * aged out of the window is simply forgotten.
+ *
+ * The plan is idempotent for a given fetch, so it can be recomputed whenever settings change.
+ *
+ * @param events The latest merged events.
+ * @param threads The current threads, keyed by thread key.
+ * @param targetsFor The thread keys an event currently qualifies for.
+ * @param fetchedAt Identifies the poll the events came from.
+ */
+export const planAlertLifecycle = (
+  events: EarthquakeEvent[],
+  threads: Record<string, AlertThread>,
+  targetsFor: (event: EarthquakeEvent) => LifecycleTarget[],
+  fetchedAt: string,
+): LifecyclePlan => {
+  const next = { ...threads };
+  const steps: LifecycleStep[] = [];
+  let changed = false;
+
+  // Association can change which source's id an event carries, so match on every report id.
+  const byId = new Map<string, EarthquakeEvent>();
+  events.forEach(event => {
+    byId.set(event.id, event);
+    event.reports?.forEach(report => byId.set(report.id, event));
+  });
+  const oldestTime = Math.min(...events.map(event => new Date(event.time).getTime()));
+  // Events an existing thread already covers, per zone and profile, so a changed id doesn't open a second thread.
+  const claimed = new Set<string>();
+  const scope = (target: { zoneId?: string; profileId?: string }, eventId: string) => `${target.zoneId ?? ''}|${target.profileId ?? ''}|${eventId}`;
+
+  Object.values(threads).forEach(thread => {
+    const event = byId.get(thread.eventId);
+
+    if (event) {
+      claimed.add(scope(thread, event.id));
+      if (!thread.event) {
+        next[thread.key] = { ...thread, event, missingPolls: 0, lastCheckedFetch: fetchedAt };
+        changed = true;
+        return;
+      }
+      const changes = [...(thread.cancelled ? ['Event reinstated by its source'] : []), ...describeChanges(thread.event, event)];
+      if (changes.length > 0) {
+        next[thread.key] = { ...thread, event, cancelled: false, missingPolls: 0, lastCheckedFetch: fetchedAt };
+        steps.push({ kind: 'update', thread: next[thread.key], event, changes });
+        changed = true;
+      } else if (thread.missingPolls > 0) {
+        next[thread.key] = { ...thread, missingPolls: 0, lastCheckedFetch: fetchedAt };
+        changed = true;
+      }
+      return;
+    }
+
+    if (thread.cancelled || !thread.event || thread.lastCheckedFetch === fetchedAt || events.length === 0) {
+      return;
+    }
+    if (new Date(thread.event.time).getTime() < oldestTime) {
+      next[thread.key] = { ...thread, event: null, missingPolls: 0, lastCheckedFetch: fetchedAt };
+      changed = true;
+      return;
+    }
+    const missingPolls = thread.missingPolls + 1;
+    if (missingPolls >= MISSING_POLLS_BEFORE_CANCEL) {
+      next[thread.key] = { ...thread, cancelled: true, missingPolls, lastCheckedFetch: fetchedAt };
+      steps.push({ kind: 'cancelled', thread: next[thread.key], event: thread.event, changes: ['Event removed by its source'] });
+    } else {
+      next[thread.key] = { ...thread, missingPolls, lastCheckedFetch: fetchedAt };
+    }
+    changed = true;
+  });
+
+  events.forEach(event => {
+    targetsFor(event).forEach(target => {
+      if (next[target.key] || claimed.has(scope(target, event.id))) return;
+      next[target.key] = { key: target.key, eventId: event.id, zoneId: target.zoneId, profileId: target.profileId, event, cancelled: false, missingPolls: 0, lastCheckedFetch: fetchedAt };
+      steps.push({ kind: 'initial', thread: next[target.key], event, changes: [] });
+      changed = true;
+    });
+  });
+
+  return { steps, threads: next, changed };
+};
+
+/** Labels that mark every kind of alert but the first for an event. */
+export const ALERT_KIND_LABELS: Partial<Record<AlertKind, string>> = { update: 'UPDATE', cancelled: 'CANCELLED', escalation: 'ESCALATED', digest: 'DIGEST' };
+
+/** Marks an update, cancellation or escalation in the subject and leads the body with what changed. */
+export const decorateAlertMessage = (message: RenderedAlertMessage, kind: AlertKind, changes: string[]): RenderedAlertMessage => {
+  const label = ALERT_KIND_LABELS[kind];
+  if (!label) return message;
+  const summary = kind === 'cancelled'
+    ? 'This event is no longer listed by its source. Disregard the earlier alert.'
+    : changes.join('; ');
+  return {
+    subject: `${label}: ${message.subject}`,
+    text: `${label}: ${summary}\n\n${message.text}`,
+    html: message.html && `<p><strong>${label}:</strong> ${escapeHtml(summary)}</p>\n${message.html}`,
+  };
+};
+
+const EXERCISE_MARK = '*** EXERCISE - EXERCISE - EXERCISE ***';
+
+/** Marks a message raised by an exercise at the top and bottom of the body and in the subject, so a drill is never read as real. */
+export const watermarkExercise = (message: RenderedAlertMessage): RenderedAlertMessage => ({
+  subject: `[EXERCISE] ${message.subject}`,
+  text: `${EXERCISE_MARK}\n\n${message.text}\n\n${EXERCISE_MARK}`,
+  html: message.html && `<p><strong>${EXERCISE_MARK}</strong></p>\n${message.html}\n<p><strong>${EXERCISE_MARK}</strong></p>`,
+});
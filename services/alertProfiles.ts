@@ -0,0 +1,131 @@
+import { AlertProfile, EarthquakeEvent, GeneratedAlert, QuietHours } from '../types';
+import { LEVEL_RANK, LifecycleTarget } from './alertLifecycle';
+import { RenderedAlertMessage, escapeHtml } from './alertTemplate';
+import { formatDateTime } from './formatting';
+
+/** The profile that existed before profiles did. Its threads keep bare event-id keys, and it can't be deleted. */
+export const DEFAULT_PROFILE_ID = 'default';
+
+/** The profile with the given id, or the default profile when there is none (e.g. it was deleted). */
+export const findProfile = (profiles: AlertProfile[], profileId: string = DEFAULT_PROFILE_ID): AlertProfile | undefined =>
+  profiles.find(profile => profile.id === profileId) ?? profiles.find(profile => profile.id === DEFAULT_PROFILE_ID) ?? profiles[0];
+
+/** The lifecycle target for an event that meets a profile's own threshold. */
+export const profileTarget = (event: EarthquakeEvent, profile: AlertProfile): LifecycleTarget =>
+  profile.id === DEFAULT_PROFILE_ID ? { key: event.id } : { key: `${event.id}@${profile.id}`, profileId: profile.id };
+
+/** Minutes past midnight for an "HH:MM" time, or null when it is malformed. */
+export const minutesOfDay = (time: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+};
+
+const wallClockMinutes = (at: Date, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  return part('hour') * 60 + part('minute');
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Whether `at` falls inside a quiet-hours window. Windows with an unknown time zone or malformed
+ * times never match, so a typo can't silence alerts.
+ */
+export const isWithinQuietHours = (window: QuietHours, at: Date): boolean => {
+  const start = minutesOfDay(window.start);
+  const end = minutesOfDay(window.end);
+  if (start === null || end === null || start === end || !isValidTimeZone(window.timeZone)) return false;
+  const now = wallClockMinutes(at, window.timeZone);
+  return start < end ? now >= start && now < end : now >= start || now < end;
+};
+
+/**
+ * What the profile's quiet hours do to an alert about the event at `at`, or null to send it as
+ * usual. Levels above every active window's `maxLevel` always go out. Where windows overlap,
+ * holding for a digest wins over suppressing.
+ */
+export const quietHoursAction = (profile: AlertProfile, event: EarthquakeEvent, at: Date): QuietHours['action'] | null => {
+  const rank = LEVEL_RANK.indexOf(event.alertLevel);
+  const active = (profile.quietHours ?? []).filter(window => rank <= LEVEL_RANK.indexOf(window.maxLevel) && isWithinQuietHours(window, at));
+  if (active.length === 0) return null;
+  return active.some(window => window.action === 'digest') ? 'digest' : 'suppress';
+};
+
+export interface DigestBatch {
+  profile: AlertProfile;
+  zoneId?: string;
+  alerts: GeneratedAlert[];
+}
+
+/** Whether an alert was held during quiet hours and hasn't gone out in a digest yet. */
+export const isAwaitingDigest = (alert: GeneratedAlert): boolean => alert.quietHours === 'held' && !alert.digestAlertId;
+
+/**
+ * Held alerts whose profile is out of its digest quiet hours, grouped by profile and zone so each
+ * group goes to its own recipients in one message.
+ */
+export const dueDigests = (alerts: GeneratedAlert[], profiles: AlertProfile[], at: Date): DigestBatch[] => {
+  const batches = new Map<string, DigestBatch>();
+  for (const alert of alerts) {
+    if (!isAwaitingDigest(alert)) continue;
+    const profile = findProfile(profiles, alert.profileId);
+    if (!profile || (profile.quietHours ?? []).some(window => window.action === 'digest' && isWithinQuietHours(window, at))) continue;
+    const key = `${profile.id}|${alert.zoneId ?? ''}`;
+    const batch = batches.get(key) ?? { profile, zoneId: alert.zoneId, alerts: [] };
+    batch.alerts.push(alert);
+    batches.set(key, batch);
+  }
+  return [...batches.values()];
+};
+
+const alertHeadline = (alert: GeneratedAlert) => alert.subject ?? `M${alert.event.magnitude.toFixed(1)} - ${alert.event.location}`;
+
+/** One message listing every alert in a batch, oldest first. */
+export const digestMessage = (batch: DigestBatch): RenderedAlertMessage => {
+  const ordered = [...batch.alerts].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  const intro = `${ordered.length} alert${ordered.length === 1 ? ' was' : 's were'} held during quiet hours for the ${batch.profile.name} profile${ordered[0]?.zoneName ? ` (zone ${ordered[0].zoneName})` : ''}:`;
+  return {
+    subject: `Tsunami Sentinel digest: ${ordered.length} alert${ordered.length === 1 ? '' : 's'} held during quiet hours`,
+    text: [intro, '', ...ordered.map(alert => `- ${formatDateTime(new Date(alert.timestamp))}: ${alertHeadline(alert)} ${alert.event.link}`)].join('\n'),
+    html: `<p>${escapeHtml(intro)}</p>\n<ul>${ordered.map(alert =>
+      `<li>${escapeHtml(formatDateTime(new Date(alert.timestamp)))}: <a href="${escapeHtml(alert.event.link)}">${escapeHtml(alertHeadline(alert))}</a></li>`).join('')}</ul>`,
+  };
+};
+
+/**
+ * Alerts that will escalate unless acknowledged first: the latest alert of each thread with
+ * nothing acknowledged, that has a deadline and hasn't escalated yet.
+ */
+export const awaitingEscalation = (alerts: GeneratedAlert[]): GeneratedAlert[] => {
+  const acknowledgedThreads = new Set(alerts.filter(alert => alert.acknowledgedAt).map(alert => alert.threadKey ?? alert.id));
+  const seenThreads = new Set<string>();
+  // Alerts are stored newest first.
+  return alerts.filter(alert => {
+    const thread = alert.threadKey ?? alert.id;
+    if (alert.kind === 'escalation' || alert.kind === 'digest') return false;
+    const isLatest = !seenThreads.has(thread);
+    seenThreads.add(thread);
+    return isLatest && Boolean(alert.escalateAt) && !alert.escalatedAt && !acknowledgedThreads.has(thread);
+  });
+};
+
+/**
+ * Alerts due for escalation: awaiting it and past their `escalateAt`, and only while their profile
+ * still has an enabled policy with someone to notify.
+ */
+export const dueEscalations = (alerts: GeneratedAlert[], profiles: AlertProfile[], at: Date): { alert: GeneratedAlert; profile: AlertProfile }[] =>
+  awaitingEscalation(alerts).flatMap(alert => {
+    if (Date.parse(alert.escalateAt!) > at.getTime()) return [];
+    const profile = findProfile(profiles, alert.profileId);
+    if (!profile?.escalation?.enabled || profile.escalation.recipients.length === 0) return [];
+    return [{ alert, profile }];
+  });
@@ -0,0 +1,334 @@
+import { EarthquakeEvent } from '../types';
+import { formatDateTime, formatUtc, timeAgo } from './formatting';
+
+/*
+ * A small, logic-light template language for alert messages.
+ *
+ *   {magnitude}                   a field with its default formatting
+ *   {depth|mi} {time|utc}         filters, applied left to right to the raw value
+ *   {title|truncate:60|upper}     filter arguments follow a colon, separated by commas
+ *   {#if isTsunamiWarning}...{else}...{/if}
+ *   {#if magnitude >= 7.5}...{/if} {#unless zone}...{/unless}
+ *
+ * Braces that don't form a known placeholder are left untouched, so JSON or CSS in an HTML
+ * body survives rendering.
+ */
+
+export type TemplateValue = string | number | boolean | Date | null | undefined;
+export type TemplateContext = Record<string, TemplateValue>;
+
+type Filter = (value: TemplateValue, args: string[]) => TemplateValue;
+
+interface FilterCall {
+  name: string;
+  args: string[];
+}
+
+interface Condition {
+  field: string;
+  operator?: '==' | '!=' | '>=' | '<=' | '>' | '<';
+  operand?: string;
+}
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'field'; name: string; filters: FilterCall[] }
+  | { kind: 'block'; negate: boolean; condition: Condition; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+/** Placeholders available in every alert template, with a description for the settings UI. */
+export const TEMPLATE_FIELDS: Record<string, string> = {
+  magnitude: 'Magnitude, one decimal',
+  magType: 'Magnitude type, e.g. mww',
+  firstMagnitude: 'Magnitude as first reported, before any revision',
+  reviewStatus: 'automatic or reviewed',
+  location: 'Place description',
+  title: 'Full event title',
+  depth: 'Depth in km',
+  time: 'Origin time (local)',
+  updated: 'Last update time (local)',
+  timeAgo: 'Time since the origin, e.g. "5 minutes ago"',
+  lat: 'Latitude, two decimals',
+  lon: 'Longitude, two decimals',
+  alertLevel: 'none, info, advisory, watch or warning',
+  alertLevelSource: 'bulletin or inferred',
+  isTsunamiWarning: 'Whether a tsunami threat is flagged',
+  threatScore: 'Threat score from the scoring rules',
+  bulletinCenter: 'Center of the latest official bulletin',
+  bulletinHeadline: 'Headline of the latest official bulletin',
+  sourceCount: 'Number of feeds that reported the event',
+  source: 'Preferred source feed',
+  link: 'Event page URL',
+  id: 'Event identifier',
+  rawSummary: 'Summary text from the source feed',
+  zone: 'Watch zone name, or "global threshold"',
+  inZone: 'Whether a watch zone triggered the alert',
+};
+
+const KM_PER_MILE = 1.609344;
+
+const toNumber = (value: TemplateValue): number => (value instanceof Date ? value.getTime() : Number(value));
+const toDate = (value: TemplateValue): Date | null => {
+  if (value instanceof Date) return value;
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+};
+
+const FILTERS: Record<string, Filter> = {
+  round: (value, [digits]) => toNumber(value).toFixed(parseInt(digits ?? '0', 10) || 0),
+  km: value => `${toNumber(value).toFixed(1)} km`,
+  mi: value => `${(toNumber(value) / KM_PER_MILE).toFixed(1)} mi`,
+  local: value => { const date = toDate(value); return date ? formatDateTime(date) : value; },
+  utc: value => { const date = toDate(value); return date ? formatUtc(date) : value; },
+  iso: value => toDate(value)?.toISOString() ?? value,
+  ago: value => { const date = toDate(value); return date ? timeAgo(date) : value; },
+  upper: value => stringify(value).toUpperCase(),
+  lower: value => stringify(value).toLowerCase(),
+  truncate: (value, [length]) => {
+    const text = stringify(value);
+    const max = parseInt(length ?? '', 10);
+    return Number.isNaN(max) || text.length <= max ? text : `${text.slice(0, Math.max(0, max - 1))}…`;
+  },
+  default: (value, args) => (value === null || value === undefined || value === '' ? args.join(',') : value),
+  yesno: (value, [yes = 'yes', no = 'no']) => (value ? yes : no),
+};
+
+export const TEMPLATE_FILTERS = Object.keys(FILTERS);
+
+// Formatting used when a field has no filters, matching how the dashboard shows the same values.
+const DEFAULT_FORMATS: Record<string, (value: TemplateValue) => string> = {
+  magnitude: value => toNumber(value).toFixed(1),
+  firstMagnitude: value => toNumber(value).toFixed(1),
+  depth: value => `${toNumber(value).toFixed(1)} km`,
+  lat: value => toNumber(value).toFixed(2),
+  lon: value => toNumber(value).toFixed(2),
+};
+
+const stringify = (value: TemplateValue): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return formatDateTime(value);
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  return String(value);
+};
+
+export const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+const FIELD_PATTERN = /^([A-Za-z][\w]*)((?:\s*\|\s*[A-Za-z]+(?::[^|]*)?)*)$/;
+const CONDITION_PATTERN = /^([A-Za-z][\w]*)(?:\s*(==|!=|>=|<=|>|<)\s*(.+))?$/;
+
+const parseFilters = (source: string): FilterCall[] =>
+  source
+    .split('|')
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => {
+      const colon = part.indexOf(':');
+      const name = colon === -1 ? part : part.slice(0, colon);
+      if (!FILTERS[name]) {
+        throw new Error(`Unknown template filter "${name}"`);
+      }
+      return { name, args: colon === -1 ? [] : part.slice(colon + 1).split(',').map(arg => arg.trim()) };
+    });
+
+const parseCondition = (source: string, fields: Record<string, string>): Condition => {
+  const match = source.trim().match(CONDITION_PATTERN);
+  if (!match || !(match[1] in fields)) {
+    throw new Error(`Invalid condition "${source.trim()}"`);
+  }
+  const operand = match[3]?.trim().replace(/^(['"])(.*)\1$/, '$2');
+  return { field: match[1], operator: match[2] as Condition['operator'], operand };
+};
+
+/**
+ * Parses a template into a tree of text, fields and conditional blocks.
+ * @param fields The placeholders the template may use; other braces are kept as text.
+ * @throws If a block is unbalanced, a condition is malformed or a filter is unknown.
+ */
+const parseTemplate = (template: string, fields: Record<string, string> = TEMPLATE_FIELDS): TemplateNode[] => {
+  const root: TemplateNode[] = [];
+  // Each open block and the branch currently being filled.
+  const stack: { block: Extract<TemplateNode, { kind: 'block' }>; tag: string; branch: TemplateNode[] }[] = [];
+  const current = () => (stack.length > 0 ? stack[stack.length - 1].branch : root);
+  const tagPattern = /\{([^{}\n]+)\}/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  const pushText = (text: string) => {
+    if (text) current().push({ kind: 'text', text });
+  };
+
+  while ((match = tagPattern.exec(template)) !== null) {
+    pushText(template.slice(lastIndex, match.index));
+    lastIndex = tagPattern.lastIndex;
+    const tag = match[1].trim();
+
+    const open = tag.match(/^#(if|unless)\s+(.+)$/);
+    if (open) {
+      const block: Extract<TemplateNode, { kind: 'block' }> = {
+        kind: 'block',
+        negate: open[1] === 'unless',
+        condition: parseCondition(open[2], fields),
+        then: [],
+        otherwise: [],
+      };
+      current().push(block);
+      stack.push({ block, tag: open[1], branch: block.then });
+      continue;
+    }
+    if (tag === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.branch === top.block.otherwise) {
+        throw new Error('{else} without a matching {#if}');
+      }
+      top.branch = top.block.otherwise;
+      continue;
+    }
+    const close = tag.match(/^\/(if|unless)$/);
+    if (close) {
+      const top = stack.pop();
+      if (!top || top.tag !== close[1]) {
+        throw new Error(`{/${close[1]}} without a matching {#${close[1]}}`);
+      }
+      continue;
+    }
+
+    const field = tag.match(FIELD_PATTERN);
+    if (field && field[1] in fields) {
+      current().push({ kind: 'field', name: field[1], filters: parseFilters(field[2]) });
+    } else {
+      pushText(match[0]);
+    }
+  }
+  pushText(template.slice(lastIndex));
+
+  if (stack.length > 0) {
+    throw new Error(`Unclosed {#${stack[stack.length - 1].tag}} block`);
+  }
+  return root;
+};
+
+const testCondition = (condition: Condition, context: TemplateContext): boolean => {
+  const value = context[condition.field];
+  if (!condition.operator) {
+    return Boolean(value) && value !== 'none';
+  }
+  const operand = condition.operand ?? '';
+  const numeric = typeof value === 'number' || value instanceof Date;
+  const left = numeric ? toNumber(value) : stringify(value).toLowerCase();
+  const right = numeric ? parseFloat(operand) : operand.toLowerCase();
+  switch (condition.operator) {
+    case '==': return left === right;
+    case '!=': return left !== right;
+    case '>=': return left >= right;
+    case '<=': return left <= right;
+    case '>': return left > right;
+    case '<': return left < right;
+    default: return false;
+  }
+};
+
+const renderNodes = (nodes: TemplateNode[], context: TemplateContext, html: boolean): string =>
+  nodes
+    .map(node => {
+      if (node.kind === 'text') return node.text;
+      if (node.kind === 'block') {
+        const passed = testCondition(node.condition, context) !== node.negate;
+        return renderNodes(passed ? node.then : node.otherwise, context, html);
+      }
+      const raw = context[node.name];
+      const text = node.filters.length === 0
+        ? (DEFAULT_FORMATS[node.name] ?? stringify)(raw)
+        : stringify(node.filters.reduce((value, filter) => FILTERS[filter.name](value, filter.args), raw));
+      return html ? escapeHtml(text) : text;
+    })
+    .join('');
+
+/**
+ * Renders a template against a context.
+ * @param template The template text.
+ * @param context Values for the placeholders, usually from buildTemplateContext.
+ * @param options.html Escape placeholder values for use in an HTML body.
+ * @param options.fields The placeholders to recognise; TEMPLATE_FIELDS unless given.
+ * @throws If the template is malformed; see parseTemplate.
+ */
+export const renderTemplate = (template: string, context: TemplateContext, options: { html?: boolean; fields?: Record<string, string> } = {}): string =>
+  renderNodes(parseTemplate(template, options.fields), context, options.html ?? false);
+
+/** Checks a template for syntax errors, returning the error message or null if it is valid. */
+export const validateTemplate = (template: string, fields: Record<string, string> = TEMPLATE_FIELDS): string | null => {
+  try {
+    parseTemplate(template, fields);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
+/**
+ * Collects the placeholder values for an event.
+ * @param event The event being alerted on.
+ * @param zoneName The watch zone that triggered the alert, if any.
+ */
+export const buildTemplateContext = (event: EarthquakeEvent, zoneName?: string): TemplateContext => {
+  const bulletin = event.bulletins?.[event.bulletins.length - 1];
+  return {
+    id: event.id,
+    title: event.title,
+    time: new Date(event.time),
+    updated: new Date(event.updated),
+    timeAgo: timeAgo(new Date(event.time)),
+    link: event.link,
+    location: event.location,
+    magnitude: event.magnitude,
+    magType: event.magType ?? null,
+    firstMagnitude: event.revisions?.[0]?.magnitude ?? event.magnitude,
+    reviewStatus: event.reviewStatus ?? null,
+    depth: event.depth,
+    lat: event.lat,
+    lon: event.lon,
+    isTsunamiWarning: event.isTsunamiWarning,
+    rawSummary: event.rawSummary,
+    alertLevel: event.alertLevel,
+    alertLevelSource: event.alertLevelSource ?? 'inferred',
+    threatScore: event.threat?.score ?? null,
+    bulletinCenter: bulletin?.center ?? null,
+    bulletinHeadline: bulletin?.headline ?? null,
+    sourceCount: event.reports?.length ?? 1,
+    source: event.source,
+    zone: zoneName ?? 'global threshold',
+    inZone: Boolean(zoneName),
+  };
+};
+
+/** Renders a template for an event. */
+export const fillTemplate = (template: string, event: EarthquakeEvent, zoneName?: string): string =>
+  renderTemplate(template, buildTemplateContext(event, zoneName));
+
+export interface AlertTemplates {
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface RenderedAlertMessage {
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Renders the subject, plain-text and (optional) HTML parts of an alert message.
+ * @throws If any of the templates is malformed.
+ */
+export const renderAlertMessage = (templates: AlertTemplates, event: EarthquakeEvent, zoneName?: string): RenderedAlertMessage => {
+  const context = buildTemplateContext(event, zoneName);
+  return {
+    // Subjects are a single header line.
+    subject: renderTemplate(templates.subject, context).replace(/\s+/g, ' ').trim(),
+    text: renderTemplate(templates.text, context),
+    html: templates.html ? renderTemplate(templates.html, context, { html: true }) : undefined,
+  };
+};
@@ -0,0 +1,102 @@
+import { EarthquakeEvent, FeedSourceConfig, ThreatRule } from '../types';
+import { usgsGeoJsonAdapter } from './feeds/usgsGeoJson';
+import { fdsnTextAdapter } from './feeds/fdsnText';
+import { applyThreatAssessment } from './threatScoring';
+import { reviveEarthquakeEvent } from './eventSerialization';
+import { EventArchive } from './eventArchive';
+
+export const USGS_FDSN_QUERY_URL = 'https://earthquake.usgs.gov/fdsnws/event/1/query';
+
+// The USGS service refuses queries matching more than 20,000 events; a month of M4.5+ is ~600.
+const DEFAULT_CHUNK_DAYS = 30;
+const FDSN_MAX_RESULTS = 20000;
+
+const BACKFILL_SOURCE: FeedSourceConfig = {
+  id: 'usgs-fdsn-backfill',
+  name: 'USGS FDSN (backfill)',
+  kind: 'usgs-geojson',
+  url: USGS_FDSN_QUERY_URL,
+  enabled: false,
+};
+
+const FILE_SOURCE: FeedSourceConfig = {
+  id: 'file-import',
+  name: 'Imported file',
+  kind: 'fdsn-text',
+  url: '',
+  enabled: false,
+};
+
+export interface BackfillOptions {
+  start: Date;
+  end: Date;
+  minMagnitude: number;
+  /** Any FDSN event service that can answer with USGS-style GeoJSON. */
+  baseUrl?: string;
+  chunkDays?: number;
+  threatRules?: ThreatRule[];
+  onProgress?: (progress: { completed: number; total: number; imported: number }) => void;
+  signal?: AbortSignal;
+}
+
+/** The FDSN query URL for one time window. */
+export const fdsnQueryUrl = (baseUrl: string, start: Date, end: Date, minMagnitude: number): string => {
+  const params = new URLSearchParams({
+    format: 'geojson',
+    starttime: start.toISOString(),
+    endtime: end.toISOString(),
+    minmagnitude: String(minMagnitude),
+    orderby: 'time-asc',
+    limit: String(FDSN_MAX_RESULTS),
+  });
+  return `${baseUrl}?${params}`;
+};
+
+/**
+ * Fills the archive with events from an FDSN event service, one time window at a time so each
+ * request stays under the service's result limit and progress can be reported.
+ * @returns The number of new event versions archived.
+ */
+export const backfillFromFdsn = async (archive: EventArchive, options: BackfillOptions): Promise<number> => {
+  const chunkMs = (options.chunkDays ?? DEFAULT_CHUNK_DAYS) * 24 * 60 * 60 * 1000;
+  const windows: [Date, Date][] = [];
+  for (let start = options.start.getTime(); start < options.end.getTime(); start += chunkMs) {
+    windows.push([new Date(start), new Date(Math.min(start + chunkMs, options.end.getTime()))]);
+  }
+
+  let imported = 0;
+  for (const [index, [start, end]] of windows.entries()) {
+    const url = fdsnQueryUrl(options.baseUrl ?? USGS_FDSN_QUERY_URL, start, end, options.minMagnitude);
+    const response = await fetch(url, { signal: options.signal });
+    if (!response.ok) {
+      throw new Error(`Backfill of ${start.toISOString().slice(0, 10)} to ${end.toISOString().slice(0, 10)} failed: ${response.status} ${response.statusText}`);
+    }
+    const { events } = usgsGeoJsonAdapter.parse(await response.text(), { ...BACKFILL_SOURCE, url });
+    if (events.length >= FDSN_MAX_RESULTS) {
+      console.warn(`Backfill window starting ${start.toISOString()} hit the ${FDSN_MAX_RESULTS} result limit; raise the minimum magnitude or shorten the window.`);
+    }
+    imported += await archive.archive(applyThreatAssessment(events, options.threatRules));
+    options.onProgress?.({ completed: index + 1, total: windows.length, imported });
+  }
+  return imported;
+};
+
+/**
+ * Reads events from a local file. Accepts USGS GeoJSON (feeds or FDSN query output), FDSN text,
+ * and JSON arrays of events such as the dashboard's own cached feed.
+ */
+export const parseEventFile = (content: string, threatRules: ThreatRule[] = []): EarthquakeEvent[] => {
+  const trimmed = content.trimStart();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    const data = JSON.parse(content);
+    if (Array.isArray(data?.features)) {
+      return applyThreatAssessment(usgsGeoJsonAdapter.parse(content, { ...FILE_SOURCE, kind: 'usgs-geojson' }).events, threatRules);
+    }
+    const raw: EarthquakeEvent[] | undefined = Array.isArray(data) ? data : data?.events;
+    if (!Array.isArray(raw)) {
+      throw new Error('Unrecognised JSON: expected GeoJSON features or a list of events');
+    }
+    return raw.map(reviveEarthquakeEvent);
+  }
+  return applyThreatAssessment(fdsnTextAdapter.parse(content, FILE_SOURCE).events, threatRules);
+};
@@ -0,0 +1,205 @@
+import { LatLon } from '../types';
+import { BATHYMETRY_DATA } from './bathymetryData';
+import { haversineKm } from './geo';
+import { rasterizeLand } from './landMask';
+
+// A coarse global depth grid for tsunami travel times.
+//
+// The bundled depths (bathymetryData.ts) are resampled here to 1° and the bundled land outlines
+// mark the coast. Each source cell holds the deepest point of a 2.8125° terrain tile rather than a
+// typical depth, because a tile's shallowest point is usually an island or seamount that the wave
+// front goes around. Shelves narrower than a cell are missing, so the last stretch to a harbour is
+// added separately (see travelTime.ts). Over this grid, first arrivals of the 2010 Maule and 2011
+// Tohoku tsunamis at Hilo come out within an hour of the tide-gauge records.
+
+export const BATHYMETRY_RESOLUTION_DEG = 1;
+
+export interface BathymetryGrid {
+  width: number; // columns, westwards from -180°
+  height: number; // rows, southwards from 90°
+  resolution: number;
+  depths: Float32Array; // metres; 0 marks land
+}
+
+/**
+ * Neighbour offsets [dRow, dCol] for shortest paths. The knight moves cut the error of an
+ * eight-neighbour grid (fronts shaped like octagons) to under 3%.
+ */
+const NEIGHBOURS: [number, number][] = [
+  [-1, 0], [1, 0], [0, -1], [0, 1], [-1, -1], [-1, 1], [1, -1], [1, 1],
+  [-1, -2], [-1, 2], [1, -2], [1, 2], [-2, -1], [-2, 1], [2, -1], [2, 1],
+];
+
+export const cellCenter = (grid: BathymetryGrid, index: number): LatLon => {
+  const row = Math.floor(index / grid.width);
+  const col = index % grid.width;
+  return { lat: 90 - (row + 0.5) * grid.resolution, lon: -180 + (col + 0.5) * grid.resolution };
+};
+
+export const cellIndex = (grid: BathymetryGrid, lat: number, lon: number): number => {
+  const row = Math.min(grid.height - 1, Math.max(0, Math.floor((90 - lat) / grid.resolution)));
+  const col = ((Math.floor((lon + 180) / grid.resolution) % grid.width) + grid.width) % grid.width;
+  return row * grid.width + col;
+};
+
+/**
+ * The ocean cell nearest to a point, searching outwards up to `maxCells` cells.
+ * @returns The cell index, or null if the point is further inland than that.
+ */
+export const nearestOceanCell = (grid: BathymetryGrid, lat: number, lon: number, maxCells = 4): number | null => {
+  const start = cellIndex(grid, lat, lon);
+  if (grid.depths[start] > 0) return start;
+  const row = Math.floor(start / grid.width);
+  const col = start % grid.width;
+  let best: number | null = null;
+  let bestKm = Infinity;
+  for (let dRow = -maxCells; dRow <= maxCells; dRow++) {
+    const r = row + dRow;
+    if (r < 0 || r >= grid.height) continue;
+    for (let dCol = -maxCells; dCol <= maxCells; dCol++) {
+      const index = r * grid.width + (((col + dCol) % grid.width) + grid.width) % grid.width;
+      if (grid.depths[index] <= 0) continue;
+      const center = cellCenter(grid, index);
+      const km = haversineKm(lat, lon, center.lat, center.lon);
+      if (km < bestKm) {
+        best = index;
+        bestKm = km;
+      }
+    }
+  }
+  return best;
+};
+
+/**
+ * Multi-source shortest paths over the grid's ocean cells (Dijkstra with a binary heap).
+ * @param edgeCost The cost of moving between neighbouring cells given the distance in km.
+ * @param passable Whether a cell can be entered.
+ * @returns The cost to reach every cell; Infinity where unreachable.
+ */
+export const shortestPaths = (
+  grid: Pick<BathymetryGrid, 'width' | 'height' | 'resolution'>,
+  sources: { index: number; cost: number }[],
+  passable: (index: number) => boolean,
+  edgeCost: (from: number, to: number, km: number) => number,
+): Float32Array => {
+  const { width, height, resolution } = grid;
+  const costs = new Float32Array(width * height).fill(Infinity);
+
+  // Neighbour distances depend only on the row, so they are computed once per row.
+  const edgeKm = new Float32Array(height * NEIGHBOURS.length);
+  for (let row = 0; row < height; row++) {
+    const lat = 90 - (row + 0.5) * resolution;
+    NEIGHBOURS.forEach(([dRow, dCol], k) => {
+      edgeKm[row * NEIGHBOURS.length + k] = haversineKm(lat, 0, lat - dRow * resolution, dCol * resolution);
+    });
+  }
+
+  let heapIndex = new Int32Array(1024);
+  let heapCost = new Float32Array(1024);
+  let size = 0;
+  const push = (index: number, cost: number) => {
+    if (size === heapIndex.length) {
+      const grownIndex = new Int32Array(size * 2); grownIndex.set(heapIndex); heapIndex = grownIndex;
+      const grownCost = new Float32Array(size * 2); grownCost.set(heapCost); heapCost = grownCost;
+    }
+    let i = size++;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (heapCost[parent] <= cost) break;
+      heapIndex[i] = heapIndex[parent];
+      heapCost[i] = heapCost[parent];
+      i = parent;
+    }
+    heapIndex[i] = index;
+    heapCost[i] = cost;
+  };
+  const pop = (): number => {
+    const top = heapIndex[0];
+    const lastIndex = heapIndex[--size];
+    const lastCost = heapCost[size];
+    let i = 0;
+    for (;;) {
+      let child = 2 * i + 1;
+      if (child >= size) break;
+      if (child + 1 < size && heapCost[child + 1] < heapCost[child]) child++;
+      if (heapCost[child] >= lastCost) break;
+      heapIndex[i] = heapIndex[child];
+      heapCost[i] = heapCost[child];
+      i = child;
+    }
+    heapIndex[i] = lastIndex;
+    heapCost[i] = lastCost;
+    return top;
+  };
+
+  sources.forEach(({ index, cost }) => {
+    if (cost < costs[index]) {
+      costs[index] = cost;
+      push(index, cost);
+    }
+  });
+
+  while (size > 0) {
+    const cost = heapCost[0];
+    const index = pop();
+    if (cost > costs[index]) continue; // stale entry
+    const row = Math.floor(index / width);
+    const col = index % width;
+    for (let k = 0; k < NEIGHBOURS.length; k++) {
+      const r = row + NEIGHBOURS[k][0];
+      if (r < 0 || r >= height) continue;
+      const next = r * width + (((col + NEIGHBOURS[k][1]) % width) + width) % width;
+      if (!passable(next)) continue;
+      const nextCost = cost + edgeCost(index, next, edgeKm[row * NEIGHBOURS.length + k]);
+      if (nextCost < costs[next]) {
+        costs[next] = nextCost;
+        push(next, nextCost);
+      }
+    }
+  }
+  return costs;
+};
+
+const decodeDepths = (base64: string): Int16Array => {
+  const bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+  const view = new DataView(bytes.buffer);
+  return Int16Array.from({ length: bytes.length / 2 }, (_, i) => view.getInt16(i * 2, true));
+};
+
+let cachedGrid: BathymetryGrid | null = null;
+
+/** The depth grid. Built on first use from the bundled data and cached. */
+export const getBathymetryGrid = (): BathymetryGrid => {
+  if (cachedGrid) return cachedGrid;
+  const source = { ...BATHYMETRY_DATA, depths: decodeDepths(BATHYMETRY_DATA.depths) };
+  const resolution = BATHYMETRY_RESOLUTION_DEG;
+  const width = Math.round(360 / resolution);
+  const height = Math.round(180 / resolution);
+  const land = rasterizeLand(resolution);
+
+  // Bilinear interpolation between the four surrounding source cells, over the wet ones only,
+  // so a coastline in the source doesn't drag the depths next to it towards zero.
+  const depths = new Float32Array(width * height);
+  for (let index = 0; index < depths.length; index++) {
+    if (land[index]) continue;
+    const { lat, lon } = cellCenter({ width, height, resolution, depths }, index);
+    const x = (lon + 180) / source.resolution - 0.5;
+    const y = (90 - lat) / source.resolution - 0.5;
+    const [col, row] = [Math.floor(x), Math.floor(y)];
+    let sum = 0;
+    let weights = 0;
+    for (const [dCol, dRow] of [[0, 0], [1, 0], [0, 1], [1, 1]]) {
+      const r = Math.min(source.height - 1, Math.max(0, row + dRow));
+      const depth = source.depths[r * source.width + (((col + dCol) % source.width) + source.width) % source.width];
+      const weight = (dCol ? x - col : 1 - (x - col)) * (dRow ? y - row : 1 - (y - row));
+      if (depth > 0) {
+        sum += weight * depth;
+        weights += weight;
+      }
+    }
+    depths[index] = weights > 0 ? sum / weights : 0;
+  }
+
+  cachedGrid = { width, height, resolution, depths };
+  return cachedGrid;
+};
@@ -0,0 +1,388 @@
+// Ocean depths on a 2° grid, for the tsunami travel-time model in bathymetry.ts.
+//
+// Source: CesiumJS (Apache-2.0) ships the height range of every 2.8125° tile of Cesium World
+// Terrain, which includes bathymetry, as Source/Assets/approximateTerrainHeights.json. Each cell
+// here takes the lower bound of the level-6 tile that contains its centre. Depths are positive
+// metres as little-endian Int16, rows southwards from 90° and columns eastwards from -180°; 0 marks
+// a cell whose whole tile is above sea level.
+
+export const BATHYMETRY_DATA = {
+  width: 180,
+  height: 90,
+  resolution: 2,
+  depths: [
+  '9BCSEJIQghDMEMwQ2RCFEKkQqRCdEIkQiRCTEIMQfhB+EH0QfxB/EIMQfxB2EHYQdhB3EHcQdhB2EHYQdhB2EHYQdhB2EHcQdxB3EHgQeBB4EHgQdxB3',
+  'EHYQdhB3EHcQexB3EHcQdxB8EJgQmBB9EHcQdxB+EH8QdxB3EHcQdxB3EHcQdxB3EHcQexCMEIwQhRCjEKMQrxCqEK8QrxAkESwRLBEZEQkRKREpEQQR',
+  'CxELEQwRBhESERIRHBEZERkRJxEaES0RLREmETERMRE8ESURNBE0ET8RSBFIETYRUBFCEUIRMBJeEl4S7hGfEZ8RohEgESARIBHOEaMRoxE2EXcRPxE/',
+  'ET0RORE5ESwRPRExETERQRE4ETgRKREcESIRIhEcEQcRBxHvEFcRJxEnESoRGxEbEdEQ0RC6ELoQwxC8ELwQYRFLEUsRMhEpET4RPhEKEc4QzhDIEMAQ',
+  'vRC9ELgQnhCeEPYQjw/fD98Pbw9uD24PYQ8PEBAQEBA3DwoPCg/JDjwOXg1eDYYNgQ2BDfoLuAsbCxsL+wrwCvAKvAqRCpEKPwpbCgoKCgpbCv4K/gos',
+  'C7AKpAmkCW4KPAo8Ck4KqgrfCt8K4ArgCuAK5ArhCkIKQgq7CVYJVgk4CEcIwwjDCMMJ7wrvChMM2w7XDtcOzg7UDtQOeA8sECwQ9RBQEYkRiRGVEW4R',
+  'bhFNEVkRRBFEER4RZBFkETARFRMcFRwVHhTLE8sTrxR6E8cSxxI9FD4UPhReE2ATUBJQEgIUfBR8FIUUHBREFEQU8hNCFEIUKBPxEvESbxKCE5gTmBN7',
+  'EYwQjBB7ECgRPhE+ET0RPBE8EUsRKhF+EX4RdhE9ET0RKBErESsRKxFCEXARcBFaEUcRXxFfEVwRCREJEQAR4hDCEMIQEhCBDoEO9gzQCtAKyQgpDeEN',
+  '4Q3DD7sPuw+UD4kPrA+sD6IPzA/MD34Pjw/fD98Pbw9uD24PYQ8PEBAQEBA3DwoPCg/JDjwOXg1eDYYNgQ2BDfoLuAsbCxsL+wrwCvAKvAqRCpEKPwpb',
+  'CgoKCgpbCv4K/gosC7AKpAmkCW4KPAo8Ck4KqgrfCt8K4ArgCuAK5ArhCkIKQgq7CVYJVgk4CEcIwwjDCMMJ7wrvChMM2w7XDtcOzg7UDtQOeA8sECwQ',
+  '9RBQEYkRiRGVEW4RbhFNEVkRRBFEER4RZBFkETARFRMcFRwVHhTLE8sTrxR6E8cSxxI9FD4UPhReE2ATUBJQEgIUfBR8FIUUHBREFEQU8hNCFEIUKBPx',
+  'EvESbxKCE5gTmBN7EYwQjBB7ECgRPhE+ET0RPBE8EUsRKhF+EX4RdhE9ET0RKBErESsRKxFCEXARcBFaEUcRXxFfEVwRCREJEQAR4hDCEMIQEhCBDoEO',
+  '9gzQCtAKyQgpDeEN4Q3DD7sPuw+UD4kPrA+sD6IPzA/MD34PmgsWDBYMOA31DfUN7g4rDxMPEw8OD/YO9g4aDx0OlQ6VDnoOyg7KDtQOkg6HDocObQ4m',
+  'DiYOwA1CDUINGw3LDIcMhwwzDOIL4gsjC2AKkwmTCeMIYwhjCGMIdgcYBxgH6QY5BjkGowUfBacEpwRkBdEF0QXIBigHEwcTBwYH/Af8B3MIHAjsB+wH',
+  '7QfbBtsGSwSMA4wDPgTEBrMMswz5DNUO1Q79DnIPjQ+ND+MSaRJpEgYRrBBmEGYQ4A/PD88PzA/TD8UPxQ9NEMIPwg/TD7AQ5RDlEOcPmg+aD40Peg+B',
+  'D4EPgg9yD3IPJw/NDs0O1Q5BDiQOJA4KDvcN9w3zDRMOFA4UDjYOUQ5RDmkOnA7RDtEO0Q4LDwsPOg84EGgQaBBhEK4QrhAyEWsU+xH7EUURfBF8EUsR',
+  'ZRGbEZsRABG/Db8N7QvcCtwK3gpCC2MLYwv0DRgOGA5oDWsNVQ1VDasMIgwiDFcL7AnADMAMFA0TDRMNtA30Dv4O/g79DnAPcA95D0QPNQ81DyAP6w7r',
+  'DtkOqw6VDpUOkA4uDi4O3w3sDOwMBA1/C+UK5QofCvQI9AjmBowEuAK4ApgCLwIvAkcDIAMhAyEDDwMRAhECEwHfAewB7AHCATQDNAMdBG4EWAJYApkB',
+  'NAE0AVUDigGUAZQBoACXAJcAKAEeAR4BLgHCAY0CjQIPBUUCRQKdAXYB9Qj1CL4NwRDBECURlBWUFZQVxwkNCA0IpglnCgsKCwplCsIGwgZCB1UGCQQJ',
+  'BGIB1gHWAT0C5wFSAlICTwIcAhwCPAJWAlYCcQF5AUECQQKEAoACgAI3AuoASAFIAYABjQGNAYUB1ADeAN4AdgTOCM4IpQu9DHANcA3XDdcN1w1GDuAU',
+  'FBQUFBEQIhAiENAPzg95DnkOOw1+CH4IMwkZChkKQgrpCjILMgvHCyQLJAsjCyUL/gr+CuQKkQqRCscJ7AnADMAMFA0TDRMNtA30Dv4O/g79DnAPcA95',
+  'D0QPNQ81DyAP6w7rDtkOqw6VDpUOkA4uDi4O3w3sDOwMBA1/C+UK5QofCvQI9AjmBowEuAK4ApgCLwIvAkcDIAMhAyEDDwMRAhECEwHfAewB7AHCATQD',
+  'NAMdBG4EWAJYApkBNAE0AVUDigGUAZQBoACXAJcAKAEeAR4BLgHCAY0CjQIPBUUCRQKdAXYB9Qj1CL4NwRDBECURlBWUFZQVxwkNCA0IpglnCgsKCwpl',
+  'CsIGwgZCB1UGCQQJBGIB1gHWAT0C5wFSAlICTwIcAhwCPAJWAlYCcQF5AUECQQKEAoACgAI3AuoASAFIAYABjQGNAYUB1ADeAN4AdgTOCM4IpQu9DHAN',
+  'cA3XDdcN1w1GDuAUFBQUFBEQIhAiENAPzg95DnkOOw1+CH4IMwkZChkKQgrpCjILMgvHCyQLJAsjCyUL/gr+CuQKkQqRCscJoQa/CL8I4AloC2gLPgr+',
+  'CLAKsAoYDz0PPQ9aD1gPZg9mDzYP9w73Dt0OqQ50DnQOCg4ZDRkNswuQCZAJ5waYAv4B/gEbAioCKgJCAkICCAIIAusBjAKMAvUB2AEaAxoDRwPEAsQC',
+  '+AJNBiMEIwQQBL0DvQPAAm4DigKKApAAsACwADkBmQGVAZUBVwHgAOAA1AHWAdYBVwGrAY8DjwNSBIgCiAIOAtoBDAYMBo8Leg56DqsOqwznDOcMUw4/',
+  'CT8JRwijAygBKAELAc4AzgBEAVIBSwFLATQBEwETAVgBaQFoAWgBeAFhAWEBgAFIAUgBXQFkAYoBigEjAv4B/gGyAT4BvwC/AMkAxwDHAOIAcwB/AH8A',
+  '1wDlAOUA6wDfADIBMgFhA7MHswd0CeAKuAu4C7ALegt6C3UL1AuICIgInwJUAFQATwBLAEsASwBbAHoAegCtAEYBRgEfBBwIhgmGCW8J3AjcCHYHEAU/',
+  'CD8IPwhNB00HIgISCLMJswk3D/oP+g9gD08PGg8aD+sOwQ7BDpQOOQ6sDawNngv+Bv4GAwIoAigCCwIXAhMCEwJCApQClAJYAtEBAgECAVgBUgFSAfYB',
+  '8QEGAwYDKwO5A7kDPwQIBD8GPwY0CWcJZwl+CI8E9AT0BNAE1QDVABUAAQFzAXMBEwElASUB0wB2AHYACwP1AqcCpwIUAuAB4AG5CbgL/wz/DLUNbg5u',
+  'DtAOLQ+6DroO3w1jDWMNqQkMCNgB2AHiAb8BvwG3AaoBdwF3AUIBIAEgAVwBfwFiAWIBOgEnAScB/ACMAYwB8wGOAVsBWwFPAREBEQF5AFAASQBJADsA',
+  'PgA+AEIAPAAZABkAFgAJAAkABwAVACEAIQApADEAMQAxAE4ARABEADYAMwAzADMALgAoACgAGgAZABkAHQAfAB8AHwAgACkAKQAwAHQAdAB2AKAAxQDF',
+  'AA4BcQJxAnwEfgCCAIIAhACFAIUAhACDAAsBCwFwCqEOoQ4oDyMPtQ61DlsO6Q3pDQYNsQvUCtQKigkeAx4DWgKfAp8CuQHKAfgA+ABHAZEBkQE4AYUB',
+  'JAEkAfABpAGkAfYB1gHhAuECoQBTA1MDJgScA7MGswYvCV8JXwkLCcEHygPKA8gDpQWlBRgDzgCtAa0B0wDTANMAkgAHAAcADQXHBcsEywRgAsQGxAZD',
+  'CvYLZQtlC5oOVwxXDPAMLw2tDa0NZw1OC04L5goEClsFWwXJAfIB8gGuAZoBwAHAAUEBdAF0AYUBeQFZAVkBIgHHAMcA9wCMAYwBjAHXAKQApABhAB4A',
+  'HgAhABYAHAAcAA8ADAAMAAwADgAPAA8ADAAMAAwADQAQAAsACwAKAAkACQAGABIAEwATAAcADgAOAB0AGgAcABwAHQATABMADQAOAA4AEgAfAB8AHwAZ',
+  'AHYAdgA8AHUAdgB2AHgAewB7AHwAfgCCAIIAhACFAIUAhACDAAsBCwFwCqEOoQ4oDyMPtQ61DlsO6Q3pDQYNsQvUCtQKigkeAx4DWgKfAp8CuQHKAfgA',
+  '+ABHAZEBkQE4AYUBJAEkAfABpAGkAfYB1gHhAuECoQBTA1MDJgScA7MGswYvCV8JXwkLCcEHygPKA8gDpQWlBRgDzgCtAa0B0wDTANMAkgAHAAcADQXH',
+  'BcsEywRgAsQGxAZDCvYLZQtlC5oOVwxXDPAMLw2tDa0NZw1OC04L5goEClsFWwXJAfIB8gGuAZoBwAHAAUEBdAF0AYUBeQFZAVkBIgHHAMcA9wCMAYwB',
+  'jAHXAKQApABhAB4AHgAhABYAHAAcAA8ADAAMAAwADgAPAA8ADAAMAAwADQAQAAsACwAKAAkACQAGABIAEwATAAcADgAOAB0AGgAcABwAHQATABMADQAO',
+  'AA4AEgAfAB8AHwAZAHYAdgA8AHUAdgB2AHgAewB7AHwAfwCAAIAAgAB/AH8AfwB7AHwAfAB7AHkAeQB4AHUAcgByAG8AwADAAC0CkABfAF8AWgADAQMB',
+  'WwHpAekBGgLzAX0BfQGOAW4BbgGcAKUA+QD5ALgAhQCFAA8BXAGlAaUB7QDFAMUAnABgAGsBawHzAaEHoQdLCJYH6gTqBMQDaANoA7sENQNxAnEC9AGC',
+  'AYIBmgAFBAUEXwLaBOgF6AX4BVcJVwkvBxYImAiYCDYNtQ61Dp0ORA6zDLMMjgzoC+gLjQs4CtgF2AWsAcUBxQE+AIgBgQGBAR0B6wDrAAIBhQB7AHsA',
+  'ZAB8AHwAngCCAIIAywDSAFAAUAAXABIAEgAVABQADwAPABAAEAAQAAwAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAMAAAAAAAAAAAAA',
+  'AAAAAAAAAAAAYgBnAGcAagBrAGsAawBwAHMAcwB1AHcAdwB3AHYAeQB5AHsAeAB5AHkAdgBzAHMAcQBwAG4AbgBuAG0AbQBrAGoAZwBnAGUAYQBhAF4A',
+  'XABYAFgAVABQAFAATABJAEkARwBFAEEAQQA+AEEBQQE6ADcANAA0ADAAMQAxACgAggDxAfEBtgHfAd8BzgBCACMAIwAZACUFJQUEA6gFJQUlBZQDMgIy',
+  'AvMBOACjAKMAPgP5A/kDKQUPCQ8J/Aj1BEsFSwU2AqkDqQMGBa8GBgoGCjoPQA9AD34OTw44CTgJcwaOBY4F3AIEAgAAAABuAHYAdgABAAAAegB6AMwA',
+  'vQC9AFEAFwAQABAAAAAAAAAAAAAAAAAAAAAHAAsACwAPABEAEQASAA8AFAAUABMAEwATABcAAAAAAAAABgAGAAYAEAAbACEAIQAnACwALAA1ADwAQABA',
+  'AEIASwBLAEsATwBVAFUAWQBaAFoAYgBlAGUAZgBmAGUAZQBoAGoAagBqAGwAbwBvAHIAdAB0AHUAeAB5AHkAdgBzAHMAcQBwAG4AbgBuAG0AbQBrAGoA',
+  'ZwBnAGUAYQBhAF4AXABYAFgAVABQAFAATABJAEkARwBFAEEAQQA+AEEBQQE6ADcANAA0ADAAMQAxACgAggDxAfEBtgHfAd8BzgBCACMAIwAZACUFJQUE',
+  'A6gFJQUlBZQDMgIyAvMBOACjAKMAPgP5A/kDKQUPCQ8J/Aj1BEsFSwU2AqkDqQMGBa8GBgoGCjoPQA9AD34OTw44CTgJcwaOBY4F3AIEAgAAAABuAHYA',
+  'dgABAAAAegB6AMwAvQC9AFEAFwAQABAAAAAAAAAAAAAAAAAAAAAHAAsACwAPABEAEQASAA8AFAAUABMAEwATABcAAAAAAAAABgAGAAYAEAAbACEAIQAn',
+  'ACwALAA1ADwAQABAAEIASwBLAEsATwBVAFUAWQBaAFoAYgBlAGUAZgBmAGUAZQBoAGoAagBqAGwAbwBvAHIAdAB0AHUArwB2AHYAewBjAGMAYQBgAF8A',
+  'XwBeAFwAXABbAFkAVgBWAFUAUgBSAFEATwBPAE8ATABJAEkARQBCAEIAQAA9ADsAOwA5ADUANQAzADAALgAuAFIAdwB3AMoA6QDcANwAOgEkAiQCMgIe',
+  'AqoBqgHPAsYCxgJNArYIagpqCjMLiguKC4cFAABCA0IDNAh4CngKTwt1C3ULYgreBmkGaQbIB8oIygjKCKEGHgkeCS8Ong2eDRIM9wpcCVwJ5QIuAi4C',
+  'cwEAAAIBAgGiAF0AXQAAAAAAAAAAAAAAAAAAAAMAAAAAAAAAAAAAAAAAAAAAAAAABQAHAAoACgAAAAAAAAAAAAkAEwATAAkADgAOAA8AAAACAAIABwAQ',
+  'ABAAFAAaACUAJQArAC8ALwA2AD0AQwBDAEgATQBNAFAAUgBUAFQAVQBZAFkAWQBYAFgAVwBVAFUAVQBVAFgAWABbAGAAYgBiAGQAewB7AK8A4g3AAMAA',
+  'swCfAJ8A4gFWAFoAWgBRAE8ATwArAhEHwwrDCnMS3g7eDrMBNgNDAEMAQAA/AD8APQA7ADsAOAA2ADQANAAzADEAMQAuACsAKQApACUArQCtANEAEQEe',
+  'AR4BNwH1APUAtAACAFoBWgFZAskDyQPvAlIKjQyNDNwN5A3kDfINLgwFCQUJ8AuhDKEMNw3zC/MLMQlTDOAN4A3CD9MK0wo/CuMHvwi/CLEFNwY3BjgG',
+  'bQG3BLcEygQ/AT8BAAAAABQBFAHRAHMAcwBbABsAKQApAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAFAAAAAMAAwAoAAMAAwAMABIAAgACAAAAAAAA',
+  'AAcAKQACAAIABwAOAA4AEQAaAB4AHgAnAC4ALgA0ADkAPwA/AEEARQBFAEgASgBLAEsATQBLAEsAxgCnAKcApQChAMMBwwHFABcBFwG/BU4NpwynDM4N',
+  'dg52Do8OVhCSDpIOeQ28CLwIAwJSAFAAUAAnAU0BTQGaDwYV1hPWE/USWg9aD1QOWAxmA2YD2AAvAC8ALAAsACwAKgAqACsAKwArACcAJwAmACEAHwAf',
+  'ABwAbwBvAMcA8QDxAPEA/QDuAO4AuQAGABcAFwDGALEAsQCrAaMJDg0ODZUOeQ55DugOXw6bEJsQ9A30DfQNbQyUDJQMjQ8iDpEPkQ9sDdsK2wp2BjsK',
+  'vgm+CfMF9wD3ANAAwgA3ATcBIgKVApUCUQAmAKoBqgHbACIAIgAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAFQAAAAAAAAAAAAAAAAAA',
+  'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAGAAYADQASABgAGAAgACUAJQArADAANAA0ADcAOwA7ADwAPAA8ADwAxQCuAa4B5gEtAS0ByAH1A7IBsgFyAOYE',
+  '5gSmEB4Q+A/4D6UPWRFZEcERVhCSDpIOeQ28CLwIAwJSAFAAUAAnAU0BTQGaDwYV1hPWE/USWg9aD1QOWAxmA2YD2AAvAC8ALAAsACwAKgAqACsAKwAr',
+  'ACcAJwAmACEAHwAfABwAbwBvAMcA8QDxAPEA/QDuAO4AuQAGABcAFwDGALEAsQCrAaMJDg0ODZUOeQ55DugOXw6bEJsQ9A30DfQNbQyUDJQMjQ8iDpEP',
+  'kQ9sDdsK2wp2BjsKvgm+CfMF9wD3ANAAwgA3ATcBIgKVApUCUQAmAKoBqgHbACIAIgAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAFQAA',
+  'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAGAAYADQASABgAGAAgACUAJQArADAANAA0ADcAOwA7ADwAPAA8ADwAxQCuAa4B5gEtAS0B',
+  'yAH1A7IBsgFyAOYE5gSmEB4Q+A/4D6UPWRFZEcERug/LEMsQKQ+cDZwNWRSYEIoaiho0HYcXhxfSFZQVjxKPEk0SbhBuEGgOmA1wDHAMBAMaAhoCJQAj',
+  'ACMAHwAeAB4AHgAeAB4AHgAdABwAGQAZABcAFgAWABMAUAC8ALwAvAD4APgA8wDeAGsAawA/AAwADACTAMcChQqFCqUNXg5eDg0Q/g8DDwMPZA+fDp8O',
+  'MAzTDdMNcA2YDuQP5A+wDw8KDwo0DIsLgQqBCtgA/AD8AEsAeAAjACMAFQAXABcADQBCAGsAawBHAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  'AAAAAAAAAAAAoAAAAAAAAAAAAAkACQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAADAAMACgARAKcEpwQkASQAJAApAC0AMQAxADQANAA0ADQANACuAK4A',
+  'owDGAsYCXAcUBxQHowWgA9kA2QCnB18cXxxQG28b2hLaEqQRrxWvFcwQHxagHKAcWx50HHQcaRzcG0MbQxt0F3wUfBSxFgYXcBRwFEcTtBG0EZEP1g4q',
+  'DioOdQ/EB8QHcwIaABoAFwAXABcAFwAYABgAGAAYABcAFQAVABIAEQARAA8ADAAIAAgAOAB9AH0AMABhAEkASQACAAAAAAAAANQAMAEwATsC2AzYDK8P',
+  'ZBHpEukScRVyEXIRwRLTEtMStxKsEMYQxhCpETMTMxOqElQKkwSTBFYAeAB4AAsAHwAEAAQAlgAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAZwBn',
+  'AAAAAAAAAAAAAAABAAEAAAAAAAAAAADHAAAAAAAAAAAAAAAgAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAHAAcAowMWBNEE0QQiACcAJwAqAC0ALwAvADEA',
+  'MAAwAC8ALgAtAC0AvwBeAF4ABwcHBwcHmQUABcgEyATZHvUe9R40GHAbrhyuHIEcuxy7HJYcHxagHKAcWx50HHQcaRzcG0MbQxt0F3wUfBSxFgYXcBRw',
+  'FEcTtBG0EZEP1g4qDioOdQ/EB8QHcwIaABoAFwAXABcAFwAYABgAGAAYABcAFQAVABIAEQARAA8ADAAIAAgAOAB9AH0AMABhAEkASQACAAAAAAAAANQA',
+  'MAEwATsC2AzYDK8PZBHpEukScRVyEXIRwRLTEtMStxKsEMYQxhCpETMTMxOqElQKkwSTBFYAeAB4AAsAHwAEAAQAlgAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  'AAAAAAAAAAAAZwBnAAAAAAAAAAAAAAABAAEAAAAAAAAAAADHAAAAAAAAAAAAAAAgAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAHAAcAowMWBNEE0QQiACcA',
+  'JwAqAC0ALwAvADEAMAAwAC8ALgAtAC0AvwBeAF4ABwcHBwcHmQUABcgEyATZHvUe9R40GHAbrhyuHIEcuxy7HJYctBypHKkchxxkFmQW6hZfF7gUuBQB',
+  'FXwVfBVFFhgWpx+nHxwTNho2GnISABHmE+YTJg7pDekNpgmkAaQBFgAUABUAFQAWABYAFgAWABUAEwATAA8ADgAOAAwArwCnAKcAAQADAAMAAAANASMB',
+  'IwGAAZ8BnwHNAS0EAgICAmkC5QLlApAKFxH3EfcRoBIOEw4T8RO3EbcRKxB6EIQRhBEAEl8TXxNcE40SqhGqEQIIjgCOAH4AEwAxADEAAAAAAAAAAAAA',
+  'AAAAAAAAAAAAAAAAAAAArgCuABAAAAAAAAAALQAtAC0AKwAyADIAIwAAAAAAAAAAAAAAAAA4AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAgAMAAwA',
+  'EwAcACIAIgAoACwALAAwADEAMgAyADEAMAAwAC4AKwAoACgAGQPBA8EDWQqUDZQN/w1fDX8hfyEhH84XzhdVGDkcoRqhGh8Yexx7HLYcKBoLGAsYHRkp',
+  'Gykb6hiRFvsW+xYcFrgWuBYYGBUWUBRQFG0TdxJ3EkwSIhHfEd8RGhCgDaANRAwkASQBFgAVABQAFAAUABQAFAATABIAEAAQAA0ADAAMAIUAogAAAQAB',
+  'UAAiACIAAABFAA0BDQGvAJAAkACJACICBAIEAksFGgEaAXgM1hHQEtASMRNAE0ATsBJdEV0RBA9ZEH0RfRFmE5wTnBNKE5YWqROpE1sTnBKcEm4JAAAA',
+  'AAAAAAA8ADwAMQAjAAAAAAAAAAAAAAAxAOcA1wDXADwAKAAoAEsABwAlACUALwA0ADQAUwAbABsABAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  'AAAEAAQADQAWABYAHwAnAC4ALgAzADYANgA3ADcANwA3ADYANAA0ADIALQAlCCUImQj9BP0EoA6bDpsO+Rx4JWYqZiqoIAkeCR5IKG0a5RrlGj8e8xfz',
+  'F5IZKBoLGAsYHRkpGykb6hiRFvsW+xYcFrgWuBYYGBUWUBRQFG0TdxJ3EkwSIhHfEd8RGhCgDaANRAwkASQBFgAVABQAFAAUABQAFAATABIAEAAQAA0A',
+  'DAAMAIUAogAAAQABUAAiACIAAABFAA0BDQGvAJAAkACJACICBAIEAksFGgEaAXgM1hHQEtASMRNAE0ATsBJdEV0RBA9ZEH0RfRFmE5wTnBNKE5YWqROp',
+  'E1sTnBKcEm4JAAAAAAAAAAA8ADwAMQAjAAAAAAAAAAAAAAAxAOcA1wDXADwAKAAoAEsABwAlACUALwA0ADQAUwAbABsABAAAAAAAAAAAAAAAAAAAAAAA',
+  'AAAAAAAAAAAAAAAAAAAEAAQADQAWABYAHwAnAC4ALgAzADYANgA3ADcANwA3ADYANAA0ADIALQAlCCUImQj9BP0EoA6bDpsO+Rx4JWYqZiqoIAkeCR5I',
+  'KG0a5RrlGj8e8xfzF5IZPBwcHRwddxy1G7UbphlbF94W3ha4GHQXdBfvF0EWdxV3FVEUwBPAE+oRjBNrEGsQHxNrEWsRjw0tAC0AGAAYABYAFgAVABQA',
+  'FAATABEAEAAQAAsACgAKAAUARQCHAIcASABrAGsAygBGANsA2wBMAXYHdgdBDUsSyxLLEpQTcxNzE1gPkhTNE80T5xMWExYTcBEnECcQVA7GDY0RjRFx',
+  'FxsXGxd4Ft4UlROVE0kTjBKMEsQMAAA6CToJpAo4CjgKTgDzAaAEoAQAAAAAAACFAI0I2gjaCFEKkQiRCNEHAABMAEwA8wJCAkICcgAXABcAAgAYAAAA',
+  'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAN0AEwAOAA4AFwAjACMAKQAyADcANwA8AD4APgA+AD0APQA9ADsAOAA4AKELjg5/Dn8Ong4aAxoDwRh3JHcktyUf',
+  'JewX7BcKGXUhdSHBHQYXOBs4G5odLxwvHDAcdB/1GfUZ+hcfGh8aihqSGiIZIhk3F3kXeRfzF20XvBa8FlIYGxgbGEkXjRVBFEEUhRK1ErUSRhEuAC4A',
+  'GgAZABcAFwAWABUAFQAUABEADwAPAA0ACQAJAAUAAgAAAAAAAAAAAAAANgB6AE4KTgrgDisTKxMfFA0VOxU7Fb4VwRXBFc4VDhVNFE0UwBTpFOkUKRMK',
+  'EAoQHQ1VEEARQBHrFGQWZBZZFm0VvRO9EwAAAAAAAF8A+whwC3ALgQvQC9ALBw6jDXcJdwnFBAsGCwaABUgIgQiBCOYIRQhFCOgHAAACAAIAlwPcA9wD',
+  'PQBmAGYAAAAwAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAgAEQAdAB0AJwAxADEANwA/AEIAQgBFAEYARgBGAEUAYwBjAIYAxgnGCTcOEA9qDmoOARAP',
+  'Cw8Lvx2qHKoc7xq4JuYk5iTwG10XXReuGEEZaRtpG5QZhRqFGtkaKx6KHYod+hkzGjMaMRuzGmQdZB15GuEY4RihGLoYJBkkGUkX0RjRGKkYvxchFiEW',
+  'yBWmE6YTThQdDx0PGgBsABgAGAAWABUAFQATABEADwAPAAwACAAIAAUABQABAAEAAAAAAAAAWQBoDYgRiBGnE/QT9BNmFXEVPBY8FgUW0hbSFo0WiBZe',
+  'Fl4WnhT/FP8UbxIPDg8O4Q1rDtAU0BTJFfMW8xYUFm0V4RPhEwcGHAMcA6cKwQuTC5MLIwxjC2ML5w3qDbkPuQ/oE/8F/wX9BUQGuwS7BD4BAAAAAAAA',
+  'AAAAAAAACAQsBCwEQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAEACQAJABUAHgAqACoAMwA8ADwAQgBHAEsASwBOAE4ATgBOAFMAZwBnAEYA4Qnh',
+  'CdMMAQ6ZDZkN2QkTHhMeeB78Hfwd+B8uIngZeBlgGCEWIRaOGjQXphqmGgIZGRYZFlcWKx6KHYod+hkzGjMaMRuzGmQdZB15GuEY4RihGLoYJBkkGUkX',
+  '0RjRGKkYvxchFiEWyBWmE6YTThQdDx0PGgBsABgAGAAWABUAFQATABEADwAPAAwACAAIAAUABQABAAEAAAAAAAAAWQBoDYgRiBGnE/QT9BNmFXEVPBY8',
+  'FgUW0hbSFo0WiBZeFl4WnhT/FP8UbxIPDg8O4Q1rDtAU0BTJFfMW8xYUFm0V4RPhEwcGHAMcA6cKwQuTC5MLIwxjC2ML5w3qDbkPuQ/oE/8F/wX9BUQG',
+  'uwS7BD4BAAAAAAAAAAAAAAAACAQsBCwEQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAEACQAJABUAHgAqACoAMwA8ADwAQgBHAEsASwBOAE4ATgBO',
+  'AFMAZwBnAEYA4QnhCdMMAQ6ZDZkN2QkTHhMeeB78Hfwd+B8uIngZeBlgGCEWIRaOGjQXphqmGgIZGRYZFlcWGxVoGGgYSRkkGSQZ3xmxHGsYaxhdGAEY',
+  'ARh0GDoY5hbmFmwYrBisGDgZsxaUGZQZwRkoFSgVBxQOFA4UqQtxABcAFwAVABQAFAATABAADgAOAAsACQAJAAYABQACAAIAAABFAEUA7gM0E1AVUBVh',
+  'FnwVfBVmFRgWGhsaG8cWIRshG8wWyRfWFNYULxPgEOAQSxJKDkoOaQ5SFeIW4hbvFVQWVBbgE5YTBRMFEy4NCgcKB4UKdwoAAAAABADKAMoALge6D0gQ',
+  'SBDpExsSGxI6EWQRCAsIC8gIAAAAAAAAAAAAAAAAAAAcABwAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAwADAA8AFQAVACMALAA4ADgAPwBJAEkAUABS',
+  'AFIAUgBSAFIAUgBPAE4AUABQAHUAywDLAFsIIAaJCokKBhljJGMkahu4G7gb6iEoGmsaaxqtFboZuhkxG68bmBeYF84Y2xTbFJ0UOBkVGBUYRBj3GPcY',
+  '1BhLGB0YHRigGPAZ8Bn5FtYYTBhMGCoZBRkFGaIX4hemFaYV6BUWFBYUYBTtEu0S7hHaCf0A/QAUABIAEgARAA8ADQANAAsACQAJADoAMQAHAAcAKQBi',
+  'A2IDIA4JFQ4WDhYeFooWihbvFI0XOxg7GEYX0RjRGKgYfhaSFJIUWhUWEhYSEhPBEsESBBLUFRcXFxfzFBETERPSEbERbhFuEYkAAAAAAAAAAAAAAAAA',
+  'AAAFAAUA/wEFCDQPNA9kD1INUg3ODIEMlAqUCmYIAAAAAAAAAAANAA0ADQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAYAEAAQABsAIQAhAC0AOAA9',
+  'AD0ARQBLAEsAUQBSAFIAUgBQAE0ATQBkAEwANAA0AI8AlgOWAzAKUhPbEtsSjRBFJkUmbBomGSYZYBvTGLgpuCmuFkwZTBl0Hr0alBeUF7IWQhdCF8sW',
+  'OBkVGBUYRBj3GPcY1BhLGB0YHRigGPAZ8Bn5FtYYTBhMGCoZBRkFGaIX4hemFaYV6BUWFBYUYBTtEu0S7hHaCf0A/QAUABIAEgARAA8ADQANAAsACQAJ',
+  'ADoAMQAHAAcAKQBiA2IDIA4JFQ4WDhYeFooWihbvFI0XOxg7GEYX0RjRGKgYfhaSFJIUWhUWEhYSEhPBEsESBBLUFRcXFxfzFBETERPSEbERbhFuEYkA',
+  'AAAAAAAAAAAAAAAAAAAFAAUA/wEFCDQPNA9kD1INUg3ODIEMlAqUCmYIAAAAAAAAAAANAA0ADQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAYAEAAQ',
+  'ABsAIQAhAC0AOAA9AD0ARQBLAEsAUQBSAFIAUgBQAE0ATQBkAEwANAA0AI8AlgOWAzAKUhPbEtsSjRBFJkUmbBomGSYZYBvTGLgpuCmuFkwZTBl0Hr0a',
+  'lBeUF7IWQhdCF8sWxBdBGEEYoxbgFuAWohcgF+8X7xc6G2IaYhrwGVgaZhlmGW8YCBYIFokUcxVqFWoVRRbiFOIU7RT9Ev0SkRSnEnEGcQZPBBAAEAAP',
+  'AA0ACwALAEcAbgBuAI4B6ApuC24LUwAeBB4E/BPfFKoWqhYFFkUZRRnLF2scIhoiGv0YjhiOGKsWfRV7FHsUdhM5FTkVABeXFpcWhRTzFcAVwBVeFKcS',
+  'pxIrEWgNpQqlCqEAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAIwCjALBAAYABgBzAC8AUwBTANwGAAAAAAAAAAAxADEAWABXAFcAAAAAAAAAAAAAAAAAAAAA',
+  'AAMAAwAMABkAIgAiACwAMwAzAD0ARQBKAEoATABPAE8ATwBQAFEAUQBQAEsASwAOAB0AZwBnAJwAhwWHBZ0WExbeFN4U9xJ7JnsmwB4RIREhlRqgGdkj',
+  '2SMKGLcYtxgIG58YsxizGPYYMRcxF40ZOxYOFg4WCBbwFPAUQxR0FpQWlBbmFz0YPRguGXwbpRelF+YVYBVgFWUVkRRKFUoVnRQyFTIVoxXhEuESDxQe',
+  'EwsRCxH2DEEKQQoLAAkABwAHANwGOQ45Du8NpA12DXYNWAGzA7MDMhRfFXwWfBaNGIYXhhfiGIodNiA2IOwabhluGX4XtxN4EngSiBUpFykX+BkNGg0a',
+  'kRjQFioVKhWiE2oRahGHD7UHAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAACgAAAAAAAAAAAAAAAAAAAAWwBbAOYI0AbQBgAADAAAAAAAZQDLAMsAvwCA',
+  'BIAEWQCtAF0AXQAuABAAEAAaACgAMAAwADkAPgA+AEkATwBVAFUAVQBUAFQAUABOAE8ATwBMAEAAQAAAAOgApgemB8UIXB1cHeUajxacF5wXshZHJEck',
+  'ySCsGKwYohiNGHcZdxmoGHIachqMGFEZAhkCGRoZSBhIGFgY7xZ1FnUWoBTmFOYU8xVsFaEUoRS6GmAUYBQjF0QZoBmgGeoZYhhiGHQXMhb4FPgUtRWf',
+  'FJ8UtRNSElIS2hLqEPAR8BF4Dv0O/Q6iBgYABgAGADMNaA9oD0UPmQ6KDooOrA0RBhEGVBOrFakWqRZdFygYKBhvGDEZYR5hHrMdiBmIGeYXnxdcGFwY',
+  'xhjDGsMa/R0DGwMboRi4FhYVFhUZEwEPAQ82CwAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAACiAAAAAAAAAAAAAAAAAAAA8wDzAH0IqAmoCQQAEwAN',
+  'AA0AOgBnAGcAhgAzDTMNUQ5UER0NHQ3GAEwATAAwADwARABEAEsATgBOAFcAbwBbAFsAXQBcAFwAVgBMAFMAUwCJAKEAoQBlAEoF+xr7GsgibB1sHYEY',
+  '0xbnGucaaBYdIR0hbCK2GbYZKReeFvAX8BdEF7UXtReiGMEZ0BjQGF4YeBh4GEkY7xZ1FnUWoBTmFOYU8xVsFaEUoRS6GmAUYBQjF0QZoBmgGeoZYhhi',
+  'GHQXMhb4FPgUtRWfFJ8UtRNSElIS2hLqEPAR8BF4Dv0O/Q6iBgYABgAGADMNaA9oD0UPmQ6KDooOrA0RBhEGVBOrFakWqRZdFygYKBhvGDEZYR5hHrMd',
+  'iBmIGeYXnxdcGFwYxhjDGsMa/R0DGwMboRi4FhYVFhUZEwEPAQ82CwAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAACiAAAAAAAAAAAAAAAAAAAA8wDz',
+  'AH0IqAmoCQQAEwANAA0AOgBnAGcAhgAzDTMNUQ5UER0NHQ3GAEwATAAwADwARABEAEsATgBOAFcAbwBbAFsAXQBcAFwAVgBMAFMAUwCJAKEAoQBlAEoF',
+  '+xr7GsgibB1sHYEY0xbnGucaaBYdIR0hbCK2GbYZKReeFvAX8BdEF7UXtReiGMEZ0BjQGF4YeBh4GEkYsRlKF0oXDBYCFAIUARhYFdsU2xRhE6IXohdq',
+  'FzwZ/Bj8GO8YlhiWGEUWChbUFdQVFxcJFAkUohOTEpMSzxJwExYRFhGYEAAXABdZEggACAAIAE4Myg7KDp8OtQTyEvISdxIHEQcRCxvVEfEV8RX2ID0i',
+  'PSJzIDoZlRyVHHIbvBm8GasWShQIFggW7RhTGlMa9hj4FvgWtRnjFWwUbBS6EgoQChBEAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAOwAAAAAAAAAA',
+  'AAAAAAAAAAAAAAAAAFoA7ArsCscCRAAuAC4AMgAYABgAGwCkC6QLEBCMEEMNQw27DLcAtwBBAEwAVABUAFwAPwY/BgwITAaKAIoAYABfAF8AWABJAI4A',
+  'jgCOAH4HfgcfDWUSLhcuF18aNBo0GkYZ9RsYGxgbhhrtFO0U5CLxHvEe4hcCGB8XHxcoFyIWIhZ3FxEkGhgaGAYXZxVnFawVZBXwFfAVixZ7FXsVABsp',
+  'GZcXlxc/F4QWhBYKFqQWZxhnGJoX/Rb9FqQWUxZLFksW6BpiFmIWJRRiE2ITgBI6EYYShhKWEesW6xbmEwYVtwy3DCsH5wnnCVsD5A66FboVmBq9HL0c',
+  'wRoyF3QSdBKPIRkhGSGDHgMdVhhWGIkYsheyF6UWKxNxFnEW2hdgG2AbWhguFi4WpxRGEwwRDBEpD3INcg3/BQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  'AAAAFgAAAAAAAAAAAAAAAAAAAAAAAAAAABsADgsOC+8HXQADAAMAJgAkACQAAg7NEM0QUhCwD+YO5g7ADqcNpw1yAGIAaQBpAKsLsAuwC3QKCgp0CnQK',
+  'vgBeAF4AVwBVAHwBfAE+CmsPaw9HEgURdhV2FSAZgBqAGjAeLxolGCUYHB/3H/cflBVGIkYigxgzF2MZYxm9FwkYCRgJF8kW5xnnGUsWlBSUFFcVZBXw',
+  'FfAVixZ7FXsVABspGZcXlxc/F4QWhBYKFqQWZxhnGJoX/Rb9FqQWUxZLFksW6BpiFmIWJRRiE2ITgBI6EYYShhKWEesW6xbmEwYVtwy3DCsH5wnnCVsD',
+  '5A66FboVmBq9HL0cwRoyF3QSdBKPIRkhGSGDHgMdVhhWGIkYsheyF6UWKxNxFnEW2hdgG2AbWhguFi4WpxRGEwwRDBEpD3INcg3/BQAAAAAAAAAAAAAA',
+  'AAAAAAAAAAAAAAAAAAAAFgAAAAAAAAAAAAAAAAAAAAAAAAAAABsADgsOC+8HXQADAAMAJgAkACQAAg7NEM0QUhCwD+YO5g7ADqcNpw1yAGIAaQBpAKsL',
+  'sAuwC3QKCgp0CnQKvgBeAF4AVwBVAHwBfAE+CmsPaw9HEgURdhV2FSAZgBqAGjAeLxolGCUYHB/3H/cflBVGIkYigxgzF2MZYxm9FwkYCRgJF8kW5xnn',
+  'GUsWlBSUFFcV7hhYF1gXxhf2F/YXDBclF1IZUhlTF+MX4xdiGUAZBhoGGiEaeRp5GtsWCRfVGNUYJxW8FLwUOBMQExATYRJOEesR6xF7E3YUdhTZESMV',
+  'FxYXFvAVDRoNGhUHSw3KFsoWzweHC4cLwRAZEvgR+BGrFKwUrBSHEX8XlxeXFzoXhBiEGLEXWBUtFS0VrRaXGJcY3hpDGUMZrBfsFN4R3hGAEr4Pvg8H',
+  'BAAAAAAAAGQAAAAAAAAAAAAAAAAAAAAAAAAAFAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAtgG2AdAHpgM1ADUAqwn/Ff8V+A5qEmoSShGcEBYRFhH1ELYO',
+  'tg4PBHUAUQ1RDdoNwgzCDCwN/QtBC0ELhQFYAFgAUgBDAPED8QNmD8URxRFCEcsUKhYqFuscWhlaGcYdSBrMGMwYOBqBFoEWGxc2JTYl7BnRGKgaqBo5',
+  'GRIXEhcBF0gZzRbNFtAWtBW0FSwXYxnVFtUWWhgCGAIYsBZ4FgMYAxgVGAUZBRneGQ8ZqRipGGwYgBeAF8kYORe/Fr8WAxYjFCMUrRN7E3sTjxL1EiYR',
+  'JhGMFy4ULhRmEQYP+BH4ET8TUxpTGqYZrhfxBPEEJw3qDuoOUBDJEIMUgxSuFAwXDBd9EnQPshSyFOQVxxXHFfcUtBTtE+0TGRewGLAYDBsuHS4dBRiC',
+  'F7UVtRX4E9YS1hI2AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAgAAAAAAAAAAAAAAAAAAAAAAAAAAABIAEwATAIMAigaPEI8QxxAxFTEVoBF7FXsV',
+  '4RKkEeoR6hFcElYRVhF6CY4Amg6aDrEO8Q3xDXsNpg31DPUM+wqPAI8AiABSAEMBQwGTESwSLBKQE+QTagxqDNgj/R39HWUaBhp7GHsY9R2EKoQq9CmT',
+  'JpMmmxgWIAMZAxn2GPoW+hZKFogWdhZ2FiYXLxcvFyga0Rk8Gjwa/xlLF0sX3BUUFd8V3xX+FdcW1xaeFRgWABYAFlcWGB0YHQgVZRTjF+MXsRTlE+UT',
+  '8RRkE2QT0hLOEhISEhIPEuoV6hVWES4RjBKMEqwTGRMZE0oQehWRFJEUiwysD6wPcRB3ClIAUgBGB4wHjAe9BScIsBGwEVATMxQzFGsUWxQ6FToVuBVg',
+  'FmAWmBikGKQY3RleF/sV+xWKFHIVchX4ERkAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAwAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAMAAwAEQA+AWkB6QH',
+  'dgdBFEEUPxTuE+4T4hLzE7gSuBIvE1ESURKtC1gFfw9/DxoQHQ8dD6IPkQ8dEh0S6Ap3AHcAbQBcAD8HPwdqEWISYhIBDIgQzBPME20mMyczJ9UZsBjz',
+  'G/MbryJCJ0InmBx6G3obIhivF6UXpRcpFzgVOBW2FawUPxQ/FBwW4RnhGQMa0Rk8Gjwa/xlLF0sX3BUUFd8V3xX+FdcW1xaeFRgWABYAFlcWGB0YHQgV',
+  'ZRTjF+MXsRTlE+UT8RRkE2QT0hLOEhISEhIPEuoV6hVWES4RjBKMEqwTGRMZE0oQehWRFJEUiwysD6wPcRB3ClIAUgBGB4wHjAe9BScIsBGwEVATMxQz',
+  'FGsUWxQ6FToVuBVgFmAWmBikGKQY3RleF/sV+xWKFHIVchX4ERkAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAwAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  'MAAwAEQA+AWkB6QHdgdBFEEUPxTuE+4T4hLzE7gSuBIvE1ESURKtC1gFfw9/DxoQHQ8dD6IPkQ8dEh0S6Ap3AHcAbQBcAD8HPwdqEWISYhIBDIgQzBPM',
+  'E20mMyczJ9UZsBjzG/MbryJCJ0InmBx6G3obIhivF6UXpRcpFzgVOBW2FawUPxQ/FBwW4RnhGQMaOhkCGAIYgxjqGOoYVxYNFc0UzRTGEwUVBRWdFnYW',
+  '3BbcFvUWGxYbFsoU7BQtFC0UcBTfE98TWRSgE6ATQBO2EfEV8RVpE+oS6hJ3EHEPMQ8xD9EQ1w/XD0EPtg6IDYgNZxJlEmUSQhEiAAAAAAAAAAwADAAW',
+  'AN0AcgtyC7ELnBKcEpITiRKuFK4UOBajF6MXVRbsFOwUsBQHFr4UvhRqErUTtROoE6AS1wvXCwAAAAAAAAAA9wu2C7YLAAAAAAAAGQAAAAAAAAAAAAAA',
+  'AAAAAAAAAAAAAAAAMgAyAEsAUgBXAFcApRKnFKcUyhWyFLIUoxKEFLMUsxTDFN8R3xFKDCQPfhB+EDYRexB7EDIQoxI1EjUSygiUAJQAcgBWAFcFVwUm',
+  'CTIMMgyyC78SxhbGFgUUuiW6JXwZ4iIxIDEgJCJlFWUVhhNLEksSxRMYFbIUshS6FI8UjxTUFJMUjxOPE1YVkRmRGdMZ7xjhFuEWNBgkGCQYThi6FbcU',
+  'txRaEkwTTBPzFBwVhhWGFU4YBxQHFBcUjhUMEwwTghKWEpYSVBQbExsTBRTNEVsRWxH1EEwQTBADEv8O/hH+EawQuxC7EOYPlxEaDxoPRBOzE7MTrhCI',
+  'AAAAAAAAAAAAAAA6AEkAOQA5AC0A8wrzCjoOnhAYExgTIRNXE1cTEhLtFO0UXhLPE7ASsBLJEv8T/xPAEyUTKRMpEzsTsxOzE9QU5RJ7EHsQVArlB+UH',
+  'EgAAAAAAAAAAAAAAAAAAAAAAAAAAAAAALgAuAE0AVwCPDY8NUxTuFO4U7xXtFe0VGRSCE1kUWRTkE7ESsRKQDkARDxIPEpYRhBGEEX4R9hFEE0QTkAWW',
+  'AJYAUADmAn4AfgD6A3UJdQncAUMUThVOFeEWgCOAI1AWvBdrFmsWrBQ9ET0RAxR2FXYVGxeEEp8QnxDJEmUSZRI7E+0TFRMVE7EUEBoQGoMZ7xjhFuEW',
+  'NBgkGCQYThi6FbcUtxRaEkwTTBPzFBwVhhWGFU4YBxQHFBcUjhUMEwwTghKWEpYSVBQbExsTBRTNEVsRWxH1EEwQTBADEv8O/hH+EawQuxC7EOYPlxEa',
+  'DxoPRBOzE7MTrhCIAAAAAAAAAAAAAAA6AEkAOQA5AC0A8wrzCjoOnhAYExgTIRNXE1cTEhLtFO0UXhLPE7ASsBLJEv8T/xPAEyUTKRMpEzsTsxOzE9QU',
+  '5RJ7EHsQVArlB+UHEgAAAAAAAAAAAAAAAAAAAAAAAAAAAAAALgAuAE0AVwCPDY8NUxTuFO4U7xXtFe0VGRSCE1kUWRTkE7ESsRKQDkARDxIPEpYRhBGE',
+  'EX4R9hFEE0QTkAWWAJYAUADmAn4AfgD6A3UJdQncAUMUThVOFeEWgCOAI1AWvBdrFmsWrBQ9ET0RAxR2FXYVGxeEEp8QnxDJEmUSZRI7E+0TFRMVE7EU',
+  'EBoQGoMZcxdUFlQWORdFF0UXURizFjEXMRfgFMgTyBM+FC8UihOKE7kSqBKoEnATNRLvEu8SgxIMEwwTMRRTFFMULRSXEaAQoBC9EaoPqg9dDzAo+xL7',
+  'Eq4Q5Q7lDrYN5w6rEqsSRxJjFGMUcAIAAAAAAAABAAoACgAjADAAPAA8AEQASwBLANEBpQ+nEacRSxKiFKIUYxT3EvcSzxFTFLkTuRP7FIgZiBlmFvAU',
+  'aBVoFQAWoxSjFHUUzhVZEVkRVw7xCfEJAAAbAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAE4ADA5mEmYS6hSYFJgUwhQSFRIVtRWuE0AUQBRGEuER4RGC',
+  'EtUTnxOfE6sSkRKREukSbBPzE/MTXxXEAMQArgBiAGgAaACiAIkAiQDnB7AVexZ7Fs4VexR7FJcTaBX9FP0UzRL1EPUQpBLHG8cb1xvgEioMKgyCDa0R',
+  'rRGmEfERcRJxEgIUUxlTGfsW9RbiGOIYmhrEHMQcUiB4GrsVuxVQFWoVahVSFKAV8hPyE0oTCBQIFBcTsRIbExsTJxPqEuoSoROjEqMSKhLWEcYRxhH+',
+  'EFkQWRDKD1MPng6eDrcOzA7MDggQVQ25DrkOQxFsEWwRSAEIADoAOgBoAHoAegA8BAgAEgASAGMAYABgALwAhwAaDxoPfhDKEcoRHhJFE0UTWxQSFkIX',
+  'Qhe5G0UeRR44FqEVFhUWFfcV5BTkFBEVrBMyEjISbRAvCC8IAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAGAMwBBaE1oTaBTVFNUUEhT6EvoSDRSc',
+  'FFcTVxOrE88TzxNpFGAUVxRXFEYUsBOwE+MTRhMVFBUU7hVmFmYWRQBbAF0AXQA8AAAAAACbCDcKRxJHEvMXPxU/FcwSqhISFBIUcxKVEJUQpROQGJAY',
+  'BxyvGFIMUgwpDC0TLRMiEnERYBJgEmETrhauFksXihmZGZkZuxkgGSAZ3xkIF0EYQRh6FlQVVBVTGdMV0xXTFesTbRRtFDUT8hIxFjEW8xNGE0YTSRVR',
+  'ElESaBINErkRuRHiEVkSWRIZE0wTHRQdFNMRTxFPEV0QphENEg0SlhVZEVkRJQByADYANgBCADUANQAAAAoAlQCVAD0ASABIAEwASQBVAFUAbQDgDeAN',
+  'NRGiE6IT+hYwGf8Y/xhNF9YV1hXmEskSPBI8EqsUIRchFxQXlhWaFZoVMhPaD9oP1AQAAAAAAAAAAAAAAAAAAAAAAAAAAAAApgOmA0oOSxJXE1cT8RSp',
+  'FakVBRG7EbsR/RLsEnQSdBIoFbgSuBJrFl4VGBUYFSEVORU5FScVPxWPFI8U8BYqGSoZTxE8A1QAVAA6ADAAMAD+B7II/Rj9GB8XzxTPFJUdaQ7oBegF',
+  'AAByDXINhwoJCgkK/QqRFxgOGA4eC3cQdxASEi8TLBAsECsW6xbrFmUYihmZGZkZuxkgGSAZ3xkIF0EYQRh6FlQVVBVTGdMV0xXTFesTbRRtFDUT8hIx',
+  'FjEW8xNGE0YTSRVRElESaBINErkRuRHiEVkSWRIZE0wTHRQdFNMRTxFPEV0QphENEg0SlhVZEVkRJQByADYANgBCADUANQAAAAoAlQCVAD0ASABIAEwA',
+  'SQBVAFUAbQDgDeANNRGiE6IT+hYwGf8Y/xhNF9YV1hXmEskSPBI8EqsUIRchFxQXlhWaFZoVMhPaD9oP1AQAAAAAAAAAAAAAAAAAAAAAAAAAAAAApgOm',
+  'A0oOSxJXE1cT8RSpFakVBRG7EbsR/RLsEnQSdBIoFbgSuBJrFl4VGBUYFSEVORU5FScVPxWPFI8U8BYqGSoZTxE8A1QAVAA6ADAAMAD+B7II/Rj9GB8X',
+  'zxTPFJUdaQ7oBegFAAByDXINhwoJCgkK/QqRFxgOGA4eC3cQdxASEi8TLBAsECsW6xbrFmUYmRogGiAaSRtYF1gXTBh0FwUYBRg2GPUX9Rc7GMcWBBcE',
+  'F2sVchJyEucS7BKbE5sTQBQeGB4Y6BSWFJYUZhJsEmoUahRvEzwQPBDpEAYUpROlE00SLRMtE5QRyBGgEqASIxfAGMAYtAAYACEAIQAFACYAJgBdADYA',
+  'TQBNAFIAWABYAFYATgBBAEEAMQAjACMAThFCFUIVAReJF9QX1BdGF6AVoBWmESIUYBJgEmcU6RjpGOUUPRdCFkIWAhSOEY4RkQoAAAAAAAAAAAAAAAAA',
+  'AAAAAAAAAAAAZgFmAf0NsxESExIT/hT1FPUUJRFwEHAQwBDVEc0SzRInFQ0RDRHuFWsWDRcNFzMWsRaxFrwVxxbfFd8VdBfbGNsYXhqYGkMOQw6uBZAE',
+  'kATmCt4TOhQ6FFEWvhW+FZIdbQ42ADYAAAAAAAAAlAHxGPEY0x/AIoAcgBy6ECoRKhFCFXkV8xXzFcsWWxdbF0sXtBVJFkkW1xbxF/EXvxYjFFgUWBT8',
+  'GYMZgxkwGBkV5xnnGXIWmxabFpsRoRIvEy8TRRORE5ETLRL/E/8ToxPYE80VzRUgEA0SDRJSFIwV+xT7FE8U3hPeE60UoBPVE9UTCxX6GvoajAgxAHIA',
+  'cgAiAD0APQBcAF8AYABgAF8AWwBbAFcATQBBAEEALQBGCEYISRNuFW4VThfYF5cYlxgUGksUSxQ/EmcPXBJcEjoT5xfnF70XFheJFokWKhUfEx8TCQ8A',
+  'AAAAAAAAAAAAAAAAAAAAAAAAAAAAUwBTAPsNeRBFEkUSaxVwFHAUhRWmEaYRxQ4zEd0Y3RiZGO4W7hbgFY8WLhYuFn8WOxc7FzsXJRmVF5UXlRfPGc8Z',
+  'vxnqGkUcRRxMHA0cDRzDG9gbHRAdEMYO+Qz5DC8JVgE3ADcAAAAAAAAATgjWC9YLdQwBFNMU0xTOFP4g/iAHIT8XMhgyGDUWmhWaFYIUtBVJFkkW1xbx',
+  'F/EXvxYjFFgUWBT8GYMZgxkwGBkV5xnnGXIWmxabFpsRoRIvEy8TRRORE5ETLRL/E/8ToxPYE80VzRUgEA0SDRJSFIwV+xT7FE8U3hPeE60UoBPVE9UT',
+  'CxX6GvoajAgxAHIAcgAiAD0APQBcAF8AYABgAF8AWwBbAFcATQBBAEEALQBGCEYISRNuFW4VThfYF5cYlxgUGksUSxQ/EmcPXBJcEjoT5xfnF70XFheJ',
+  'FokWKhUfEx8TCQ8AAAAAAAAAAAAAAAAAAAAAAAAAAAAAUwBTAPsNeRBFEkUSaxVwFHAUhRWmEaYRxQ4zEd0Y3RiZGO4W7hbgFY8WLhYuFn8WOxc7FzsX',
+  'JRmVF5UXlRfPGc8ZvxnqGkUcRRxMHA0cDRzDG9gbHRAdEMYO+Qz5DC8JVgE3ADcAAAAAAAAATgjWC9YLdQwBFNMU0xTOFP4g/iAHIT8XMhgyGDUWmhWa',
+  'FYIUCxOeFp4WCBR9FX0VHxdsF7sWuxY6GIkWiRZWFnwWZxVnFSkVGhcaF7gS4RNeE14TAhIwETARTRPeEt4SDhJNEGMQYxCJEz8PPw9WE8gTbRRtFPcT',
+  'UhJSEuMSxBIXFBcUzxVYGVgZiRdaAUEAQQBaAFMAUwBUAG0AbABsAGAAWwBbAFcATQA9AD0ALADoEOgQ/hIfFh8W4hhSGCEZIRnbFwcVBxUdEswRAxMD',
+  'E6EULhYuFvwaKxeuFq4WYRW/Er8S1w4AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAPMMdg77D/sPaRDRE9ETphMvEi8ScxAsEb8VvxVqEpMWkxZxFoMW',
+  'sxizGOkXZRZlFhkYvxibGJsY4BctGS0ZChegGDAYMBjZFjUbNRv+G7EbeA94DwQEmwCbAI0AAAACAAIADAAGAAYAIA6PFI8UtRLMErkRuRHYEvAg8CB3',
+  'I0kj/RH9EToUnxGfEU8TFA7cFtwWsCPjFeMVwxetFzQZNBmQFlckVyTZFzgT/BH8EXAS6xHrEWQRrBIOEg4SVRHsEewR8RHwD/APww9GD/AP8A9BELwS',
+  'vBI1Fq4VyxfLFw4WChMKE9USZhPhE+ETuxTjFOMUtRWFHR0HHQeGAFoAWgBaAIAAcgByAGMAWgBaAFIAQQA0ADQAKgAqESoRyxK4E7gT3RauF2AYYBhf',
+  'F+QV5BUGExATRBJEEvUSLBcsF+MXBRkPFg8WdRUKFAoUogwAAAAAAAAAAAAAAAAAAAAAAAAAAAAARgBGABoMiw4SDhIOPw0YExgTBBRHEkcSmRAfEqYR',
+  'phHeEyQYJBjCFzYXzBfMF+UXPRY9FloYRhkiGSIZDRmrGqsaDhs1GlQYVBgjF8cXxxd3F9QWiwmLCWUAPgA+ACYAAAACAAIAYwACAAIACguREZERGhO6',
+  'ErsSuxJyFbcUtxRAF3UZEA8QD94Z4BPgE2QQURCRDZEN0iWbFpsWeSPMFioWKhb/KWMUYxS7E7gY9hL2EsYTqRKpEsERnRJxEnESjhOVE5UTsxL2EPYQ',
+  'MhANG2UOZQ4oEEIRQhGuEugRDxMPExkUxBPEE5gSVBWIFIgUARPQEtASsxNxHRgjGCNbAo0AjQCBAIAAZgBmAGEAVQBVAEwAOwAxADEAMQGKD4oPxhHS',
+  'E9ITHRjuF34YfhgrF7EUsRQvFHQTKBIoEvoUuhe6F0QaRhiiF6IXzxVOFE4UpgUAAAAAAAAAAAAAAAAAAAAAAAAAAF4AFwsXC9kM9QkAAAAAKBOHFIcU',
+  'lBSVEpUSpxRgEZwYnBieEg8XDxe1FvgZjheOF9IWIhYiFo0XHRhLGUsZuRiqGaoZCxwsGE0XTRd9Fi0TLRMjE4MJjQCNAAAAAAAAAAAAAAAAAAAABgAA',
+  'AAAABgAUBhQGIActDPQN9A25ElkTWRPWF7UchRCFEKgOTxFPEfUPURCRDZEN0iWbFpsWeSPMFioWKhb/KWMUYxS7E7gY9hL2EsYTqRKpEsERnRJxEnES',
+  'jhOVE5UTsxL2EPYQMhANG2UOZQ4oEEIRQhGuEugRDxMPExkUxBPEE5gSVBWIFIgUARPQEtASsxNxHRgjGCNbAo0AjQCBAIAAZgBmAGEAVQBVAEwAOwAx',
+  'ADEAMQGKD4oPxhHSE9ITHRjuF34YfhgrF7EUsRQvFHQTKBIoEvoUuhe6F0QaRhiiF6IXzxVOFE4UpgUAAAAAAAAAAAAAAAAAAAAAAAAAAF4AFwsXC9kM',
+  '9QkAAAAAKBOHFIcUlBSVEpUSpxRgEZwYnBieEg8XDxe1FvgZjheOF9IWIhYiFo0XHRhLGUsZuRiqGaoZCxwsGE0XTRd9Fi0TLRMjE4MJjQCNAAAAAAAA',
+  'AAAAAAAAAAAABgAAAAAABgAUBhQGIActDPQN9A25ElkTWRPWF7UchRCFEKgOTxFPEfUPChHAH8AfmCZ2GXYZKhqnF48VjxVbFLAWsBaKFEYUeBd4FwYW',
+  '9xP3EwwTphKtEq0S2BJwEnASIxHTD9MPAA/tEQAQABDEDysQKxAqEQ0SCBIIEpgSSRJJEgsUWBR5EnkSZxKjFKMU6RjMF3Ifch/sA4sAiwCCAG4AYQBh',
+  'AFsAUABQAEUAMwAlACUAeQmuEK4QQBOYE5gThhWqGFQYVBjHF+8V7xWUFO4VLxMvE9sWPBg8GAIYAxczFjMWMhWzE7MTtQxNAAAAAAAAAAAAAAAAAAAA',
+  'AAAAABoIVA1UDd0PiQwAAAAAnhNvFm8WoRONFY0VbRWUE4ERgRExEcIUwhRoFpkV+xX7FScXHRYdFhsYvBbzFvMWSRirHKscGRrvF8sVyxVRFhcSFxLY',
+  'AzcAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAABOAE4ARQHqDGwNbA1WC40OjQ5vEE0czRzNHGUSJxUnFWgSagzrKespdSZAHEAcOhj4F9wW3BZgFRAV',
+  'EBWyFfsV+BX4FYMWERURFUcUrhKwEbARbRG3ELcQlhCTD5MPTg/hEpkQmRAYFwsQCxB3EIUQGxYbFiIV4hDiEKoTVxFPFk8WuxJUE1QTqRPOEyEfIR9c',
+  'AWkAaQBqAGkAYQBhAFkATABMAHIAqQAUCRQJ1Q6REJEQjBN0FXQVaRcZGFEYURhuFm0WbRbkFIkW5hTmFOkW+xj7GPIXfhbEFcQVDRPgEuASGhC0AAAA',
+  'AAAAAAAAAAAAAAAAzwDPACwKFRAVEHEQ2g+JD4kPaRRfFl8W2xVZFlkWoBZ6FncUdxQ4E7MTsxOwE5oUlRSVFH8V4xTjFF0VYRciGCIYLxlmGWYZghgM',
+  'GO4Y7hhSFWgMaAwwACQANgA2AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAIAAiEScTJxMiDfsJ+wnGDvcOmR2ZHU8ejxaPFtkRagzrKespdSZAHEAc',
+  'Ohj4F9wW3BZgFRAVEBWyFfsV+BX4FYMWERURFUcUrhKwEbARbRG3ELcQlhCTD5MPTg/hEpkQmRAYFwsQCxB3EIUQGxYbFiIV4hDiEKoTVxFPFk8WuxJU',
+  'E1QTqRPOEyEfIR9cAWkAaQBqAGkAYQBhAFkATABMAHIAqQAUCRQJ1Q6REJEQjBN0FXQVaRcZGFEYURhuFm0WbRbkFIkW5hTmFOkW+xj7GPIXfhbEFcQV',
+  'DRPgEuASGhC0AAAAAAAAAAAAAAAAAAAAzwDPACwKFRAVEHEQ2g+JD4kPaRRfFl8W2xVZFlkWoBZ6FncUdxQ4E7MTsxOwE5oUlRSVFH8V4xTjFF0VYRci',
+  'GCIYLxlmGWYZghgMGO4Y7hhSFWgMaAwwACQANgA2AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAIAAiEScTJxMiDfsJ+wnGDvcOmR2ZHU8ejxaPFtkR',
+  'QgxcJlwmpRniGeIZJRoAGW8YbxgUFmAWYBYGGHgW0xPTE3gS3hLeEkwTHhLNEc0RgRMVERURnxEgECAQBRAaEIoQihCnD1YQVhDBEQgQKBAoEGgQRRFF',
+  'EbYRGBHnEOcQ1hMNEg0S1BKJE+oe6h5pAGYAZgBnAGYAXwBfAFUARQBFADABew2IDogObxF4E3gTQxN4FXgVahfKF1sXWxeRFnQUdBQwErcTjRKNElIT',
+  'rRStFNcX2xaUFZQVZBTNE80TOxI0BgAAAAAAAAAAAAAAAAAAmAaYBrgJmBOYEwMTXhLVENUQ9RXkFuQW9RWHGYcZNRqKF2wWbBYiFhISEhLDEXsT3xLf',
+  'EnoUFBMUE5cU1RSRFZEVkRaWFpYW1RVJGO0X7ReyF/gF+AUAACMAAAAAAAAAAAAAAAAAAAAGAAYAAAAAAAAAAAAAAAAAAAC6Ep0TnRNsEA8JDwkBD/MO',
+  '4hDiEEwUXhNeE4oRrBjtJu0mwBl0F3QX3RaMFxcZFxlgF5IWkhZuF88YMhUyFS0WiBSIFCgTChJBEkESOhLhEeERbRHWEdYRmRBJEEQPRA+SDlQPVA8V',
+  'D38PthC2EOcQXBFcETcRShK4EbgR9xCvEq8SWRKeElYaVhpoAGIAYgBeAF0AVwBXAE4APgA+AO4K9Q63ELcQhhOPE48TqREYExgTpxQjFnkWeRYcFOsS',
+  '6xIbEYQTHBMcE0ETDhUOFTcVihMTFRMVlhb1FPUUVBKaCr8AvwAgAAwADAB2AIALcAxwDJ4M7RTtFIEUCBNwD3AP3hWIFogWtxr3FvcWoRryGsUVxRVy',
+  'FTQUNBSIEQESRhJGElUSLhMuE0cSORO7EbsR6xFZE1kTLxUnGNUW1Rb/FjQVNBVGAE4AJAAkAAAAAAAAABMAAAAIAAgABgAAAAAAAAAAAAAAAACBHNkT',
+  '2ROSEm0JbQk1DrIQaxJrEgQQUhJSEn8RfSdcJ1wnVxjSGNIYFBiAGhcZFxnqF9MX0xd6FsIY6BjoGBMYFxcXF0wU8ROOE44TZhJqE2oTlhK9Er0SsxEE',
+  'EusR6xGpEO8U7xQPEMgRqhCqEHoSSxRLFFITyxBrEWsRJxEoESgRtxJOFe4Y7hhlAF0AXQBWAE8ASQBJAK8BgASABI8OzxD6EfoRFBMhEyETXhKMFIwU',
+  'UhI7FOYT5hPIEtoR2hFtEhsTWhJaEiESmhOaE/ET9xNTFVMVsBULFQsVNxOmEQ4IDggAAAAAAAABDIgPShBKEBoTzRXNFRsV6xEdER0RTxTxFfEVdhqy',
+  'GbIZcxoIFscVxxXDFrgUuBRhFC0S7RHtEVkTfhJ+ErcQORTkFeQVWBZRG1EbiBtPGFQXVBeEFXYUdhSaAGkANAA0ALsEOQs5C3gFsgAqACoACAAAAAAA',
+  'AAAAAAAAEQJdFOQU5BSuEuoI6ghTDXoQ/hH+EScPmRCZEPQQfSdcJ1wnVxjSGNIYFBiAGhcZFxnqF9MX0xd6FsIY6BjoGBMYFxcXF0wU8ROOE44TZhJq',
+  'E2oTlhK9Er0SsxEEEusR6xGpEO8U7xQPEMgRqhCqEHoSSxRLFFITyxBrEWsRJxEoESgRtxJOFe4Y7hhlAF0AXQBWAE8ASQBJAK8BgASABI8OzxD6EfoR',
+  'FBMhEyETXhKMFIwUUhI7FOYT5hPIEtoR2hFtEhsTWhJaEiESmhOaE/ET9xNTFVMVsBULFQsVNxOmEQ4IDggAAAAAAAABDIgPShBKEBoTzRXNFRsV6xEd',
+  'ER0RTxTxFfEVdhqyGbIZcxoIFscVxxXDFrgUuBRhFC0S7RHtEVkTfhJ+ErcQORTkFeQVWBZRG1EbiBtPGFQXVBeEFXYUdhSaAGkANAA0ALsEOQs5C3gF',
+  'sgAqACoACAAAAAAAAAAAAAAAEQJdFOQU5BSuEuoI6ghTDXoQ/hH+EScPmRCZEPQQ2SHAF8AXGhhRF1EXLRmlGXwXfBc3F4oWihbVFm8YQxdDF5oX4Rbh',
+  'Fg4W3RTqFOoU8BNME0wTBRZQE1ATDhIHEjkSORLPEmAVYBXpEz4TnxSfFLQSIxEjEXQRoxNcE1wTkhLrEOsQVRFBFSQgJCBfAFkAWQBOAEcAPwA/AEcE',
+  '5hDmENgTHxT2E/YT+BTWE9YToBNwFHAUMRXaE5YRlhGAESIRIhHLEn4R4BHgER0SMBMwE5EUPBUDFgMWoBZZFlkWSxWnE14RXhGeC6wTrBMlEyYTwRHB',
+  'ETkXGBcYFwYX3hJTElMSuhKHGIcYPhq7FrsWLxfvFX8TfxPiFIkViRXOFIwSrhGuEfYRDxAPECcTChN6E3oTfBNIF0gXlxq1GiwYLBj6F4cXhxeMFbMV',
+  '+RX5FXAWfBZ8FugWkBfsE+wTTwAQABAAAAAAAAAAaBMNFL4UvhTbFEcTRxNYDF0MDgwODIAJxwzHDG0RkBZiFmIWARdKFkoWWxVfF1sWWxaeFoMWgxa9',
+  'Fr0aoBegFysaVRhVGFsXHRVwFXAVWxWuFK4UBRa8GbwZhBRBERIPEg/ZDQkQCRA9EY8RCxMLE9kSqxOrE+IS+hTnE+cTvRI4ETgRxBJEFFcAVwBWAFIA',
+  'UgBIAEAAXwBfAFYRzBTMFGQVWBXxF/EXSBVBFUEVfxRSFVIVBxNjEq8RrxENEZQQlBC3EjUQvhC+EHoRlBSUFCUWsRXdFd0V+xU1GjUaABXVE5YUlhRl',
+  'FREWERaUErcTjxOPE4UYGxcbF4QVbBOqE6oTXBG8GLwYAxTMFswW1RUKFpgUmBTzEm4TbhOaEw4RyxDLEC8Q3Q/dD7IRXRLtEe0RthINEw0ThBUjGHQY',
+  'dBioGLcYtxgwGH4YNxk3GfwX8BfwFyUXlxbvFu8WIRbTD9MPfgAKDAoMdhPWE2QVZBV5FUYVRhVjEIUMTwlPCQEIGgwaDAkSkBZiFmIWARdKFkoWWxVf',
+  'F1sWWxaeFoMWgxa9Fr0aoBegFysaVRhVGFsXHRVwFXAVWxWuFK4UBRa8GbwZhBRBERIPEg/ZDQkQCRA9EY8RCxMLE9kSqxOrE+IS+hTnE+cTvRI4ETgR',
+  'xBJEFFcAVwBWAFIAUgBIAEAAXwBfAFYRzBTMFGQVWBXxF/EXSBVBFUEVfxRSFVIVBxNjEq8RrxENEZQQlBC3EjUQvhC+EHoRlBSUFCUWsRXdFd0V+xU1',
+  'GjUaABXVE5YUlhRlFREWERaUErcTjxOPE4UYGxcbF4QVbBOqE6oTXBG8GLwYAxTMFswW1RUKFpgUmBTzEm4TbhOaEw4RyxDLEC8Q3Q/dD7IRXRLtEe0R',
+  'thINEw0ThBUjGHQYdBioGLcYtxgwGH4YNxk3GfwX8BfwFyUXlxbvFu8WIRbTD9MPfgAKDAoMdhPWE2QVZBV5FUYVRhVjEIUMTwlPCQEIGgwaDAkStxCG',
+  'FoYWSBStFK0UuRUVGYIXghfpFTcVNxVDFo8Wfxd/F+UX7BnsGQwZwRekFaQVthRNFE0UAhOHEocS5BVbEpEOkQ5JDWIPYg+HEIUXYhliGXMYFRQVFNcS',
+  'zxXLFcsVRBT+E/4TnBLWEeEB4QFMAJUAlQChAGIA/A/8D+4VwRbBFjoXVhY0FTQV3RWhFqEWCxV3FncWoBRIEx0SHRJaETYQNhCLEBMQ7hDuELcRXRRd',
+  'FA0VWRWYFZgVORmwFbAVPRbvFRAWEBbnFa4UrhQlESsWKRgpGLcWJBYkFmgT5RSVFpUW/A9wEnASFhOhFKEUiRaFFvcV9xWgEhgSGBJ/EaoQUA9QD70O',
+  'MxIzEl4QzA73D/cPJxKCEoIS0RO5E8MUwxTqFZ4TnhMRFmgXZhdmF/EW2BbYFoMXwRYBFgEW+hUxFTEVDRHODc4NRBNCFIwVjBUbFYIUghSOEyYRXAhc',
+  'CCoELg4uDvQPKQxnDmcOTBV/FX8VZRbEFmgZaBlvFukV6RXwGB8WXhZeFmYWVBZUFtEYtBhgGGAY2xZUFFQUWhPkEuQSKhGGEIkOiQ5MDroOug4ZEGwS',
+  'VRRVFCUTqhOqE9YSRxJMEUwRZRJFFEUUxxMZD9cB1wE4AHAAcACiAIIJDhUOFQEXDRgNGC8XrxW7F7sXlRhLFUsVhhURFhEWDhUUFOES4RI4E5IQkhBi',
+  'EasQkBGQEesRIRMhE90SIBSNFo0WBhQzFjMWLRj4Fp4VnhUYFRUWFRaQF4YXkRiRGIgUTRNNEwYXJBRnDmcOZQ7fEN8QkBF7E3sTlBU0FkkVSRXjET8R',
+  'PxGJERcRrw6vDlERIBEgETkPkg2nDqcOIhCbEJsQBRN+FF0SXRLSEkkSSRLZExEUoxSjFMAUyRnJGd0WrBSYFJgUUhVSF1IXzBM4EDgQWxIAGesV6xUg',
+  'FhYVFhX2FVsS2QfZBy4JswuzC/oLKQxnDmcOTBV/FX8VZRbEFmgZaBlvFukV6RXwGB8WXhZeFmYWVBZUFtEYtBhgGGAY2xZUFFQUWhPkEuQSKhGGEIkO',
+  'iQ5MDroOug4ZEGwSVRRVFCUTqhOqE9YSRxJMEUwRZRJFFEUUxxMZD9cB1wE4AHAAcACiAIIJDhUOFQEXDRgNGC8XrxW7F7sXlRhLFUsVhhURFhEWDhUU',
+  'FOES4RI4E5IQkhBiEasQkBGQEesRIRMhE90SIBSNFo0WBhQzFjMWLRj4Fp4VnhUYFRUWFRaQF4YXkRiRGIgUTRNNEwYXJBRnDmcOZQ7fEN8QkBF7E3sT',
+  'lBU0FkkVSRXjET8RPxGJERcRrw6vDlERIBEgETkPkg2nDqcOIhCbEJsQBRN+FF0SXRLSEkkSSRLZExEUoxSjFMAUyRnJGd0WrBSYFJgUUhVSF1IXzBM4',
+  'EDgQWxIAGesV6xUgFhYVFhX2FVsS2QfZBy4JswuzC/oL0hMUFRQV5RUYGRgZtRfjGMoXyhdzFXAUcBS3GBIZjRWNFfIVfRV9Fa8XBRqtGq0aKxaEFIQU',
+  'lRPWEdYRcBBtD7sNuw0nDX8Pfw8HECQTmRKZEhMUGxQbFCwUUhK2E7YTzxCyErIS1RBhDZUBlQFGAJ0AnQCOAEYIzBXMFZYZmhmaGYIYUxgHGAcYfBiu',
+  'F64XHRdRFlEWjBViFGcTZxN/EpgRmBFpEIUUZhBmEH8RtxK3EmcSnhOvFK8UaRRmFGYUwhbjFcIUwhRAFgYYBhhSGP8XEBYQFosV8hDyEDAQMRCkDqQO',
+  'ow92D3YP4xCJEokSvBIOE38SfxJqD7EPsQ+3EMwPwQ/BDwQR3hDeEKwP5Q/OD84P8Q9EEkQS2w96EHIRchFaEe4R7hGdEu8S5RTlFCgVtBa0FgMUyhLG',
+  'EsYSERYiGSIZoRSBFIEULxnTFfcV9xXuFQcWBxZoF6ERjQaNBq0J0gvSCzcPYRUjFiMW9RY+Fj4WzRUBFgoWChYYFjMWMxYGFrIVyhXKFS8WgxSDFAgW',
+  'SBcnFScVvhbTFNMUjRGnEacRuRDqFGQWZBZzEX4RfhEQE9IRjxKPEs4SsBWwFZsVVRUVFBUU8RIrESsRfRDlBh8AHwBiAIEAgQC1ADsFghOCE9cYTBlM',
+  'GZwZtxm0GbQZBBnrF+sX0hZtFm0WChbrFP4T/hNfE3gSeBJgEt4QHhQeFLQSgBGAEWgRWxEcEhwSuxIgEyATbBtEFdkW2Rb/FYUWhRacF4kZKxgrGDIW',
+  'ixSLFLkSkBNGFEYUlxOBEoESFhIeEx4T6hP7EjoNOg1eB6QJpAlADJoOexB7EMIQYhFiEfEQnxF3EHcQnBLFEMUQPBGtE3gReBF8Ef0S/RJjFe4TLRUt',
+  'FW4VaxRrFDoUAxFkEGQQ0ROLFIsU+BmSF5IXlBOOFQQWBBbxFpYblhuiJiENxAXEBb0FJg8mD7ATARbbGNsYtRgMFwwXHBaHFX0VfRV4F04XTheXFUEU',
+  '6xPrEzIWnhWeFQoWGxTGFMYU8xIZFBkU0hGqEKoQsw73DQkPCQ/PEKURpREYFV0TxxTHFDcV5BfkF/cTFhTpE+kTOBZAEkASURDbDtcD1wNuAPAA8AAy',
+  'AqgG1wrXCkQNcw5zDlsSfg9qDmoOehBeFF4UxxOHEocSNhW8FAQUBBTZFLgSuBItEgMRExATEDwNZg5mDk4M7A2EEoQShxHIF8gXYRI/EvIS8hLeEhoX',
+  'GhewGeMZThdOF9QVTBRMFFoQsBCEEYQRqRMRExET8RQYFRgV2xUVFOMT4xM2EvcO9w53C3AO3RHdEYMS/BL8EuwSlRJbEVsR6hBdEF0QrBGyEHoQehBI',
+  'EN8Q3xAcEpISvBO8E9cTZxFnEcEPpg+KD4oP+RBdEV0RcBT3FfcVxhIZEu0S7RKdFCgXKBe4EiwFHAMcAxkSGhUaFSAVARbbGNsYtRgMFwwXHBaHFX0V',
+  'fRV4F04XTheXFUEU6xPrEzIWnhWeFQoWGxTGFMYU8xIZFBkU0hGqEKoQsw73DQkPCQ/PEKURpREYFV0TxxTHFDcV5BfkF/cTFhTpE+kTOBZAEkASURDb',
+  'DtcD1wNuAPAA8AAyAqgG1wrXCkQNcw5zDlsSfg9qDmoOehBeFF4UxxOHEocSNhW8FAQUBBTZFLgSuBItEgMRExATEDwNZg5mDk4M7A2EEoQShxHIF8gX',
+  'YRI/EvIS8hLeEhoXGhewGeMZThdOF9QVTBRMFFoQsBCEEYQRqRMRExET8RQYFRgV2xUVFOMT4xM2EvcO9w53C3AO3RHdEYMS/BL8EuwSlRJbEVsR6hBd',
+  'EF0QrBGyEHoQehBIEN8Q3xAcEpISvBO8E9cTZxFnEcEPpg+KD4oP+RBdEV0RcBT3FfcVxhIZEu0S7RKdFCgXKBe4EiwFHAMcAxkSGhUaFSAVMBYTFhMW',
+  'zRUsFiwWDBZXFSEWIRasEzQSNBJAFGwU/xL/EjUXfhd+F58PahH8FPwUAxpBGEEY4hfZF9kXyxDzENwQ3BCxEWwSbBInE+0TjxSPFFoV+xv7G5QYwRgA',
+  'FwAXCxi6FLoUhhN5EY4RjhHIB8MPww/iENISsxWzFdUV0BXQFSsVyBTqE+oTyg+HD4cPgBKuG64bwh/9IJ4enh7/FQgVCBXXExsUChQKFIURWhZaFpQW',
+  '4hQWFBYUChVWF1YXPBYgFHMVcxViF6UXpRccF6gWAxcDF8YVRRZFFlETPBR3FHcUtBWfFZ8VPxWqFKoULBXNE1ISUhJHEkoQShCyDZ4LmBKYEjMTvBO8',
+  'Ew4TghKAE4AT/xLiE+ITjhGuEVkSWRLAEQMTAxO5EmUTNRQ1FA0T2hLaEn8StRFlEWURBREUEhQSHQ85EzkTCxJgERQSFBI4FucU5xSlFrsURRdFF4EW',
+  'ChYKFq0VkxYLFwsXexbVFdUVBBVtFRMTExN8EpYRlhHiDqYOGQ8ZD+sQNxc3Fy8UbBKeEp4SGhNDEkMSkhLUFNQUCxeRFgUWBRawFeQV5BX1GcsUdxV3',
+  'FVQWAxkDGVsWXRanGKcYlReZFZkVmhSNFI4TjhO9ErcVtxXNEasS9hX2FVcXDxcPFwUWJhHTEdMRqBBgD2APjw9YEFgQ7xEcG1IgUiCVFNIU0hSzFykb',
+  'PBs8G4AUnBacFvkU/xWLF4sXoxaDGIMYdBimF+4W7hZyF50XnRe6FocVzhXOFWsVjBaMFiQVVhUeFR4VwBWhFaEVHxWXFJcU2BMHFJQSlBJsEmwSbBLR',
+  'EF8L7BHsEUwTWhNaEwgTkhI7EjsS4hJkEmQSVxKlErMSsxLVEpMSkxKRErgS0xLTEiUT/hL+EjsTMhOGEoYS2RJsE2wTZBANEQ0R7xAvEEYZRhm/GWAV',
+  'YBUdFzkWpRelF+oWThZOFgoWkxYLFwsXexbVFdUVBBVtFRMTExN8EpYRlhHiDqYOGQ8ZD+sQNxc3Fy8UbBKeEp4SGhNDEkMSkhLUFNQUCxeRFgUWBRaw',
+  'FeQV5BX1GcsUdxV3FVQWAxkDGVsWXRanGKcYlReZFZkVmhSNFI4TjhO9ErcVtxXNEasS9hX2FVcXDxcPFwUWJhHTEdMRqBBgD2APjw9YEFgQ7xEcG1Ig',
+  'UiCVFNIU0hSzFykbPBs8G4AUnBacFvkU/xWLF4sXoxaDGIMYdBimF+4W7hZyF50XnRe6FocVzhXOFWsVjBaMFiQVVhUeFR4VwBWhFaEVHxWXFJcU2BMH',
+  'FJQSlBJsEmwSbBLREF8L7BHsEUwTWhNaEwgTkhI7EjsS4hJkEmQSVxKlErMSsxLVEpMSkxKRErgS0xLTEiUT/hL+EjsTMhOGEoYS2RJsE2wTZBANEQ0R',
+  '7xAvEEYZRhm/GWAVYBUdFzkWpRelF+oWThZOFgoW7RSIFogW2BQZFRkVlRQoFMYTxhM2EQQRBBHDDccOVhBWENER5hHmERgT5BO8E7wTABQIFQgV5xWL',
+  'FYsVRhXwFbYVthXfFW0VbRVZGZcZSxZLFm0VoxSjFL4UQBXMFcwVkBRXFlcWFBSSFGUTZRPnEogUiBQAE00UnRSdFHUQHBUcFUAWEhaqFaoVqBgcFRwV',
+  'jRaVE5UTuRToHGwebB5SGT4WPhbnFdMVBBcEF08WXhZeFvoV/xVfFl8WPhalFaUVJBZkFpEVkRVWFu4W7hYjFS0V2xTbFPMUehV6FeUUKBULFQsVCRX1',
+  'FPUUexT3E/cTVBNSE5wSnBIWEtkR2RF1EK4PsAywDKwMLxIvElgS1RHcEdwR2REOEg4SlBKjEoASgBL1ETUSNRKmEpsSChIKEkcSsxKzEpQStRI5EjkS',
+  'IhIlEyUTdRKOEo4SuRDGD94N3g3RGfoS+hKrFNAUfxV/FaYW6RXpFVMXLhPNEc0RbBAgDyAPFg7iDvcS9xKdEdcR1xGkEbsRoRKhEv0SIBMgE6UT8BRL',
+  'FUsVchSnFKcUyRSQFJAUghQeFbYUthS2FIQUhBR2FMAUkxSTFKcUAxQDFHUTiROXE5cTQBO7E7sT4hOsEjIRMhGkEBEQERAMEy8SDAkMCRQKWQ1ZDUUQ',
+  'vxHPEs8SlxMOFQ4VxRSHFIcUmBQ9FWgUaBRPFHsUexSrFc8VBRUFFTQVCxULFR4VORU3FTcVTBWtGK0YrRg/FUEVQRX5FHEUcRR2FJ4UNRQ1FDEUYBRg',
+  'FD0UHRQHFAcUGxQwFDAUBRQ2EzYTmhLpEXcRdxEsEToQOhDWD/YPOA84D8YOPw8/D6QQWhAvEC8QaBCbEZsR0hEuEdUQ1RBwEOEQ4RDNELUQ4hDiEFAR',
+  'mhGaEekRwhErESsR6hAgESARoxAIEQgRVRBgD/MN8w0SDSQQJBA9EUAOvxK/ElkTxhLGEhQSnhC1EbURsxAYEhgSLRGpEhMSExJhEmkSaRJ2EigUTRRN',
+  'FBYTAhMCE6wSoxOkE6QTkRPqE+oThBO/E78T1BPvEyMUIxRwFN0T3RPHE58TlROVE0UTBBQEFLMT5xJuEm4SGRJgEWARpxA0ELYOtg5SDc0FzQV5BRkE',
+  'igKKAjcLCw4LDigQuBFXElcSvRIEEwQTQBNVE1UThRO9E54TnhObE/MT8xP0ExoUDBQMFGcUUxRTFDAUYBKnEacRUBOSFJIUKRTtE+QT5BPbE6QTpBPt',
+  'E8ITRxNHEygTExMTE7kS0xGTEJMQSxCBD4EPGxJXEFcQXxBJD68Orw6aDAQOBA7cDQMOfQ59DhgOww3DDfsNlQ2aCpoKOwSYDpgO0gUpCnoMegxmDOsK',
+  '6woKDMMNfw1/DVMNdQt1C48IdAgVDBUMOw2CDYINVA4iDiIO6w3WDb8Nvw3gDB4NHg2UDTMOBA4EDrQPOxQ7FNEUnhC1EbURsxAYEhgSLRGpEhMSExJh',
+  'EmkSaRJ2EigUTRRNFBYTAhMCE6wSoxOkE6QTkRPqE+oThBO/E78T1BPvEyMUIxRwFN0T3RPHE58TlROVE0UTBBQEFLMT5xJuEm4SGRJgEWARpxA0ELYO',
+  'tg5SDc0FzQV5BRkEigKKAjcLCw4LDigQuBFXElcSvRIEEwQTQBNVE1UThRO9E54TnhObE/MT8xP0ExoUDBQMFGcUUxRTFDAUYBKnEacRUBOSFJIUKRTt',
+  'E+QT5BPbE6QTpBPtE8ITRxNHEygTExMTE7kS0xGTEJMQSxCBD4EPGxJXEFcQXxBJD68Orw6aDAQOBA7cDQMOfQ59DhgOww3DDfsNlQ2aCpoKOwSYDpgO',
+  '0gUpCnoMegxmDOsK6woKDMMNfw1/DVMNdQt1C48IdAgVDBUMOw2CDYINVA4iDiIO6w3WDb8Nvw3gDB4NHg2UDTMOBA4EDrQPOxQ7FNEU8w9ZEVkRehII',
+  'EggSEBJhESISIhLaEvIS8hJUEkoSmhGaEcQRFhIWEmwSWxJbElsSxRF8EXwRsxG5EbkRuhFlEhkSGRJ7ERUSFRKEEnESZhJmElQSJhImEk8S/hDQENAQ',
+  'pRBvEG8Q+A/ADQ4GDgZDBg8EDwTVBGYCuAO4A/0KjQ2NDQMPJRBHEUcRUhGxEbERBRKEEoQSqBLGEjkTORM8E2sTaxNVE6QTqxOrE3gTsRKxEhgSYhLe',
+  'Ed4R5xAxEDEQaw7uEOMR4xGjEVERURGyEDcQtA60DgwP+g/6D/0NUgl1A3UDjwQEAQQBNwEvAS8BNQQmA78GvwZrBjkFOQVhBhIGBgMGA/YFuAO4AzED',
+  'ZwGYAZgBJAmUDpQODAOABXIGcga5BcAGwAbpBagH2wPbA+wBbgVuBTwFkAVmCGYI9wOxBbEFLQjSB9IHNgf4CA0HDQc8CpQKlArrChQNqg2qDccQIw8j',
+  'D9IP3g4nECcQsRD8EPwQIBGsEQISAhKuEZcRlxGjEaUROhE6EWcRsxGzEXARbRFyEXIRchHYEtgSJQ8rDisOIA3NDRMOEw7aDdsO2w7LDswO4w/jD/cP',
+  'hA2EDTcO7AlMBEwEpwQDBAMEVAVgBEgESASrBLAEsATqBE8EsAOwA2wIIgwiDI0NSA77DvsOChCAEIAQ6BBDEUMRpRG4EdsR2xHzESMSIxJfEpwRVAhU',
+  'CAIHBAUEBR8IZARpA2kDnQOkAqQCwwR9A2YDZgPMA08DTwMBAxQEqAKoAqQAYAFgAZABYwECAQIBPgA6AToBEAFnAGcACwG9AkQLRAsGC58FnwWfAfIB',
+  'ogCiABcCFwIXArEBIgG3AbcBBgMdAR0BTwP/BaIGogYCBgoFCgUDBckECwMLAyQDxQPFA6IFjwQeBR4FOgUMCAwIZAYeBh4GlwWTBPQE9ASGBBUFFQVY',
+  'BU8IsAqwCtEKSg1KDY0O3g4nECcQsRD8EPwQIBGsEQISAhKuEZcRlxGjEaUROhE6EWcRsxGzEXARbRFyEXIRchHYEtgSJQ8rDisOIA3NDRMOEw7aDdsO',
+  '2w7LDswO4w/jD/cPhA2EDTcO7AlMBEwEpwQDBAMEVAVgBEgESASrBLAEsATqBE8EsAOwA2wIIgwiDI0NSA77DvsOChCAEIAQ6BBDEUMRpRG4EdsR2xHz',
+  'ESMSIxJfEpwRVAhUCAIHBAUEBR8IZARpA2kDnQOkAqQCwwR9A2YDZgPMA08DTwMBAxQEqAKoAqQAYAFgAZABYwECAQIBPgA6AToBEAFnAGcACwG9AkQL',
+  'RAsGC58FnwWfAfIBogCiABcCFwIXArEBIgG3AbcBBgMdAR0BTwP/BaIGogYCBgoFCgUDBckECwMLAyQDxQPFA6IFjwQeBR4FOgUMCAwIZAYeBh4GlwWT',
+  'BPQE9ASGBBUFFQVYBU8IsAqwCtEKSg1KDY0OCAU4DDgMIg/WD9YPVhCNEGUQZRDdEOsQ6xAEEekQpBCkEFkQQBBAEBwQPg8GDgYOQQrCBMIEZwUZBRkF',
+  'VwavB0QIRAhXBrYFtgWVBqYFVAVUBc4F8QbxBh4G5wVpBWkFRAoLCgsKUQmgBtUG1QYvBFUDVQPIBAMHowKjAikCNAI0AkwC0wN4BngGzgnzC/MLcA2V',
+  'DZUNIg45DjcONw5sDFYGVgZYBU4EXQNdA94BHQIdAjoD7gEfAB8AGgAAAAAA5ACnAAAAAAAAAAAAAAAAABMAAAAAAAAAAAAAAAAAAAAqACoAoQAAAAAA',
+  'CwBGAEYAtwI6BNgO2A4sC2AFYAV9BBoBrwKvAkEB4wDjAGMBygAbARsBKwHbANsAFQEEA+8D7wMDBQYFBgUNBQEEdAN0A/cD/gP+A6IDUgWbBJsEcwLJ',
+  'A8kD5AQiBCIE1gPcAzMEMwSCA8EIwQhHBZIEbgRuBIECywLLAqcDNgPaAtoC0QMHBQcFfwVFCVMMUwy8DfYN9g2ADmMGLgguCA8G3QTdBM8F8ANyBHIE',
+  'nQRABEAEuwQWBRYFowloCe4H7gcPB8cGxwZ6B/AH6gjqCMYIDAkMCTkIugb7CfsJLwo4CzgLQAkVBkgFSAUvBSUFJQWBA28DTANMAy8D9gL2ApQCiQOm',
+  'A6YD+AT1BPUEYATAA8AD5AY/BucF5wVaBCwHLAekBMUEWgVaBU4EAwQDBCcE9gJ0AnQCRQF4AHgA0wBzAI8AjwAfAAAAAAAAAG4AbABsAAAAAAAAAAAA',
+  'JAAuAS4BeAGJAokC5gHYANgAPgMiA4ABgAFfAqkDqQMZBccF0wTTBDkDQgBCAPUBxgEPAA8AEAAtAy0DrwR+BX4CfgLnABMCEwLEBGkFqgKqAm4E8wLz',
+  'AioBngSeBJ4ErALCA8IDTARkA2QDCgMfAmMCYwJGAN0G3QY+BOcK/AP8A8UDcgNyA2IDNAMAAwAD9QL1AvUCwQICAwIDAgNZA10DXQO1AzUEjQSNBF8E',
+  'HAUcBd4ECwW6BboFewUwBTAFhgViBmIGUAc4Bx4JHgmxCYIJggmxBv4H+wf7B18IpgemB+IFCQVaBloG/wcpCSkJXQeUBgIFAgVeBHMEcwRTBEgFMgYy',
+  'BkgGVgZWBkgGyAV1BXUFqQVTBlMGMgZIBkgG3Qe6CbQKtAq2CmMGYwa9BcUFHQYdBhMGrAWsBRQD1wLlAuUCPANJA0kDPQKFAQ0ADQCLAJwAnAAAANcA',
+  'TwFPAa0AXgBeAAAAngD6AfoB6gDUANQAcgCEAYQBpAEAAIIBggEnAAAAAAAAAAAAAQABAAIAGQAZAH4AHwAFAAUA/wDiAeIBXAAAAFUBVQEgAYkAiQCP',
+  'AKoATQFNAcEBtwG3AQ0B1gF+An4CBQPHAscC2wJTAlMCbQGOCF0MXQyECA0GDQaBBQ4F4wPjA8UDQQNBA2MDNAMAAwAD9QL1AvUCwQICAwIDAgNZA10D',
+  'XQO1AzUEjQSNBF8EHAUcBd4ECwW6BboFewUwBTAFhgViBmIGUAc4Bx4JHgmxCYIJggmxBv4H+wf7B18IpgemB+IFCQVaBloG/wcpCSkJXQeUBgIFAgVe',
+  'BHMEcwRTBEgFMgYyBkgGVgZWBkgGyAV1BXUFqQVTBlMGMgZIBkgG3Qe6CbQKtAq2CmMGYwa9BcUFHQYdBhMGrAWsBRQD1wLlAuUCPANJA0kDPQKFAQ0A',
+  'DQCLAJwAnAAAANcATwFPAa0AXgBeAAAAngD6AfoB6gDUANQAcgCEAYQBpAEAAIIBggEnAAAAAAAAAAAAAQABAAIAGQAZAH4AHwAFAAUA/wDiAeIBXAAA',
+  'AFUBVQEgAYkAiQCPAKoATQFNAcEBtwG3AQ0B1gF+An4CBQPHAscC2wJTAlMCbQGOCF0MXQyECA0GDQaBBQ4F4wPjA8UDQQNBA2MDXAM3AzcDNwMrAysD',
+  'PQMPA+sC6wLXAtUC1QLvAkQDhgOGA0sEmgOaA7EEGwVWBVYFwwUTBhMGYwe1B7UH7QbaBcoGygZ0A5oDmgOBA30EWQRZBJkEbgVuBYYG2gbWBtYGSwdD',
+  'B0MHlAY8B40IjQgrCV4JXgkBCX4IowejB+QGkwaTBkgGpQdAB0AHyQPiAuICJAR4BHgEvQOjAYABgAGnAdYB1gE5AfcBeQN5AwoGLAYsBh4GxwWWBJYE',
+  'TQXwA/ADtQRcBFkEWQRTBMIEwgT3AAAAAAAAAAAAAAAAAB8AYQE5ATkB8gAmACYAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAWQBZAAAAAAAA',
+  'AAAAAAAWABYAUQFpAQsCCwIvAjgCOAI6ABkBxwHHAaYDcQNxA64C4gKhAqECqQKNAo0CMwJWAFYATQEqAcEBwQG7AxcGFwa6BDcNOAc4Bx8FVwRXBNYD',
+  '3gIrAysD1wIwAzADigRkBDcGNwZ7BtoF2gUIBqUE0gTSBLAFdQZ1Bo4GMwYMBQwF6AapB6kHOQZbBVsF0gSLAkEDQQM6BIwCjALbAukBiAOIA5kCvwK/',
+  'AiAFEAbVBNUExgW4BbgFVgVLBpYIlggpCW8HbwdzAnkHYgZiBj0EOAQ4BIkEFQVaBloGKQa9Bb0FHAW+BL4EswO4Ao0DjQONA4QChAKaAgQDnQOdA1kE',
+  '6ALoAk8C9QGFAYUBIgIKAwoD6wJTAwQDBAMWBF0EXQT8AHQAAAAAAAAAAAAAAAAAqwK3ArcCRAJdAV0BmgBJAUkByQHTAcYBxgGsAbkBuQGHAYEBjgGO',
+  'AZUB6wHrAc0BiwGPAY8BPAEiASIBwgEAAssBywFfAl8CXwISAroBegF6AY4DPAM8A4ACvwL1AfUBjwKNAo0CYwAfAB8ACAAAAAAAAAAAAHgAeABuAOgA',
+  'qASoBD0CAAAAANIA3gIrAysD1wIwAzADigRkBDcGNwZ7BtoF2gUIBqUE0gTSBLAFdQZ1Bo4GMwYMBQwF6AapB6kHOQZbBVsF0gSLAkEDQQM6BIwCjALb',
+  'AukBiAOIA5kCvwK/AiAFEAbVBNUExgW4BbgFVgVLBpYIlggpCW8HbwdzAnkHYgZiBj0EOAQ4BIkEFQVaBloGKQa9Bb0FHAW+BL4EswO4Ao0DjQONA4QC',
+  'hAKaAgQDnQOdA1kE6ALoAk8C9QGFAYUBIgIKAwoD6wJTAwQDBAMWBF0EXQT8AHQAAAAAAAAAAAAAAAAAqwK3ArcCRAJdAV0BmgBJAUkByQHTAcYBxgGs',
+  'AbkBuQGHAYEBjgGOAZUB6wHrAc0BiwGPAY8BPAEiASIBwgEAAssBywFfAl8CXwISAroBegF6AY4DPAM8A4ACvwL1AfUBjwKNAo0CYwAfAB8ACAAAAAAA',
+  'AAAAAHgAeABuAOgAqASoBD0CAAAAANIAPQA/AD8AQgBEAEQARABCAF4AXgByAIUAhQCFAKgAtwC3ALUAoQChANgA/QD7APsAyADwAPAAewGhAaEBUQGP',
+  'AaUBpQG8ATABMAG4ASoCTQJNAp4CqwKrAngCiwJeAV4BxwHMAcwB6gESAggCCAIcAgYCBgJ3AcUBswGzAZIBAgICAlkCiQPrA+sDdAOnA6cDiwPdAt0C',
+  'KgPzAgYDBgMHAz8DPwN8BLYEFAUUBeIE2QTZBCcFNgVLBEsEFAWDBYMFdAX+BREFEQVXBYAEgARKBNUExQTFBEwEZARkBMoDZQJgAmACvQFXAlcCNALO',
+  'Ac4BsgLxAgMDAwMAA8ICwgKBAn8ChQKFAlcCQQJBAlsC/AFsAWwBdAFtAW0BhwGlARgCGAKYAg4CDgKDAX8BHwEfAQ4BDgEOAfsAQwE7ATsB7gDZANkA',
+  'uwCdAJ0AdQCBADcANwA4ADkAOQA5ADkAOQA5ADkAOQA5ADkA',
+  ].join(''),
+};
@@ -0,0 +1,232 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ChannelConfig, GeneratedAlert, TransportConfig } from '../../types';
+import { DEFAULT_SMS_TEMPLATE, createChannel, createDeliveryRecords, smsText } from './channels';
+import { MockWebhookServer, startMockWebhookServer } from '../../test/mockWebhookServer';
+import { MockSmtpServer, startMockSmtpServer } from '../../test/mockSmtpServer';
+import { testEvent } from '../../test/mockUsgsServer';
+
+const SINK: TransportConfig = { type: 'sink' };
+
+const testAlert = (overrides: Partial<GeneratedAlert> = {}): GeneratedAlert => ({
+  id: 'alert-1',
+  timestamp: '2026-01-01T00:10:00Z',
+  kind: 'initial',
+  event: testEvent({ magType: 'mww' }),
+  subject: 'M7.5 earthquake - Off the coast of Test',
+  body: 'A magnitude 7.5 earthquake occurred off the coast of Test.',
+  ...overrides,
+});
+
+let server: MockWebhookServer;
+
+beforeAll(async () => {
+  server = await startMockWebhookServer({ '/broken': 500, '/missing': 404 });
+});
+
+afterAll(() => server.close());
+
+beforeEach(() => {
+  server.requests.length = 0;
+});
+
+const webhook = (type: 'slack' | 'teams' | 'discord', path: string): ChannelConfig => ({ id: type, type, enabled: true, webhookUrl: server.url(path) });
+
+const lastBody = () => server.requests[server.requests.length - 1].body as Record<string, any>;
+
+describe('chat channels', () => {
+  it('posts a Slack Block Kit message', async () => {
+    await createChannel(webhook('slack', '/slack'), SINK).send(testAlert(), 'Slack');
+
+    expect(server.requests).toHaveLength(1);
+    expect(server.requests[0]).toMatchObject({ method: 'POST', path: '/slack' });
+    expect(server.requests[0].headers['content-type']).toBe('application/json');
+    const body = lastBody();
+    expect(body.text).toBe('M7.5 earthquake - Off the coast of Test');
+    expect(body.blocks.map((block: { type: string }) => block.type)).toEqual(['header', 'section', 'section', 'actions']);
+    expect(body.blocks[1].fields).toContainEqual({ type: 'mrkdwn', text: '*Magnitude*\n7.5 mww' });
+    expect(body.blocks[2].text.text).toBe('A magnitude 7.5 earthquake occurred off the coast of Test.');
+    expect(body.blocks[3].elements[0].url).toBe('https://earthquake.usgs.gov/earthquakes/eventpage/us1');
+  });
+
+  it('posts a Teams MessageCard coloured by alert level', async () => {
+    await createChannel(webhook('teams', '/teams'), SINK).send(testAlert({ zoneName: 'Hilo Bay', event: testEvent({ alertLevel: 'advisory' }) }), 'Microsoft Teams');
+
+    const body = lastBody();
+    expect(body).toMatchObject({ '@type': 'MessageCard', title: 'M7.5 earthquake - Off the coast of Test', themeColor: 'f5a623' });
+    expect(body.sections[0].facts).toContainEqual({ name: 'Zone', value: 'Hilo Bay' });
+    expect(body.sections[0].facts).toContainEqual({ name: 'Alert level', value: 'ADVISORY' });
+    expect(body.potentialAction[0].targets[0].uri).toBe('https://earthquake.usgs.gov/earthquakes/eventpage/us1');
+  });
+
+  it('posts a Discord embed, pinging the channel only for warnings', async () => {
+    const discord = createChannel(webhook('discord', '/discord'), SINK);
+
+    await discord.send(testAlert(), 'Discord');
+    expect(lastBody().content).toBeUndefined();
+    expect(lastBody().embeds[0]).toMatchObject({ title: 'M7.5 earthquake - Off the coast of Test', color: 0xf85149, timestamp: '2026-01-01T00:00:00.000Z' });
+
+    await discord.send(testAlert({ event: testEvent({ alertLevel: 'warning' }) }), 'Discord');
+    expect(lastBody().content).toBe('@here Tsunami warning');
+
+    await discord.send(testAlert({ exercise: true, event: testEvent({ alertLevel: 'warning' }) }), 'Discord');
+    expect(lastBody().content).toBe('EXERCISE - not a real event');
+  });
+
+  it('does not ping the channel when a warning is cancelled', async () => {
+    await createChannel(webhook('discord', '/discord'), SINK).send(testAlert({ kind: 'cancelled', event: testEvent({ alertLevel: 'warning' }) }), 'Discord');
+    expect(lastBody().content).toBeUndefined();
+  });
+
+  it('fails when the webhook does not accept the message', async () => {
+    await expect(createChannel(webhook('slack', '/broken'), SINK).send(testAlert(), 'Slack')).rejects.toThrow(`${server.url('/broken')} responded 500 Internal Server Error`);
+    await expect(createChannel(webhook('teams', '/missing'), SINK).send(testAlert(), 'Microsoft Teams')).rejects.toThrow('responded 404 Not Found');
+  });
+
+  it('fails when the webhook cannot be reached', async () => {
+    const unreachable = await startMockWebhookServer();
+    const url = unreachable.url('/discord');
+    await unreachable.close();
+    await expect(createChannel({ id: 'discord', type: 'discord', enabled: true, webhookUrl: url }, SINK).send(testAlert(), 'Discord')).rejects.toThrow();
+  });
+});
+
+describe('SMS channel', () => {
+  const sms = (overrides: Partial<Extract<ChannelConfig, { type: 'sms' }>> = {}): ChannelConfig => ({
+    id: 'sms',
+    type: 'sms',
+    enabled: true,
+    gatewayUrl: server.url('/sms'),
+    numbers: ['+15550100'],
+    template: DEFAULT_SMS_TEMPLATE,
+    maxLength: 160,
+    ...overrides,
+  });
+
+  it('posts the rendered text for the recipient, with the gateway token', async () => {
+    await createChannel(sms({ authToken: 'gateway-token' }), SINK).send(testAlert(), '+15550100');
+
+    expect(server.requests[0].headers.authorization).toBe('Bearer gateway-token');
+    expect(lastBody()).toEqual({ to: '+15550100', message: smsText(DEFAULT_SMS_TEMPLATE, testAlert()) });
+    expect(lastBody().message).toMatch(/^M7\.5 quake near Off the coast of Test, /);
+  });
+
+  it('sends no Authorization header without a token', async () => {
+    await createChannel(sms(), SINK).send(testAlert(), '+15550100');
+    expect(server.requests[0].headers.authorization).toBeUndefined();
+  });
+
+  it('cuts the message to the gateway\'s length limit', async () => {
+    await createChannel(sms({ maxLength: 40 }), SINK).send(testAlert(), '+15550100');
+    expect(lastBody().message).toHaveLength(40);
+    expect(lastBody().message.endsWith('…')).toBe(true);
+  });
+
+  it('marks exercise messages', () => {
+    expect(smsText(DEFAULT_SMS_TEMPLATE, testAlert({ exercise: true }))).toMatch(/^EXERCISE: M7\.5 quake/);
+  });
+
+  it('leads with the kind of a follow-up alert, even when cut short', async () => {
+    await createChannel(sms({ maxLength: 40 }), SINK).send(testAlert({ kind: 'cancelled' }), '+15550100');
+    expect(lastBody().message).toMatch(/^CANCELLED: M7\.5 quake/);
+    expect(lastBody().message).toHaveLength(40);
+    expect(smsText(DEFAULT_SMS_TEMPLATE, testAlert({ kind: 'update', exercise: true }))).toMatch(/^EXERCISE: UPDATE: M7\.5 quake/);
+  });
+
+  it('fails when the gateway refuses the message', async () => {
+    await expect(createChannel(sms({ gatewayUrl: server.url('/broken') }), SINK).send(testAlert(), '+15550100')).rejects.toThrow('responded 500 Internal Server Error');
+  });
+});
+
+describe('email channel', () => {
+  let smtp: MockSmtpServer;
+
+  beforeAll(async () => {
+    smtp = await startMockSmtpServer();
+  });
+
+  afterAll(() => smtp.close());
+
+  it('sends through the SMTP transport', async () => {
+    const transport: TransportConfig = { type: 'smtp', host: '127.0.0.1', port: smtp.port, secure: false, from: 'sentinel@example.org' };
+    await createChannel({ id: 'email', type: 'email', enabled: true }, transport).send(testAlert(), 'duty@example.org');
+    expect(smtp.messages[0].recipients).toEqual(['duty@example.org']);
+    expect(smtp.messages[0].data).toContain('Subject: M7.5 earthquake - Off the coast of Test');
+  });
+
+  it('sends through the webhook transport with its headers', async () => {
+    const transport: TransportConfig = { type: 'webhook', url: server.url('/mail'), headers: { 'X-Api-Key': 'mail-key' } };
+    await createChannel({ id: 'email', type: 'email', enabled: true }, transport).send(testAlert(), 'duty@example.org');
+    expect(server.requests[0].headers['x-api-key']).toBe('mail-key');
+    expect(lastBody()).toMatchObject({ to: 'duty@example.org', subject: 'M7.5 earthquake - Off the coast of Test', text: testAlert().body });
+  });
+});
+
+describe('desktop channel', () => {
+  const desktop = createChannel({ id: 'desktop', type: 'desktop', enabled: true, soundOnWarning: true }, SINK);
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const stubBrowser = () => {
+    const notifications: { title: string; options: NotificationOptions }[] = [];
+    const sirens: number[][] = [];
+    vi.stubGlobal('Notification', Object.assign(function (title: string, options: NotificationOptions) {
+      notifications.push({ title, options });
+    }, { permission: 'granted' }));
+    // Just enough of the Web Audio API to record the tones the siren schedules.
+    vi.stubGlobal('window', {
+      AudioContext: function () {
+        const tones: number[] = [];
+        sirens.push(tones);
+        const node = { connect: () => node };
+        return {
+          currentTime: 0,
+          destination: {},
+          createGain: () => ({ ...node, gain: { value: 1 } }),
+          createOscillator: () => ({ ...node, frequency: { setValueAtTime: (hz: number) => tones.push(hz) }, start: () => {}, stop: () => {} }),
+          close: async () => {},
+        };
+      },
+    });
+    return { notifications, sirens };
+  };
+
+  it('fails where notifications are unavailable', async () => {
+    await expect(desktop.send(testAlert(), 'Desktop'))
+      .rejects.toThrow('Desktop notifications are not available in this runtime');
+  });
+
+  it('keeps a warning on screen and sounds the siren', async () => {
+    const { notifications, sirens } = stubBrowser();
+    await desktop.send(testAlert({ event: testEvent({ alertLevel: 'warning' }) }), 'Desktop');
+    expect(notifications[0]).toMatchObject({ title: 'M7.5 earthquake - Off the coast of Test', options: { tag: 'alert-1', requireInteraction: true } });
+    expect(sirens).toEqual([[880, 660, 880, 660, 880, 660]]);
+  });
+
+  it('neither holds the screen nor sounds the siren when a warning is cancelled', async () => {
+    const { notifications, sirens } = stubBrowser();
+    await desktop.send(testAlert({ kind: 'cancelled', event: testEvent({ alertLevel: 'warning' }) }), 'Desktop');
+    expect(notifications[0].options.requireInteraction).toBe(false);
+    expect(sirens).toHaveLength(0);
+  });
+});
+
+describe('createDeliveryRecords', () => {
+  it('queues one delivery per recipient of each enabled channel', () => {
+    const records = createDeliveryRecords(['a@example.org', 'b@example.org'], [
+      { id: 'email', type: 'email', enabled: true },
+      { id: 'slack', type: 'slack', enabled: true, webhookUrl: 'https://hooks.example.org/slack' },
+      { id: 'sms', type: 'sms', enabled: true, gatewayUrl: 'https://sms.example.org', numbers: ['+15550100'], template: DEFAULT_SMS_TEMPLATE, maxLength: 160 },
+      { id: 'teams', type: 'teams', enabled: false, webhookUrl: 'https://hooks.example.org/teams' },
+    ], SINK);
+
+    expect(records.map(record => [record.channelId, record.recipient, record.transport])).toEqual([
+      ['email', 'a@example.org', 'sink'],
+      ['email', 'b@example.org', 'sink'],
+      ['slack', 'Slack', undefined],
+      ['sms', '+15550100', undefined],
+    ]);
+    expect(records.every(record => record.status === 'queued' && record.attempts === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,198 @@
+import { ChannelConfig, ChannelType, DeliveryRecord, EarthquakeEvent, GeneratedAlert, TransportConfig } from '../../types';
+import { ALERT_KIND_LABELS } from '../alertLifecycle';
+import { fillTemplate } from '../alertTemplate';
+import { formatDateTime } from '../formatting';
+import { createTransport } from './transports';
+
+/** Delivers an alert to one recipient of a channel. Implementations throw on failure. */
+export interface NotificationChannel {
+  type: ChannelType;
+  send: (alert: GeneratedAlert, recipient: string) => Promise<void>;
+}
+
+export const CHANNEL_LABELS: Record<ChannelType, string> = {
+  email: 'Email',
+  desktop: 'Desktop',
+  slack: 'Slack',
+  teams: 'Microsoft Teams',
+  discord: 'Discord',
+  sms: 'SMS',
+};
+
+export const DEFAULT_SMS_TEMPLATE = 'M{magnitude} quake near {location}, {time|utc}.{#if isTsunamiWarning} TSUNAMI THREAT.{/if} {link}';
+export const SMS_MAX_LENGTH = 160;
+
+const LEVEL_COLORS: Record<EarthquakeEvent['alertLevel'], string> = {
+  warning: '#f85149',
+  watch: '#f85149',
+  advisory: '#f5a623',
+  info: '#58a6ff',
+  none: '#8b949e',
+};
+
+// A cancellation stands people down, so it never pings, sticks on screen or sounds the siren.
+const isUrgent = (alert: GeneratedAlert): boolean => alert.event.alertLevel === 'warning' && alert.kind !== 'cancelled';
+
+export const alertSubject = (alert: GeneratedAlert): string =>
+  alert.subject ?? `Tsunami Sentinel: M${alert.event.magnitude.toFixed(1)} - ${alert.event.location}`;
+
+const alertFacts = (alert: GeneratedAlert): { name: string; value: string }[] => [
+  { name: 'Magnitude', value: `${alert.event.magnitude.toFixed(1)}${alert.event.magType ? ` ${alert.event.magType}` : ''}` },
+  { name: 'Depth', value: `${alert.event.depth.toFixed(1)} km` },
+  { name: 'Alert level', value: alert.event.alertLevel.toUpperCase() },
+  { name: 'Origin time', value: formatDateTime(new Date(alert.event.time)) },
+  ...(alert.zoneName ? [{ name: 'Zone', value: alert.zoneName }] : []),
+];
+
+/** Slack incoming-webhook payload using Block Kit. */
+export const slackPayload = (alert: GeneratedAlert) => ({
+  text: alertSubject(alert),
+  blocks: [
+    { type: 'header', text: { type: 'plain_text', text: alertSubject(alert) } },
+    { type: 'section', fields: alertFacts(alert).map(fact => ({ type: 'mrkdwn', text: `*${fact.name}*\n${fact.value}` })) },
+    { type: 'section', text: { type: 'mrkdwn', text: alert.body } },
+    { type: 'actions', elements: [{ type: 'button', text: { type: 'plain_text', text: 'View event' }, url: alert.event.link }] },
+  ],
+});
+
+/** Microsoft Teams incoming-webhook payload (legacy MessageCard format). */
+export const teamsPayload = (alert: GeneratedAlert) => ({
+  '@type': 'MessageCard',
+  '@context': 'https://schema.org/extensions',
+  summary: alertSubject(alert),
+  themeColor: LEVEL_COLORS[alert.event.alertLevel].slice(1),
+  title: alertSubject(alert),
+  sections: [{ facts: alertFacts(alert), text: alert.body }],
+  potentialAction: [{ '@type': 'OpenUri', name: 'View event', targets: [{ os: 'default', uri: alert.event.link }] }],
+});
+
+/** Discord webhook payload with a single embed. */
+export const discordPayload = (alert: GeneratedAlert) => ({
+  content: alert.exercise ? 'EXERCISE - not a real event' : isUrgent(alert) ? '@here Tsunami warning' : undefined,
+  embeds: [
+    {
+      title: alertSubject(alert),
+      url: alert.event.link,
+      description: alert.body,
+      color: parseInt(LEVEL_COLORS[alert.event.alertLevel].slice(1), 16),
+      fields: alertFacts(alert).map(fact => ({ ...fact, inline: true })),
+      timestamp: new Date(alert.event.time).toISOString(),
+    },
+  ],
+});
+
+/** Renders the SMS variant of an alert, led by its kind (UPDATE, CANCELLED, ...) and truncated to the gateway's length limit. */
+export const smsText = (template: string, alert: GeneratedAlert, maxLength: number = SMS_MAX_LENGTH): string => {
+  const label = alert.kind && ALERT_KIND_LABELS[alert.kind];
+  const prefix = `${alert.exercise ? 'EXERCISE: ' : ''}${label ? `${label}: ` : ''}`;
+  const text = `${prefix}${fillTemplate(template, alert.event, alert.zoneName)}`.replace(/\s+/g, ' ').trim();
+  return text.length <= maxLength ? text : `${text.slice(0, maxLength - 1)}…`;
+};
+
+const postJson = async (url: string, payload: unknown, headers: Record<string, string> = {}) => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(payload),
+  });
+  if (!response.ok) {
+    throw new Error(`${url} responded ${response.status} ${response.statusText}`);
+  }
+};
+
+// A short two-tone siren built with the Web Audio API, so no audio asset has to be bundled.
+const playWarningSound = () => {
+  const AudioContextClass = window.AudioContext ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  if (!AudioContextClass) return;
+  const context = new AudioContextClass();
+  const oscillator = context.createOscillator();
+  const gain = context.createGain();
+  oscillator.type = 'square';
+  gain.gain.value = 0.1;
+  for (let i = 0; i < 6; i++) {
+    oscillator.frequency.setValueAtTime(i % 2 === 0 ? 880 : 660, context.currentTime + i * 0.25);
+  }
+  oscillator.connect(gain).connect(context.destination);
+  oscillator.start();
+  oscillator.stop(context.currentTime + 1.5);
+  oscillator.onended = () => void context.close();
+};
+
+const createDesktopChannel = (config: Extract<ChannelConfig, { type: 'desktop' }>): NotificationChannel => ({
+  type: 'desktop',
+  send: async alert => {
+    if (typeof Notification === 'undefined') {
+      throw new Error('Desktop notifications are not available in this runtime');
+    }
+    if (Notification.permission === 'default') {
+      await Notification.requestPermission();
+    }
+    if (Notification.permission !== 'granted') {
+      throw new Error('Desktop notification permission was not granted');
+    }
+    const urgent = isUrgent(alert);
+    new Notification(alertSubject(alert), { body: alert.body, tag: alert.id, requireInteraction: urgent });
+    if (urgent && config.soundOnWarning) {
+      playWarningSound();
+    }
+  },
+});
+
+/**
+ * Creates the channel described by a ChannelConfig.
+ * @param config The channel's configuration.
+ * @param transport The email transport, used by the email channel.
+ */
+export const createChannel = (config: ChannelConfig, transport: TransportConfig): NotificationChannel => {
+  switch (config.type) {
+    case 'email': {
+      const mail = createTransport(transport);
+      return {
+        type: 'email',
+        send: (alert, recipient) => mail.send({ to: recipient, subject: alertSubject(alert), text: alert.body, html: alert.html }),
+      };
+    }
+    case 'desktop':
+      return createDesktopChannel(config);
+    case 'slack':
+      return { type: 'slack', send: alert => postJson(config.webhookUrl, slackPayload(alert)) };
+    case 'teams':
+      return { type: 'teams', send: alert => postJson(config.webhookUrl, teamsPayload(alert)) };
+    case 'discord':
+      return { type: 'discord', send: alert => postJson(config.webhookUrl, discordPayload(alert)) };
+    case 'sms':
+      return {
+        type: 'sms',
+        send: (alert, recipient) =>
+          postJson(
+            config.gatewayUrl,
+            { to: recipient, message: smsText(config.template, alert, config.maxLength) },
+            config.authToken ? { Authorization: `Bearer ${config.authToken}` } : {},
+          ),
+      };
+    default:
+      throw new Error(`Unknown channel type "${(config as ChannelConfig).type}"`);
+  }
+};
+
+/**
+ * Creates one queued delivery per recipient of each channel: email goes to the alert's
+ * recipients, SMS to the channel's numbers, and webhook and desktop channels get a single delivery.
+ */
+export const createDeliveryRecords = (recipients: string[], channels: ChannelConfig[], transport: TransportConfig): DeliveryRecord[] => {
+  const updatedAt = new Date().toISOString();
+  return channels
+    .filter(channel => channel.enabled)
+    .flatMap(channel => {
+      const targets = channel.type === 'email' ? recipients : channel.type === 'sms' ? channel.numbers : [CHANNEL_LABELS[channel.type]];
+      return targets.map<DeliveryRecord>(recipient => ({
+        recipient,
+        channelId: channel.id,
+        channel: channel.type,
+        transport: channel.type === 'email' ? transport.type : undefined,
+        status: 'queued',
+        attempts: 0,
+        updatedAt,
+      }));
+    });
+};
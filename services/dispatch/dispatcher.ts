@@ -0,0 +1,106 @@
+import { ChannelConfig, DeliveryRecord, GeneratedAlert, TransportConfig } from '../../types';
+import { ALERT_LOG_LIMIT } from '../alertEngine';
+import { createChannel } from './channels';
+
+export interface DispatcherOptions {
+  /** Read on every attempt, so configuration changes apply to queued deliveries. */
+  getConfig: () => { channels: ChannelConfig[]; transport: TransportConfig };
+  /** Called whenever any delivery of an alert changes state. */
+  onUpdate: (alertId: string, deliveries: DeliveryRecord[]) => void;
+  maxAttempts?: number;
+  baseRetryDelayMs?: number;
+}
+
+export interface Dispatcher {
+  /** Attempts every delivery of an alert that is still queued or retrying. */
+  dispatch: (alert: GeneratedAlert) => void;
+  /** Cancels pending retries. Deliveries already in flight still complete. */
+  stop: () => void;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BASE_RETRY_DELAY_MS = 5000;
+
+const deliveryKey = (record: Pick<DeliveryRecord, 'channelId' | 'recipient'>) => `${record.channelId}:${record.recipient}`;
+
+const isSettled = (deliveries: DeliveryRecord[]) => deliveries.every(record => record.status === 'sent' || record.status === 'failed');
+
+/**
+ * Creates a dispatcher that delivers each of an alert's deliveries independently and retries
+ * failures with exponential backoff, reporting every status change through `onUpdate`.
+ */
+export const createDispatcher = (options: DispatcherOptions): Dispatcher => {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const baseRetryDelayMs = options.baseRetryDelayMs ?? DEFAULT_BASE_RETRY_DELAY_MS;
+  const timers = new Set<ReturnType<typeof setTimeout>>();
+  const records = new Map<string, DeliveryRecord[]>();
+  let stopped = false;
+
+  // Like the alert log, keeps the most recent ALERT_LOG_LIMIT alerts' deliveries and any older ones
+  // still under way, so a long-running daemon doesn't hold every delivery it ever made.
+  const prune = () => {
+    let excess = records.size - ALERT_LOG_LIMIT;
+    for (const [alertId, deliveries] of records) {
+      if (excess <= 0) return;
+      if (isSettled(deliveries)) {
+        records.delete(alertId);
+        excess--;
+      }
+    }
+  };
+
+  const update = (alertId: string, key: string, patch: Partial<DeliveryRecord>) => {
+    const next = (records.get(alertId) ?? []).map(record =>
+      deliveryKey(record) === key ? { ...record, ...patch, updatedAt: new Date().toISOString() } : record,
+    );
+    records.set(alertId, next);
+    options.onUpdate(alertId, next);
+    if (isSettled(next)) prune();
+  };
+
+  const attempt = async (alert: GeneratedAlert, key: string) => {
+    if (stopped) return;
+    const record = records.get(alert.id)?.find(candidate => deliveryKey(candidate) === key);
+    if (!record) return;
+    const attempts = record.attempts + 1;
+
+    try {
+      const { channels, transport } = options.getConfig();
+      const config = channels.find(channel => channel.id === record.channelId);
+      if (!config) {
+        throw new Error(`Channel "${record.channelId}" is no longer configured`);
+      }
+      await createChannel(config, transport).send(alert, record.recipient);
+      update(alert.id, key, { status: 'sent', attempts, nextAttemptAt: undefined, lastError: undefined });
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : String(error);
+      if (attempts >= maxAttempts) {
+        update(alert.id, key, { status: 'failed', attempts, lastError, nextAttemptAt: undefined });
+        return;
+      }
+      const delay = baseRetryDelayMs * 2 ** (attempts - 1);
+      update(alert.id, key, { status: 'retrying', attempts, lastError, nextAttemptAt: new Date(Date.now() + delay).toISOString() });
+      const timer = setTimeout(() => {
+        timers.delete(timer);
+        void attempt(alert, key);
+      }, delay);
+      timers.add(timer);
+    }
+  };
+
+  return {
+    dispatch: alert => {
+      const deliveries = alert.deliveries ?? [];
+      records.set(alert.id, deliveries);
+      prune();
+      deliveries
+        .filter(record => record.status === 'queued' || record.status === 'retrying')
+        .forEach(record => void attempt(alert, deliveryKey(record)));
+    },
+    stop: () => {
+      stopped = true;
+      timers.forEach(timer => clearTimeout(timer));
+      timers.clear();
+    },
+  };
+};
@@ -0,0 +1,133 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { SmtpOptions, buildMimeMessage, parseMailbox, sendSmtpMail } from './smtp';
+import { MockSmtpOptions, MockSmtpServer, startMockSmtpServer } from '../../test/mockSmtpServer';
+
+const MESSAGE = { to: 'duty@example.org', subject: 'M7.5 earthquake', text: 'A magnitude 7.5 earthquake occurred.' };
+
+let server: MockSmtpServer | null = null;
+
+const start = async (options?: MockSmtpOptions) => {
+  server = await startMockSmtpServer(options);
+  return server;
+};
+
+const smtpOptions = (port: number, overrides: Partial<SmtpOptions> = {}): SmtpOptions => ({
+  host: '127.0.0.1',
+  port,
+  secure: false,
+  from: 'sentinel@example.org',
+  timeoutMs: 2000,
+  ...overrides,
+});
+
+afterEach(async () => {
+  await server?.close();
+  server = null;
+});
+
+describe('parseMailbox', () => {
+  it('reads bare and named addresses', () => {
+    expect(parseMailbox(' duty@example.org ')).toEqual({ address: 'duty@example.org', header: 'duty@example.org' });
+    expect(parseMailbox('Tsunami Sentinel <sentinel@example.org>')).toEqual({ address: 'sentinel@example.org', header: 'Tsunami Sentinel <sentinel@example.org>' });
+    expect(parseMailbox('Überwachung <sentinel@example.org>').header).toMatch(/^=\?UTF-8\?B\?.+\?= <sentinel@example\.org>$/);
+  });
+
+  it('rejects control characters and anything but a single address', () => {
+    expect(() => parseMailbox('duty@example.org\r\nBcc: everyone@example.org')).toThrow(/control characters/);
+    expect(() => parseMailbox('duty@example.org>\nRCPT TO:<other@example.org')).toThrow(/control characters/);
+    expect(() => parseMailbox('not an address')).toThrow(/Invalid email address/);
+    expect(() => parseMailbox('a@example.org, b@example.org')).toThrow(/Invalid email address/);
+    expect(() => parseMailbox('')).toThrow(/Invalid email address/);
+  });
+});
+
+describe('buildMimeMessage', () => {
+  const date = new Date('2026-01-01T00:00:00Z');
+
+  it('builds a plain-text message', () => {
+    const mime = buildMimeMessage('Sentinel <sentinel@example.org>', MESSAGE, date);
+    expect(mime).toContain('From: Sentinel <sentinel@example.org>\r\nTo: duty@example.org\r\nSubject: M7.5 earthquake\r\n');
+    expect(mime).toContain('Content-Type: text/plain; charset=utf-8');
+    expect(mime.endsWith('\r\n\r\nA magnitude 7.5 earthquake occurred.')).toBe(true);
+  });
+
+  it('sends an HTML body as an alternative part', () => {
+    const mime = buildMimeMessage('sentinel@example.org', { ...MESSAGE, html: '<p>A magnitude 7.5 earthquake occurred.</p>' }, date);
+    expect(mime).toMatch(/Content-Type: multipart\/alternative; boundary="(sentinel-[^"]+)"/);
+    expect(mime).toContain('Content-Type: text/html; charset=utf-8\r\nContent-Transfer-Encoding: 8bit\r\n\r\n<p>A magnitude 7.5 earthquake occurred.</p>');
+  });
+
+  it('encodes a subject that is not plain ASCII, including line breaks', () => {
+    expect(buildMimeMessage('sentinel@example.org', { ...MESSAGE, subject: 'M7.5 → 12° off the coast' }, date)).toMatch(/\r\nSubject: =\?UTF-8\?B\?[A-Za-z0-9+/=]+\?=\r\n/);
+    expect(buildMimeMessage('sentinel@example.org', { ...MESSAGE, subject: 'Alert\r\nBcc: x@example.org' }, date)).not.toContain('\r\nBcc:');
+  });
+
+  it('refuses to write a recipient that would add a header', () => {
+    expect(() => buildMimeMessage('sentinel@example.org', { ...MESSAGE, to: 'duty@example.org\r\nBcc: x@example.org' }, date)).toThrow(/control characters/);
+  });
+});
+
+describe('sendSmtpMail', () => {
+  it('delivers a message through the server', async () => {
+    const { port, messages, commands } = await start();
+    await sendSmtpMail(smtpOptions(port), MESSAGE);
+
+    // QUIT goes out as the connection closes, so it may not have arrived yet.
+    expect(commands.slice(0, 4)).toEqual(['EHLO tsunami-sentinel', 'MAIL FROM:<sentinel@example.org>', 'RCPT TO:<duty@example.org>', 'DATA']);
+    expect(messages).toHaveLength(1);
+    expect(messages[0]).toMatchObject({ from: 'sentinel@example.org', recipients: ['duty@example.org'] });
+    expect(messages[0].data).toContain('Subject: M7.5 earthquake\r\n');
+    expect(messages[0].data).toContain('A magnitude 7.5 earthquake occurred.');
+  });
+
+  it('uses the bare address of a named sender in the envelope', async () => {
+    const { port, messages, commands } = await start();
+    await sendSmtpMail(smtpOptions(port, { from: 'Tsunami Sentinel <sentinel@example.org>' }), MESSAGE);
+    expect(commands).toContain('MAIL FROM:<sentinel@example.org>');
+    expect(messages[0].data).toContain('From: Tsunami Sentinel <sentinel@example.org>\r\n');
+  });
+
+  it('keeps lines that start with a dot intact', async () => {
+    const { port, messages } = await start();
+    await sendSmtpMail(smtpOptions(port), { ...MESSAGE, text: 'Stations:\n.\n.hidden line\nend' });
+    expect(messages[0].data.endsWith('Stations:\r\n.\r\n.hidden line\r\nend')).toBe(true);
+  });
+
+  it('authenticates with AUTH PLAIN', async () => {
+    const { port, messages } = await start({ username: 'sentinel', password: 's3cret' });
+    await sendSmtpMail(smtpOptions(port, { username: 'sentinel', password: 's3cret' }), MESSAGE);
+    expect(messages).toHaveLength(1);
+  });
+
+  it('reports a refused login without echoing the credentials', async () => {
+    const { port, messages } = await start({ username: 'sentinel', password: 's3cret' });
+    await expect(sendSmtpMail(smtpOptions(port, { username: 'sentinel', password: 'wrong' }), MESSAGE)).rejects.toThrow(/^SMTP AUTH failed: 535 Authentication credentials invalid$/);
+    expect(messages).toEqual([]);
+  });
+
+  it('reports a refused recipient', async () => {
+    const { port, messages } = await start({ rejectRecipients: /^nobody@/ });
+    await expect(sendSmtpMail(smtpOptions(port), { ...MESSAGE, to: 'nobody@example.org' })).rejects.toThrow('SMTP RCPT TO:<nobody@example.org> failed: 550 No such user here');
+    expect(messages).toEqual([]);
+  });
+
+  it('refuses an injected recipient before connecting', async () => {
+    const { port, commands, messages } = await start();
+    await expect(sendSmtpMail(smtpOptions(port), { ...MESSAGE, to: 'duty@example.org>\r\nRCPT TO:<attacker@example.org' })).rejects.toThrow(/control characters/);
+    await expect(sendSmtpMail(smtpOptions(port, { from: 'sentinel@example.org\r\nRSET' }), MESSAGE)).rejects.toThrow(/control characters/);
+    expect(commands).toEqual([]);
+    expect(messages).toEqual([]);
+  });
+
+  it('gives up on a server that does not answer', async () => {
+    const { port } = await start({ silent: true });
+    await expect(sendSmtpMail(smtpOptions(port, { timeoutMs: 200 }), MESSAGE)).rejects.toThrow('SMTP server did not respond within 200 ms');
+  });
+
+  it('reports a refused connection', async () => {
+    const { port } = await start();
+    await server!.close();
+    server = null;
+    await expect(sendSmtpMail(smtpOptions(port), MESSAGE)).rejects.toThrow(/ECONNREFUSED|closed unexpectedly/);
+  });
+});
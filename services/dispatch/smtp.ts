@@ -0,0 +1,200 @@
+import type { Socket } from 'node:net';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean; // implicit TLS (usually port 465)
+  username?: string;
+  password?: string;
+  from: string;
+  timeoutMs?: number;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+export const isNodeRuntime = (): boolean =>
+  typeof process !== 'undefined' && Boolean(process.versions?.node) && typeof window === 'undefined';
+
+// RFC 2047 encoded-word, so subjects can carry characters such as "°" or "→".
+const encodeHeader = (value: string): string =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+// Control characters could end an SMTP command or header line early and smuggle in another.
+const CONTROL_CHARACTERS = /[\x00-\x1f\x7f]/;
+const ADDRESS = /^[^\s<>()[\]@,;:\\"]+@[^\s<>()[\]@,;:\\"]+$/;
+
+export interface Mailbox {
+  /** The bare address, for the SMTP envelope. */
+  address: string;
+  /** The mailbox as written in a header, with any display name. */
+  header: string;
+}
+
+/**
+ * Reads a mailbox written as a bare address or as `Name <address>`.
+ * @throws If it holds a control character or isn't a single address.
+ */
+export const parseMailbox = (value: string): Mailbox => {
+  if (CONTROL_CHARACTERS.test(value)) {
+    throw new Error(`Invalid email address ${JSON.stringify(value)}: contains control characters`);
+  }
+  const named = /^(.*?)\s*<([^<>]*)>$/.exec(value.trim());
+  const address = (named ? named[2] : value).trim();
+  if (!ADDRESS.test(address)) {
+    throw new Error(`Invalid email address ${JSON.stringify(value)}`);
+  }
+  const name = named?.[1].trim();
+  return { address, header: name ? `${encodeHeader(name)} <${address}>` : address };
+};
+
+// Lines starting with "." must be doubled so they aren't read as the end of DATA.
+const dotStuff = (text: string): string => text.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+
+/**
+ * Builds the RFC 5322 message, as multipart/alternative when an HTML body is present.
+ * @throws If the sender or recipient isn't a valid mailbox.
+ */
+export const buildMimeMessage = (from: string, message: MailMessage, date: Date = new Date()): string => {
+  const headers = [
+    `From: ${parseMailbox(from).header}`,
+    `To: ${parseMailbox(message.to).header}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${date.getTime()}.${Math.random().toString(36).slice(2)}@tsunami-sentinel>`,
+    'MIME-Version: 1.0',
+  ];
+
+  if (!message.html) {
+    return [...headers, 'Content-Type: text/plain; charset=utf-8', 'Content-Transfer-Encoding: 8bit', '', message.text].join('\r\n');
+  }
+
+  const boundary = `sentinel-${date.getTime().toString(36)}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+    '',
+    message.text,
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit',
+    '',
+    message.html,
+    `--${boundary}--`,
+  ].join('\r\n');
+};
+
+const openSocket = async (options: SmtpOptions): Promise<Socket> => {
+  if (options.secure) {
+    const tls = await import('node:tls');
+    return tls.connect({ host: options.host, port: options.port, servername: options.host });
+  }
+  const net = await import('node:net');
+  return net.connect({ host: options.host, port: options.port });
+};
+
+/**
+ * Reads complete (possibly multi-line) SMTP replies from a socket, one per call.
+ * Any socket error or the timeout rejects the pending and all future reads.
+ */
+const createReplyReader = (socket: Socket, timeoutMs: number) => {
+  let buffer = '';
+  let lines: string[] = [];
+  let failure: Error | null = null;
+  const replies: SmtpReply[] = [];
+  const waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }[] = [];
+
+  const fail = (error: Error) => {
+    failure = error;
+    waiting.splice(0).forEach(waiter => waiter.reject(error));
+  };
+
+  socket.setTimeout(timeoutMs, () => {
+    fail(new Error(`SMTP server did not respond within ${timeoutMs} ms`));
+    socket.destroy();
+  });
+  socket.on('error', fail);
+  socket.on('close', () => fail(new Error('SMTP connection closed unexpectedly')));
+  socket.on('data', (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    let newline: number;
+    while ((newline = buffer.indexOf('\r\n')) >= 0) {
+      const line = buffer.slice(0, newline);
+      buffer = buffer.slice(newline + 2);
+      lines.push(line);
+      // "250-..." continues a reply, "250 ..." ends it.
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const reply = { code: parseInt(line.slice(0, 3), 10), text: lines.map(l => l.slice(4)).join('\n') };
+        lines = [];
+        const waiter = waiting.shift();
+        if (waiter) waiter.resolve(reply);
+        else replies.push(reply);
+      }
+    }
+  });
+
+  return (): Promise<SmtpReply> => {
+    const queued = replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (failure) return Promise.reject(failure);
+    return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+  };
+};
+
+/**
+ * Sends one message over SMTP. Supports implicit TLS and AUTH PLAIN; STARTTLS is not negotiated.
+ * Only available under Node: browsers cannot open raw TCP connections.
+ * @throws If either address is invalid, or the server rejects any step of the transaction.
+ */
+export const sendSmtpMail = async (options: SmtpOptions, message: MailMessage): Promise<void> => {
+  if (!isNodeRuntime()) {
+    throw new Error('SMTP delivery requires a Node runtime; use a webhook transport from the browser');
+  }
+  const from = parseMailbox(options.from);
+  const to = parseMailbox(message.to);
+
+  const socket = await openSocket(options);
+  const readReply = createReplyReader(socket, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+  const expect = async (expected: number, command?: string): Promise<SmtpReply> => {
+    if (command !== undefined) socket.write(`${command}\r\n`);
+    const reply = await readReply();
+    if (reply.code !== expected) {
+      // Don't echo credentials or the whole message body into the error.
+      const label = command === undefined ? 'greeting' : command.startsWith('AUTH') ? 'AUTH' : command.includes('\r\n') ? 'message' : command;
+      throw new Error(`SMTP ${label} failed: ${reply.code} ${reply.text}`);
+    }
+    return reply;
+  };
+
+  try {
+    await expect(220);
+    await expect(250, 'EHLO tsunami-sentinel');
+    if (options.username) {
+      const credentials = Buffer.from(`\0${options.username}\0${options.password ?? ''}`, 'utf8').toString('base64');
+      await expect(235, `AUTH PLAIN ${credentials}`);
+    }
+    await expect(250, `MAIL FROM:<${from.address}>`);
+    await expect(250, `RCPT TO:<${to.address}>`);
+    await expect(354, 'DATA');
+    await expect(250, `${dotStuff(buildMimeMessage(options.from, message))}\r\n.`);
+    socket.write('QUIT\r\n');
+  } finally {
+    socket.end();
+  }
+};
@@ -0,0 +1,55 @@
+import { TransportConfig } from '../../types';
+import { sendSmtpMail, isNodeRuntime, MailMessage } from './smtp';
+
+export type { MailMessage } from './smtp';
+
+/** Delivers a single message to a single recipient. Implementations throw on failure. */
+export interface Transport {
+  type: TransportConfig['type'];
+  send: (message: MailMessage) => Promise<void>;
+}
+
+const createSmtpTransport = (config: Extract<TransportConfig, { type: 'smtp' }>): Transport => ({
+  type: 'smtp',
+  send: message => sendSmtpMail(config, message),
+});
+
+const createWebhookTransport = (config: Extract<TransportConfig, { type: 'webhook' }>): Transport => ({
+  type: 'webhook',
+  send: async message => {
+    const response = await fetch(config.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...config.headers },
+      body: JSON.stringify(message),
+    });
+    if (!response.ok) {
+      throw new Error(`Webhook responded ${response.status} ${response.statusText}`);
+    }
+  },
+});
+
+const createSinkTransport = (config: Extract<TransportConfig, { type: 'sink' }>): Transport => ({
+  type: 'sink',
+  send: async message => {
+    if (config.path && isNodeRuntime()) {
+      const { appendFile } = await import('node:fs/promises');
+      await appendFile(config.path, `${JSON.stringify({ ...message, sentAt: new Date().toISOString() })}\n`, 'utf8');
+      return;
+    }
+    console.info(`[sentinel] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+  },
+});
+
+/** Creates the transport described by a TransportConfig. */
+export const createTransport = (config: TransportConfig): Transport => {
+  switch (config.type) {
+    case 'smtp':
+      return createSmtpTransport(config);
+    case 'webhook':
+      return createWebhookTransport(config);
+    case 'sink':
+      return createSinkTransport(config);
+    default:
+      throw new Error(`Unknown transport type "${(config as TransportConfig).type}"`);
+  }
+};
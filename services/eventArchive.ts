@@ -0,0 +1,244 @@
+import { EarthquakeEvent } from '../types';
+import { isInShape } from './watchZones';
+
+// A local IndexedDB archive of every event version the dashboard has seen, so history survives
+// beyond the feeds' 30-day window and across sessions.
+//
+// Two stores: `events` holds the latest version of each event, indexed by origin time, magnitude,
+// alert level and region for queries; `versions` keeps every distinct version for the audit trail.
+// Events are stored as structured clones, so their Date fields come back as Dates.
+
+export const ARCHIVE_DB_NAME = 'tsunami-sentinel-archive';
+const ARCHIVE_DB_VERSION = 1;
+const EVENTS_STORE = 'events';
+const VERSIONS_STORE = 'versions';
+
+/** Size, in degrees, of the grid cells used as the region index. */
+export const REGION_CELL_DEG = 10;
+// Boxes covering more cells than this are cheaper to answer with a full scan.
+const MAX_REGION_CELLS_PER_QUERY = 36;
+
+export interface BoundingBox {
+  north: number;
+  south: number;
+  east: number;
+  west: number; // west > east crosses the antimeridian
+}
+
+export interface ArchiveQuery {
+  from?: Date; // origin time, inclusive
+  to?: Date;
+  bbox?: BoundingBox;
+  minMagnitude?: number;
+  maxMagnitude?: number;
+  alertLevels?: EarthquakeEvent['alertLevel'][];
+  limit?: number;
+}
+
+export interface ArchivedVersion {
+  event: EarthquakeEvent;
+  archivedAt: Date;
+}
+
+export interface EventArchive {
+  /**
+   * Stores the events, recording a new version of each one whose content changed since it was last
+   * archived. Re-archiving an unchanged event is a no-op.
+   * @returns The number of new versions recorded.
+   */
+  archive: (events: EarthquakeEvent[]) => Promise<number>;
+  /** The latest version of each matching event, most recent origin time first. */
+  query: (query: ArchiveQuery) => Promise<EarthquakeEvent[]>;
+  /** Every archived version of an event, oldest first. Ids of merged source reports also match. */
+  history: (eventId: string) => Promise<ArchivedVersion[]>;
+  count: () => Promise<number>;
+  clear: () => Promise<void>;
+  close: () => void;
+}
+
+interface EventRecord {
+  id: string;
+  time: number;
+  magnitude: number;
+  alertLevel: EarthquakeEvent['alertLevel'];
+  region: string;
+  signature: string;
+  event: EarthquakeEvent;
+}
+
+interface VersionRecord {
+  seq?: number;
+  eventIds: string[]; // the event's id and the ids of its source reports
+  archivedAt: number;
+  event: EarthquakeEvent;
+}
+
+export const regionKey = (lat: number, lon: number): string => {
+  const row = Math.floor(Math.min(89.999, lat) / REGION_CELL_DEG);
+  const col = Math.floor((((lon + 180) % 360) + 360) % 360 / REGION_CELL_DEG);
+  return `${row}:${col}`;
+};
+
+/** The region cells a bounding box overlaps, or null if there are too many to be worth using. */
+const regionKeysFor = (bbox: BoundingBox): string[] | null => {
+  const rows: number[] = [];
+  for (let row = Math.floor(bbox.south / REGION_CELL_DEG); row <= Math.floor(Math.min(89.999, bbox.north) / REGION_CELL_DEG); row++) rows.push(row);
+  const columnCount = 360 / REGION_CELL_DEG;
+  const span = bbox.west <= bbox.east ? bbox.east - bbox.west : bbox.east - bbox.west + 360;
+  const first = Math.floor((bbox.west + 180) / REGION_CELL_DEG);
+  const last = Math.min(first + columnCount - 1, Math.floor((bbox.west + span + 180) / REGION_CELL_DEG));
+  const cols: number[] = [];
+  for (let col = first; col <= last; col++) cols.push(((col % columnCount) + columnCount) % columnCount);
+  if (rows.length * cols.length > MAX_REGION_CELLS_PER_QUERY) return null;
+  return rows.flatMap(row => cols.map(col => `${row}:${col}`));
+};
+
+// What makes a new version: a revision upstream, or a change from merging, scoring or bulletins.
+const versionSignature = (event: EarthquakeEvent): string => JSON.stringify([
+  event.updated.getTime(),
+  event.magnitude,
+  event.depth,
+  event.lat,
+  event.lon,
+  event.alertLevel,
+  event.isTsunamiWarning,
+  event.reports?.length ?? 0,
+  event.bulletins?.length ?? 0,
+]);
+
+const matchesQuery = (event: EarthquakeEvent, query: ArchiveQuery): boolean => {
+  const time = event.time.getTime();
+  return (!query.from || time >= query.from.getTime())
+    && (!query.to || time <= query.to.getTime())
+    && (query.minMagnitude === undefined || event.magnitude >= query.minMagnitude)
+    && (query.maxMagnitude === undefined || event.magnitude <= query.maxMagnitude)
+    && (!query.alertLevels || query.alertLevels.includes(event.alertLevel))
+    && (!query.bbox || isInShape({ lat: event.lat, lon: event.lon }, { type: 'bbox', ...query.bbox }));
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Archive transaction aborted'));
+  });
+
+const openDatabase = (name: string): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this environment'));
+  }
+  const request = indexedDB.open(name, ARCHIVE_DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    const events = db.createObjectStore(EVENTS_STORE, { keyPath: 'id' });
+    events.createIndex('time', 'time');
+    events.createIndex('magnitude', 'magnitude');
+    events.createIndex('alertLevel', 'alertLevel');
+    events.createIndex('region', 'region');
+    const versions = db.createObjectStore(VERSIONS_STORE, { keyPath: 'seq', autoIncrement: true });
+    versions.createIndex('eventIds', 'eventIds', { multiEntry: true });
+  };
+  return requestResult(request);
+};
+
+/**
+ * Opens (creating if needed) the event archive.
+ * @param name The database name; tests and simulations can use their own.
+ */
+export const openEventArchive = async (name = ARCHIVE_DB_NAME): Promise<EventArchive> => {
+  const db = await openDatabase(name);
+
+  const archive = async (events: EarthquakeEvent[]): Promise<number> => {
+    if (events.length === 0) return 0;
+    const transaction = db.transaction([EVENTS_STORE, VERSIONS_STORE], 'readwrite');
+    const eventStore = transaction.objectStore(EVENTS_STORE);
+    const versionStore = transaction.objectStore(VERSIONS_STORE);
+    const done = transactionDone(transaction);
+    const archivedAt = Date.now();
+    let added = 0;
+
+    const writes = Promise.all(events.map(async event => {
+      const signature = versionSignature(event);
+      const existing = await requestResult<EventRecord | undefined>(eventStore.get(event.id));
+      if (existing?.signature === signature) return;
+
+      const reportIds = (event.reports ?? []).map(report => report.id).filter(id => id !== event.id);
+      // Association can change which source's id an event carries; drop the copy under the old id.
+      reportIds.forEach(id => eventStore.delete(id));
+      eventStore.put({
+        id: event.id,
+        time: event.time.getTime(),
+        magnitude: event.magnitude,
+        alertLevel: event.alertLevel,
+        region: regionKey(event.lat, event.lon),
+        signature,
+        event,
+      } satisfies EventRecord);
+      versionStore.add({ eventIds: [event.id, ...reportIds], archivedAt, event } satisfies VersionRecord);
+      added++;
+    }));
+
+    await Promise.all([writes, done]);
+    return added;
+  };
+
+  const query = async (query: ArchiveQuery): Promise<EarthquakeEvent[]> => {
+    const transaction = db.transaction(EVENTS_STORE, 'readonly');
+    const store = transaction.objectStore(EVENTS_STORE);
+    const limit = query.limit ?? Infinity;
+    let records: EventRecord[];
+
+    // Narrow with the most selective index available, then filter on the remaining criteria.
+    const regions = query.bbox ? regionKeysFor(query.bbox) : null;
+    if (query.from || query.to) {
+      const range = query.from && query.to ? IDBKeyRange.bound(query.from.getTime(), query.to.getTime())
+        : query.from ? IDBKeyRange.lowerBound(query.from.getTime())
+        : IDBKeyRange.upperBound(query.to!.getTime());
+      records = await requestResult<EventRecord[]>(store.index('time').getAll(range));
+    } else if (regions) {
+      records = (await Promise.all(regions.map(region => requestResult<EventRecord[]>(store.index('region').getAll(region))))).flat();
+    } else if (query.minMagnitude !== undefined || query.maxMagnitude !== undefined) {
+      const range = query.minMagnitude !== undefined && query.maxMagnitude !== undefined ? IDBKeyRange.bound(query.minMagnitude, query.maxMagnitude)
+        : query.minMagnitude !== undefined ? IDBKeyRange.lowerBound(query.minMagnitude)
+        : IDBKeyRange.upperBound(query.maxMagnitude!);
+      records = await requestResult<EventRecord[]>(store.index('magnitude').getAll(range));
+    } else if (query.alertLevels) {
+      records = (await Promise.all(query.alertLevels.map(level => requestResult<EventRecord[]>(store.index('alertLevel').getAll(level))))).flat();
+    } else {
+      records = await requestResult<EventRecord[]>(store.getAll());
+    }
+
+    return records
+      .map(record => record.event)
+      .filter(event => matchesQuery(event, query))
+      .sort((a, b) => b.time.getTime() - a.time.getTime())
+      .slice(0, limit);
+  };
+
+  const history = async (eventId: string): Promise<ArchivedVersion[]> => {
+    const transaction = db.transaction(VERSIONS_STORE, 'readonly');
+    const records = await requestResult<VersionRecord[]>(transaction.objectStore(VERSIONS_STORE).index('eventIds').getAll(eventId));
+    return records
+      .sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0))
+      .map(record => ({ event: record.event, archivedAt: new Date(record.archivedAt) }));
+  };
+
+  const count = async (): Promise<number> =>
+    requestResult(db.transaction(EVENTS_STORE, 'readonly').objectStore(EVENTS_STORE).count());
+
+  const clear = async (): Promise<void> => {
+    const transaction = db.transaction([EVENTS_STORE, VERSIONS_STORE], 'readwrite');
+    const done = transactionDone(transaction);
+    transaction.objectStore(EVENTS_STORE).clear();
+    transaction.objectStore(VERSIONS_STORE).clear();
+    await done;
+  };
+
+  return { archive, query, history, count, clear, close: () => db.close() };
+};
@@ -0,0 +1,91 @@
+import { EarthquakeEvent, FeedSourceConfig, SourceReport } from '../types';
+import { LEVEL_RANK } from './alertLifecycle';
+import { haversineKm } from './geo';
+
+export interface AssociationOptions {
+  /** Maximum difference between origin times for two reports to be the same earthquake. */
+  timeWindowSeconds: number;
+  /** Maximum epicentral distance for two reports to be the same earthquake. */
+  distanceKm: number;
+  /** Maximum magnitude difference; guards against merging a small aftershock into its mainshock. */
+  magnitudeTolerance: number;
+}
+
+export const DEFAULT_ASSOCIATION_OPTIONS: AssociationOptions = {
+  timeWindowSeconds: 60,
+  distanceKm: 150,
+  magnitudeTolerance: 1.0,
+};
+
+const toReport = (event: EarthquakeEvent): SourceReport => ({
+  source: event.source,
+  id: event.id,
+  time: event.time,
+  magnitude: event.magnitude,
+  depth: event.depth,
+  lat: event.lat,
+  lon: event.lon,
+});
+
+const isSameEarthquake = (a: EarthquakeEvent, b: EarthquakeEvent, options: AssociationOptions): boolean =>
+  Math.abs(a.time.getTime() - b.time.getTime()) <= options.timeWindowSeconds * 1000 &&
+  Math.abs(a.magnitude - b.magnitude) <= options.magnitudeTolerance &&
+  haversineKm(a.lat, a.lon, b.lat, b.lon) <= options.distanceKm;
+
+/**
+ * Merges reports of the same earthquake from different sources into a single event.
+ *
+ * Reports are grouped when their origin times, epicentres and magnitudes fall within the
+ * configured windows. Each group takes its magnitude, location and identity from the report of
+ * the highest-priority source, while tsunami flags and alert levels are escalated to the most
+ * severe value any source reported.
+ *
+ * @param events Normalized events from every feed, possibly containing duplicates.
+ * @param sources The feed configuration, used to look up each source's priority.
+ * @param options Matching windows.
+ * @returns One event per distinct earthquake, each with its contributing `reports`.
+ */
+export const associateEvents = (
+  events: EarthquakeEvent[],
+  sources: FeedSourceConfig[],
+  options: AssociationOptions = DEFAULT_ASSOCIATION_OPTIONS,
+): EarthquakeEvent[] => {
+  const priorityOf = (sourceId: string) => sources.find(source => source.id === sourceId)?.priority ?? 0;
+
+  // Visiting preferred reports first makes each group's first member its preferred report.
+  const ordered = [...events].sort(
+    (a, b) => priorityOf(b.source) - priorityOf(a.source) || b.updated.getTime() - a.updated.getTime(),
+  );
+  const groups: EarthquakeEvent[][] = [];
+
+  ordered.forEach(event => {
+    const group = groups.find(
+      candidate => !candidate.some(member => member.source === event.source) && isSameEarthquake(candidate[0], event, options),
+    );
+    if (group) {
+      group.push(event);
+    } else {
+      groups.push([event]);
+    }
+  });
+
+  return groups.map(([preferred, ...others]) => {
+    if (others.length === 0) {
+      return { ...preferred, reports: [toReport(preferred)] };
+    }
+
+    const members = [preferred, ...others];
+    const alertLevel = members.reduce<EarthquakeEvent['alertLevel']>(
+      (level, member) => (LEVEL_RANK.indexOf(member.alertLevel) > LEVEL_RANK.indexOf(level) ? member.alertLevel : level),
+      preferred.alertLevel,
+    );
+
+    return {
+      ...preferred,
+      updated: new Date(Math.max(...members.map(member => member.updated.getTime()))),
+      isTsunamiWarning: members.some(member => member.isTsunamiWarning),
+      alertLevel,
+      reports: members.map(toReport),
+    };
+  });
+};
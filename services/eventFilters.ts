@@ -0,0 +1,143 @@
+import { EarthquakeEvent, LatLon } from '../types';
+import { haversineKm } from './geo';
+
+export type EventSortKey = 'time' | 'magnitude' | 'depth' | 'distance';
+
+export interface EventFilters {
+  minMagnitude: number;
+  maxMagnitude: number;
+  minDepth: number; // km
+  maxDepth: number;
+  windowHours: number | null; // origin time within this many hours; null for any time
+  search: string; // matched against place names, titles and ids
+  alertLevels: EarthquakeEvent['alertLevel'][]; // empty for any level
+  tsunamiOnly: boolean;
+  sort: EventSortKey;
+  distanceFrom: LatLon | null; // reference point for sorting by distance
+}
+
+export const MAX_FILTER_DEPTH_KM = 700;
+export const MAX_FILTER_MAGNITUDE = 10;
+
+export const DEFAULT_EVENT_FILTERS: EventFilters = {
+  minMagnitude: 6,
+  maxMagnitude: MAX_FILTER_MAGNITUDE,
+  minDepth: 0,
+  maxDepth: MAX_FILTER_DEPTH_KM,
+  windowHours: null,
+  search: '',
+  alertLevels: [],
+  tsunamiOnly: false,
+  sort: 'time',
+  distanceFrom: null,
+};
+
+const ALERT_LEVELS: EarthquakeEvent['alertLevel'][] = ['none', 'info', 'advisory', 'watch', 'warning'];
+const SORT_KEYS: EventSortKey[] = ['time', 'magnitude', 'depth', 'distance'];
+
+/** Distance from the filters' reference point, or null when none is set. */
+export const distanceFromReference = (event: EarthquakeEvent, filters: EventFilters): number | null =>
+  filters.distanceFrom ? haversineKm(filters.distanceFrom.lat, filters.distanceFrom.lon, event.lat, event.lon) : null;
+
+const matchesFilters = (event: EarthquakeEvent, filters: EventFilters, now: Date): boolean => {
+  const search = filters.search.trim().toLowerCase();
+  // The slider ends are open-ended, so e.g. events deeper than 700 km still pass at the maximum.
+  return event.magnitude >= filters.minMagnitude
+    && (filters.maxMagnitude >= MAX_FILTER_MAGNITUDE || event.magnitude <= filters.maxMagnitude)
+    && event.depth >= filters.minDepth
+    && (filters.maxDepth >= MAX_FILTER_DEPTH_KM || event.depth <= filters.maxDepth)
+    && (filters.windowHours === null || now.getTime() - event.time.getTime() <= filters.windowHours * 60 * 60 * 1000)
+    && (filters.alertLevels.length === 0 || filters.alertLevels.includes(event.alertLevel))
+    && (!filters.tsunamiOnly || event.isTsunamiWarning)
+    && (search === '' || [event.location, event.title, event.id].some(text => text.toLowerCase().includes(search)));
+};
+
+/**
+ * Filters and sorts events. Time sorts newest first, magnitude strongest first, and depth and
+ * distance nearest first; distance falls back to time when no reference point is set.
+ */
+export const applyEventFilters = (events: EarthquakeEvent[], filters: EventFilters, now = new Date()): EarthquakeEvent[] => {
+  const filtered = events.filter(event => matchesFilters(event, filters, now));
+  const byTime = (a: EarthquakeEvent, b: EarthquakeEvent) => b.time.getTime() - a.time.getTime();
+  switch (filters.sort) {
+    case 'magnitude':
+      return filtered.sort((a, b) => b.magnitude - a.magnitude || byTime(a, b));
+    case 'depth':
+      return filtered.sort((a, b) => a.depth - b.depth || byTime(a, b));
+    case 'distance':
+      return filters.distanceFrom
+        ? filtered.sort((a, b) => distanceFromReference(a, filters)! - distanceFromReference(b, filters)!)
+        : filtered.sort(byTime);
+    default:
+      return filtered.sort(byTime);
+  }
+};
+
+/** Whether any filter differs from the defaults (sorting doesn't count). */
+export const isFiltered = (filters: EventFilters): boolean =>
+  (Object.keys(DEFAULT_EVENT_FILTERS) as (keyof EventFilters)[])
+    .filter(key => key !== 'sort' && key !== 'distanceFrom')
+    .some(key => JSON.stringify(filters[key]) !== JSON.stringify(DEFAULT_EVENT_FILTERS[key]));
+
+/** A short summary such as "M6.0+ · ≤70 km · past 24 h", for headings. */
+export const describeFilters = (filters: EventFilters): string => {
+  const parts = [
+    filters.maxMagnitude < MAX_FILTER_MAGNITUDE ? `M${filters.minMagnitude.toFixed(1)}–${filters.maxMagnitude.toFixed(1)}` : `M${filters.minMagnitude.toFixed(1)}+`,
+  ];
+  if (filters.minDepth > 0 || filters.maxDepth < MAX_FILTER_DEPTH_KM) {
+    parts.push(filters.minDepth > 0 ? `${filters.minDepth}–${filters.maxDepth < MAX_FILTER_DEPTH_KM ? filters.maxDepth : `${MAX_FILTER_DEPTH_KM}+`} km` : `≤${filters.maxDepth} km`);
+  }
+  if (filters.windowHours !== null) parts.push(filters.windowHours > 24 && filters.windowHours % 24 === 0 ? `past ${filters.windowHours / 24} d` : `past ${filters.windowHours} h`);
+  if (filters.alertLevels.length > 0) parts.push(filters.alertLevels.join('/'));
+  if (filters.tsunamiOnly) parts.push('tsunami flag');
+  if (filters.search.trim()) parts.push(`"${filters.search.trim()}"`);
+  return parts.join(' · ');
+};
+
+/**
+ * Encodes the filters as URL query parameters, leaving out those at their defaults so shared
+ * links stay short.
+ */
+export const filtersToSearchParams = (filters: EventFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  const d = DEFAULT_EVENT_FILTERS;
+  if (filters.minMagnitude !== d.minMagnitude) params.set('minmag', String(filters.minMagnitude));
+  if (filters.maxMagnitude !== d.maxMagnitude) params.set('maxmag', String(filters.maxMagnitude));
+  if (filters.minDepth !== d.minDepth) params.set('mindepth', String(filters.minDepth));
+  if (filters.maxDepth !== d.maxDepth) params.set('maxdepth', String(filters.maxDepth));
+  if (filters.windowHours !== null) params.set('window', String(filters.windowHours));
+  if (filters.search.trim()) params.set('q', filters.search.trim());
+  if (filters.alertLevels.length > 0) params.set('levels', filters.alertLevels.join(','));
+  if (filters.tsunamiOnly) params.set('tsunami', '1');
+  if (filters.sort !== d.sort) params.set('sort', filters.sort);
+  if (filters.distanceFrom) params.set('from', `${filters.distanceFrom.lat.toFixed(3)},${filters.distanceFrom.lon.toFixed(3)}`);
+  return params;
+};
+
+/** The inverse of filtersToSearchParams. Unknown or malformed values fall back to the defaults. */
+export const filtersFromSearchParams = (params: URLSearchParams): EventFilters => {
+  const number = (key: string, fallback: number): number => {
+    const value = parseFloat(params.get(key) ?? '');
+    return Number.isFinite(value) ? value : fallback;
+  };
+  const d = DEFAULT_EVENT_FILTERS;
+  const window = number('window', NaN);
+  const sort = params.get('sort') as EventSortKey | null;
+  const [lat, lon] = (params.get('from') ?? '').split(',').map(parseFloat);
+
+  return {
+    minMagnitude: number('minmag', d.minMagnitude),
+    maxMagnitude: number('maxmag', d.maxMagnitude),
+    minDepth: number('mindepth', d.minDepth),
+    maxDepth: number('maxdepth', d.maxDepth),
+    windowHours: Number.isFinite(window) && window > 0 ? window : null,
+    search: params.get('q') ?? '',
+    alertLevels: (params.get('levels') ?? '').split(',').filter((level): level is EarthquakeEvent['alertLevel'] => ALERT_LEVELS.includes(level as EarthquakeEvent['alertLevel'])),
+    tsunamiOnly: params.get('tsunami') === '1',
+    sort: sort && SORT_KEYS.includes(sort) ? sort : d.sort,
+    distanceFrom: Math.abs(lat) <= 90 && Math.abs(lon) <= 180 ? { lat, lon } : null,
+  };
+};
+
+/** The filter keys used in URLs, so callers can preserve unrelated query parameters. */
+export const FILTER_SEARCH_PARAMS = ['minmag', 'maxmag', 'mindepth', 'maxdepth', 'window', 'q', 'levels', 'tsunami', 'sort', 'from'];
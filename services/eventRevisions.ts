@@ -0,0 +1,61 @@
+import { EarthquakeEvent, EventRevision } from '../types';
+import { haversineKm } from './geo';
+
+// Feeds only ever report an event's current solution. Comparing each poll with the previous one
+// recovers how the magnitude and location were revised, e.g. an automatic M6.8 that review
+// raised to M7.1.
+
+/** Epicentre moves smaller than this are relocation noise, not revisions. */
+export const REVISION_DISTANCE_KM = 5;
+
+/** Depth changes smaller than this are not revisions. */
+export const REVISION_DEPTH_KM = 5;
+
+/** Oldest revisions are dropped beyond this many, so a long-lived event can't grow without bound. */
+export const MAX_REVISIONS = 20;
+
+const toRevision = (event: EarthquakeEvent): EventRevision => ({
+  updated: event.updated,
+  magnitude: event.magnitude,
+  magType: event.magType,
+  depth: event.depth,
+  lat: event.lat,
+  lon: event.lon,
+  location: event.location,
+  reviewStatus: event.reviewStatus,
+});
+
+/** Whether the magnitude (to the displayed precision), magnitude type or location changed. */
+export const isRevised = (before: EventRevision, after: EventRevision): boolean =>
+  before.magnitude.toFixed(1) !== after.magnitude.toFixed(1)
+  || (before.magType !== undefined && after.magType !== undefined && before.magType.toLowerCase() !== after.magType.toLowerCase())
+  || haversineKm(before.lat, before.lon, after.lat, after.lon) >= REVISION_DISTANCE_KM
+  || Math.abs(before.depth - after.depth) >= REVISION_DEPTH_KM;
+
+const idsOf = (event: EarthquakeEvent) => [event.id, ...(event.reports ?? []).map(report => report.id)];
+
+/**
+ * Carries revision histories over from the previous poll and records the previous solution of
+ * every event revised since. Events are matched on any of their source report ids. A change of
+ * preferred source is not a revision: different agencies' solutions aren't versions of each other.
+ */
+export const trackRevisions = (previous: EarthquakeEvent[], next: EarthquakeEvent[]): EarthquakeEvent[] => {
+  const byId = new Map<string, EarthquakeEvent>();
+  previous.forEach(event => idsOf(event).forEach(id => byId.set(id, event)));
+
+  return next.map(event => {
+    const before = idsOf(event).map(id => byId.get(id)).find(Boolean);
+    if (!before) return event;
+    const history = before.revisions ?? [];
+    const revisions = before.source === event.source && isRevised(toRevision(before), toRevision(event))
+      ? [...history, toRevision(before)].slice(-MAX_REVISIONS)
+      : history;
+    return revisions.length > 0 ? { ...event, revisions } : event;
+  });
+};
+
+/** The magnitude an event was first reported with, or null when its magnitude hasn't been revised. */
+export const firstReportedMagnitude = (event: EarthquakeEvent): number | null => {
+  const first = event.revisions?.[0];
+  return first && first.magnitude.toFixed(1) !== event.magnitude.toFixed(1) ? first.magnitude : null;
+};
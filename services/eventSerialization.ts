@@ -0,0 +1,24 @@
+import { EarthquakeEvent, TsunamiBulletin } from '../types';
+
+// Dates become ISO strings when events pass through JSON (localStorage, files, HTTP).
+// These helpers turn them back into Date objects.
+
+const reviveDate = (value: unknown): Date => new Date(value as string);
+const reviveOptionalDate = (value: unknown): Date | null => (value ? new Date(value as string) : null);
+
+const reviveBulletin = (raw: TsunamiBulletin): TsunamiBulletin => ({
+  ...raw,
+  issued: reviveDate(raw.issued),
+  expires: reviveOptionalDate(raw.expires),
+  eventTime: reviveOptionalDate(raw.eventTime),
+});
+
+/** Restores the Date fields of an EarthquakeEvent that was round-tripped through JSON. */
+export const reviveEarthquakeEvent = (raw: EarthquakeEvent): EarthquakeEvent => ({
+  ...raw,
+  time: reviveDate(raw.time ?? raw.updated),
+  updated: reviveDate(raw.updated),
+  reports: raw.reports?.map(report => ({ ...report, time: reviveDate(report.time) })),
+  bulletins: raw.bulletins?.map(reviveBulletin),
+  revisions: raw.revisions?.map(revision => ({ ...revision, updated: reviveDate(revision.updated) })),
+});
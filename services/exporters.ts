@@ -0,0 +1,203 @@
+import { EarthquakeEvent, GeneratedAlert } from '../types';
+import { escapeHtml } from './alertTemplate';
+import { markerColor } from './formatting';
+
+// Serializers for handing dashboard data to spreadsheets and GIS tools. Times are ISO 8601 UTC
+// throughout so the files sort and parse the same everywhere.
+
+export type ExportFormat = 'csv' | 'geojson' | 'kml';
+
+export const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  geojson: 'application/geo+json',
+  kml: 'application/vnd.google-earth.kml+xml',
+};
+
+type Row = (string | number | boolean | null | undefined)[];
+
+const csvCell = (value: Row[number]): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header: string[], rows: Row[]): string =>
+  [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+
+const EVENT_CSV_HEADER = ['id', 'origin_time', 'updated', 'review_status', 'magnitude', 'mag_type', 'depth_km', 'latitude', 'longitude', 'location', 'alert_level', 'alert_level_source', 'tsunami_flag', 'sources', 'link'];
+
+const eventRow = (event: EarthquakeEvent): Row => [
+  event.id,
+  event.time.toISOString(),
+  event.updated.toISOString(),
+  event.reviewStatus,
+  event.magnitude,
+  event.magType,
+  event.depth,
+  event.lat,
+  event.lon,
+  event.location,
+  event.alertLevel,
+  event.alertLevelSource ?? 'inferred',
+  event.isTsunamiWarning,
+  (event.reports?.map(report => report.source) ?? [event.source]).join(' '),
+  event.link,
+];
+
+const deliverySummary = (alert: GeneratedAlert): string =>
+  (alert.deliveries ?? []).map(d => `${d.channel}:${d.recipient}=${d.status}`).join('; ');
+
+export const eventsToCsv = (events: EarthquakeEvent[]): string => toCsv(EVENT_CSV_HEADER, events.map(eventRow));
+
+export const alertsToCsv = (alerts: GeneratedAlert[]): string =>
+  toCsv(
+    ['alert_id', 'created', 'kind', 'event_id', 'magnitude', 'location', 'zone', 'subject', 'changes', 'recipients', 'deliveries', 'acknowledged_by', 'acknowledged_at'],
+    alerts.map(alert => [
+      alert.id,
+      alert.timestamp,
+      alert.kind ?? 'initial',
+      alert.event.id,
+      alert.event.magnitude,
+      alert.event.location,
+      alert.zoneName,
+      alert.subject,
+      alert.changes?.join('; '),
+      alert.recipients?.join(' '),
+      deliverySummary(alert),
+      alert.acknowledgedBy,
+      alert.acknowledgedAt,
+    ]),
+  );
+
+const eventProperties = (event: EarthquakeEvent) => ({
+  id: event.id,
+  title: event.title,
+  time: event.time.toISOString(),
+  updated: event.updated.toISOString(),
+  status: event.reviewStatus,
+  mag: event.magnitude,
+  magType: event.magType,
+  place: event.location,
+  alertLevel: event.alertLevel,
+  alertLevelSource: event.alertLevelSource ?? 'inferred',
+  tsunami: event.isTsunamiWarning ? 1 : 0,
+  sources: event.reports?.map(report => report.source) ?? [event.source],
+  url: event.link,
+});
+
+// Coordinates follow the USGS feeds: [longitude, latitude, depth in km].
+const point = (event: EarthquakeEvent) => ({ type: 'Point', coordinates: [event.lon, event.lat, event.depth] });
+
+export const eventsToGeoJson = (events: EarthquakeEvent[]): string =>
+  JSON.stringify({
+    type: 'FeatureCollection',
+    features: events.map(event => ({ type: 'Feature', id: event.id, geometry: point(event), properties: eventProperties(event) })),
+  }, null, 2);
+
+export const alertsToGeoJson = (alerts: GeneratedAlert[]): string =>
+  JSON.stringify({
+    type: 'FeatureCollection',
+    features: alerts.map(alert => ({
+      type: 'Feature',
+      id: alert.id,
+      geometry: point(alert.event),
+      properties: {
+        alertId: alert.id,
+        created: alert.timestamp,
+        kind: alert.kind ?? 'initial',
+        zone: alert.zoneName ?? null,
+        subject: alert.subject ?? null,
+        changes: alert.changes ?? [],
+        recipients: alert.recipients ?? [],
+        deliveries: (alert.deliveries ?? []).map(({ recipient, channel, status, attempts, updatedAt }) => ({ recipient, channel, status, attempts, updatedAt })),
+        acknowledgedBy: alert.acknowledgedBy ?? null,
+        acknowledgedAt: alert.acknowledgedAt ?? null,
+        event: eventProperties(alert.event),
+      },
+    })),
+  }, null, 2);
+
+// KML colours are aabbggrr.
+const kmlColor = (hex: string): string => `ff${hex.slice(5, 7)}${hex.slice(3, 5)}${hex.slice(1, 3)}`.toLowerCase();
+
+const KML_STYLES = [7.5, 6.5, 0].map(magnitude => {
+  const id = `mag-${magnitude}`;
+  return {
+    id,
+    minMagnitude: magnitude,
+    xml: `<Style id="${id}"><IconStyle><color>${kmlColor(markerColor(magnitude))}</color><Icon><href>https://maps.google.com/mapfiles/kml/shapes/placemark_circle.png</href></Icon></IconStyle></Style>`,
+  };
+});
+
+const kmlPlacemark = (event: EarthquakeEvent, name: string, details: [string, string][], id: string): string => {
+  const style = KML_STYLES.find(s => event.magnitude >= s.minMagnitude)!;
+  const description = details.map(([label, value]) => `<b>${escapeHtml(label)}:</b> ${escapeHtml(value)}`).join('<br/>');
+  return [
+    `  <Placemark id="${escapeHtml(id)}">`,
+    `    <name>${escapeHtml(name)}</name>`,
+    `    <description><![CDATA[${description}]]></description>`,
+    `    <TimeStamp><when>${event.time.toISOString()}</when></TimeStamp>`,
+    `    <styleUrl>#${style.id}</styleUrl>`,
+    `    <Point><coordinates>${event.lon},${event.lat},0</coordinates></Point>`,
+    '  </Placemark>',
+  ].join('\n');
+};
+
+const kmlDocument = (name: string, placemarks: string[]): string => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<kml xmlns="http://www.opengis.net/kml/2.2">',
+  '<Document>',
+  `  <name>${escapeHtml(name)}</name>`,
+  ...KML_STYLES.map(style => `  ${style.xml}`),
+  ...placemarks,
+  '</Document>',
+  '</kml>',
+  '',
+].join('\n');
+
+const eventDetails = (event: EarthquakeEvent): [string, string][] => [
+  ['Origin time', event.time.toISOString()],
+  ['Depth', `${event.depth.toFixed(1)} km`],
+  ['Alert level', event.alertLevel],
+  ['Tsunami flag', event.isTsunamiWarning ? 'yes' : 'no'],
+  ['Link', event.link],
+];
+
+export const eventsToKml = (events: EarthquakeEvent[]): string =>
+  kmlDocument('Tsunami Sentinel events', events.map(event => kmlPlacemark(event, `M${event.magnitude.toFixed(1)} ${event.location}`, eventDetails(event), event.id)));
+
+export const alertsToKml = (alerts: GeneratedAlert[]): string =>
+  kmlDocument('Tsunami Sentinel alert log', alerts.map(alert => kmlPlacemark(
+    alert.event,
+    alert.subject ?? `M${alert.event.magnitude.toFixed(1)} ${alert.event.location}`,
+    [
+      ['Alert created', alert.timestamp],
+      ['Kind', alert.kind ?? 'initial'],
+      ...(alert.zoneName ? [['Zone', alert.zoneName] as [string, string]] : []),
+      ['Deliveries', deliverySummary(alert) || 'none'],
+      ...eventDetails(alert.event),
+    ],
+    alert.id,
+  )));
+
+export const exportEvents = (events: EarthquakeEvent[], format: ExportFormat): string =>
+  format === 'csv' ? eventsToCsv(events) : format === 'geojson' ? eventsToGeoJson(events) : eventsToKml(events);
+
+export const exportAlerts = (alerts: GeneratedAlert[], format: ExportFormat): string =>
+  format === 'csv' ? alertsToCsv(alerts) : format === 'geojson' ? alertsToGeoJson(alerts) : alertsToKml(alerts);
+
+/** Saves text as a file through the browser's download mechanism. */
+export const downloadFile = (filename: string, content: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before the URL is released.
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/** A filename such as "tsunami-sentinel-events-2024-03-01T1405Z.csv". */
+export const exportFilename = (what: string, format: ExportFormat, at = new Date()): string =>
+  `tsunami-sentinel-${what}-${at.toISOString().slice(0, 16).replace(/:/g, '')}Z.${format}`;
@@ -0,0 +1,23 @@
+import { EarthquakeEvent, FeedSourceConfig, FeedSourceKind, TsunamiBulletin } from '../../types';
+import { assessThreat, ThreatInput } from '../threatScoring';
+
+/** The normalized output of a single feed fetch. */
+export interface FeedBatch {
+  events: EarthquakeEvent[];
+  bulletins?: TsunamiBulletin[];
+}
+
+/**
+ * Converts one feed's raw payload into our application's types.
+ * Adapters are pure: fetching is handled by the caller so they can be run against recorded payloads.
+ */
+export interface FeedAdapter {
+  kind: FeedSourceKind;
+  parse: (payload: string, source: FeedSourceConfig) => FeedBatch;
+}
+
+/**
+ * Derives a provisional alert level from the basic signals every feed provides, using the
+ * built-in threat rules. The fetch pipeline re-scores merged events with the user's rules.
+ */
+export const classifyAlertLevel = (input: ThreatInput): EarthquakeEvent['alertLevel'] => assessThreat(input).level;
@@ -0,0 +1,64 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { fdsnTextAdapter } from './fdsnText';
+import { fetchFeedSources } from '../tsunamiService';
+import { MockUsgsServer, feedSource, fixture, startMockUsgsServer } from '../../test/mockUsgsServer';
+
+const source = feedSource('emsc', 'http://localhost/fdsnws/event/1/query', { kind: 'fdsn-text' });
+
+describe('fdsnTextAdapter', () => {
+  const { events } = fdsnTextAdapter.parse(fixture('emsc-fdsn.txt'), source);
+
+  it('reads every well-formed line and skips the header, blanks and malformed lines', () => {
+    expect(events.map(event => event.id)).toEqual(['20240101_0000154', '20240101_0000201', '20240101_0000233']);
+  });
+
+  it('maps the columns of a line', () => {
+    expect(events[0]).toMatchObject({
+      title: 'M 7.5 - NEAR WEST COAST OF HONSHU, JAPAN',
+      location: 'NEAR WEST COAST OF HONSHU, JAPAN',
+      magnitude: 7.5,
+      magType: 'mw',
+      depth: 10,
+      lat: 37.5,
+      lon: 137.24,
+      isTsunamiWarning: false,
+      source: 'emsc',
+      link: source.url,
+    });
+    expect(events[0].time).toEqual(new Date('2024-01-01T07:10:09.500Z'));
+  });
+
+  it('reads times without a zone as UTC and keeps explicit offsets', () => {
+    expect(events[1].time).toEqual(new Date('2024-01-01T07:18:44.100Z'));
+    expect(events[2].time).toEqual(new Date('2023-12-31T23:02:11.000Z'));
+  });
+
+  it('falls back to coordinates for a missing location and to the surface for a missing depth', () => {
+    expect(events[2]).toMatchObject({ location: '36.92°, 137.01°', depth: 0 });
+  });
+
+  it('links events through the source\'s link template', () => {
+    const linked = fdsnTextAdapter.parse(fixture('emsc-fdsn.txt'), { ...source, eventLinkTemplate: 'https://example.org/event?id={id}' });
+    expect(linked.events[0].link).toBe('https://example.org/event?id=20240101_0000154');
+  });
+
+  it('returns no events for an empty response', () => {
+    expect(fdsnTextAdapter.parse('', source).events).toEqual([]);
+  });
+});
+
+describe('fdsnTextAdapter against a stand-in service', () => {
+  let server: MockUsgsServer;
+
+  beforeAll(async () => {
+    server = await startMockUsgsServer({ '/fdsnws/event/1/query': { body: fixture('emsc-fdsn.txt'), contentType: 'text/plain' } });
+  });
+
+  afterAll(() => server.close());
+
+  it('fetches and parses the recorded payload', async () => {
+    const [result] = await fetchFeedSources([feedSource('emsc', server.url('/fdsnws/event/1/query'), { kind: 'fdsn-text' })]);
+    expect(result.error).toBeNull();
+    expect(result.batch?.events).toHaveLength(3);
+  });
+});
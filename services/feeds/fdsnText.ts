@@ -0,0 +1,67 @@
+import { EarthquakeEvent } from '../../types';
+import { FeedAdapter, classifyAlertLevel } from './common';
+
+// Column order of the FDSN event web service `format=text` response:
+// EventID|Time|Latitude|Longitude|Depth/km|Author|Catalog|Contributor|ContributorID|MagType|Magnitude|MagAuthor|EventLocationName
+const COLUMN = {
+  id: 0,
+  time: 1,
+  lat: 2,
+  lon: 3,
+  depth: 4,
+  magType: 9,
+  magnitude: 10,
+  location: 12,
+};
+
+// FDSN times are UTC but are often written without a zone designator.
+const parseFdsnTime = (value: string): Date => new Date(/[zZ]|[+-]\d\d:?\d\d$/.test(value) ? value : `${value}Z`);
+
+/**
+ * Reads the plain-text output of any FDSN event service (EMSC, USGS, IRIS, ...).
+ * FDSN text carries no tsunami flag, so events are classified on magnitude, depth and location alone.
+ */
+export const fdsnTextAdapter: FeedAdapter = {
+  kind: 'fdsn-text',
+  parse: (payload, source) => {
+    const events: EarthquakeEvent[] = [];
+
+    for (const line of payload.split(/\r?\n/)) {
+      if (line.trim() === '' || line.startsWith('#')) continue;
+
+      const columns = line.split('|').map(column => column.trim());
+      const magnitude = parseFloat(columns[COLUMN.magnitude]);
+      const lat = parseFloat(columns[COLUMN.lat]);
+      const lon = parseFloat(columns[COLUMN.lon]);
+      const time = parseFdsnTime(columns[COLUMN.time] ?? '');
+      if ([magnitude, lat, lon].some(Number.isNaN) || Number.isNaN(time.getTime())) {
+        continue;
+      }
+
+      const id = columns[COLUMN.id];
+      const depth = parseFloat(columns[COLUMN.depth]) || 0;
+      const location = columns[COLUMN.location] || `${lat.toFixed(2)}°, ${lon.toFixed(2)}°`;
+      const title = `M ${magnitude.toFixed(1)} - ${location}`;
+
+      events.push({
+        id,
+        title,
+        time,
+        updated: time,
+        link: source.eventLinkTemplate ? source.eventLinkTemplate.replace('{id}', encodeURIComponent(id)) : source.url,
+        location,
+        magnitude,
+        magType: columns[COLUMN.magType] || undefined,
+        depth,
+        lat,
+        lon,
+        isTsunamiWarning: false,
+        rawSummary: line,
+        alertLevel: classifyAlertLevel({ magnitude, depth, lat, lon, isTsunamiWarning: false }),
+        source: source.id,
+      });
+    }
+
+    return { events };
+  },
+};
@@ -0,0 +1,83 @@
+import { FeedSourceConfig, FeedSourceKind } from '../../types';
+import { FeedAdapter } from './common';
+import { usgsGeoJsonAdapter } from './usgsGeoJson';
+import { fdsnTextAdapter } from './fdsnText';
+import { nwsAtomAdapter } from './nwsAtom';
+import { nwsCapAdapter } from './nwsCap';
+
+export type { FeedAdapter, FeedBatch } from './common';
+
+export const FEED_ADAPTERS: Record<FeedSourceKind, FeedAdapter> = {
+  'usgs-geojson': usgsGeoJsonAdapter,
+  'fdsn-text': fdsnTextAdapter,
+  'nws-atom': nwsAtomAdapter,
+  'nws-cap': nwsCapAdapter,
+};
+
+export const DEFAULT_FEED_SOURCES: FeedSourceConfig[] = [
+  {
+    id: 'usgs-4.5-month',
+    name: 'USGS M4.5+ (past 30 days)',
+    kind: 'usgs-geojson',
+    url: 'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/4.5_month.geojson',
+    enabled: true,
+    priority: 100,
+  },
+  {
+    id: 'usgs-significant-week',
+    name: 'USGS Significant (past 7 days)',
+    kind: 'usgs-geojson',
+    url: 'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/significant_week.geojson',
+    enabled: false,
+    priority: 100,
+  },
+  {
+    id: 'usgs-all-hour',
+    name: 'USGS All (past hour)',
+    kind: 'usgs-geojson',
+    url: 'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/all_hour.geojson',
+    enabled: false,
+    priority: 100,
+  },
+  {
+    id: 'emsc-fdsn',
+    name: 'EMSC FDSN M4.5+',
+    kind: 'fdsn-text',
+    url: 'https://www.seismicportal.eu/fdsnws/event/1/query?format=text&minmag=4.5&limit=500',
+    enabled: false,
+    priority: 50,
+    eventLinkTemplate: 'https://www.seismicportal.eu/eventdetails.html?unid={id}',
+  },
+  {
+    id: 'ntwc-atom',
+    name: 'NTWC Tsunami Bulletins (Atom)',
+    kind: 'nws-atom',
+    url: 'https://www.tsunami.gov/events/xml/PAAQAtom.xml',
+    enabled: false,
+    priority: 80,
+  },
+  {
+    id: 'ptwc-atom',
+    name: 'PTWC Tsunami Bulletins (Atom)',
+    kind: 'nws-atom',
+    url: 'https://www.tsunami.gov/events/xml/PHEBAtom.xml',
+    enabled: false,
+    priority: 80,
+  },
+  {
+    id: 'ntwc-cap',
+    name: 'NTWC Latest Bulletin (CAP)',
+    kind: 'nws-cap',
+    url: 'https://www.tsunami.gov/events/xml/PAAQCAP.xml',
+    enabled: false,
+    priority: 80,
+  },
+  {
+    id: 'ptwc-cap',
+    name: 'PTWC Latest Bulletin (CAP)',
+    kind: 'nws-cap',
+    url: 'https://www.tsunami.gov/events/xml/PHEBCAP.xml',
+    enabled: false,
+    priority: 80,
+  },
+];
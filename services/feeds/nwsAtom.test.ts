@@ -0,0 +1,73 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { nwsAtomAdapter } from './nwsAtom';
+import { fetchFeedSources } from '../tsunamiService';
+import { MockUsgsServer, feedSource, fixture, startMockUsgsServer } from '../../test/mockUsgsServer';
+
+const source = feedSource('ntwc', 'http://localhost/events/xml/PAAQAtom.xml', { kind: 'nws-atom' });
+
+describe('nwsAtomAdapter', () => {
+  const { events, bulletins = [] } = nwsAtomAdapter.parse(fixture('ntwc-atom.xml'), source);
+
+  it('reads a bulletin from every entry with a recognizable category', () => {
+    expect(bulletins.map(bulletin => [bulletin.level, bulletin.cancelled])).toEqual([
+      ['advisory', false],
+      ['information', true],
+      ['information', false],
+    ]);
+    expect(bulletins.every(bulletin => bulletin.center === 'NTWC')).toBe(true);
+  });
+
+  it('maps the entry\'s position, magnitude and link', () => {
+    expect(bulletins[0]).toMatchObject({
+      id: 'urn:uuid:2d5f0a1e-7c55-4b8e-8e6f-ak-advisory',
+      headline: 'Tsunami Advisory - 98 miles SE of Chignik, Alaska',
+      lat: 54.466,
+      lon: -160.781,
+      magnitude: 7.2,
+      link: 'https://www.tsunami.gov/events/PAAQ/2023/07/16/rxwc5q/1/WEAK51/WEAK51.txt',
+    });
+    expect(bulletins[1]).toMatchObject({ lat: 53.2, lon: -160.1, magnitude: 6.9 });
+  });
+
+  it('builds events only from bulletins that give a position and magnitude', () => {
+    expect(events.map(event => event.id)).toEqual([bulletins[0].id, bulletins[1].id]);
+    expect(events[0]).toMatchObject({ title: 'M 7.2 - 98 miles SE of Chignik, Alaska', depth: 0, source: 'ntwc' });
+  });
+
+  it('stands down the event of a cancelled bulletin', () => {
+    expect(events[1]).toMatchObject({ alertLevel: 'none', isTsunamiWarning: false });
+  });
+
+  it('returns nothing for a feed without entries', () => {
+    expect(nwsAtomAdapter.parse('<feed xmlns="http://www.w3.org/2005/Atom"><title>Empty</title></feed>', source)).toEqual({ events: [], bulletins: [] });
+  });
+
+  it('throws on malformed XML', () => {
+    expect(() => nwsAtomAdapter.parse('<feed><entry><title>Cut off</title></feed>', source)).toThrow(/Malformed XML/);
+    expect(() => nwsAtomAdapter.parse('Service unavailable', source)).toThrow(/Malformed XML/);
+  });
+});
+
+describe('nwsAtomAdapter against a stand-in feed', () => {
+  let server: MockUsgsServer;
+
+  beforeAll(async () => {
+    server = await startMockUsgsServer({
+      '/events/xml/PAAQAtom.xml': { body: fixture('ntwc-atom.xml'), contentType: 'application/atom+xml' },
+      '/events/xml/truncated.xml': { body: fixture('ntwc-atom.xml').slice(0, 400), contentType: 'application/atom+xml' },
+    });
+  });
+
+  afterAll(() => server.close());
+
+  it('fetches and parses the recorded payload', async () => {
+    const [result] = await fetchFeedSources([{ ...source, url: server.url('/events/xml/PAAQAtom.xml') }]);
+    expect(result.batch?.bulletins).toHaveLength(3);
+  });
+
+  it('reports a truncated payload as a failed feed', async () => {
+    const [result] = await fetchFeedSources([{ ...source, url: server.url('/events/xml/truncated.xml') }]);
+    expect(result.batch).toBeNull();
+    expect(result.error?.message).toMatch(/Malformed XML/);
+  });
+});
@@ -0,0 +1,46 @@
+import { EarthquakeEvent, FeedSourceConfig, TsunamiBulletin } from '../../types';
+import { parseAtomBulletins, isBulletinActive, BULLETIN_ALERT_LEVELS } from '../tsunamiBulletins';
+import { FeedAdapter } from './common';
+
+/**
+ * Builds an event from a bulletin's own earthquake parameters, so quakes that only the
+ * warning centers have reported still appear on the dashboard.
+ * @returns An EarthquakeEvent, or null if the bulletin lacks a location or magnitude.
+ */
+export const mapBulletinToEarthquakeEvent = (bulletin: TsunamiBulletin, source: FeedSourceConfig): EarthquakeEvent | null => {
+  if (bulletin.lat === null || bulletin.lon === null || bulletin.magnitude === null) {
+    return null;
+  }
+
+  const location = bulletin.headline.replace(/^Tsunami [^-]+ - /, '');
+  const alertLevel = isBulletinActive(bulletin) ? BULLETIN_ALERT_LEVELS[bulletin.level] : 'none';
+
+  return {
+    id: bulletin.id,
+    title: `M ${bulletin.magnitude.toFixed(1)} - ${location}`,
+    time: bulletin.eventTime ?? bulletin.issued,
+    updated: bulletin.issued,
+    link: bulletin.link,
+    location,
+    magnitude: bulletin.magnitude,
+    depth: 0, // bulletins rarely state depth
+    lat: bulletin.lat,
+    lon: bulletin.lon,
+    isTsunamiWarning: alertLevel === 'warning' || alertLevel === 'watch' || alertLevel === 'advisory',
+    rawSummary: bulletin.headline,
+    alertLevel,
+    source: source.id,
+  };
+};
+
+/** Reads the NTWC/PTWC Atom feeds published on tsunami.gov. */
+export const nwsAtomAdapter: FeedAdapter = {
+  kind: 'nws-atom',
+  parse: (payload, source) => {
+    const bulletins = parseAtomBulletins(payload);
+    const events = bulletins
+      .map(bulletin => mapBulletinToEarthquakeEvent(bulletin, source))
+      .filter((event): event is EarthquakeEvent => event !== null);
+    return { events, bulletins };
+  },
+};
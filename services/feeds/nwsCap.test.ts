@@ -0,0 +1,98 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { EarthquakeEvent } from '../../types';
+import { nwsCapAdapter } from './nwsCap';
+import { attachBulletinsToEvents } from '../tsunamiBulletins';
+import { fetchFeedSources, processFeedResults } from '../tsunamiService';
+import { MockUsgsServer, feedSource, fixture, startMockUsgsServer, testEvent } from '../../test/mockUsgsServer';
+
+const source = feedSource('ptwc', 'http://localhost/events/xml/PHEBCAP.xml', { kind: 'nws-cap' });
+
+describe('nwsCapAdapter', () => {
+  it('reads the bulletin and its event from a CAP alert', () => {
+    const { events, bulletins = [] } = nwsCapAdapter.parse(fixture('ptwc-cap.xml'), source);
+    expect(bulletins).toHaveLength(1);
+    expect(bulletins[0]).toMatchObject({
+      id: 'PHEB-2021-03-04T19-32-00Z-WEHW40',
+      center: 'PTWC',
+      level: 'warning',
+      headline: 'Tsunami Warning - Kermadec Islands, New Zealand',
+      cancelled: false,
+      zones: ['HIZ001', 'HIZ002', 'American Samoa'],
+      link: source.url,
+      lat: -29.7,
+      lon: -177.3,
+      magnitude: 8.1,
+    });
+    expect(bulletins[0].issued).toEqual(new Date('2021-03-04T19:32:00Z'));
+    expect(bulletins[0].expires).toEqual(new Date('2021-03-05T01:32:00Z'));
+    expect(bulletins[0].eventTime).toEqual(new Date('2021-03-04T19:28:32Z'));
+    expect(events).toHaveLength(1);
+    // The recorded warning has long since expired, so its event is no longer in force.
+    expect(events[0]).toMatchObject({ title: 'M 8.1 - Kermadec Islands, New Zealand', alertLevel: 'none', isTsunamiWarning: false, source: 'ptwc' });
+  });
+
+  it('reads a cancellation, which carries no event parameters but references the warning', () => {
+    const { events, bulletins = [] } = nwsCapAdapter.parse(fixture('ptwc-cap-cancel.xml'), source);
+    expect(bulletins[0]).toMatchObject({
+      level: 'warning',
+      cancelled: true,
+      lat: null,
+      lon: null,
+      magnitude: null,
+      zones: [],
+      references: ['PHEB-2021-03-04T19-32-00Z-WEHW40'],
+    });
+    expect(events).toEqual([]);
+  });
+
+  it('stands down the warned event when the warning is cancelled', () => {
+    const [warning] = nwsCapAdapter.parse(fixture('ptwc-cap.xml'), source).bulletins ?? [];
+    const [cancellation] = nwsCapAdapter.parse(fixture('ptwc-cap-cancel.xml'), source).bulletins ?? [];
+    const event = testEvent({ id: 'kermadec', time: new Date('2021-03-04T19:28:30Z'), lat: -29.6, lon: -177.8 });
+    // Before the warning expires, so only the cancellation can stand the event down.
+    const now = new Date('2021-03-04T23:10:00Z');
+
+    expect(attachBulletinsToEvents([event], [warning], now)[0].alertLevel).toBe('warning');
+    const [cancelled] = attachBulletinsToEvents([event], [warning, cancellation], now);
+    expect(cancelled).toMatchObject({ alertLevel: 'none', isTsunamiWarning: false, alertLevelSource: 'bulletin' });
+    expect(cancelled.bulletins?.at(-1)).toMatchObject({ id: cancellation.id, cancelled: true });
+  });
+
+  it('keeps the warning from the previous poll so a later cancellation finds its event', () => {
+    const usgs = feedSource('usgs', 'http://localhost/usgs.geojson');
+    const event = testEvent({ id: 'kermadec', time: new Date('2021-03-04T19:28:30Z'), lat: -29.6, lon: -177.8, source: 'usgs' });
+    const poll = (capFile: string, previous: EarthquakeEvent[]) => processFeedResults([
+      { source: usgs, batch: { events: [event] }, error: null },
+      { source, batch: { ...nwsCapAdapter.parse(fixture(capFile), source), events: [] }, error: null },
+    ], [usgs, source], { previous });
+
+    const warned = poll('ptwc-cap.xml', []);
+    const [cancelled] = poll('ptwc-cap-cancel.xml', warned);
+    expect(cancelled.bulletins?.map(bulletin => bulletin.cancelled)).toEqual([false, true]);
+    expect(cancelled.alertLevel).toBe('none');
+  });
+
+  it('ignores alerts that are not tsunami messages', () => {
+    expect(nwsCapAdapter.parse(fixture('nws-cap-other.xml'), source)).toEqual({ events: [], bulletins: [] });
+    expect(nwsCapAdapter.parse('<alert xmlns="urn:oasis:names:tc:emergency:cap:1.2"><identifier>x</identifier></alert>', source)).toEqual({ events: [], bulletins: [] });
+  });
+
+  it('throws on malformed XML', () => {
+    expect(() => nwsCapAdapter.parse('<alert><info><event>Tsunami Warning</event></alert>', source)).toThrow(/Malformed XML/);
+  });
+});
+
+describe('nwsCapAdapter against a stand-in feed', () => {
+  let server: MockUsgsServer;
+
+  beforeAll(async () => {
+    server = await startMockUsgsServer({ '/events/xml/PHEBCAP.xml': { body: fixture('ptwc-cap.xml'), contentType: 'application/cap+xml' } });
+  });
+
+  afterAll(() => server.close());
+
+  it('fetches and parses the recorded payload', async () => {
+    const [result] = await fetchFeedSources([{ ...source, url: server.url('/events/xml/PHEBCAP.xml') }]);
+    expect(result.batch?.events.map(event => event.magnitude)).toEqual([8.1]);
+  });
+});
@@ -0,0 +1,16 @@
+import { parseCapBulletin } from '../tsunamiBulletins';
+import { FeedAdapter } from './common';
+import { mapBulletinToEarthquakeEvent } from './nwsAtom';
+
+/** Reads a single NTWC/PTWC CAP document, such as the centers' latest-bulletin CAP files. */
+export const nwsCapAdapter: FeedAdapter = {
+  kind: 'nws-cap',
+  parse: (payload, source) => {
+    const bulletin = parseCapBulletin(payload, source.url);
+    if (!bulletin) {
+      return { events: [], bulletins: [] };
+    }
+    const event = mapBulletinToEarthquakeEvent(bulletin, source);
+    return { events: event ? [event] : [], bulletins: [bulletin] };
+  },
+};
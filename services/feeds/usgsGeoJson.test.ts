@@ -0,0 +1,95 @@
+import { describe, expect, it, vi } from 'vitest';
+import { mapUsgsFeatureToEarthquakeEvent, usgsGeoJsonAdapter } from './usgsGeoJson';
+import { feedSource, featureCollection, usgsFeature } from '../../test/mockUsgsServer';
+
+type UsgsFeature = Parameters<typeof mapUsgsFeatureToEarthquakeEvent>[0];
+
+const source = feedSource('usgs-test', 'http://localhost/feed');
+const map = (feature: ReturnType<typeof usgsFeature>) => mapUsgsFeatureToEarthquakeEvent(feature as unknown as UsgsFeature, source);
+
+describe('mapUsgsFeatureToEarthquakeEvent', () => {
+  it('maps the fields of a complete feature', () => {
+    const event = map(usgsFeature({ id: 'us7000abcd', mag: 7.1, place: '100 km E of Test', time: 1000, updated: 2000, tsunami: 1, coordinates: [142.5, 38.2, 24.5] }));
+
+    expect(event).toMatchObject({
+      id: 'us7000abcd',
+      title: 'M 7.1 - 100 km E of Test',
+      link: 'https://earthquake.usgs.gov/earthquakes/eventpage/us7000abcd',
+      location: '100 km E of Test',
+      magnitude: 7.1,
+      magType: 'mww',
+      lon: 142.5,
+      lat: 38.2,
+      depth: 24.5,
+      reviewStatus: 'reviewed',
+      isTsunamiWarning: true,
+      source: 'usgs-test',
+    });
+    expect(event!.time).toEqual(new Date(1000));
+    expect(event!.updated).toEqual(new Date(2000));
+  });
+
+  it('skips features without a magnitude', () => {
+    expect(map(usgsFeature({ id: 'null-mag', mag: null }))).toBeNull();
+    const feature = usgsFeature({ id: 'no-mag' });
+    delete (feature.properties as Partial<typeof feature.properties>).mag;
+    expect(map(feature)).toBeNull();
+  });
+
+  it('keeps a magnitude of zero', () => {
+    expect(map(usgsFeature({ id: 'zero', mag: 0 }))?.magnitude).toBe(0);
+  });
+
+  it('skips features without an epicentre', () => {
+    expect(map(usgsFeature({ id: 'no-geometry', coordinates: null }))).toBeNull();
+    expect(map(usgsFeature({ id: 'empty-coordinates', coordinates: [] }))).toBeNull();
+    expect(map(usgsFeature({ id: 'bad-latitude', coordinates: [142, NaN, 10] }))).toBeNull();
+  });
+
+  it('treats a missing depth as shallow', () => {
+    expect(map(usgsFeature({ id: 'no-depth', coordinates: [142, 38] }))?.depth).toBe(0);
+  });
+
+  it('keeps coordinates on and across the antimeridian as reported', () => {
+    expect(map(usgsFeature({ id: 'east', coordinates: [180, -17.5, 550] }))).toMatchObject({ lon: 180, lat: -17.5 });
+    expect(map(usgsFeature({ id: 'west', coordinates: [-180, -17.5, 550] }))).toMatchObject({ lon: -180, lat: -17.5 });
+    expect(map(usgsFeature({ id: 'near', coordinates: [-179.95, 51.3, 30] }))).toMatchObject({ lon: -179.95, lat: 51.3 });
+  });
+
+  it('scores offshore events on either side of the antimeridian alike', () => {
+    const east = map(usgsFeature({ id: 'east', mag: 7.6, coordinates: [179.9, -30, 20] }))!;
+    const west = map(usgsFeature({ id: 'west', mag: 7.6, coordinates: [-179.9, -30, 20] }))!;
+    expect(east.alertLevel).toBe(west.alertLevel);
+  });
+
+  it('maps the review status and leaves unknown ones out', () => {
+    expect(map(usgsFeature({ id: 'a', status: 'automatic' }))?.reviewStatus).toBe('automatic');
+    expect(map(usgsFeature({ id: 'd', status: 'deleted' }))?.reviewStatus).toBeUndefined();
+  });
+
+  it('leaves a null magnitude type out', () => {
+    expect(map(usgsFeature({ id: 'a', magType: null }))?.magType).toBeUndefined();
+  });
+});
+
+describe('usgsGeoJsonAdapter', () => {
+  it('drops invalid features and keeps the rest', () => {
+    const batch = usgsGeoJsonAdapter.parse(featureCollection([
+      usgsFeature({ id: 'good' }),
+      usgsFeature({ id: 'no-mag', mag: null }),
+      usgsFeature({ id: 'no-geometry', coordinates: null }),
+    ]), source);
+    expect(batch.events.map(event => event.id)).toEqual(['good']);
+  });
+
+  it('returns no events for a payload without features', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(usgsGeoJsonAdapter.parse('{}', source).events).toEqual([]);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('throws on a payload that is not JSON', () => {
+    expect(() => usgsGeoJsonAdapter.parse('<html>Service unavailable</html>', source)).toThrow();
+  });
+});
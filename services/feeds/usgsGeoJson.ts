@@ -0,0 +1,79 @@
+import { EarthquakeEvent, FeedSourceConfig } from '../../types';
+import { FeedAdapter, classifyAlertLevel } from './common';
+
+// A subset of the USGS GeoJSON feature structure
+interface UsgsFeature {
+  id: string;
+  properties: {
+    mag: number | null;
+    magType?: string | null;
+    place: string;
+    time: number;
+    updated: number;
+    url: string;
+    title: string;
+    tsunami: 0 | 1;
+    status?: string; // 'automatic', 'reviewed' or 'deleted'
+  };
+  geometry: {
+    coordinates: [number, number, number]; // [longitude, latitude, depth]
+  } | null;
+}
+
+/**
+ * Maps a single USGS earthquake feature to our application's EarthquakeEvent type.
+ * @param feature The feature object from the USGS GeoJSON feed.
+ * @param source The feed the feature was read from.
+ * @returns An EarthquakeEvent object or null if the feature is invalid (e.g., no magnitude or no epicentre).
+ */
+export const mapUsgsFeatureToEarthquakeEvent = (feature: UsgsFeature, source: FeedSourceConfig): EarthquakeEvent | null => {
+  if (feature.properties.mag === null || typeof feature.properties.mag === 'undefined') {
+    return null;
+  }
+
+  const coordinates = feature.geometry?.coordinates;
+  if (!Array.isArray(coordinates) || !Number.isFinite(coordinates[0]) || !Number.isFinite(coordinates[1])) {
+    return null;
+  }
+  const [lon, lat] = coordinates;
+  // Depth is occasionally left out of a preliminary solution; treat it as shallow.
+  const depth = Number.isFinite(coordinates[2]) ? coordinates[2] : 0;
+  const isTsunamiWarning = feature.properties.tsunami === 1;
+
+  return {
+    id: feature.id,
+    title: feature.properties.title,
+    time: new Date(feature.properties.time),
+    updated: new Date(feature.properties.updated),
+    link: feature.properties.url,
+    location: feature.properties.place,
+    magnitude: feature.properties.mag,
+    magType: feature.properties.magType ?? undefined,
+    depth: depth,
+    lat: lat,
+    lon: lon,
+    reviewStatus: feature.properties.status === 'reviewed' ? 'reviewed' : feature.properties.status === 'automatic' ? 'automatic' : undefined,
+    isTsunamiWarning: isTsunamiWarning,
+    rawSummary: feature.properties.title, // Using title for raw summary
+    alertLevel: classifyAlertLevel({ magnitude: feature.properties.mag, depth, lat, lon, isTsunamiWarning }),
+    source: source.id,
+  };
+};
+
+/** Reads any USGS GeoJSON summary feed (e.g. `4.5_month`, `all_hour`, `significant_week`). */
+export const usgsGeoJsonAdapter: FeedAdapter = {
+  kind: 'usgs-geojson',
+  parse: (payload, source) => {
+    const data = JSON.parse(payload);
+
+    if (data && Array.isArray(data.features)) {
+      const events = data.features
+        .map((feature: UsgsFeature) => mapUsgsFeatureToEarthquakeEvent(feature, source))
+        .filter((event: EarthquakeEvent | null): event is EarthquakeEvent => event !== null);
+      return { events };
+    }
+
+    console.warn(`Received empty or invalid data from ${source.name}.`);
+    return { events: [] };
+  },
+};
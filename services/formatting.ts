@@ -0,0 +1,35 @@
+// Display formatting shared by the dashboard and the messages it sends.
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const formatDateTime = (date: Date): string => {
+  return `${date.toLocaleDateString('en-GB')} ${date.toLocaleTimeString('en-US', { hour12: false })}`;
+};
+
+export const timeAgo = (date: Date): string => {
+  const seconds = Math.floor((new Date().getTime() - date.getTime()) / 1000);
+  let interval = seconds / 31536000;
+  if (interval > 1) return `${Math.floor(interval)} years ago`;
+  interval = seconds / 2592000;
+  if (interval > 1) return `${Math.floor(interval)} months ago`;
+  interval = seconds / 86400;
+  if (interval > 1) return `${Math.floor(interval)} days ago`;
+  interval = seconds / 3600;
+  if (interval > 1) return `${Math.floor(interval)} hours ago`;
+  interval = seconds / 60;
+  if (interval > 1) return `${Math.floor(interval)} minutes ago`;
+  return `${Math.floor(seconds)} seconds ago`;
+};
+
+/** Formats a date in UTC, e.g. "2024-03-01 14:05:09 UTC". */
+export const formatUtc = (date: Date): string => `${date.toISOString().slice(0, 19).replace('T', ' ')} UTC`;
+
+/** Tailwind classes for a magnitude badge, shared by the dashboard and printable reports. */
+export const getMagnitudeClass = (magnitude: number): string => {
+  if (magnitude >= 7.5) return 'bg-danger/20 text-danger border-danger/50';
+  if (magnitude >= 6.0) return 'bg-warning/20 text-warning border-warning/50';
+  return 'bg-gray-200 dark:bg-sentinel-border text-gray-600 dark:text-sentinel-text-secondary border-gray-300 dark:border-sentinel-border';
+};
+
+/** Map marker colour for a magnitude, matching the badge thresholds' danger and warning hues. */
+export const markerColor = (magnitude: number): string => (magnitude >= 7.5 ? '#f85149' : magnitude >= 6.5 ? '#f5a623' : '#FFD54F');
@@ -0,0 +1,28 @@
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points using the haversine formula.
+ * @returns The distance in kilometres.
+ */
+export const haversineKm = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+/**
+ * The point reached by travelling a distance along a great circle from a start point.
+ * @param bearingDegrees Initial bearing, clockwise from north.
+ * @returns The destination; its longitude may fall outside [-180, 180].
+ */
+export const destinationPoint = (lat: number, lon: number, bearingDegrees: number, distanceKm: number): { lat: number; lon: number } => {
+  const angular = distanceKm / EARTH_RADIUS_KM;
+  const bearing = toRadians(bearingDegrees);
+  const lat1 = toRadians(lat);
+  const lat2 = Math.asin(Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(bearing));
+  const lon2 = toRadians(lon) + Math.atan2(Math.sin(bearing) * Math.sin(angular) * Math.cos(lat1), Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2));
+  return { lat: (lat2 * 180) / Math.PI, lon: (lon2 * 180) / Math.PI };
+};
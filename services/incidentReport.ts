@@ -0,0 +1,161 @@
+import { DeliveryRecord, EarthquakeEvent, GeneratedAlert, WatchZone } from '../types';
+import { escapeHtml } from './alertTemplate';
+import { formatDateTime, formatUtc, getMagnitudeClass } from './formatting';
+import { renderMapSnapshotSvg } from './mapSnapshot';
+import { CHANNEL_LABELS } from './dispatch/channels';
+
+export interface IncidentReportInput {
+  event: EarthquakeEvent;
+  /** Every alert raised for the event, in any order. */
+  alerts: GeneratedAlert[];
+  /** Other events to show on the map, e.g. the current feed. */
+  nearbyEvents: EarthquakeEvent[];
+  zones: WatchZone[];
+  generatedAt?: Date;
+}
+
+// Reports load the same Tailwind build and palette as the dashboard (see index.html), so the
+// shared class helpers render identically on screen and on paper.
+const TAILWIND_HEAD = `<script src="https://cdn.tailwindcss.com"></script>
+<script>
+  tailwind.config = {
+    theme: {
+      extend: {
+        colors: {
+          'sentinel-dark': '#0d1117',
+          'sentinel-body': '#161b22',
+          'sentinel-border': '#30363d',
+          'sentinel-text-primary': '#c9d1d9',
+          'sentinel-text-secondary': '#8b949e',
+          'sentinel-accent': '#58a6ff',
+          'sentinel-info': '#1f6feb',
+          'warning': '#f5a623',
+          'danger': '#f85149'
+        },
+      },
+    },
+  }
+</script>
+<style>
+  @media print { .no-print { display: none; } section { break-inside: avoid; } }
+</style>`;
+
+/** Whether an alert was raised for the event, matching on any of its source report ids. */
+export const alertBelongsToEvent = (alert: GeneratedAlert, event: EarthquakeEvent): boolean => {
+  if (alert.digestPeriod) return false; // scheduled digests cover many events
+  const ids = new Set([event.id, ...(event.reports ?? []).map(report => report.id)]);
+  return ids.has(alert.event.id) || (alert.event.reports ?? []).some(report => ids.has(report.id));
+};
+
+const row = (label: string, value: string) =>
+  `<tr><th class="text-left font-semibold text-gray-600 pr-4 py-1 align-top whitespace-nowrap">${escapeHtml(label)}</th><td class="py-1">${value}</td></tr>`;
+
+const table = (headers: string[], rows: string[][]) => `<table class="w-full text-sm border-collapse">
+<thead><tr>${headers.map(h => `<th class="text-left font-semibold text-gray-600 border-b border-gray-300 py-1 pr-3">${escapeHtml(h)}</th>`).join('')}</tr></thead>
+<tbody>${rows.map(cells => `<tr>${cells.map(cell => `<td class="border-b border-gray-200 py-1 pr-3 align-top">${cell}</td>`).join('')}</tr>`).join('')}</tbody>
+</table>`;
+
+const section = (title: string, body: string) => `<section class="mt-6">
+<h2 class="text-lg font-bold text-gray-900 mb-2">${escapeHtml(title)}</h2>
+${body}
+</section>`;
+
+const muted = (text: string) => `<p class="text-sm text-gray-500">${escapeHtml(text)}</p>`;
+
+/** The latest state of every delivery across an incident's alerts, one row per alert, channel and recipient. */
+const notifiedRecipients = (alerts: GeneratedAlert[]): { alert: GeneratedAlert; delivery: DeliveryRecord }[] =>
+  alerts.flatMap(alert => (alert.deliveries ?? []).map(delivery => ({ alert, delivery })));
+
+/**
+ * Builds a standalone, printable HTML report for one incident: the event as currently known, a
+ * map, the alerts raised for it and who was notified through which channel.
+ */
+export const buildIncidentReport = ({ event, alerts, nearbyEvents, zones, generatedAt = new Date() }: IncidentReportInput): string => {
+  const ownAlerts = alerts.filter(alert => alertBelongsToEvent(alert, event)).sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  const alertZoneIds = new Set(ownAlerts.map(alert => alert.zoneId).filter(Boolean));
+  const bulletins = event.bulletins ?? [];
+
+  const details = [
+    row('Origin time', `${escapeHtml(formatDateTime(event.time))} (${escapeHtml(formatUtc(event.time))})`),
+    row('Last updated', `${escapeHtml(formatDateTime(event.updated))}${event.reviewStatus ? ` (${event.reviewStatus})` : ''}`),
+    row('Magnitude', `M${event.magnitude.toFixed(1)}${event.magType ? ` ${escapeHtml(event.magType)}` : ''}`),
+    ...(event.revisions ? [row('Earlier solutions', event.revisions.map(r =>
+      escapeHtml(`M${r.magnitude.toFixed(1)}${r.magType ? ` ${r.magType}` : ''}, ${r.depth.toFixed(1)} km, ${r.location} (${formatDateTime(r.updated)})`)).join('<br/>'))] : []),
+    row('Location', `${escapeHtml(event.location)}<br/><span class="text-gray-500">${event.lat.toFixed(3)}°, ${event.lon.toFixed(3)}°</span>`),
+    row('Depth', `${event.depth.toFixed(1)} km`),
+    row('Alert level', `<span class="uppercase font-semibold">${escapeHtml(event.alertLevel)}</span> (${event.alertLevelSource === 'bulletin' ? 'official bulletin' : 'inferred'})`),
+    row('Tsunami flag', event.isTsunamiWarning ? 'Yes' : 'No'),
+    ...(event.threat ? [row('Threat score', `${event.threat.score} — ${event.threat.firedRules.map(rule => escapeHtml(rule.description)).join('; ') || 'no rules fired'}`)] : []),
+    ...(event.reports && event.reports.length > 1 ? [row('Reported by', event.reports.map(r => escapeHtml(`${r.source} (M${r.magnitude.toFixed(1)})`)).join(', '))] : []),
+    row('Source', `<a class="text-sentinel-info underline" href="${escapeHtml(event.link)}">${escapeHtml(event.link)}</a>`),
+  ];
+
+  const map = renderMapSnapshotSvg({
+    center: { lat: event.lat, lon: event.lon },
+    events: [event, ...nearbyEvents.filter(other => other.id !== event.id)],
+    highlightId: event.id,
+    zones: zones.filter(zone => alertZoneIds.has(zone.id)),
+  });
+
+  const alertRows = ownAlerts.map(alert => [
+    escapeHtml(formatDateTime(new Date(alert.timestamp))),
+    `<span class="uppercase text-xs font-bold">${escapeHtml(alert.kind ?? 'initial')}</span>`,
+    escapeHtml(alert.zoneName ?? 'Global threshold'),
+    escapeHtml(alert.subject ?? alert.body.split('\n')[0]) + (alert.changes?.length ? `<br/><span class="text-gray-500">${escapeHtml(alert.changes.join('; '))}</span>` : ''),
+    alert.acknowledgedBy ? escapeHtml(`${alert.acknowledgedBy}, ${formatDateTime(new Date(alert.acknowledgedAt!))}`) : '<span class="text-gray-500">—</span>',
+  ]);
+
+  const recipientRows = notifiedRecipients(ownAlerts).map(({ alert, delivery }) => [
+    escapeHtml(delivery.recipient),
+    escapeHtml(CHANNEL_LABELS[delivery.channel]),
+    escapeHtml(alert.kind ?? 'initial'),
+    `<span class="font-semibold">${escapeHtml(delivery.status)}</span>${delivery.lastError ? `<br/><span class="text-gray-500">${escapeHtml(delivery.lastError)}</span>` : ''}`,
+    String(delivery.attempts),
+    escapeHtml(formatDateTime(new Date(delivery.updatedAt))),
+  ]);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(`${event.exercise ? 'EXERCISE ' : ''}Incident report — ${event.title}`)}</title>
+${TAILWIND_HEAD}
+</head>
+<body class="bg-white text-gray-800 font-sans">
+<main class="max-w-4xl mx-auto p-8">
+${event.exercise ? '<p class="mb-4 p-2 text-center font-bold tracking-widest text-white bg-warning rounded-md">EXERCISE — NOT A REAL EVENT</p>' : ''}
+<div class="flex items-start justify-between">
+  <div>
+    <p class="text-xs uppercase tracking-wide text-gray-500">Tsunami Sentinel incident report</p>
+    <h1 class="text-2xl font-bold text-gray-900">${escapeHtml(event.location)}</h1>
+    <p class="text-sm text-gray-500">Generated ${escapeHtml(formatDateTime(generatedAt))} · Event ${escapeHtml(event.id)}</p>
+  </div>
+  <span class="px-3 py-1 text-sm font-bold rounded-full border ${getMagnitudeClass(event.magnitude)}">M${event.magnitude.toFixed(1)}</span>
+</div>
+<div class="no-print mt-4"><button onclick="window.print()" class="text-sm bg-sentinel-info text-white px-3 py-2 rounded-md">Print / save as PDF</button></div>
+${section('Event details', `<table class="text-sm">${details.join('')}</table>`)}
+${section('Map', `<div class="border border-gray-300 rounded-md overflow-hidden inline-block">${map}</div>`)}
+${bulletins.length > 0 ? section('Official bulletins', table(['Issued', 'Center', 'Level', 'Headline'], bulletins.map(b => [
+    escapeHtml(formatDateTime(b.issued)),
+    escapeHtml(b.center),
+    escapeHtml(b.cancelled ? 'cancelled' : b.level),
+    `<a class="text-sentinel-info underline" href="${escapeHtml(b.link)}">${escapeHtml(b.headline)}</a>`,
+  ]))) : ''}
+${section('Alert history', alertRows.length > 0 ? table(['Raised', 'Kind', 'Trigger', 'Subject', 'Acknowledged'], alertRows) : muted('No alerts were raised for this event.'))}
+${section('Recipients notified', recipientRows.length > 0 ? table(['Recipient', 'Channel', 'Alert', 'Status', 'Attempts', 'Last update'], recipientRows) : muted('Nobody was notified about this event.'))}
+</main>
+</body>
+</html>
+`;
+};
+
+/** Opens a report in a new tab, from where it can be printed or saved as PDF. */
+export const openReportWindow = (html: string): void => {
+  const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }));
+  const opened = window.open(url, '_blank');
+  if (!opened) {
+    throw new Error('The report window was blocked; allow pop-ups for this site.');
+  }
+  // The new tab loads asynchronously; keep the URL alive long enough for it to do so.
+  setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+};
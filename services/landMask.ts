@@ -0,0 +1,278 @@
+import { wrapLongitude } from './mapProjection';
+
+// Coarse outlines of the major landmasses, as [longitude, latitude] rings.
+// Accuracy is on the order of tens of kilometres: enough to tell an offshore epicentre from an
+// inland one, and to draw an offline basemap, but not a substitute for a real coastline dataset.
+// Small island arcs (Aleutians, Tonga, Kurils, ...) are deliberately left out and count as ocean.
+
+export interface LandPolygon {
+  name: string;
+  coordinates: [number, number][];
+}
+
+export const LAND_POLYGONS: LandPolygon[] = [
+  {
+    name: 'North America',
+    coordinates: [
+      [-168, 66], [-162, 70], [-156, 71.3], [-141, 69.6], [-128, 70], [-115, 68.5], [-95, 68], [-82, 68], [-80, 63],
+      [-94, 59], [-90, 57], [-82, 55], [-79, 51.5], [-77, 60], [-72, 58.5], [-65, 60], [-61, 56], [-56, 52], [-60, 47],
+      [-65, 44], [-70, 43], [-70, 41.5], [-74, 40.5], [-76, 37], [-75.5, 35.2], [-81, 31.5], [-80, 27], [-80.5, 25.2],
+      [-82.6, 27.5], [-84, 30], [-89, 30.2], [-94, 29.5], [-97.4, 27], [-97.7, 22], [-96, 19], [-94.5, 18.2], [-91, 19],
+      [-90.4, 21], [-87, 21.5], [-88, 16], [-83.5, 15], [-83.5, 11], [-81.5, 9], [-79.5, 9.5], [-77.5, 8.5], [-80, 7.3],
+      [-83, 8.3], [-85.7, 10], [-87.5, 13], [-91.5, 14], [-94.5, 16], [-97, 15.7], [-101, 17.2], [-105.5, 20],
+      [-105.5, 22.5], [-109.5, 23], [-110, 24.5], [-112, 26.5], [-114.5, 29.5], [-116.5, 31.5], [-117.2, 32.7],
+      [-120.6, 34.5], [-122.5, 37.5], [-124.2, 40.5], [-124, 46], [-124.7, 48.4], [-123, 49], [-127.5, 50.5], [-130, 54],
+      [-133, 57.5], [-137, 58.5], [-140, 60], [-146, 60.8], [-150, 59.5], [-152, 57.5], [-156, 56.5], [-162, 55],
+      [-164.5, 54.5], [-158.5, 58], [-162, 60], [-165, 61.5], [-164.8, 63.5], [-161, 64.5], [-166.5, 65.5], [-168, 66],
+    ],
+  },
+  {
+    name: 'South America',
+    coordinates: [
+      [-77.5, 8.5], [-75.5, 10.5], [-72, 12], [-68, 10.5], [-62, 10.7], [-60, 8.5], [-57, 6], [-52, 5], [-50, 1.5],
+      [-48, -1], [-44, -2.5], [-39, -3.5], [-35, -5.5], [-35, -9], [-37.5, -12.5], [-39, -17.5], [-40.5, -21.5],
+      [-43, -23], [-48.5, -26], [-49, -28.5], [-52, -32], [-54, -34.8], [-58, -34.5], [-57, -38], [-62, -39], [-65, -41],
+      [-64, -42.5], [-67.5, -46], [-66, -48], [-69, -51], [-68.5, -53], [-66.5, -55], [-71, -55], [-74.5, -52],
+      [-75.5, -47], [-74, -43], [-73.5, -37], [-71.5, -32], [-71.3, -28], [-70.4, -23], [-70.2, -18.5], [-75, -15.5],
+      [-77, -12], [-79, -8], [-81.2, -5.5], [-80.5, -2], [-80, 1], [-78.5, 2.5], [-77.5, 4], [-77.3, 7], [-77.5, 8.5],
+    ],
+  },
+  {
+    name: 'Africa',
+    coordinates: [
+      [-17, 21], [-16, 24], [-13, 27.5], [-9.8, 29.5], [-9.5, 32.5], [-6, 35.8], [-1, 35.5], [3, 36.8], [10, 37.2],
+      [11, 33], [15, 32.3], [20, 30.8], [20, 32.5], [25, 31.8], [32, 31.2], [32.5, 29.8], [35, 24], [37.5, 18], [40, 15],
+      [43.3, 12.5], [44, 10.5], [51.2, 11.8], [51, 10], [47, 4.5], [42, -1], [39.5, -5], [40.5, -10.5], [40.5, -15],
+      [35, -20], [35.5, -24], [32.8, -26], [32.5, -28.5], [30, -31], [26, -34], [20, -34.8], [18.4, -34], [17.8, -31],
+      [15, -27], [14.5, -22], [11.8, -17.5], [12.5, -13], [13.5, -10], [12, -5], [9, -1], [9.5, 3.5], [8.5, 4.5], [6, 4.3],
+      [4, 6.3], [1, 5.8], [-2, 4.8], [-7.5, 4.3], [-11.5, 6.9], [-13.5, 9.5], [-15.5, 11.5], [-16.8, 13.5], [-17.5, 14.7],
+      [-16.5, 19], [-17, 21],
+    ],
+  },
+  {
+    name: 'Eurasia',
+    coordinates: [
+      [34.9, 29.5], [39, 21.5], [42.5, 16], [43.5, 12.7], [45, 12.8], [52, 15.5], [55, 17.5], [57.8, 19], [59.8, 22.5],
+      [56.5, 24.5], [56, 26.2], [54, 24.1], [51.5, 24.5], [50, 26.5], [48, 29.5], [50.5, 29], [54, 26.7], [57, 25.7],
+      [61.5, 25.2], [66.5, 25.4], [68, 23.7], [70, 21], [72.8, 19], [74, 15], [76.5, 8.5], [77.5, 8], [80, 10.2],
+      [80.2, 13.5], [82, 16.5], [86.5, 20], [88, 21.8], [91.5, 22.5], [92.3, 20.7], [94.5, 17], [97.5, 16.5],
+      [98.3, 12.5], [98.5, 8], [100.3, 5], [101.5, 2.8], [103.5, 1.3], [104.2, 1.5], [103.4, 4.5], [102.2, 6.2],
+      [100.3, 8], [99.2, 10.5], [100, 13.4], [102, 12.5], [105, 8.7], [106.5, 10.4], [109.2, 11.8], [109, 15.5],
+      [106.5, 18], [106.5, 20], [108, 21.6], [110, 20.3], [110.5, 21.4], [113.5, 22.2], [117, 23.5], [119.5, 26],
+      [121.5, 29.5], [121.9, 31], [120.3, 34.4], [119.2, 35], [122.5, 37.4], [117.8, 38.5], [118, 39.2], [121, 40.8],
+      [122.3, 40.4], [121.4, 39], [124.3, 39.9], [125.2, 37.8], [126.5, 34.5], [129.3, 35.3], [129.5, 37.5], [128, 40],
+      [129.8, 41], [131.5, 42.8], [135.5, 43.8], [140, 48.3], [141.3, 52.5], [139, 54.2], [137, 54], [135.2, 54.7],
+      [140.5, 58], [143, 59.3], [149, 59.5], [155, 59.2], [156.5, 61.5], [160, 61.8], [163, 62], [164.5, 62.5],
+      [160.5, 60.2], [156.7, 57], [156, 51], [158.5, 52.9], [162, 55.5], [163.3, 56.3], [162, 58], [164, 60],
+      [170.5, 60], [174, 61.9], [178, 62.5], [180, 65], [180, 68.9], [178, 69.5], [170, 70], [160, 69.6], [150, 71.5],
+      [140, 72.5], [130, 71], [128, 73], [113, 73.5], [110, 76.7], [104, 77.7], [97, 76], [87, 75], [80, 73], [72, 72.5],
+      [69, 73.5], [66, 69.5], [60, 69.8], [55, 68.4], [44, 68.5], [41, 66.8], [33, 66.5], [36, 69], [28, 71], [24, 71],
+      [17, 69.5], [13, 67], [10, 63.5], [5, 61.5], [5.5, 58.5], [8, 58], [10.5, 59.5], [11.5, 58.5], [12.5, 56.2],
+      [10.5, 57.7], [8.5, 57], [8.5, 55], [8, 53.5], [5, 53.3], [4, 51.8], [1.6, 51], [-1.5, 49.7], [-4.7, 48.5],
+      [-1.2, 46.1], [-1.8, 43.4], [-8, 43.7], [-9.3, 43], [-8.8, 38.7], [-9, 37], [-6.3, 36.8], [-5.6, 36], [-2, 36.7],
+      [0.2, 38.7], [-0.3, 39.5], [3.2, 41.9], [3, 43.3], [6, 43], [9, 44.4], [10.5, 42.9], [12.2, 41.8], [15.6, 38],
+      [16.2, 38.9], [18.5, 40.1], [17, 41], [13.5, 43.7], [12.3, 45.3], [13.7, 45.6], [15.2, 44.3], [19.5, 41.8],
+      [19.4, 40.3], [21, 38.3], [22.5, 36.4], [24, 38.2], [22.6, 40.4], [26.3, 40.9], [28.9, 41.2], [28, 42], [28.6, 44],
+      [30.7, 46.5], [33.5, 44.5], [36.5, 45.3], [38.5, 47], [39.5, 44.2], [41.5, 41.5], [36, 41.3], [31.5, 41.1],
+      [29, 41], [26.2, 40], [27.3, 37], [28.5, 36.6], [30.5, 36.3], [32.5, 36.1], [36.1, 36.8], [35.8, 35], [35, 33],
+      [34.3, 31.3], [34.9, 29.5],
+    ],
+  },
+  {
+    name: 'Greenland',
+    coordinates: [
+      [-73, 78], [-66, 81], [-40, 83.5], [-20, 82], [-18, 77], [-21, 70], [-25, 68.5], [-35, 66], [-42, 60], [-48, 61],
+      [-51, 64], [-53.5, 67], [-54, 70.5], [-58, 75.5], [-68, 76], [-73, 78],
+    ],
+  },
+  {
+    name: 'Australia',
+    coordinates: [
+      [113.5, -22], [114, -26.5], [115, -34], [118, -35], [123.5, -33.9], [129, -31.7], [134, -32.5], [137.5, -35.5],
+      [140, -38], [144, -38.3], [146.5, -39], [150, -37.5], [151.3, -33.8], [153.5, -28.5], [153, -25], [150.7, -22.5],
+      [146.2, -18.8], [145.3, -15], [142.8, -10.8], [141.6, -12.7], [141.5, -17], [139.5, -17.5], [136, -15.5],
+      [136.8, -12.2], [132.5, -11.5], [130, -13], [126, -14], [122.2, -17.3], [120.5, -19.8], [116.5, -20.7],
+      [113.5, -22],
+    ],
+  },
+  {
+    name: 'Antarctica',
+    coordinates: [
+      [-180, -78], [-160, -77], [-150, -76], [-130, -74], [-110, -74], [-100, -73], [-75, -73], [-65, -65], [-57, -63.5],
+      [-60, -70], [-62, -75], [-45, -78], [-30, -76], [-20, -73], [0, -70], [20, -70], [40, -69], [60, -67], [80, -67],
+      [100, -66], [120, -66], [140, -66.5], [160, -70], [170, -72], [180, -78], [180, -90], [-180, -90], [-180, -78],
+    ],
+  },
+  {
+    name: 'Honshu',
+    coordinates: [
+      [130, 31.3], [131.5, 31.5], [132, 33.8], [135, 33.5], [136.8, 34.3], [138.8, 34.6], [140, 35], [140.8, 35.7],
+      [141, 38.3], [142, 39.5], [141.5, 41.4], [140, 40.8], [139.8, 38.5], [138.5, 37.5], [136.8, 37.2], [136, 35.7],
+      [133, 35.5], [131, 34.5], [129.5, 33.5], [130, 31.3],
+    ],
+  },
+  {
+    name: 'Hokkaido',
+    coordinates: [[140, 41.5], [141.5, 42.5], [143.3, 42], [145.5, 43.3], [144.5, 44], [141.8, 45.4], [141.5, 43.5], [140.3, 43.2], [140, 41.5]],
+  },
+  {
+    name: 'Sakhalin',
+    coordinates: [[142, 46], [143.5, 46.5], [143, 49.3], [144.7, 49], [143, 54.3], [142.2, 54.2], [142, 51], [142, 46]],
+  },
+  {
+    name: 'Taiwan',
+    coordinates: [[120.1, 23], [121, 21.9], [121.9, 24.8], [121.5, 25.3], [120.2, 23.8], [120.1, 23]],
+  },
+  {
+    name: 'Luzon',
+    coordinates: [[120, 18.5], [122.3, 18.5], [122, 16], [124, 13], [121.5, 13.8], [120.6, 14.2], [119.8, 16.2], [120, 18.5]],
+  },
+  {
+    name: 'Mindanao',
+    coordinates: [[122, 7], [124, 9], [126, 9.5], [126.5, 7], [125.5, 5.6], [124, 6.4], [122, 7]],
+  },
+  {
+    name: 'Sumatra',
+    coordinates: [[95.3, 5.6], [97.5, 5.2], [100.3, 2.2], [104, -1], [106, -3.2], [105.8, -5.8], [104.5, -5.9], [102.3, -4], [100.3, -1], [98.7, 1.7], [95.3, 5.6]],
+  },
+  {
+    name: 'Java',
+    coordinates: [[105.2, -6.8], [106, -5.9], [110.4, -6.9], [114.5, -7.7], [114.4, -8.7], [110, -8.2], [106.5, -7.4], [105.2, -6.8]],
+  },
+  {
+    name: 'Borneo',
+    coordinates: [
+      [109, 1.5], [110, -1], [110.2, -2.9], [114.5, -4], [116.5, -3.3], [116, -1], [117.8, 1], [118.9, 4.8], [117.2, 7],
+      [116, 6.8], [113.9, 4.5], [111.2, 2.6], [109.6, 2], [109, 1.5],
+    ],
+  },
+  {
+    name: 'Sulawesi',
+    coordinates: [[119.5, -5.5], [120.5, -5.5], [121, -2], [123.3, -1], [124.9, 1.5], [120.5, 1.2], [119.5, -0.5], [119.5, -5.5]],
+  },
+  {
+    name: 'New Guinea',
+    coordinates: [
+      [131, -1.3], [134, -0.8], [138, -1.6], [141, -2.6], [145.8, -5], [147.5, -6], [150.8, -10.5], [147, -10],
+      [144, -7.8], [142.5, -9.2], [140.5, -8.5], [138.5, -8.3], [137.5, -5], [134, -3.8], [132, -2.8], [131, -1.3],
+    ],
+  },
+  {
+    name: 'New Zealand North Island',
+    coordinates: [
+      [172.7, -34.5], [174.5, -36], [176, -37.5], [178.5, -37.7], [177, -39.3], [176.7, -40.4], [175, -41.6],
+      [174.6, -39.8], [173.8, -39.2], [174.6, -37.5], [172.7, -34.5],
+    ],
+  },
+  {
+    name: 'New Zealand South Island',
+    coordinates: [[172.7, -40.5], [174.3, -41.7], [172.8, -43.8], [171, -44.5], [169, -46.6], [166.5, -46], [168, -44], [170.5, -42.8], [172.7, -40.5]],
+  },
+  {
+    name: 'Great Britain',
+    coordinates: [
+      [-5.7, 50], [1.4, 51.2], [1.7, 52.7], [0, 53.5], [-1.6, 55.6], [-2, 57.6], [-3, 58.6], [-5, 58.6], [-6.2, 56.8],
+      [-5, 55], [-3, 54], [-4.6, 53.3], [-4.2, 52.2], [-5.2, 51.7], [-3, 51.2], [-5.7, 50],
+    ],
+  },
+  {
+    name: 'Ireland',
+    coordinates: [[-10, 51.6], [-6, 52.1], [-6, 54], [-7.5, 55.3], [-10, 54.2], [-10, 51.6]],
+  },
+  {
+    name: 'Iceland',
+    coordinates: [[-24, 65.5], [-22, 66.4], [-16, 66.5], [-13.5, 65.2], [-18, 63.4], [-22.5, 63.8], [-24, 65.5]],
+  },
+  {
+    name: 'Madagascar',
+    coordinates: [[49.3, -12], [50.5, -15.5], [49.5, -17.5], [47.2, -24.9], [45, -25.5], [43.3, -22], [44, -17], [47, -15], [49.3, -12]],
+  },
+  {
+    name: 'Cuba',
+    coordinates: [[-85, 21.9], [-80, 23.1], [-74.2, 20.2], [-77.7, 19.9], [-81, 21.8], [-85, 21.9]],
+  },
+];
+
+const KM_PER_DEGREE_LAT = 110.57;
+const KM_PER_DEGREE_LON_AT_EQUATOR = 111.32;
+
+const isInsideRing = (lat: number, lon: number, ring: [number, number][]): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > lat !== yj > lat && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/** Whether a point falls within one of the bundled land outlines. */
+export const isOverLand = (lat: number, lon: number): boolean => {
+  const wrapped = wrapLongitude(lon);
+  return LAND_POLYGONS.some(polygon => isInsideRing(lat, wrapped, polygon.coordinates));
+};
+
+/**
+ * Rasterises the land outlines onto a global grid of cell centres, one scanline per row. Gives
+ * the same answer as isOverLand for every cell, far faster than testing cells one by one.
+ * @param resolution The cell size in degrees; rows run southwards from 90° and columns eastwards from -180°.
+ * @returns 1 for land cells and 0 for ocean, row by row.
+ */
+export const rasterizeLand = (resolution: number): Uint8Array => {
+  const width = Math.round(360 / resolution);
+  const height = Math.round(180 / resolution);
+  const land = new Uint8Array(width * height);
+  for (let row = 0; row < height; row++) {
+    const lat = 90 - (row + 0.5) * resolution;
+    LAND_POLYGONS.forEach(({ coordinates: ring }) => {
+      const crossings: number[] = [];
+      for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [xi, yi] = ring[i];
+        const [xj, yj] = ring[j];
+        if (yi > lat !== yj > lat) crossings.push(((xj - xi) * (lat - yi)) / (yj - yi) + xi);
+      }
+      crossings.sort((a, b) => a - b);
+      for (let k = 0; k + 1 < crossings.length; k += 2) {
+        // Cells whose centre lies in [crossings[k], crossings[k + 1]).
+        const first = Math.max(0, Math.ceil((crossings[k] + 180) / resolution - 0.5));
+        const last = Math.min(width - 1, Math.ceil((crossings[k + 1] + 180) / resolution - 0.5) - 1);
+        land.fill(1, row * width + first, row * width + last + 1);
+      }
+    });
+  }
+  return land;
+};
+
+/**
+ * Approximate distance from a point to the nearest bundled coastline.
+ * Uses a local flat-earth projection around the point, which is adequate at the few-hundred-km
+ * scale that matters for tsunami screening.
+ * @returns The distance in kilometres.
+ */
+export const distanceToCoastKm = (lat: number, lon: number): number => {
+  const kmPerDegreeLon = KM_PER_DEGREE_LON_AT_EQUATOR * Math.cos((lat * Math.PI) / 180);
+  const project = ([pointLon, pointLat]: [number, number]): [number, number] => [
+    wrapLongitude(pointLon - lon) * kmPerDegreeLon,
+    (pointLat - lat) * KM_PER_DEGREE_LAT,
+  ];
+
+  let nearest = Infinity;
+  LAND_POLYGONS.forEach(polygon => {
+    for (let i = 1; i < polygon.coordinates.length; i++) {
+      const [ax, ay] = project(polygon.coordinates[i - 1]);
+      const [bx, by] = project(polygon.coordinates[i]);
+      // Skip the artificial edges that close rings along the antimeridian and the pole.
+      if (Math.abs(polygon.coordinates[i][0]) === 180 && Math.abs(polygon.coordinates[i - 1][0]) === 180) continue;
+      if (Math.abs(bx - ax) > KM_PER_DEGREE_LON_AT_EQUATOR * 180) continue;
+
+      const dx = bx - ax;
+      const dy = by - ay;
+      const lengthSquared = dx * dx + dy * dy;
+      const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+      nearest = Math.min(nearest, Math.hypot(ax + t * dx, ay + t * dy));
+    }
+  });
+  return nearest;
+};
@@ -0,0 +1,178 @@
+import { LatLon } from '../types';
+
+// Web Mercator ("slippy map") math in world pixels: at zoom z the whole world is a square
+// TILE_SIZE * 2^z pixels wide, x growing eastwards from the antimeridian and y southwards from
+// MAX_LATITUDE. Longitudes wrap, so a view can show the Pacific without a seam.
+
+export const TILE_SIZE = 256;
+export const MAX_LATITUDE = 85.05112878;
+
+export interface MapView {
+  center: LatLon;
+  zoom: number; // fractional zooms scale the nearest tile level
+}
+
+export interface ScreenPoint {
+  x: number;
+  y: number;
+}
+
+export interface VisibleTile {
+  key: string;
+  z: number;
+  x: number; // wrapped into [0, 2^z)
+  y: number;
+  left: number; // screen position and size of the tile
+  top: number;
+  size: number;
+}
+
+export interface Cluster<T> {
+  key: string;
+  x: number;
+  y: number;
+  items: T[];
+}
+
+export const worldSize = (zoom: number): number => TILE_SIZE * 2 ** zoom;
+
+export const wrapLongitude = (lon: number): number => ((((lon + 180) % 360) + 360) % 360) - 180;
+
+/** Projects a coordinate to world pixels at a zoom level. */
+export const project = (lat: number, lon: number, zoom: number): ScreenPoint => {
+  const size = worldSize(zoom);
+  const clamped = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat));
+  const sin = Math.sin((clamped * Math.PI) / 180);
+  return {
+    x: ((lon + 180) / 360) * size,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * size,
+  };
+};
+
+/** The inverse of project; the longitude is wrapped into [-180, 180). */
+export const unproject = (x: number, y: number, zoom: number): LatLon => {
+  const size = worldSize(zoom);
+  const n = Math.PI - (2 * Math.PI * y) / size;
+  return {
+    lat: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    lon: wrapLongitude((x / size) * 360 - 180),
+  };
+};
+
+/** The world-pixel position of the top-left corner of the view. */
+export const viewOrigin = (view: MapView, width: number, height: number): ScreenPoint => {
+  const center = project(view.center.lat, view.center.lon, view.zoom);
+  return { x: center.x - width / 2, y: center.y - height / 2 };
+};
+
+export const screenToLatLon = (view: MapView, width: number, height: number, point: ScreenPoint): LatLon => {
+  const origin = viewOrigin(view, width, height);
+  return unproject(origin.x + point.x, origin.y + point.y, view.zoom);
+};
+
+/**
+ * Screen positions of every copy of a coordinate that falls inside the view (plus a margin).
+ * Views wider than the world show the same place more than once.
+ */
+export const latLonToScreen = (view: MapView, width: number, height: number, lat: number, lon: number, margin = 0): ScreenPoint[] => {
+  const origin = viewOrigin(view, width, height);
+  const size = worldSize(view.zoom);
+  const point = project(lat, lon, view.zoom);
+  const y = point.y - origin.y;
+  const copies: ScreenPoint[] = [];
+  for (let x = point.x - origin.x - Math.ceil((point.x - origin.x + margin) / size) * size; x <= width + margin; x += size) {
+    if (x >= -margin) copies.push({ x, y });
+  }
+  return copies;
+};
+
+/** The horizontal offsets, in screen pixels, of the world copies that overlap the view. */
+export const worldCopyOffsets = (view: MapView, width: number, height: number): number[] => {
+  const origin = viewOrigin(view, width, height);
+  const size = worldSize(view.zoom);
+  const offsets: number[] = [];
+  for (let k = Math.floor(origin.x / size); k * size < origin.x + width; k++) {
+    offsets.push(k * size - origin.x);
+  }
+  return offsets;
+};
+
+/** Keeps the world filling the view vertically and the zoom within range. */
+export const constrainView = (view: MapView, width: number, height: number, minZoom: number, maxZoom: number): MapView => {
+  const zoom = Math.max(minZoom, Math.min(maxZoom, view.zoom));
+  const size = worldSize(zoom);
+  const center = project(view.center.lat, view.center.lon, zoom);
+  const y = size <= height ? size / 2 : Math.max(height / 2, Math.min(size - height / 2, center.y));
+  return { zoom, center: { lat: unproject(center.x, y, zoom).lat, lon: wrapLongitude(view.center.lon) } };
+};
+
+/** The smallest zoom at which the world is at least as wide as the view. */
+export const minZoomFor = (width: number): number => Math.max(0, Math.log2(Math.max(1, width) / TILE_SIZE));
+
+export const panBy = (view: MapView, dx: number, dy: number): MapView => {
+  const center = project(view.center.lat, view.center.lon, view.zoom);
+  return { ...view, center: unproject(center.x - dx, center.y - dy, view.zoom) };
+};
+
+/** Zooms while keeping the coordinate under a screen point where it is. */
+export const zoomAround = (view: MapView, width: number, height: number, anchor: ScreenPoint, zoom: number): MapView => {
+  const origin = viewOrigin(view, width, height);
+  const scale = 2 ** (zoom - view.zoom);
+  const anchorWorld = { x: (origin.x + anchor.x) * scale, y: (origin.y + anchor.y) * scale };
+  const center = { x: anchorWorld.x - anchor.x + width / 2, y: anchorWorld.y - anchor.y + height / 2 };
+  return { zoom, center: unproject(center.x, center.y, zoom) };
+};
+
+/**
+ * The tiles needed to cover the view. Tiles come from the nearest integer zoom level and are
+ * scaled for fractional zooms; column indices wrap around the antimeridian.
+ */
+export const visibleTiles = (view: MapView, width: number, height: number, maxTileZoom: number): VisibleTile[] => {
+  const z = Math.max(0, Math.min(maxTileZoom, Math.round(view.zoom)));
+  const size = TILE_SIZE * 2 ** (view.zoom - z);
+  const origin = viewOrigin(view, width, height);
+  const count = 2 ** z;
+  const tiles: VisibleTile[] = [];
+  for (let ty = Math.max(0, Math.floor(origin.y / size)); ty < Math.min(count, Math.ceil((origin.y + height) / size)); ty++) {
+    for (let tx = Math.floor(origin.x / size); tx < Math.ceil((origin.x + width) / size); tx++) {
+      tiles.push({
+        key: `${z}/${tx}/${ty}`,
+        z,
+        x: ((tx % count) + count) % count,
+        y: ty,
+        left: tx * size - origin.x,
+        top: ty * size - origin.y,
+        size,
+      });
+    }
+  }
+  return tiles;
+};
+
+/**
+ * Greedily groups points that are within `radius` screen pixels of a cluster's first member.
+ * Points are taken in the given order, so callers sort by importance to choose cluster anchors.
+ */
+export const clusterPoints = <T>(points: (ScreenPoint & { key: string; item: T })[], radius: number): Cluster<T>[] => {
+  const clusters: Cluster<T>[] = [];
+  points.forEach(point => {
+    const cluster = clusters.find(c => Math.hypot(c.x - point.x, c.y - point.y) <= radius);
+    if (cluster) {
+      cluster.items.push(point.item);
+    } else {
+      clusters.push({ key: point.key, x: point.x, y: point.y, items: [point.item] });
+    }
+  });
+  return clusters;
+};
+
+/**
+ * Shifts each longitude of a ring by whole turns so consecutive points are never more than
+ * 180° apart, letting shapes that cross the antimeridian be drawn as one piece.
+ */
+export const unwrapRing = (points: LatLon[]): LatLon[] =>
+  points.reduce<LatLon[]>((ring, point) => {
+    const previous = ring[ring.length - 1];
+    const lon = previous ? point.lon + Math.round((previous.lon - point.lon) / 360) * 360 : point.lon;
+    return [...ring, { lat: point.lat, lon }];
+  }, []);
@@ -0,0 +1,83 @@
+import { EarthquakeEvent, LatLon, WatchZone } from '../types';
+import { LAND_POLYGONS } from './landMask';
+import { TILE_SIZE, project, worldSize } from './mapProjection';
+import { markerColor } from './formatting';
+import { zoneRing } from './watchZones';
+import { escapeHtml } from './alertTemplate';
+
+export interface MapSnapshotOptions {
+  center: LatLon;
+  /** Longitude span shown across the width, in degrees. */
+  spanDeg?: number;
+  width?: number;
+  height?: number;
+  events: EarthquakeEvent[];
+  /** Drawn on top with a ring and its magnitude. */
+  highlightId?: string;
+  zones?: WatchZone[];
+}
+
+const GRATICULE_STEP_DEG = 10;
+
+/**
+ * Draws a static map around a point as a self-contained SVG string, from the bundled coastlines
+ * rather than tiles so it needs no network access and prints crisply.
+ */
+export const renderMapSnapshotSvg = ({ center, spanDeg = 40, width = 640, height = 400, events, highlightId, zones = [] }: MapSnapshotOptions): string => {
+  const zoom = Math.log2((width * 360) / (spanDeg * TILE_SIZE));
+  const size = worldSize(zoom);
+  const middle = project(center.lat, center.lon, zoom);
+  const originX = middle.x - width / 2;
+  const originY = middle.y - height / 2;
+  const toScreen = (lat: number, lon: number) => {
+    const p = project(lat, lon, zoom);
+    return { x: p.x - originX, y: p.y - originY };
+  };
+  const fixed = (n: number) => n.toFixed(1);
+  // Whole-world copies that overlap the frame, so views across the antimeridian are complete.
+  const copies = [-size, 0, size].filter(offset => -originX + offset < width && -originX + offset + size > 0);
+
+  const land = LAND_POLYGONS.map(polygon => polygon.coordinates.map(([lon, lat], i) => {
+    const { x, y } = toScreen(lat, lon);
+    return `${i === 0 ? 'M' : 'L'}${fixed(x)},${fixed(y)}`;
+  }).join('') + 'Z').join('');
+
+  const graticule: string[] = [];
+  for (let lat = -80; lat <= 80; lat += GRATICULE_STEP_DEG) graticule.push(`M0,${fixed(toScreen(lat, 0).y)}H${width}`);
+  const firstLon = Math.floor((center.lon - spanDeg) / GRATICULE_STEP_DEG) * GRATICULE_STEP_DEG;
+  for (let lon = firstLon; lon <= center.lon + spanDeg; lon += GRATICULE_STEP_DEG) graticule.push(`M${fixed(toScreen(0, lon).x)},0V${height}`);
+
+  // Longitudes are shifted to the copy nearest the centre before projecting.
+  const near = (lon: number) => lon + Math.round((center.lon - lon) / 360) * 360;
+
+  const zoneShapes = zones.map(zone => {
+    const ring = zoneRing(zone.shape);
+    const shift = near(ring[0].lon) - ring[0].lon;
+    const points = ring.map(p => toScreen(p.lat, p.lon + shift)).map(p => `${fixed(p.x)},${fixed(p.y)}`).join(' ');
+    return `<polygon points="${points}" fill="#58a6ff" fill-opacity="0.1" stroke="#58a6ff" stroke-width="1"><title>${escapeHtml(zone.name)}</title></polygon>`;
+  });
+
+  const ordered = [...events].sort((a, b) => (a.id === highlightId ? 1 : b.id === highlightId ? -1 : a.magnitude - b.magnitude));
+  const markers = ordered.flatMap(event => {
+    const { x, y } = toScreen(event.lat, near(event.lon));
+    if (x < -20 || x > width + 20 || y < -20 || y > height + 20) return [];
+    const radius = Math.max(3, (event.magnitude - 4.5) * 2.5);
+    const color = markerColor(event.magnitude);
+    const highlight = event.id === highlightId
+      ? `<circle cx="${fixed(x)}" cy="${fixed(y)}" r="${fixed(radius + 4)}" fill="none" stroke="#0d1117" stroke-width="1.5"/>`
+        + `<text x="${fixed(x + radius + 6)}" y="${fixed(y + 4)}" font-size="12" font-weight="bold" fill="#0d1117">M${event.magnitude.toFixed(1)}</text>`
+      : '';
+    return [`<circle cx="${fixed(x)}" cy="${fixed(y)}" r="${fixed(radius)}" fill="${color}" fill-opacity="0.85" stroke="#ffffff" stroke-width="0.75"><title>${escapeHtml(`M${event.magnitude.toFixed(1)} ${event.location}`)}</title></circle>${highlight}`];
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="sans-serif">`,
+    `<rect width="${width}" height="${height}" fill="#e0f2fe"/>`,
+    `<path d="${graticule.join('')}" stroke="#bae6fd" stroke-width="0.5" fill="none"/>`,
+    ...copies.map(offset => `<path transform="translate(${fixed(offset)},0)" d="${land}" fill="#e7e5e4" stroke="#a8a29e" stroke-width="0.75"/>`),
+    ...zoneShapes,
+    ...markers,
+    `<text x="${width - 4}" y="${height - 4}" font-size="9" text-anchor="end" fill="#57534e">Bundled coarse coastlines</text>`,
+    '</svg>',
+  ].join('');
+};
@@ -0,0 +1,167 @@
+import { DigestPeriod, DigestSettings, EarthquakeEvent, GeneratedAlert } from '../types';
+import { isValidTimeZone, minutesOfDay } from './alertProfiles';
+import { AlertTemplates, RenderedAlertMessage, TemplateContext, renderTemplate } from './alertTemplate';
+import { DAY_MS, formatDateTime } from './formatting';
+
+// Daily and weekly summaries of seismic activity for people who don't need every alert. They are
+// built from the feed's events and the alert log, and go out at a wall-clock time in a chosen
+// time zone.
+
+export const DIGEST_PERIODS: DigestPeriod[] = ['daily', 'weekly'];
+
+export const DIGEST_PERIOD_DAYS: Record<DigestPeriod, number> = { daily: 1, weekly: 7 };
+
+/** Placeholders available in digest templates, with a description for the settings UI. */
+export const DIGEST_TEMPLATE_FIELDS: Record<string, string> = {
+  period: 'daily or weekly',
+  from: 'Start of the period (local)',
+  to: 'End of the period (local)',
+  eventCount: 'Number of events in the period',
+  magnitudeBands: 'Event counts by magnitude band, one per line',
+  largestMagnitude: 'Magnitude of the largest event',
+  largestLocation: 'Place of the largest event',
+  largestTime: 'Origin time of the largest event (local)',
+  largestLink: 'Event page URL of the largest event',
+  tsunamiCount: 'Number of events with a tsunami threat flagged',
+  tsunamiEvents: 'Events with a tsunami threat flagged, one per line',
+  alertCount: 'Number of alerts sent in the period',
+  alertList: 'Alerts sent in the period, one per line',
+};
+
+const MAGNITUDE_BANDS: { label: string; min: number; max: number }[] = [
+  { label: 'M8+', min: 8, max: Infinity },
+  { label: 'M7–7.9', min: 7, max: 8 },
+  { label: 'M6–6.9', min: 6, max: 7 },
+  { label: 'M5–5.9', min: 5, max: 6 },
+  { label: 'Below M5', min: -Infinity, max: 5 },
+];
+
+export interface DigestRun {
+  period: DigestPeriod;
+  from: Date;
+  to: Date;
+  /** The first run since the digest was switched on; it is only recorded, not sent. */
+  firstRun: boolean;
+}
+
+export interface DigestReport {
+  period: DigestPeriod;
+  from: Date;
+  to: Date;
+  events: EarthquakeEvent[]; // at or above the digest's magnitude, largest first
+  bands: { label: string; count: number }[];
+  largest: EarthquakeEvent | null;
+  tsunamiEvents: EarthquakeEvent[];
+  alerts: GeneratedAlert[]; // oldest first
+}
+
+const zonedParts = (at: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  return { year: part('year'), month: part('month'), day: part('day'), hour: part('hour'), minute: part('minute') };
+};
+
+/** The instant at which the wall clock in `timeZone` shows the given date and minute of the day. */
+const zonedInstant = (year: number, month: number, day: number, minutes: number, timeZone: string): Date => {
+  const wall = Date.UTC(year, month - 1, day, 0, minutes);
+  let instant = wall;
+  // The second pass corrects for an offset that differs across a DST change.
+  for (let pass = 0; pass < 2; pass++) {
+    const p = zonedParts(new Date(instant), timeZone);
+    instant = wall - (Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute) - instant);
+  }
+  return new Date(instant);
+};
+
+/** The most recent scheduled time of a digest at or before `at`, or null when the schedule is invalid. */
+export const latestDigestRun = (settings: DigestSettings, period: DigestPeriod, at: Date): Date | null => {
+  const minutes = minutesOfDay(settings.time);
+  if (minutes === null || !isValidTimeZone(settings.timeZone)) return null;
+  const today = zonedParts(at, settings.timeZone);
+  for (let daysBack = 0; daysBack <= 7; daysBack++) {
+    const date = new Date(Date.UTC(today.year, today.month - 1, today.day - daysBack));
+    if (period === 'weekly' && date.getUTCDay() !== settings.weekday) continue;
+    const run = zonedInstant(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), minutes, settings.timeZone);
+    if (run.getTime() <= at.getTime()) return run;
+  }
+  return null;
+};
+
+/**
+ * Digests whose scheduled time has passed since they last ran. Each covers the time since the
+ * previous scheduled run. Runs missed while the dashboard was closed are not made up; only the
+ * latest one is sent.
+ */
+export const dueDigestRuns = (settings: DigestSettings, lastRuns: Partial<Record<DigestPeriod, string>>, at: Date): DigestRun[] => {
+  if (!settings.enabled) return [];
+  return DIGEST_PERIODS.filter(period => settings[period]).flatMap(period => {
+    const to = latestDigestRun(settings, period, at);
+    const last = lastRuns[period];
+    if (!to || (last !== undefined && Date.parse(last) >= to.getTime())) return [];
+    const from = latestDigestRun(settings, period, new Date(to.getTime() - 1)) ?? new Date(to.getTime() - DIGEST_PERIOD_DAYS[period] * DAY_MS);
+    return [{ period, from, to, firstRun: last === undefined }];
+  });
+};
+
+/** Summarises the events (by origin time) and the alerts that went out in [from, to). */
+export const buildDigestReport = (
+  period: DigestPeriod,
+  from: Date,
+  to: Date,
+  events: EarthquakeEvent[],
+  alerts: GeneratedAlert[],
+  minMagnitude: number,
+): DigestReport => {
+  const inPeriod = (time: number) => time >= from.getTime() && time < to.getTime();
+  // Digests report real activity; exercises running at the time are left out.
+  const included = events
+    .filter(event => !event.exercise && event.magnitude >= minMagnitude && inPeriod(event.time.getTime()))
+    .sort((a, b) => b.magnitude - a.magnitude);
+  return {
+    period,
+    from,
+    to,
+    events: included,
+    bands: MAGNITUDE_BANDS
+      .filter(band => band.max > minMagnitude)
+      .map(band => ({ label: band.label, count: included.filter(event => event.magnitude >= band.min && event.magnitude < band.max).length })),
+    largest: included[0] ?? null,
+    tsunamiEvents: included.filter(event => event.isTsunamiWarning),
+    // Alerts held back by quiet hours count once, as the digest they went out in.
+    alerts: alerts
+      .filter(alert => !alert.digestPeriod && !alert.exercise && (alert.deliveries?.length ?? 0) > 0 && inPeriod(Date.parse(alert.timestamp)))
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp)),
+  };
+};
+
+const describeEvent = (event: EarthquakeEvent) => `M${event.magnitude.toFixed(1)} ${event.location}, ${formatDateTime(event.time)}`;
+
+export const buildDigestContext = (report: DigestReport): TemplateContext => ({
+  period: report.period,
+  from: report.from,
+  to: report.to,
+  eventCount: report.events.length,
+  magnitudeBands: report.bands.map(band => `${band.label}: ${band.count}`).join('\n'),
+  largestMagnitude: report.largest?.magnitude ?? null,
+  largestLocation: report.largest?.location ?? null,
+  largestTime: report.largest?.time ?? null,
+  largestLink: report.largest?.link ?? null,
+  tsunamiCount: report.tsunamiEvents.length,
+  tsunamiEvents: report.tsunamiEvents.map(describeEvent).join('\n'),
+  alertCount: report.alerts.length,
+  alertList: report.alerts.map(alert => `${formatDateTime(new Date(alert.timestamp))}: ${alert.subject ?? describeEvent(alert.event)}`).join('\n'),
+});
+
+/**
+ * Renders a digest with its own templates, which use DIGEST_TEMPLATE_FIELDS.
+ * @throws If any of the templates is malformed.
+ */
+export const renderDigestMessage = (templates: AlertTemplates, report: DigestReport): RenderedAlertMessage => {
+  const context = buildDigestContext(report);
+  const fields = DIGEST_TEMPLATE_FIELDS;
+  return {
+    subject: renderTemplate(templates.subject, context, { fields }).replace(/\s+/g, ' ').trim(),
+    text: renderTemplate(templates.text, context, { fields }),
+    html: templates.html ? renderTemplate(templates.html, context, { html: true, fields }) : undefined,
+  };
+};
@@ -0,0 +1,157 @@
+export interface PollState {
+  lastAttemptAt: Date | null;
+  lastSuccessAt: Date | null;
+  lastError: Error | null;
+  consecutiveFailures: number;
+  nextRunAt: Date | null;
+  running: boolean;
+  paused: boolean; // true while the page is hidden
+}
+
+/** Abstracts page visibility so the scheduler also runs outside the browser. */
+export interface VisibilitySource {
+  isHidden: () => boolean;
+  subscribe: (onChange: () => void) => () => void;
+}
+
+export interface PollSchedulerOptions {
+  task: () => Promise<void>;
+  intervalMs: number;
+  /** Upper bound for the delay between retries after consecutive failures. */
+  maxBackoffMs: number;
+  backoffFactor?: number;
+  visibility?: VisibilitySource | null;
+  onStateChange?: (state: PollState) => void;
+}
+
+export interface PollScheduler {
+  start: () => void;
+  stop: () => void;
+  /** Runs the task immediately, unless a run is already in flight. */
+  runNow: () => Promise<void>;
+  setInterval: (intervalMs: number) => void;
+  getState: () => PollState;
+}
+
+export const documentVisibility: VisibilitySource | null =
+  typeof document === 'undefined'
+    ? null
+    : {
+        isHidden: () => document.visibilityState === 'hidden',
+        subscribe: onChange => {
+          document.addEventListener('visibilitychange', onChange);
+          return () => document.removeEventListener('visibilitychange', onChange);
+        },
+      };
+
+/**
+ * Computes the delay before the next run: the regular interval after a success, growing
+ * exponentially with each consecutive failure up to the configured maximum.
+ */
+export const nextDelayMs = (intervalMs: number, consecutiveFailures: number, maxBackoffMs: number, backoffFactor = 2): number =>
+  consecutiveFailures === 0 ? intervalMs : Math.min(intervalMs * backoffFactor ** consecutiveFailures, Math.max(maxBackoffMs, intervalMs));
+
+/**
+ * Creates a scheduler that runs a task on a fixed interval, backs off exponentially on failure,
+ * pauses while the page is hidden and catches up as soon as it becomes visible again.
+ */
+export const createPollScheduler = (options: PollSchedulerOptions): PollScheduler => {
+  const visibility = options.visibility === undefined ? documentVisibility : options.visibility;
+  let intervalMs = options.intervalMs;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let inFlight: Promise<void> | null = null;
+  let started = false;
+  let unsubscribe: (() => void) | null = null;
+  let state: PollState = {
+    lastAttemptAt: null,
+    lastSuccessAt: null,
+    lastError: null,
+    consecutiveFailures: 0,
+    nextRunAt: null,
+    running: false,
+    paused: false,
+  };
+
+  const update = (patch: Partial<PollState>) => {
+    state = { ...state, ...patch };
+    options.onStateChange?.(state);
+  };
+
+  const clearTimer = () => {
+    if (timer !== null) clearTimeout(timer);
+    timer = null;
+  };
+
+  const schedule = (delayMs: number) => {
+    clearTimer();
+    if (!started || state.paused) return;
+    timer = setTimeout(() => void runNow(), delayMs);
+    update({ nextRunAt: new Date(Date.now() + delayMs) });
+  };
+
+  const runNow = (): Promise<void> => {
+    if (inFlight) return inFlight;
+    clearTimer();
+    update({ running: true, nextRunAt: null, lastAttemptAt: new Date() });
+
+    inFlight = options
+      .task()
+      .then(
+        () => update({ lastSuccessAt: new Date(), lastError: null, consecutiveFailures: 0 }),
+        error => update({ lastError: error instanceof Error ? error : new Error(String(error)), consecutiveFailures: state.consecutiveFailures + 1 }),
+      )
+      .finally(() => {
+        inFlight = null;
+        update({ running: false });
+        schedule(nextDelayMs(intervalMs, state.consecutiveFailures, options.maxBackoffMs, options.backoffFactor));
+      });
+    return inFlight;
+  };
+
+  const handleVisibilityChange = () => {
+    if (!visibility) return;
+    if (visibility.isHidden()) {
+      clearTimer();
+      update({ paused: true, nextRunAt: null });
+      return;
+    }
+
+    update({ paused: false });
+    const sinceLastAttempt = state.lastAttemptAt ? Date.now() - state.lastAttemptAt.getTime() : Infinity;
+    const due = nextDelayMs(intervalMs, state.consecutiveFailures, options.maxBackoffMs, options.backoffFactor);
+    if (sinceLastAttempt >= due) {
+      void runNow();
+    } else {
+      schedule(due - sinceLastAttempt);
+    }
+  };
+
+  return {
+    start: () => {
+      if (started) return;
+      started = true;
+      unsubscribe = visibility?.subscribe(handleVisibilityChange) ?? null;
+      if (visibility?.isHidden()) {
+        update({ paused: true });
+      } else {
+        void runNow();
+      }
+    },
+    stop: () => {
+      started = false;
+      clearTimer();
+      unsubscribe?.();
+      unsubscribe = null;
+      update({ nextRunAt: null });
+    },
+    runNow,
+    setInterval: (newIntervalMs: number) => {
+      intervalMs = newIntervalMs;
+      if (started && !inFlight && !state.paused) {
+        const sinceLastAttempt = state.lastAttemptAt ? Date.now() - state.lastAttemptAt.getTime() : 0;
+        schedule(Math.max(0, nextDelayMs(intervalMs, state.consecutiveFailures, options.maxBackoffMs, options.backoffFactor) - sinceLastAttempt));
+      }
+    },
+    getState: () => state,
+  };
+};
@@ -0,0 +1,86 @@
+import { ApiServerSettings, DigestPeriod, EarthquakeEvent, GeneratedAlert } from '../types';
+import { SettingKey, SettingsSchema } from './settingsStore';
+
+// The protocol between `sentinel serve` and dashboards in server mode: REST endpoints for reads and
+// changes, and a server-sent event stream that starts with a snapshot and then carries every change.
+
+/** The settings the server owns. In server mode, dashboards edit the server's copy instead of their own. */
+export const SERVER_SETTING_KEYS = ['alertSettings', 'digestSettings', 'feedSources', 'threatRules', 'pollIntervalMinutes'] as const satisfies readonly SettingKey[];
+
+export type ServerSettings = Pick<SettingsSchema, typeof SERVER_SETTING_KEYS[number]>;
+
+export interface ServerStatus {
+  fetchedAt: string; // empty until the first successful poll
+  /** The last poll's error, or null when it succeeded. */
+  error: string | null;
+  digestRuns: Partial<Record<DigestPeriod, string>>;
+}
+
+/** Events and alerts are sent as JSON; revive event dates before use. */
+export type ServerUpdate =
+  | { type: 'events'; fetchedAt: string; upserted: EarthquakeEvent[]; removed: string[] }
+  | { type: 'alerts'; alerts: GeneratedAlert[] }
+  | { type: 'settings'; settings: ServerSettings } // without credentials
+  | ({ type: 'status' } & ServerStatus);
+
+export type ServerSnapshot = { type: 'snapshot'; events: EarthquakeEvent[]; alerts: GeneratedAlert[]; settings: ServerSettings } & ServerStatus;
+
+export const SERVER_MESSAGE_TYPES: (ServerUpdate | ServerSnapshot)['type'][] = ['snapshot', 'events', 'alerts', 'settings', 'status'];
+
+export const DEFAULT_API_SERVER: ApiServerSettings = { enabled: false, url: 'http://localhost:8787' };
+
+const endpoint = (server: ApiServerSettings, path: string) => `${server.url.replace(/\/+$/, '')}${path}`;
+
+/**
+ * Sends a request to the server, with the API token when one is configured.
+ * @throws Error with the server's message when the request fails.
+ */
+const request = async <T>(server: ApiServerSettings, path: string, init: RequestInit = {}): Promise<T> => {
+  const response = await fetch(endpoint(server, path), {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(server.token ? { Authorization: `Bearer ${server.token}` } : {}),
+      ...init.headers,
+    },
+  });
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(body?.error ?? `The server responded with ${response.status} ${response.statusText}`);
+  }
+  return body as T;
+};
+
+export const acknowledgeServerAlert = (server: ApiServerSettings, alertId: string, acknowledgedBy: string): Promise<GeneratedAlert> =>
+  request(server, `/alerts/${encodeURIComponent(alertId)}/acknowledge`, { method: 'POST', body: JSON.stringify({ acknowledgedBy }) });
+
+export const updateServerSettings = (server: ApiServerSettings, patch: Partial<ServerSettings>): Promise<ServerSettings> =>
+  request(server, '/settings', { method: 'PUT', body: JSON.stringify(patch) });
+
+/** `reconnecting` after a dropped or failed connection; `closed` when the browser gave up, e.g. on an HTTP error. */
+export type ServerConnection = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+/**
+ * Subscribes to the server's stream. The browser reconnects on its own after a dropped connection,
+ * and the server starts every connection with a fresh snapshot. EventSource can't send headers, so
+ * the API token goes in the query string.
+ * @returns A function that closes the stream.
+ */
+export const openServerStream = (
+  server: ApiServerSettings,
+  onMessage: (message: ServerUpdate | ServerSnapshot) => void,
+  onConnectionChange: (connection: ServerConnection) => void,
+): (() => void) => {
+  const source = new EventSource(endpoint(server, server.token ? `/stream?token=${encodeURIComponent(server.token)}` : '/stream'));
+  onConnectionChange('connecting');
+  source.onopen = () => onConnectionChange('open');
+  source.onerror = () => onConnectionChange(source.readyState === EventSource.CLOSED ? 'closed' : 'reconnecting');
+  SERVER_MESSAGE_TYPES.forEach(type => source.addEventListener(type, e => {
+    try {
+      onMessage(JSON.parse((e as MessageEvent<string>).data));
+    } catch (err) {
+      console.error('Ignoring malformed server message:', err);
+    }
+  }));
+  return () => source.close();
+};
@@ -0,0 +1,106 @@
+import { EarthquakeEvent } from '../types';
+import { DAY_MS } from './formatting';
+import { haversineKm } from './geo';
+
+// Groups events into earthquake sequences with the Gardner-Knopoff (1974) space-time windows: an
+// event falls in a larger event's sequence when it is within a magnitude-dependent distance of it
+// and follows it within a magnitude-dependent time.
+
+/** How long before a mainshock smaller events nearby count as its foreshocks. */
+export const FORESHOCK_WINDOW_DAYS = 3;
+
+/** Sequences with at least this many events and no dominant mainshock are flagged as swarms. */
+export const SWARM_MIN_EVENTS = 5;
+
+/**
+ * The largest aftershock is typically about 1.2 units below the mainshock (Båth's law). When the
+ * two largest events are closer than this, no single event dominates and the sequence is a swarm.
+ */
+export const SWARM_MAGNITUDE_GAP = 0.5;
+
+export type SequenceRole = 'mainshock' | 'foreshock' | 'aftershock';
+
+export interface EventSequence {
+  id: string; // the mainshock's id
+  mainshock: EarthquakeEvent;
+  foreshocks: EarthquakeEvent[]; // newest first, as are aftershocks
+  aftershocks: EarthquakeEvent[];
+  largestAftershock: EarthquakeEvent | null;
+  swarm: boolean;
+}
+
+export interface SequenceIndex {
+  /** Sequences with at least one foreshock or aftershock, newest mainshock first. */
+  sequences: EventSequence[];
+  /** The sequence each grouped event belongs to, keyed by event id. */
+  byEventId: Map<string, EventSequence>;
+}
+
+/** Gardner-Knopoff distance window, in km. */
+export const sequenceDistanceKm = (magnitude: number): number => 10 ** (0.1238 * magnitude + 0.983);
+
+/** Gardner-Knopoff time window, in days. */
+export const sequenceDurationDays = (magnitude: number): number =>
+  magnitude >= 6.5 ? 10 ** (0.032 * magnitude + 2.7389) : 10 ** (0.5409 * magnitude - 0.547);
+
+/**
+ * Groups events into sequences. The largest ungrouped event is taken as a mainshock and claims the
+ * ungrouped events inside its windows, then the next largest, and so on, so each event belongs to
+ * at most one sequence and a sequence never contains an event larger than its mainshock.
+ */
+export const groupSequences = (events: EarthquakeEvent[]): SequenceIndex => {
+  const bySize = [...events].sort((a, b) => b.magnitude - a.magnitude || a.time.getTime() - b.time.getTime());
+  const grouped = new Set<string>();
+  const sequences: EventSequence[] = [];
+
+  for (const mainshock of bySize) {
+    if (grouped.has(mainshock.id)) continue;
+    grouped.add(mainshock.id);
+    const start = mainshock.time.getTime() - FORESHOCK_WINDOW_DAYS * DAY_MS;
+    const end = mainshock.time.getTime() + sequenceDurationDays(mainshock.magnitude) * DAY_MS;
+    const radius = sequenceDistanceKm(mainshock.magnitude);
+
+    const members = events.filter(event => {
+      const time = event.time.getTime();
+      return !grouped.has(event.id) && time >= start && time <= end
+        && haversineKm(mainshock.lat, mainshock.lon, event.lat, event.lon) <= radius;
+    });
+    if (members.length === 0) continue;
+    members.forEach(event => grouped.add(event.id));
+
+    const newestFirst = (a: EarthquakeEvent, b: EarthquakeEvent) => b.time.getTime() - a.time.getTime();
+    const aftershocks = members.filter(event => event.time.getTime() >= mainshock.time.getTime()).sort(newestFirst);
+    const foreshocks = members.filter(event => event.time.getTime() < mainshock.time.getTime()).sort(newestFirst);
+    const largestAftershock = aftershocks.reduce<EarthquakeEvent | null>((largest, event) => (!largest || event.magnitude > largest.magnitude ? event : largest), null);
+    const secondLargest = Math.max(...members.map(event => event.magnitude));
+
+    sequences.push({
+      id: mainshock.id,
+      mainshock,
+      foreshocks,
+      aftershocks,
+      largestAftershock,
+      swarm: members.length + 1 >= SWARM_MIN_EVENTS && mainshock.magnitude - secondLargest < SWARM_MAGNITUDE_GAP,
+    });
+  }
+
+  sequences.sort((a, b) => b.mainshock.time.getTime() - a.mainshock.time.getTime());
+  const byEventId = new Map<string, EventSequence>();
+  sequences.forEach(sequence => [sequence.mainshock, ...sequence.foreshocks, ...sequence.aftershocks].forEach(event => byEventId.set(event.id, sequence)));
+  return { sequences, byEventId };
+};
+
+/** An event's place in its sequence, or null when it isn't part of one. */
+export const sequenceRole = (index: SequenceIndex, event: EarthquakeEvent): SequenceRole | null => {
+  const sequence = index.byEventId.get(event.id);
+  if (!sequence) return null;
+  if (sequence.mainshock.id === event.id) return 'mainshock';
+  return event.time.getTime() < sequence.mainshock.time.getTime() ? 'foreshock' : 'aftershock';
+};
+
+/**
+ * Whether alerting should skip an event under a "mainshock and aftershocks above M_x only" rule.
+ * Foreshocks are not suppressed: when they were announced they were the largest event so far.
+ */
+export const isSuppressedAftershock = (index: SequenceIndex, event: EarthquakeEvent, minMagnitude: number | undefined): boolean =>
+  minMagnitude !== undefined && sequenceRole(index, event) === 'aftershock' && event.magnitude < minMagnitude;
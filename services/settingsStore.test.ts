@@ -0,0 +1,92 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { AlertSettings } from '../types';
+import { DEFAULT_ALERT_SETTINGS } from './alertEngine';
+import { exportSettings, keepCredentials, parseSettingsFile, readSetting, withoutCredentials } from './settingsStore';
+
+const WITH_SECRETS: AlertSettings = {
+  ...DEFAULT_ALERT_SETTINGS,
+  transport: { type: 'webhook', url: 'https://mail.example.org/send', headers: { Authorization: 'Bearer mail-key' } },
+  channels: [
+    { id: 'email', type: 'email', enabled: true },
+    { id: 'slack', type: 'slack', enabled: true, webhookUrl: 'https://hooks.slack.com/services/T000/B000/secret' },
+    { id: 'teams', type: 'teams', enabled: true, webhookUrl: 'https://example.webhook.office.com/secret' },
+    { id: 'discord', type: 'discord', enabled: false, webhookUrl: 'https://discord.com/api/webhooks/1/secret' },
+    { id: 'sms', type: 'sms', enabled: true, gatewayUrl: 'https://sms.example.org', authToken: 'sms-token', numbers: ['+15550100'], template: 'M{magnitude}', maxLength: 160 },
+  ],
+};
+
+afterEach(() => {
+  window.localStorage.clear();
+});
+
+describe('withoutCredentials', () => {
+  it('drops every secret a shared file should not carry', () => {
+    const stripped = withoutCredentials(WITH_SECRETS);
+    expect(JSON.stringify(stripped)).not.toMatch(/secret|mail-key|sms-token/);
+    expect(stripped.transport).toEqual({ type: 'webhook', url: 'https://mail.example.org/send' });
+    expect(stripped.channels?.map(channel => channel.enabled)).toEqual([true, true, true, false, true]);
+  });
+
+  it('drops the SMTP password but keeps the rest of the transport', () => {
+    const smtp = withoutCredentials({ ...DEFAULT_ALERT_SETTINGS, transport: { type: 'smtp', host: 'mail.example.org', port: 465, secure: true, username: 'sentinel', password: 'p4ss', from: 'sentinel@example.org' } });
+    expect(smtp.transport).toEqual({ type: 'smtp', host: 'mail.example.org', port: 465, secure: true, username: 'sentinel', password: undefined, from: 'sentinel@example.org' });
+  });
+});
+
+describe('keepCredentials', () => {
+  it('restores what withoutCredentials dropped', () => {
+    expect(keepCredentials(withoutCredentials(WITH_SECRETS), WITH_SECRETS)).toEqual(WITH_SECRETS);
+  });
+
+  it('keeps credentials that were changed', () => {
+    const next: AlertSettings = { ...WITH_SECRETS, channels: [{ id: 'slack', type: 'slack', enabled: true, webhookUrl: 'https://hooks.slack.com/services/new' }] };
+    expect(keepCredentials(next, WITH_SECRETS).channels).toEqual(next.channels);
+  });
+
+  it('does not carry a secret over to a different channel', () => {
+    const next: AlertSettings = { ...DEFAULT_ALERT_SETTINGS, channels: [{ id: 'slack', type: 'discord', enabled: true, webhookUrl: '' }] };
+    expect(keepCredentials(next, WITH_SECRETS).channels).toEqual(next.channels);
+  });
+
+  it('does not send a secret to a different endpoint', () => {
+    const transport = { type: 'smtp' as const, host: 'mail.example.org', port: 587, secure: false, username: 'sentinel', from: 'sentinel@example.org' };
+    const current: AlertSettings = { ...DEFAULT_ALERT_SETTINGS, transport: { ...transport, password: 'p4ss' } };
+    const password = (changes: Partial<typeof transport>) =>
+      keepCredentials({ ...DEFAULT_ALERT_SETTINGS, transport: { ...transport, ...changes } }, current).transport;
+    expect(password({})).toMatchObject({ password: 'p4ss' });
+    expect(password({ host: 'mail.attacker.example' })).not.toHaveProperty('password');
+    expect(password({ port: 2525 })).not.toHaveProperty('password');
+    expect(password({ username: 'someone-else' })).not.toHaveProperty('password');
+
+    const stripped = withoutCredentials(WITH_SECRETS);
+    const webhook = keepCredentials({ ...stripped, transport: { type: 'webhook', url: 'https://collector.example/send' } }, WITH_SECRETS);
+    expect(webhook.transport).toEqual({ type: 'webhook', url: 'https://collector.example/send' });
+
+    const channels = stripped.channels?.map(channel => (channel.type === 'sms' ? { ...channel, gatewayUrl: 'https://collector.example/sms' } : channel));
+    const sms = keepCredentials({ ...stripped, channels }, WITH_SECRETS).channels?.find(channel => channel.type === 'sms');
+    expect(sms).toMatchObject({ gatewayUrl: 'https://collector.example/sms', authToken: undefined });
+  });
+});
+
+describe('exportSettings', () => {
+  it('leaves credentials out unless asked to include them', () => {
+    window.localStorage.setItem('alertSettings', JSON.stringify(WITH_SECRETS));
+
+    const shared = parseSettingsFile(exportSettings(window.localStorage)).settings.alertSettings;
+    expect(JSON.stringify(shared)).not.toMatch(/secret|mail-key|sms-token/);
+    expect(parseSettingsFile(exportSettings(window.localStorage, { includeCredentials: true })).settings.alertSettings).toEqual(WITH_SECRETS);
+  });
+});
+
+describe('readSetting', () => {
+  it('returns valid settings and nothing otherwise', () => {
+    window.localStorage.setItem('alertSettings', JSON.stringify(WITH_SECRETS));
+    window.localStorage.setItem('pollIntervalMinutes', '"often"');
+    window.localStorage.setItem('theme', '{not json');
+    expect(readSetting(window.localStorage, 'alertSettings')).toEqual(WITH_SECRETS);
+    expect(readSetting(window.localStorage, 'pollIntervalMinutes')).toBeUndefined();
+    expect(readSetting(window.localStorage, 'theme')).toBeUndefined();
+    expect(readSetting(window.localStorage, 'digestSettings')).toBeUndefined();
+  });
+});
@@ -0,0 +1,352 @@
+import { AlertSettings, AlertThread, ApiServerSettings, CoastalPoint, DigestPeriod, DigestSettings, EarthquakeEvent, ExerciseScenario, FeedSourceConfig, GeneratedAlert, ThreatRule, TransportConfig } from '../types';
+import { threadsFromProcessedKeys } from './alertLifecycle';
+
+// Everything the dashboard keeps in localStorage, one JSON value per key. The keys are versioned as
+// a whole: `settingsVersion` records the schema the stored values follow, and MIGRATIONS upgrade
+// older data (from storage or from an imported file) before any of it is read. Values are also
+// validated on every read, so a hand-edited or truncated entry falls back to its default instead
+// of crashing the app.
+
+export interface CachedFeed {
+  fetchedAt: string;
+  events: EarthquakeEvent[]; // as JSON; revive before use
+}
+
+export interface SettingsSchema {
+  theme: 'light' | 'dark';
+  pollIntervalMinutes: number;
+  alertSettings: AlertSettings;
+  digestSettings: DigestSettings;
+  feedSources: FeedSourceConfig[];
+  threatRules: ThreatRule[];
+  coastalPoints: CoastalPoint[];
+  exerciseScenarios: ExerciseScenario[];
+  showIsochrones: boolean;
+  groupSequences: boolean;
+  mapTileSource: string;
+  mapCustomTileUrl: string;
+  operatorName: string;
+  apiServer: ApiServerSettings;
+  alertThreads: Record<string, AlertThread>;
+  generatedAlerts: GeneratedAlert[];
+  digestRuns: Partial<Record<DigestPeriod, string>>; // when each digest last ran
+  lastGoodFeed: CachedFeed | null;
+}
+
+export type SettingKey = keyof SettingsSchema;
+
+export const SETTINGS_VERSION_KEY = 'settingsVersion';
+
+/** Dispatched on `window` when this tab writes settings outside a hook, e.g. on import. */
+export const SETTINGS_CHANGED_EVENT = 'sentinel-settings-changed';
+
+/**
+ * The configuration a team would share: alerting, sources, rules and display preferences. The
+ * operator's name and runtime state such as alert history stay with the browser they belong to.
+ */
+export const SHARED_SETTING_KEYS: SettingKey[] = [
+  'alertSettings', 'digestSettings', 'feedSources', 'threatRules', 'coastalPoints', 'exerciseScenarios', 'pollIntervalMinutes',
+  'theme', 'showIsochrones', 'groupSequences', 'mapTileSource', 'mapCustomTileUrl',
+];
+
+type StoredSettings = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+const isOptional = (check: (value: unknown) => boolean) => (value: unknown) => value === undefined || check(value);
+const arrayOf = (check: (value: unknown) => boolean) => (value: unknown): boolean => Array.isArray(value) && value.every(check);
+const oneOf = (...options: string[]) => (value: unknown): boolean => isString(value) && options.includes(value);
+const shape = (fields: Record<string, (value: unknown) => boolean>) => (value: unknown): boolean =>
+  isObject(value) && Object.entries(fields).every(([field, check]) => check(value[field]));
+
+const withId = shape({ id: isString });
+
+const VALIDATORS: { [K in SettingKey]: (value: unknown) => boolean } = {
+  theme: oneOf('light', 'dark'),
+  pollIntervalMinutes: value => isNumber(value) && value > 0,
+  alertSettings: shape({
+    notificationsEnabled: isBoolean,
+    profiles: arrayOf(shape({
+      id: isString,
+      name: isString,
+      enabled: isBoolean,
+      minMagnitude: isNumber,
+      aftershockMinMagnitude: isOptional(isNumber),
+      recipients: arrayOf(isString),
+      channelIds: isOptional(arrayOf(isString)),
+      emailTemplate: isString,
+      emailSubject: isOptional(isString),
+      emailHtmlTemplate: isOptional(isString),
+      quietHours: isOptional(arrayOf(shape({
+        id: isString,
+        start: isString,
+        end: isString,
+        timeZone: isString,
+        maxLevel: oneOf('none', 'info', 'advisory', 'watch', 'warning'),
+        action: oneOf('suppress', 'digest'),
+      }))),
+      escalation: isOptional(shape({ enabled: isBoolean, afterMinutes: isNumber, recipients: arrayOf(isString), channelIds: isOptional(arrayOf(isString)) })),
+    })),
+    zones: isOptional(arrayOf(shape({ id: isString, name: isString, shape: isObject, minMagnitude: isNumber, recipients: arrayOf(isString), profileId: isOptional(isString), enabled: isBoolean }))),
+    transport: isOptional(shape({ type: oneOf('smtp', 'webhook', 'sink') })),
+    channels: isOptional(arrayOf(shape({ id: isString, type: oneOf('email', 'desktop', 'slack', 'teams', 'discord', 'sms'), enabled: isBoolean }))),
+  }),
+  digestSettings: shape({
+    enabled: isBoolean,
+    daily: isBoolean,
+    weekly: isBoolean,
+    time: isString,
+    weekday: isNumber,
+    timeZone: isString,
+    minMagnitude: isNumber,
+    recipients: arrayOf(isString),
+    channelIds: isOptional(arrayOf(isString)),
+    subjectTemplate: isString,
+    textTemplate: isString,
+    htmlTemplate: isOptional(isString),
+  }),
+  feedSources: arrayOf(shape({ id: isString, name: isString, kind: oneOf('usgs-geojson', 'fdsn-text', 'nws-atom', 'nws-cap'), url: isString, enabled: isBoolean })),
+  threatRules: arrayOf(shape({
+    id: isString,
+    description: isString,
+    field: oneOf('magnitude', 'depth', 'coastDistanceKm'),
+    operator: oneOf('>=', '<=', '>', '<'),
+    value: isNumber,
+    points: isNumber,
+    enabled: isBoolean,
+  })),
+  coastalPoints: arrayOf(shape({ id: isString, name: isString, lat: isNumber, lon: isNumber })),
+  exerciseScenarios: arrayOf(shape({
+    id: isString,
+    name: isString,
+    events: arrayOf(shape({
+      id: isString,
+      offsetMinutes: isNumber,
+      location: isString,
+      lat: isNumber,
+      lon: isNumber,
+      depth: isNumber,
+      magnitude: isNumber,
+      tsunami: isBoolean,
+      revisions: arrayOf(shape({ id: isString, afterMinutes: isNumber, lat: isNumber, lon: isNumber, depth: isNumber, magnitude: isNumber, tsunami: isBoolean })),
+    })),
+  })),
+  showIsochrones: isBoolean,
+  groupSequences: isBoolean,
+  mapTileSource: isString,
+  mapCustomTileUrl: isString,
+  operatorName: isString,
+  apiServer: shape({ enabled: isBoolean, url: isString, token: isOptional(isString) }),
+  alertThreads: value => isObject(value) && Object.values(value).every(shape({ key: isString, eventId: isString, cancelled: isBoolean, missingPolls: isNumber })),
+  generatedAlerts: arrayOf(shape({ id: isString, timestamp: isString, body: isString, event: withId })),
+  digestRuns: value => isObject(value) && Object.values(value).every(isString),
+  lastGoodFeed: value => value === null || shape({ fetchedAt: isString, events: arrayOf(withId) })(value),
+};
+
+export const isSettingKey = (key: string): key is SettingKey => Object.prototype.hasOwnProperty.call(VALIDATORS, key);
+
+/** Whether a value parsed from storage or a file has the shape its key expects. */
+export const isValidSetting = <K extends SettingKey>(key: K, value: unknown): value is SettingsSchema[K] => VALIDATORS[key](value);
+
+/**
+ * Upgrades stored settings from version `i` to `i + 1`. Append new steps for schema changes;
+ * never edit a released one, since data at every older version may still be out there.
+ */
+const MIGRATIONS: ((settings: StoredSettings) => StoredSettings)[] = [
+  // 0 → 1: the list of processed event keys became alert threads with lifecycle state.
+  ({ processedEvents, ...settings }) => (
+    settings.alertThreads === undefined && Array.isArray(processedEvents)
+      ? { ...settings, alertThreads: threadsFromProcessedKeys(processedEvents.filter(isString)) }
+      : settings
+  ),
+  // 1 → 2: thresholds, recipients and templates moved into named alert profiles.
+  settings => {
+    const alertSettings = settings.alertSettings;
+    if (!isObject(alertSettings) || alertSettings.profiles !== undefined) return settings;
+    const { minMagnitude, aftershockMinMagnitude, recipients, emailTemplate, emailSubject, emailHtmlTemplate, ...rest } = alertSettings;
+    const profile = { id: 'default', name: 'Default', enabled: true, minMagnitude, aftershockMinMagnitude, recipients, emailTemplate, emailSubject, emailHtmlTemplate };
+    return { ...settings, alertSettings: { ...rest, profiles: [profile] } };
+  },
+];
+
+export const SETTINGS_SCHEMA_VERSION = MIGRATIONS.length;
+
+/** Applies the migrations from `fromVersion` up to the current schema. */
+export const migrateSettings = (settings: StoredSettings, fromVersion: number): StoredSettings =>
+  MIGRATIONS.slice(fromVersion).reduce((migrated, migrate) => migrate(migrated), settings);
+
+const readStorage = (storage: Storage): StoredSettings => {
+  const settings: StoredSettings = {};
+  for (let i = 0; i < storage.length; i++) {
+    const key = storage.key(i);
+    if (key === null || key === SETTINGS_VERSION_KEY) continue;
+    try {
+      settings[key] = JSON.parse(storage.getItem(key)!);
+    } catch {
+      // Not ours, or not JSON; migrations only deal with JSON values.
+    }
+  }
+  return settings;
+};
+
+/**
+ * Brings stored settings up to the current schema. Call once at startup, before anything reads
+ * them. Data from a newer build is left untouched; validation still guards each read.
+ */
+export const migrateStoredSettings = (storage: Storage = window.localStorage): void => {
+  const stored = storage.getItem(SETTINGS_VERSION_KEY);
+  const version = stored === null ? 0 : parseInt(stored, 10);
+  if (version === SETTINGS_SCHEMA_VERSION) return;
+  if (!(version < SETTINGS_SCHEMA_VERSION)) {
+    console.warn(`Stored settings are from a newer version (${stored}); leaving them as they are.`);
+    return;
+  }
+
+  const before = readStorage(storage);
+  const after = migrateSettings(before, version);
+  Object.keys(before).filter(key => !(key in after)).forEach(key => storage.removeItem(key));
+  Object.entries(after).forEach(([key, value]) => {
+    if (!(key in before) || JSON.stringify(before[key]) !== JSON.stringify(value)) storage.setItem(key, JSON.stringify(value));
+  });
+  storage.setItem(SETTINGS_VERSION_KEY, String(SETTINGS_SCHEMA_VERSION));
+};
+
+export const SETTINGS_FILE_FORMAT = 'tsunami-sentinel-settings';
+
+export interface SettingsFile {
+  format: typeof SETTINGS_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  settings: Partial<SettingsSchema>;
+}
+
+/**
+ * Drops the secrets that shouldn't travel in a file meant for sharing: the SMTP password, the
+ * webhook transport's headers, the SMS token, and chat webhook URLs, which anyone can post to.
+ */
+export const withoutCredentials = (settings: AlertSettings): AlertSettings => ({
+  ...settings,
+  transport: settings.transport?.type === 'smtp'
+    ? { ...settings.transport, password: undefined }
+    : settings.transport?.type === 'webhook' ? { ...settings.transport, headers: undefined } : settings.transport,
+  channels: settings.channels?.map(channel => {
+    switch (channel.type) {
+      case 'sms':
+        return { ...channel, authToken: undefined };
+      case 'slack':
+      case 'teams':
+      case 'discord':
+        return { ...channel, webhookUrl: '' };
+      default:
+        return channel;
+    }
+  }),
+});
+
+// A secret only follows its endpoint: settings that point the transport elsewhere start without one.
+const keepTransportCredentials = (next: TransportConfig | undefined, current: TransportConfig | undefined): TransportConfig | undefined => {
+  if (next?.type === 'smtp' && !next.password && current?.type === 'smtp'
+    && next.host === current.host && next.port === current.port && next.username === current.username) {
+    return { ...next, password: current.password };
+  }
+  if (next?.type === 'webhook' && !next.headers && current?.type === 'webhook' && next.url === current.url) {
+    return { ...next, headers: current.headers };
+  }
+  return next;
+};
+
+/**
+ * Carries credentials over from `current` where `next` leaves them out, as settings that come
+ * from an export or a server do. Channels are matched by id, and a secret is only carried over
+ * while it would go to the same endpoint: the same SMTP host, port and username, webhook URL or
+ * SMS gateway.
+ */
+export const keepCredentials = (next: AlertSettings, current: AlertSettings): AlertSettings => ({
+  ...next,
+  transport: keepTransportCredentials(next.transport, current.transport),
+  channels: next.channels?.map(channel => {
+    const previous = current.channels?.find(candidate => candidate.id === channel.id && candidate.type === channel.type);
+    if (channel.type === 'sms' && !channel.authToken && previous?.type === 'sms' && channel.gatewayUrl === previous.gatewayUrl) {
+      return { ...channel, authToken: previous.authToken };
+    }
+    if ((channel.type === 'slack' || channel.type === 'teams' || channel.type === 'discord') && !channel.webhookUrl && previous && 'webhookUrl' in previous) {
+      return { ...channel, webhookUrl: previous.webhookUrl };
+    }
+    return channel;
+  }),
+});
+
+/** Reads one setting from storage, or undefined when it is missing or invalid. */
+export const readSetting = <K extends SettingKey>(storage: Storage, key: K): SettingsSchema[K] | undefined => {
+  try {
+    const value: unknown = JSON.parse(storage.getItem(key) ?? 'null');
+    return isValidSetting(key, value) ? value : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/** Serializes the shared configuration as a settings file. */
+export const exportSettings = (storage: Storage, { includeCredentials = false } = {}): string => {
+  const settings: Partial<Record<SettingKey, unknown>> = {};
+  for (const key of SHARED_SETTING_KEYS) {
+    const raw = storage.getItem(key);
+    if (raw === null) continue;
+    try {
+      const value = JSON.parse(raw);
+      if (!isValidSetting(key, value)) continue;
+      settings[key] = key === 'alertSettings' && !includeCredentials ? withoutCredentials(value as AlertSettings) : value;
+    } catch {
+      // Unreadable values are left out, as they would be on load.
+    }
+  }
+  const file: SettingsFile = { format: SETTINGS_FILE_FORMAT, version: SETTINGS_SCHEMA_VERSION, exportedAt: new Date().toISOString(), settings: settings as Partial<SettingsSchema> };
+  return JSON.stringify(file, null, 2);
+};
+
+export interface ParsedSettingsFile {
+  settings: Partial<SettingsSchema>;
+  /** Keys present in the file that were skipped: unknown, not shareable, or invalid. */
+  rejected: string[];
+}
+
+/**
+ * Reads a settings file, migrating it from the version it was exported at.
+ * @throws Error when the file isn't a settings file or comes from a newer version.
+ */
+export const parseSettingsFile = (content: string): ParsedSettingsFile => {
+  let file: unknown;
+  try {
+    file = JSON.parse(content);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!isObject(file) || file.format !== SETTINGS_FILE_FORMAT || !isNumber(file.version) || !isObject(file.settings)) {
+    throw new Error('The file is not a Tsunami Sentinel settings export.');
+  }
+  if (file.version > SETTINGS_SCHEMA_VERSION) {
+    throw new Error(`The file is from a newer version of the app (settings version ${file.version}); update before importing it.`);
+  }
+
+  const migrated = migrateSettings(file.settings, file.version);
+  const settings: Partial<Record<SettingKey, unknown>> = {};
+  const rejected: string[] = [];
+  Object.entries(migrated).forEach(([key, value]) => {
+    if (isSettingKey(key) && SHARED_SETTING_KEYS.includes(key) && isValidSetting(key, value)) {
+      settings[key] = value;
+    } else {
+      rejected.push(key);
+    }
+  });
+  return { settings: settings as Partial<SettingsSchema>, rejected };
+};
+
+/** Writes settings to storage and tells this tab's hooks to pick them up. */
+export const applySettings = (storage: Storage, settings: Partial<SettingsSchema>): void => {
+  (Object.keys(settings) as SettingKey[]).forEach(key => {
+    storage.setItem(key, JSON.stringify(settings[key]));
+    if (typeof window !== 'undefined') window.dispatchEvent(new CustomEvent(SETTINGS_CHANGED_EVENT, { detail: { key } }));
+  });
+};
@@ -0,0 +1,213 @@
+import { AlertThread, EarthquakeEvent, ExerciseScenario, FeedSourceConfig, ScenarioEvent, ScenarioRevision, TsunamiBulletin } from '../types';
+import { FeedBatch } from './feeds';
+import { classifyAlertLevel } from './feeds/common';
+import { EventArchive } from './eventArchive';
+import { FetchOptions, processFeedResults } from './tsunamiService';
+
+// Exercises feed the dashboard earthquakes that never happened: a scenario of synthetic events, or
+// a stretch of the local archive replayed at a chosen speed. Either way the exercise is compiled
+// into a timeline of event versions on the wall clock, and each moment's versions go through the
+// same processing as a real poll, so association, threat scoring, bulletins, revisions and alerts
+// behave as they would for real. Every event is flagged as an exercise and carries a prefixed id,
+// so it can't be mistaken for, or merged with, a real one.
+
+export const EXERCISE_ID_PREFIX = 'EXERCISE-';
+
+export const EXERCISE_SOURCE: FeedSourceConfig = {
+  id: 'exercise',
+  name: 'Exercise',
+  kind: 'usgs-geojson',
+  url: '',
+  enabled: false,
+};
+
+// Synthetic events have no event page; templates and message buttons still need a link.
+const EXERCISE_LINK = 'https://www.tsunami.gov/';
+
+export const EXERCISE_SPEEDS = [1, 5, 10, 30, 60];
+
+/** One version of an event, reported at `at` (wall-clock ms). */
+interface TimelineEntry {
+  key: string;
+  at: number;
+  event: EarthquakeEvent;
+}
+
+export interface ExerciseRun {
+  name: string;
+  mode: 'scenario' | 'replay';
+  startedAt: number;
+  speed: number;
+  /** Ordered by `at`. */
+  timeline: TimelineEntry[];
+}
+
+export const DEFAULT_SCENARIOS: ExerciseScenario[] = [
+  {
+    id: 'kuril-drill',
+    name: 'Kuril Islands M8.3, upgraded',
+    events: [
+      {
+        id: 'mainshock',
+        offsetMinutes: 0,
+        location: 'Kuril Islands (exercise)',
+        lat: 46.6,
+        lon: 153.3,
+        depth: 20,
+        magnitude: 7.8,
+        tsunami: false,
+        revisions: [
+          { id: 'upgrade', afterMinutes: 8, lat: 46.6, lon: 153.3, depth: 15, magnitude: 8.3, tsunami: true },
+        ],
+      },
+      {
+        id: 'aftershock',
+        offsetMinutes: 25,
+        location: 'Kuril Islands (exercise)',
+        lat: 46.9,
+        lon: 153.8,
+        depth: 30,
+        magnitude: 6.4,
+        tsunami: false,
+        revisions: [],
+      },
+    ],
+  },
+];
+
+export const isExerciseEventId = (id: string): boolean => id.startsWith(EXERCISE_ID_PREFIX);
+
+/** Threads opened by exercise events, which should go when the exercise does rather than be cancelled. */
+export const withoutExerciseThreads = (threads: Record<string, AlertThread>): Record<string, AlertThread> =>
+  Object.fromEntries(Object.entries(threads).filter(([, thread]) => !isExerciseEventId(thread.eventId)));
+
+const scenarioKey = (scenario: ExerciseScenario, event: ScenarioEvent) => `${scenario.id}-${event.id}`;
+
+const scenarioEvent = (scenario: ExerciseScenario, event: ScenarioEvent, solution: ScenarioEvent | ScenarioRevision, time: Date, updated: Date, reviewed: boolean): EarthquakeEvent => {
+  const title = `M ${solution.magnitude.toFixed(1)} - ${event.location}`;
+  return {
+    id: scenarioKey(scenario, event),
+    title,
+    time,
+    updated,
+    link: EXERCISE_LINK,
+    location: event.location,
+    magnitude: solution.magnitude,
+    depth: solution.depth,
+    lat: solution.lat,
+    lon: solution.lon,
+    reviewStatus: reviewed ? 'reviewed' : 'automatic',
+    isTsunamiWarning: solution.tsunami,
+    rawSummary: title,
+    alertLevel: classifyAlertLevel({ magnitude: solution.magnitude, depth: solution.depth, lat: solution.lat, lon: solution.lon, isTsunamiWarning: solution.tsunami }),
+    source: EXERCISE_SOURCE.id,
+  };
+};
+
+const byReportTime = (a: TimelineEntry, b: TimelineEntry) => a.at - b.at;
+
+/**
+ * Lays a scenario out on the wall clock. At `speed` 10, an event ten exercise minutes in is
+ * reported one minute after the start. The first solution is automatic; revisions are reviewed.
+ */
+export const compileScenario = (scenario: ExerciseScenario, startedAt: number, speed: number): ExerciseRun => {
+  const wallTime = (exerciseMinutes: number) => startedAt + (exerciseMinutes * 60 * 1000) / speed;
+  const timeline = scenario.events.flatMap(event => {
+    const time = new Date(wallTime(event.offsetMinutes));
+    return [
+      { key: scenarioKey(scenario, event), at: time.getTime(), event: scenarioEvent(scenario, event, event, time, time, false) },
+      ...event.revisions.map(revision => {
+        const at = wallTime(event.offsetMinutes + revision.afterMinutes);
+        return { key: scenarioKey(scenario, event), at, event: scenarioEvent(scenario, event, revision, time, new Date(at), true) };
+      }),
+    ];
+  });
+  return { name: scenario.name, mode: 'scenario', startedAt, speed, timeline: timeline.sort(byReportTime) };
+};
+
+// When a version became known: the source's update time, or a later bulletin. The time it was
+// archived isn't used, since backfilled history is archived long after the fact.
+const reportedAt = (event: EarthquakeEvent): number =>
+  Math.max(event.updated.getTime(), ...(event.bulletins ?? []).map(bulletin => bulletin.issued.getTime()));
+
+export interface ReplayOptions {
+  from: Date;
+  to: Date;
+  minMagnitude: number;
+}
+
+/**
+ * Loads every archived version of the events that occurred between `from` and `to`, and lays them
+ * out on the wall clock so the window plays back from `startedAt` at `speed` times real time.
+ * @throws Error when the archive holds nothing for the window.
+ */
+export const loadReplay = async (archive: EventArchive, options: ReplayOptions, startedAt: number, speed: number): Promise<ExerciseRun> => {
+  const events = await archive.query({ from: options.from, to: options.to, minMagnitude: options.minMagnitude });
+  if (events.length === 0) {
+    throw new Error('The archive has no events in that window.');
+  }
+  const from = options.from.getTime();
+  const retime = (date: Date) => new Date(startedAt + (date.getTime() - from) / speed);
+  // Versions are keyed by the event's latest id, so a change of preferred source doesn't split it in two.
+  const histories = await Promise.all(events.map(async latest => (await archive.history(latest.id)).map(({ event }) => ({ key: latest.id, event }))));
+
+  const timeline = histories.flat()
+    .filter(({ event }) => reportedAt(event) <= options.to.getTime())
+    .map(({ key, event }) => ({
+      key,
+      at: Math.max(startedAt, retime(new Date(reportedAt(event))).getTime()),
+      event: {
+        ...event,
+        time: retime(event.time),
+        updated: retime(event.updated),
+        source: EXERCISE_SOURCE.id,
+        // Recomputed on the way through, as for a fresh poll.
+        reports: undefined,
+        threat: undefined,
+        revisions: undefined,
+        alertLevelSource: undefined,
+        bulletins: event.bulletins?.map(bulletin => ({
+          ...bulletin,
+          issued: retime(bulletin.issued),
+          expires: bulletin.expires && retime(bulletin.expires),
+          eventTime: bulletin.eventTime && retime(bulletin.eventTime),
+        })),
+      },
+    }));
+  const name = `Replay of ${options.from.toISOString().slice(0, 16).replace('T', ' ')} to ${options.to.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+  return { name, mode: 'replay', startedAt, speed, timeline: timeline.sort(byReportTime) };
+};
+
+/** How many versions have been reported by `at`; the exercise's feed only changes when this does. */
+export const reportedCount = (run: ExerciseRun, at: Date): number => {
+  const index = run.timeline.findIndex(entry => entry.at > at.getTime());
+  return index === -1 ? run.timeline.length : index;
+};
+
+/** What a feed of the exercise would return at `at`: the latest version of every event reported by then. */
+export const exerciseBatch = (run: ExerciseRun, at: Date): FeedBatch => {
+  const latest = new Map<string, EarthquakeEvent>();
+  run.timeline.slice(0, reportedCount(run, at)).forEach(entry => latest.set(entry.key, entry.event));
+
+  const bulletins = new Map<string, TsunamiBulletin>();
+  latest.forEach(event => event.bulletins?.forEach(bulletin => bulletins.set(bulletin.id, {
+    ...bulletin,
+    id: `${EXERCISE_ID_PREFIX}${bulletin.id}`,
+    references: bulletin.references?.map(id => `${EXERCISE_ID_PREFIX}${id}`),
+  })));
+  return {
+    events: Array.from(latest, ([key, event]) => ({ ...event, id: `${EXERCISE_ID_PREFIX}${key}`, bulletins: undefined })),
+    bulletins: Array.from(bulletins.values()),
+  };
+};
+
+/**
+ * The exercise's events as of `at`, processed like a poll of the real feeds.
+ * @param options As for fetchTsunamiData; `previous` should be the exercise's last events.
+ */
+export const fetchExerciseData = (run: ExerciseRun, at: Date, options: FetchOptions = {}): EarthquakeEvent[] =>
+  processFeedResults([{ source: EXERCISE_SOURCE, batch: exerciseBatch(run, at), error: null }], [EXERCISE_SOURCE], options)
+    .map(event => ({ ...event, exercise: true }));
+
+/** Elapsed exercise time, which runs `speed` times faster than the wall clock. */
+export const exerciseElapsedMs = (run: ExerciseRun, at: Date): number => Math.max(0, at.getTime() - run.startedAt) * run.speed;
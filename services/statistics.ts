@@ -0,0 +1,154 @@
+import { EarthquakeEvent } from '../types';
+import { DAY_MS } from './formatting';
+
+// Aggregates behind the statistics panel. Everything here works on a plain list of events, so the
+// same numbers can be computed over the live feed or a slice of the archive.
+
+/** Fewer events than this give a b-value too uncertain to be worth showing. */
+export const MIN_B_VALUE_EVENTS = 25;
+
+export interface DailyCount {
+  day: Date; // midnight UTC
+  count: number;
+}
+
+export interface MagnitudeBin {
+  magnitude: number; // bin centre
+  count: number; // events in this bin
+  cumulative: number; // events at or above this bin
+}
+
+export interface BValueEstimate {
+  bValue: number;
+  /** Shi & Bolt (1982) standard error. */
+  uncertainty: number;
+  aValue: number; // log10 of the number of events at or above magnitude 0, by extrapolation
+  completeness: number; // the magnitude of completeness the fit starts at
+  count: number; // events used in the fit
+}
+
+export interface DepthBin {
+  label: string;
+  min: number;
+  max: number; // exclusive; Infinity for the deepest bin
+  count: number;
+}
+
+export interface RegionCount {
+  region: string;
+  count: number;
+  maxMagnitude: number;
+}
+
+/** Event counts per UTC day for the `days` days up to and including `now`'s, oldest first. */
+export const dailyCounts = (events: EarthquakeEvent[], days: number, now = new Date()): DailyCount[] => {
+  const today = Math.floor(now.getTime() / DAY_MS);
+  const counts = new Array<number>(days).fill(0);
+  for (const event of events) {
+    const index = days - 1 - (today - Math.floor(event.time.getTime() / DAY_MS));
+    if (index >= 0 && index < days) counts[index]++;
+  }
+  return counts.map((count, i) => ({ day: new Date((today - days + 1 + i) * DAY_MS), count }));
+};
+
+const binOf = (magnitude: number, binWidth: number) => Math.round(magnitude / binWidth);
+
+/**
+ * The magnitude-frequency distribution in bins of `binWidth`, from the smallest magnitude to the
+ * largest, including empty bins.
+ */
+export const magnitudeFrequency = (events: EarthquakeEvent[], binWidth = 0.1): MagnitudeBin[] => {
+  if (events.length === 0) return [];
+  const bins = events.map(event => binOf(event.magnitude, binWidth));
+  const first = Math.min(...bins);
+  const counts = new Array<number>(Math.max(...bins) - first + 1).fill(0);
+  bins.forEach(bin => counts[bin - first]++);
+
+  let cumulative = events.length;
+  return counts.map((count, i) => {
+    const bin = { magnitude: Number(((first + i) * binWidth).toFixed(2)), count, cumulative };
+    cumulative -= count;
+    return bin;
+  });
+};
+
+/**
+ * Magnitude of completeness by maximum curvature: the most populated bin of the non-cumulative
+ * distribution. Below it the catalogue is missing events, so fits should start there.
+ */
+export const completenessMagnitude = (bins: MagnitudeBin[]): number | null =>
+  bins.length === 0 ? null : bins.reduce((best, bin) => (bin.count > best.count ? bin : best)).magnitude;
+
+/**
+ * Estimates the Gutenberg-Richter b-value with the Aki-Utsu maximum-likelihood method, corrected for
+ * binning, over events at or above the magnitude of completeness.
+ * @returns null when too few events are complete to give a meaningful value.
+ */
+export const estimateBValue = (events: EarthquakeEvent[], binWidth = 0.1, completeness?: number): BValueEstimate | null => {
+  const mc = completeness ?? completenessMagnitude(magnitudeFrequency(events, binWidth));
+  if (mc === null) return null;
+  const magnitudes = events.map(event => binOf(event.magnitude, binWidth) * binWidth).filter(m => m >= mc - binWidth / 1000);
+  const n = magnitudes.length;
+  if (n < MIN_B_VALUE_EVENTS) return null;
+
+  const mean = magnitudes.reduce((sum, m) => sum + m, 0) / n;
+  const spread = mean - (mc - binWidth / 2);
+  if (spread <= 0) return null;
+  const bValue = Math.LOG10E / spread;
+  const variance = magnitudes.reduce((sum, m) => sum + (m - mean) ** 2, 0) / (n * (n - 1));
+  return {
+    bValue,
+    uncertainty: 2.3 * bValue * bValue * Math.sqrt(variance),
+    aValue: Math.log10(n) + bValue * mc,
+    completeness: mc,
+    count: n,
+  };
+};
+
+// The usual shallow/intermediate/deep split, with the shallow range broken up since that is where
+// tsunamigenic events are.
+const DEPTH_EDGES = [0, 35, 70, 150, 300, 500];
+
+export const depthHistogram = (events: EarthquakeEvent[]): DepthBin[] => {
+  const bins: DepthBin[] = DEPTH_EDGES.map((min, i) => {
+    const max = DEPTH_EDGES[i + 1] ?? Infinity;
+    return { label: max === Infinity ? `${min}+` : `${min}–${max}`, min, max, count: 0 };
+  });
+  for (const event of events) {
+    const bin = bins.find(b => event.depth < b.max) ?? bins[bins.length - 1];
+    bin.count++;
+  }
+  return bins;
+};
+
+const LOCATION_PREFIXES = [
+  /^\d+(\.\d+)?\s*km\s+[NSEW]{1,3}\s+of\s+/i, // "12 km SSW of "
+  /^(off|near)\s+(the\s+)?((north|south|east|west)(ern)?\s+)?coast\s+of\s+/i,
+  /^(north|south|east|west|northern|southern|eastern|western|central)\s+(of\s+)?(the\s+)?/i,
+];
+
+/**
+ * The region part of a place description: the country or area after the last comma of USGS-style
+ * "12 km SSW of Town, Country" names, or the whole description without its leading direction for
+ * Flinn-Engdahl-style names such as "south of the Fiji Islands".
+ */
+export const regionFromLocation = (location: string): string => {
+  const afterComma = location.includes(',') ? location.slice(location.lastIndexOf(',') + 1) : location;
+  let region = afterComma.trim();
+  for (const prefix of LOCATION_PREFIXES) region = region.replace(prefix, '');
+  region = region.replace(/\s+region$/i, '').trim();
+  return region ? region[0].toUpperCase() + region.slice(1) : 'Unknown';
+};
+
+/** Event counts per region, busiest first. */
+export const regionCounts = (events: EarthquakeEvent[]): RegionCount[] => {
+  const byRegion = new Map<string, RegionCount>();
+  for (const event of events) {
+    const region = regionFromLocation(event.location);
+    const entry = byRegion.get(region) ?? { region, count: 0, maxMagnitude: -Infinity };
+    entry.count++;
+    entry.maxMagnitude = Math.max(entry.maxMagnitude, event.magnitude);
+    byRegion.set(region, entry);
+  }
+  return [...byRegion.values()].sort((a, b) => b.count - a.count || b.maxMagnitude - a.maxMagnitude || a.region.localeCompare(b.region));
+};
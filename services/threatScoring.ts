@@ -0,0 +1,110 @@
+import { EarthquakeEvent, ThreatAssessment, ThreatRule } from '../types';
+import { isOverLand, distanceToCoastKm } from './landMask';
+
+export interface ThreatInput {
+  magnitude: number;
+  depth: number;
+  lat: number;
+  lon: number;
+  isTsunamiWarning: boolean;
+}
+
+/** The facts a rule can test. Derived once per event so every rule sees the same values. */
+interface ThreatFacts {
+  magnitude: number;
+  depth: number;
+  coastDistanceKm: number;
+  offshore: boolean;
+  tsunamiFlag: boolean;
+}
+
+interface BuiltInRule {
+  id: string;
+  description: string;
+  points: number;
+  test: (facts: ThreatFacts) => boolean;
+}
+
+// Magnitude points are cumulative, so an M8.0 fires all four magnitude rules.
+const BUILT_IN_RULES: BuiltInRule[] = [
+  { id: 'tsunami-flag', description: 'Source flagged the event as potentially tsunamigenic', points: 110, test: f => f.tsunamiFlag },
+  { id: 'magnitude-6.5', description: 'Magnitude 6.5 or greater', points: 15, test: f => f.magnitude >= 6.5 },
+  { id: 'magnitude-7.0', description: 'Magnitude 7.0 or greater', points: 20, test: f => f.magnitude >= 7.0 },
+  { id: 'magnitude-7.5', description: 'Magnitude 7.5 or greater', points: 25, test: f => f.magnitude >= 7.5 },
+  { id: 'magnitude-8.0', description: 'Magnitude 8.0 or greater', points: 30, test: f => f.magnitude >= 8.0 },
+  { id: 'shallow', description: 'Shallow focus (70 km or less)', points: 15, test: f => f.depth <= 70 },
+  { id: 'deep', description: 'Deep focus (more than 300 km)', points: -30, test: f => f.depth > 300 },
+  { id: 'offshore', description: 'Epicenter is offshore', points: 15, test: f => f.offshore },
+  { id: 'near-coast', description: 'Epicenter within 100 km of a coastline', points: 10, test: f => f.coastDistanceKm <= 100 },
+  { id: 'far-inland', description: 'Epicenter more than 100 km inland', points: -40, test: f => !f.offshore && f.coastDistanceKm > 100 },
+];
+
+/** Minimum score for each level, most severe first. */
+export const THREAT_LEVEL_THRESHOLDS: { level: EarthquakeEvent['alertLevel']; minScore: number }[] = [
+  { level: 'warning', minScore: 110 },
+  { level: 'watch', minScore: 90 },
+  { level: 'advisory', minScore: 70 },
+  { level: 'info', minScore: 40 },
+];
+
+export const BUILT_IN_THREAT_RULES: Pick<ThreatRule, 'id' | 'description' | 'points'>[] =
+  BUILT_IN_RULES.map(({ id, description, points }) => ({ id, description, points }));
+
+const testUserRule = (rule: ThreatRule, facts: ThreatFacts): boolean => {
+  const actual = facts[rule.field];
+  switch (rule.operator) {
+    case '>=': return actual >= rule.value;
+    case '<=': return actual <= rule.value;
+    case '>': return actual > rule.value;
+    case '<': return actual < rule.value;
+    default: return false;
+  }
+};
+
+/**
+ * Scores an earthquake's tsunami threat and maps the score to an alert level.
+ *
+ * Every rule whose condition holds adds its points; the total is compared against
+ * THREAT_LEVEL_THRESHOLDS. The returned assessment lists the rules that fired so the
+ * dashboard can explain the level it shows.
+ *
+ * @param input The event parameters to score.
+ * @param userRules Additional rules configured by the user; disabled rules are ignored.
+ */
+export const assessThreat = (input: ThreatInput, userRules: ThreatRule[] = []): ThreatAssessment => {
+  const offshore = !isOverLand(input.lat, input.lon);
+  const facts: ThreatFacts = {
+    magnitude: input.magnitude,
+    depth: input.depth,
+    coastDistanceKm: distanceToCoastKm(input.lat, input.lon),
+    offshore,
+    tsunamiFlag: input.isTsunamiWarning,
+  };
+
+  const firedRules = [
+    ...BUILT_IN_RULES.filter(rule => rule.test(facts)),
+    ...userRules.filter(rule => rule.enabled && testUserRule(rule, facts)),
+  ].map(({ id, description, points }) => ({ id, description, points }));
+
+  const score = firedRules.reduce((total, rule) => total + rule.points, 0);
+  const level = THREAT_LEVEL_THRESHOLDS.find(threshold => score >= threshold.minScore)?.level ?? 'none';
+
+  return {
+    score,
+    level,
+    firedRules,
+    offshore,
+    coastDistanceKm: Math.round(facts.coastDistanceKm),
+  };
+};
+
+/**
+ * Re-scores events with the current rule set and sets their inferred alert level.
+ * @param events Events after cross-source association.
+ * @param userRules Additional rules configured by the user.
+ */
+export const applyThreatAssessment = (events: EarthquakeEvent[], userRules: ThreatRule[] = []): EarthquakeEvent[] =>
+  events.map(event => {
+    const threat = assessThreat(event, userRules);
+    return { ...event, threat, alertLevel: threat.level, alertLevelSource: 'inferred' };
+  });
@@ -0,0 +1,71 @@
+export interface TileSource {
+  id: string;
+  name: string;
+  /**
+   * XYZ URL template with {z}, {x}, {y} and optionally {s} (subdomain). Either one template or
+   * one per theme. Omitted for the bundled offline basemap, which is drawn from LAND_POLYGONS.
+   */
+  urlTemplate?: string | { light: string; dark: string };
+  subdomains?: string[];
+  attribution: string;
+  maxZoom: number;
+}
+
+export const OFFLINE_TILE_SOURCE_ID = 'offline';
+
+export const TILE_SOURCES: TileSource[] = [
+  {
+    id: 'nasa-gibs',
+    name: 'NASA Blue/Black Marble',
+    urlTemplate: {
+      light: 'https://gibs.earthdata.nasa.gov/wmts/epsg3857/best/BlueMarble_ShadedRelief_Bathymetry/default/GoogleMapsCompatible_Level8/{z}/{y}/{x}.jpeg',
+      dark: 'https://gibs.earthdata.nasa.gov/wmts/epsg3857/best/VIIRS_Black_Marble/default/2016-01-01/GoogleMapsCompatible_Level8/{z}/{y}/{x}.png',
+    },
+    attribution: 'Imagery: NASA GIBS',
+    maxZoom: 8,
+  },
+  {
+    id: 'esri-ocean',
+    name: 'Esri World Ocean',
+    urlTemplate: 'https://server.arcgisonline.com/ArcGIS/rest/services/Ocean/World_Ocean_Base/MapServer/tile/{z}/{y}/{x}',
+    attribution: 'Tiles © Esri, GEBCO, NOAA',
+    maxZoom: 10,
+  },
+  {
+    id: 'osm',
+    name: 'OpenStreetMap',
+    urlTemplate: 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+    attribution: '© OpenStreetMap contributors',
+    maxZoom: 19,
+  },
+  {
+    id: OFFLINE_TILE_SOURCE_ID,
+    name: 'Offline basemap',
+    attribution: 'Bundled coarse coastlines',
+    maxZoom: 8, // the bundled outlines are too coarse to be useful any closer
+  },
+];
+
+/** A user-supplied XYZ template, e.g. a tile server on the local network for air-gapped use. */
+export const customTileSource = (urlTemplate: string): TileSource => ({
+  id: 'custom',
+  name: 'Custom',
+  urlTemplate,
+  attribution: '',
+  maxZoom: 18,
+});
+
+/**
+ * Fills a source's URL template for one tile.
+ * @returns The URL, or null for the offline basemap.
+ */
+export const tileUrl = (source: TileSource, theme: 'light' | 'dark', z: number, x: number, y: number): string | null => {
+  if (!source.urlTemplate) return null;
+  const template = typeof source.urlTemplate === 'string' ? source.urlTemplate : source.urlTemplate[theme];
+  const subdomains = source.subdomains ?? [];
+  return template
+    .replace('{z}', String(z))
+    .replace('{x}', String(x))
+    .replace('{y}', String(y))
+    .replace('{s}', subdomains.length > 0 ? subdomains[(x + y) % subdomains.length] : '');
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { testEvent } from '../test/mockUsgsServer';
+import { getBathymetryGrid } from './bathymetry';
+import { DEFAULT_COASTAL_POINTS, computeTravelTimeField, estimateArrivals, formatTravelTime, traceIsochrones } from './travelTime';
+
+const hilo = DEFAULT_COASTAL_POINTS.filter(point => point.id === 'hilo');
+
+const hoursToHilo = (lat: number, lon: number): number => estimateArrivals(testEvent({ lat, lon }), hilo)[0].minutes! / 60;
+
+describe('bathymetry grid', () => {
+  it('holds measured depths: deep trenches and basins, dry continents', () => {
+    const grid = getBathymetryGrid();
+    const depthAt = (lat: number, lon: number) => grid.depths[Math.floor(90 - lat) * grid.width + Math.floor(lon + 180)];
+    expect(depthAt(11.3, 142.2)).toBeGreaterThan(8000); // Mariana Trench
+    expect(depthAt(30, -150)).toBeGreaterThan(4000); // North Pacific basin
+    expect(depthAt(20, 10)).toBe(0); // Sahara
+  });
+});
+
+describe('estimateArrivals', () => {
+  // First arrivals recorded at the Hilo tide gauge were about 15 h after the 2010 Maule
+  // earthquake and under 8 h after the 2011 Tohoku earthquake.
+  it('reaches Hilo from central Chile in about 15 hours', () => {
+    expect(Math.abs(hoursToHilo(-36.12, -72.9) - 15)).toBeLessThan(1.5);
+  });
+
+  it('reaches Hilo from northeast Japan in about 8 hours', () => {
+    expect(Math.abs(hoursToHilo(38.3, 142.37) - 7.8)).toBeLessThan(1);
+  });
+
+  it('orders points by arrival and counts from the origin time', () => {
+    const event = testEvent({ lat: 38.3, lon: 142.37 });
+    const arrivals = estimateArrivals(event, DEFAULT_COASTAL_POINTS);
+    expect(arrivals[0].point.id).toBe('ofunato');
+    expect(arrivals.map(arrival => arrival.minutes!)).toEqual([...arrivals.map(arrival => arrival.minutes!)].sort((a, b) => a - b));
+    expect(arrivals[0].arrival!.getTime()).toBeCloseTo(event.time.getTime() + arrivals[0].minutes! * 60 * 1000, -1);
+  });
+
+  it('gives no estimate for an epicentre far inland', () => {
+    expect(computeTravelTimeField(45, 90)).toBeNull();
+    expect(estimateArrivals(testEvent({ lat: 45, lon: 90 }), hilo)[0]).toMatchObject({ minutes: null, arrival: null });
+  });
+});
+
+describe('traceIsochrones', () => {
+  it('traces a front for each level the wave reaches', () => {
+    const field = computeTravelTimeField(-36.12, -72.9)!;
+    const [fiveHours, never] = traceIsochrones(field, [300, 100 * 60]);
+    expect(fiveHours.segments.length).toBeGreaterThan(0);
+    expect(never.segments).toHaveLength(0);
+  });
+});
+
+describe('formatTravelTime', () => {
+  it('formats hours and minutes', () => {
+    expect(formatTravelTime(42.4)).toBe('42 min');
+    expect(formatTravelTime(185)).toBe('3 h 05 min');
+  });
+});
@@ -0,0 +1,151 @@
+import { CoastalPoint, EarthquakeEvent, LatLon } from '../types';
+import { haversineKm } from './geo';
+import { BathymetryGrid, cellCenter, getBathymetryGrid, nearestOceanCell, shortestPaths } from './bathymetry';
+
+const GRAVITY = 9.81;
+// The last stretch from the nearest modelled ocean cell to a harbour crosses shallow water.
+const NEARSHORE_DEPTH_M = 50;
+
+/** Pacific and Indian Ocean tide gauges and ports, used until the operator edits the list. */
+export const DEFAULT_COASTAL_POINTS: CoastalPoint[] = [
+  { id: 'hilo', name: 'Hilo, Hawaii', lat: 19.73, lon: -155.06 },
+  { id: 'honolulu', name: 'Honolulu, Hawaii', lat: 21.31, lon: -157.87 },
+  { id: 'crescent-city', name: 'Crescent City, California', lat: 41.75, lon: -124.2 },
+  { id: 'san-francisco', name: 'San Francisco, California', lat: 37.81, lon: -122.47 },
+  { id: 'kodiak', name: 'Kodiak, Alaska', lat: 57.73, lon: -152.51 },
+  { id: 'acapulco', name: 'Acapulco, Mexico', lat: 16.84, lon: -99.91 },
+  { id: 'callao', name: 'Callao, Peru', lat: -12.05, lon: -77.15 },
+  { id: 'valparaiso', name: 'Valparaíso, Chile', lat: -33.03, lon: -71.63 },
+  { id: 'papeete', name: 'Papeete, Tahiti', lat: -17.53, lon: -149.57 },
+  { id: 'apia', name: 'Apia, Samoa', lat: -13.83, lon: -171.76 },
+  { id: 'suva', name: 'Suva, Fiji', lat: -18.14, lon: 178.42 },
+  { id: 'wellington', name: 'Wellington, New Zealand', lat: -41.29, lon: 174.78 },
+  { id: 'sydney', name: 'Sydney, Australia', lat: -33.86, lon: 151.21 },
+  { id: 'guam', name: 'Apra Harbor, Guam', lat: 13.44, lon: 144.66 },
+  { id: 'manila', name: 'Manila, Philippines', lat: 14.58, lon: 120.97 },
+  { id: 'ofunato', name: 'Ofunato, Japan', lat: 39.02, lon: 141.75 },
+  { id: 'tokyo', name: 'Tokyo Bay, Japan', lat: 35.45, lon: 139.65 },
+  { id: 'banda-aceh', name: 'Banda Aceh, Indonesia', lat: 5.55, lon: 95.32 },
+  { id: 'colombo', name: 'Colombo, Sri Lanka', lat: 6.94, lon: 79.84 },
+  { id: 'chennai', name: 'Chennai, India', lat: 13.08, lon: 80.29 },
+];
+
+export interface TravelTimeField {
+  grid: BathymetryGrid;
+  origin: LatLon;
+  minutes: Float32Array; // per grid cell; Infinity where the wave cannot reach
+}
+
+export interface ArrivalEstimate {
+  point: CoastalPoint;
+  minutes: number | null; // null when the point isn't reachable over water
+  arrival: Date | null;
+  distanceKm: number;
+}
+
+export interface Isochrone {
+  minutes: number;
+  segments: [LatLon, LatLon][];
+}
+
+/** Shallow-water wave speed, sqrt(g·d), in km per minute. */
+export const waveSpeedKmPerMinute = (depthM: number): number => (Math.sqrt(GRAVITY * depthM) * 60) / 1000;
+
+/**
+ * Computes tsunami travel times from an epicentre to every ocean cell of the bathymetry grid,
+ * treating the wave front as moving at the local shallow-water speed.
+ * @returns The field, or null when the epicentre is too far inland to reach the sea.
+ */
+export const computeTravelTimeField = (lat: number, lon: number, grid: BathymetryGrid = getBathymetryGrid()): TravelTimeField | null => {
+  const start = nearestOceanCell(grid, lat, lon);
+  if (start === null) return null;
+
+  const startCenter = cellCenter(grid, start);
+  const startMinutes = haversineKm(lat, lon, startCenter.lat, startCenter.lon) / waveSpeedKmPerMinute(grid.depths[start]);
+  const minutes = shortestPaths(
+    grid,
+    [{ index: start, cost: startMinutes }],
+    index => grid.depths[index] > 0,
+    (from, to, km) => km / ((waveSpeedKmPerMinute(grid.depths[from]) + waveSpeedKmPerMinute(grid.depths[to])) / 2),
+  );
+  return { grid, origin: { lat, lon }, minutes };
+};
+
+/** Travel time in minutes to a coastal point, or null if it can't be reached over water. */
+export const travelTimeTo = (field: TravelTimeField, lat: number, lon: number): number | null => {
+  const cell = nearestOceanCell(field.grid, lat, lon);
+  if (cell === null || !Number.isFinite(field.minutes[cell])) return null;
+  const center = cellCenter(field.grid, cell);
+  return field.minutes[cell] + haversineKm(lat, lon, center.lat, center.lon) / waveSpeedKmPerMinute(NEARSHORE_DEPTH_M);
+};
+
+/**
+ * Estimates when the first wave reaches each coastal point.
+ * @param event The earthquake; arrival times count from its origin time.
+ * @param points The ports or tide gauges to estimate.
+ * @param field A precomputed field for the event, if the caller already has one.
+ * @returns Estimates sorted by arrival, unreachable points last.
+ */
+export const estimateArrivals = (event: EarthquakeEvent, points: CoastalPoint[], field = computeTravelTimeField(event.lat, event.lon)): ArrivalEstimate[] =>
+  points
+    .map(point => {
+      const minutes = field ? travelTimeTo(field, point.lat, point.lon) : null;
+      return {
+        point,
+        minutes,
+        arrival: minutes === null ? null : new Date(event.time.getTime() + minutes * 60 * 1000),
+        distanceKm: haversineKm(event.lat, event.lon, point.lat, point.lon),
+      };
+    })
+    .sort((a, b) => (a.minutes ?? Infinity) - (b.minutes ?? Infinity));
+
+/**
+ * Traces lines of equal travel time with marching squares over the grid cell centres.
+ * Squares touching land or unreachable cells are skipped, so fronts stop at coastlines.
+ * @param levels The travel times, in minutes, to trace.
+ */
+export const traceIsochrones = (field: TravelTimeField, levels: number[]): Isochrone[] => {
+  const { grid, minutes } = field;
+  const { width, height, resolution } = grid;
+  const lats = [0, 0, 1, 1];
+  const cols = [0, 1, 1, 0]; // corners clockwise from the top left
+  const values = [0, 0, 0, 0];
+
+  return levels.map(level => {
+    const segments: [LatLon, LatLon][] = [];
+    for (let row = 0; row < height - 1; row++) {
+      for (let col = 0; col < width; col++) {
+        let finite = true;
+        for (let i = 0; i < 4; i++) {
+          values[i] = minutes[(row + lats[i]) * width + ((col + cols[i]) % width)];
+          finite &&= Number.isFinite(values[i]);
+        }
+        if (!finite) continue;
+
+        const crossings: LatLon[] = [];
+        for (let i = 0; i < 4; i++) {
+          const j = (i + 1) % 4;
+          if (values[i] < level === values[j] < level) continue;
+          const t = (level - values[i]) / (values[j] - values[i]);
+          // The wrapped column is placed just past 180° so the segment stays short.
+          crossings.push({
+            lat: 90 - (row + 0.5 + lats[i] + t * (lats[j] - lats[i])) * resolution,
+            lon: -180 + (col + 0.5 + cols[i] + t * (cols[j] - cols[i])) * resolution,
+          });
+        }
+        // Two crossings make one segment; a saddle's four are paired in order, which is adequate here.
+        for (let i = 0; i + 1 < crossings.length; i += 2) {
+          segments.push([crossings[i], crossings[i + 1]]);
+        }
+      }
+    }
+    return { minutes: level, segments };
+  });
+};
+
+/** Formats a travel time as "3 h 05 min" or "42 min". */
+export const formatTravelTime = (minutes: number): string => {
+  const rounded = Math.round(minutes);
+  const hours = Math.floor(rounded / 60);
+  return hours > 0 ? `${hours} h ${String(rounded % 60).padStart(2, '0')} min` : `${rounded} min`;
+};
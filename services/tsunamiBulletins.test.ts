@@ -0,0 +1,150 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { TsunamiBulletin } from '../types';
+import { attachBulletinsToEvents, isBulletinActive, parseAtomBulletins, parseBulletinLevel, parseCapBulletin, summaryFields } from './tsunamiBulletins';
+import { parseXml } from './xml';
+import { fixture, testEvent } from '../test/mockUsgsServer';
+
+const atomFeed = (summary: string) => `<feed xmlns="http://www.w3.org/2005/Atom">
+  <author><name>NWS/PTWC Honolulu HI</name></author>
+  <entry>
+    <id>urn:uuid:sample</id>
+    <title>Molucca Sea</title>
+    <updated>2023-01-18T06:20:00Z</updated>
+    <link href="https://www.tsunami.gov/sample"/>
+    ${summary}
+    <geo:lat xmlns:geo="http://www.w3.org/2003/01/geo/wgs84_pos#">2.7</geo:lat>
+    <geo:long xmlns:geo="http://www.w3.org/2003/01/geo/wgs84_pos#">127.0</geo:long>
+  </entry>
+</feed>`;
+
+describe('parseBulletinLevel', () => {
+  it('reads the message level from free text', () => {
+    expect(parseBulletinLevel('Tsunami Warning')).toBe('warning');
+    expect(parseBulletinLevel('Watch')).toBe('watch');
+    expect(parseBulletinLevel('Tsunami Threat Message')).toBe('advisory');
+    expect(parseBulletinLevel('Information Statement')).toBe('information');
+    expect(parseBulletinLevel('Test')).toBeNull();
+  });
+});
+
+describe('summaryFields', () => {
+  it('reads labelled XHTML fields up to the line break', () => {
+    const summary = parseXml(`<summary type="xhtml"><div xmlns="http://www.w3.org/1999/xhtml">
+      <strong>Bulletin Issue Time:</strong> 2023.01.18 06:12:04 UTC<br/>
+      <strong>Affected Region</strong>: MOLUCCA SEA<br/>
+      <strong>Note:</strong> Based on all <em>available</em> data<br/>
+    </div></summary>`);
+    expect(summaryFields(summary)).toEqual({
+      'bulletin issue time': '2023.01.18 06:12:04 UTC',
+      'affected region': 'MOLUCCA SEA',
+      note: 'Based on all available data',
+    });
+  });
+
+  it('reads plain-text and escaped-HTML summaries line by line', () => {
+    expect(summaryFields(parseXml('<summary type="text">Category: Warning\nAffected Region: Hawaii State\n</summary>')))
+      .toEqual({ category: 'Warning', 'affected region': 'Hawaii State' });
+    expect(summaryFields(parseXml('<summary type="html">&lt;strong&gt;Category:&lt;/strong&gt; Watch&lt;br&gt;&lt;strong&gt;Expires:&lt;/strong&gt; 2023.01.18 09:12 UTC</summary>')))
+      .toEqual({ category: 'Watch', expires: '2023.01.18 09:12 UTC' });
+  });
+});
+
+describe('parseAtomBulletins', () => {
+  const timeZone = process.env.TZ;
+
+  // Bulletin times must not depend on the machine's zone; run these somewhere well off UTC.
+  beforeAll(() => {
+    process.env.TZ = 'America/New_York';
+  });
+
+  afterAll(() => {
+    process.env.TZ = timeZone;
+  });
+
+  it('reads the sample NTWC feed', () => {
+    const [advisory, cancellation, information] = parseAtomBulletins(fixture('ntwc-atom.xml'));
+    expect(advisory).toMatchObject({
+      center: 'NTWC',
+      level: 'advisory',
+      cancelled: false,
+      zones: ['South Alaska And The Alaska Peninsula', 'Aleutian Islands'],
+      magnitude: 7.2,
+    });
+    expect(advisory.issued.toISOString()).toBe('2023-07-16T06:52:42.000Z');
+    expect(advisory.eventTime?.toISOString()).toBe('2023-07-16T06:48:22.000Z');
+    expect(advisory.expires?.toISOString()).toBe('2023-07-16T09:52:42.000Z');
+    expect(cancellation).toMatchObject({ level: 'information', cancelled: true, zones: ['Alaska Peninsula'], eventTime: null, expires: null });
+    expect(information).toMatchObject({ level: 'information', lat: null, lon: null, magnitude: null });
+  });
+
+  it('keeps the zone of a bulletin time and every word of the affected region', () => {
+    // As published: the whole summary on one line.
+    const [bulletin] = parseAtomBulletins(atomFeed('<summary type="xhtml"><div xmlns="http://www.w3.org/1999/xhtml">'
+      + '<strong>Category:</strong> Information Statement<br/><strong>Bulletin Issue Time:</strong> 2023.01.18 06:12:04 UTC<br/>'
+      + '<strong>Affected Region:</strong> MOLUCCA SEA<br/><strong>Note:</strong> No threat<br/></div></summary>'));
+    expect(bulletin).toMatchObject({ center: 'PTWC', level: 'information', zones: ['MOLUCCA SEA'], headline: 'Tsunami Information Statement - Molucca Sea' });
+    expect(bulletin.issued.toISOString()).toBe('2023-01-18T06:12:04.000Z');
+  });
+
+  it('falls back to the entry\'s update time without an issue time', () => {
+    const [bulletin] = parseAtomBulletins(atomFeed('<summary type="text">Category: Warning</summary>'));
+    expect(bulletin.issued.toISOString()).toBe('2023-01-18T06:20:00.000Z');
+  });
+});
+
+describe('parseCapBulletin', () => {
+  it('reads the sample PTWC warning', () => {
+    const bulletin = parseCapBulletin(fixture('ptwc-cap.xml'), 'https://www.tsunami.gov/sample');
+    expect(bulletin).toMatchObject({ level: 'warning', cancelled: false, zones: ['HIZ001', 'HIZ002', 'American Samoa'], link: 'https://www.tsunami.gov/sample' });
+  });
+
+  it('reads the sample cancellation', () => {
+    expect(parseCapBulletin(fixture('ptwc-cap-cancel.xml'))).toMatchObject({ cancelled: true, link: '' });
+  });
+
+  it('ignores other CAP messages', () => {
+    expect(parseCapBulletin(fixture('nws-cap-other.xml'))).toBeNull();
+  });
+});
+
+describe('attachBulletinsToEvents', () => {
+  const origin = new Date('2021-03-04T19:28:30Z');
+  const event = testEvent({ id: 'kermadec', time: origin, lat: -29.6, lon: -177.8, alertLevel: 'watch' });
+  const warning = parseCapBulletin(fixture('ptwc-cap.xml'))!;
+  const before = new Date('2021-03-04T20:00:00Z');
+  const bulletin = (overrides: Partial<TsunamiBulletin>): TsunamiBulletin => ({ ...warning, ...overrides });
+
+  it('lets a matching bulletin set the alert level', () => {
+    const [attached] = attachBulletinsToEvents([event], [warning], before);
+    expect(attached).toMatchObject({ alertLevel: 'warning', isTsunamiWarning: true, alertLevelSource: 'bulletin', bulletins: [warning] });
+  });
+
+  it('ignores bulletins for another place or time', () => {
+    expect(attachBulletinsToEvents([event], [bulletin({ lat: 38, lon: 142 })], before)[0]).toBe(event);
+    expect(attachBulletinsToEvents([event], [bulletin({ eventTime: new Date(origin.getTime() + 3600e3) })], before)[0]).toBe(event);
+  });
+
+  it('matches a bulletin without an origin time by when it was issued', () => {
+    const undated = (issued: Date) => bulletin({ eventTime: null, issued });
+    expect(attachBulletinsToEvents([event], [undated(new Date('2021-03-04T19:35:00Z'))], before)[0].alertLevelSource).toBe('bulletin');
+    expect(attachBulletinsToEvents([event], [undated(new Date('2021-03-04T19:00:00Z'))], before)[0]).toBe(event);
+    expect(attachBulletinsToEvents([event], [undated(new Date('2021-03-04T23:00:00Z'))], before)[0]).toBe(event);
+  });
+
+  it('stands the event down once the center cancels', () => {
+    const cancellation = bulletin({ id: 'cancel', issued: new Date('2021-03-04T23:05:00Z'), cancelled: true });
+    const [attached] = attachBulletinsToEvents([event], [cancellation, warning], new Date('2021-03-04T23:10:00Z'));
+    expect(attached).toMatchObject({ alertLevel: 'none', isTsunamiWarning: false });
+    expect(attached.bulletins?.map(b => b.id)).toEqual([warning.id, 'cancel']);
+  });
+
+  it('stands the event down once the bulletin expires', () => {
+    expect(isBulletinActive(warning, before)).toBe(true);
+    expect(attachBulletinsToEvents([event], [warning], new Date('2021-03-05T02:00:00Z'))[0].alertLevel).toBe('none');
+  });
+
+  it('takes the most severe level among the centers', () => {
+    const ntwc = bulletin({ id: 'ntwc', center: 'NTWC', level: 'advisory' });
+    expect(attachBulletinsToEvents([event], [ntwc, warning], before)[0].alertLevel).toBe('warning');
+  });
+});
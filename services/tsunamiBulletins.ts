@@ -0,0 +1,289 @@
+import { BulletinLevel, EarthquakeEvent, TsunamiBulletin } from '../types';
+import { parseXml, findChild, findChildren, childText, deepText, localName, XmlElement } from './xml';
+import { haversineKm } from './geo';
+
+export const BULLETIN_ALERT_LEVELS: Record<BulletinLevel, EarthquakeEvent['alertLevel']> = {
+  warning: 'warning',
+  watch: 'watch',
+  advisory: 'advisory',
+  information: 'info',
+};
+
+// Bulletins give a rounded origin time and a coarse epicentre, so matching is looser than
+// cross-source association.
+const MATCH_TIME_WINDOW_MS = 5 * 60 * 1000;
+const MATCH_DISTANCE_KM = 300;
+const MAX_ISSUE_DELAY_MS = 2 * 60 * 60 * 1000;
+
+/**
+ * Reads a bulletin level from free text such as a CAP `event` ("Tsunami Warning") or an Atom
+ * category ("Information Statement"). PTWC "Threat" messages are treated as advisories.
+ */
+export const parseBulletinLevel = (text: string): BulletinLevel | null => {
+  const normalized = text.toLowerCase();
+  if (normalized.includes('warning')) return 'warning';
+  if (normalized.includes('watch')) return 'watch';
+  if (normalized.includes('advisory') || normalized.includes('threat')) return 'advisory';
+  if (normalized.includes('information')) return 'information';
+  return null;
+};
+
+const identifyCenter = (text: string): string => {
+  if (/national tsunami warning center|ntwc|paaq/i.test(text)) return 'NTWC';
+  if (/pacific tsunami warning center|ptwc|pheb/i.test(text)) return 'PTWC';
+  return text.trim() || 'Unknown';
+};
+
+// Atom summaries write times as "2023.07.16 06:52:42 UTC", which Date doesn't reliably read as UTC.
+const BULLETIN_TIME = /^(\d{4})\.(\d{2})\.(\d{2})\s+(\d{2}:\d{2}(?::\d{2})?)(?:\s*(?:UTC|GMT|Z))?$/i;
+
+const parseDate = (value: string): Date | null => {
+  if (!value) return null;
+  const bulletinTime = BULLETIN_TIME.exec(value.trim());
+  const date = new Date(bulletinTime ? `${bulletinTime[1]}-${bulletinTime[2]}-${bulletinTime[3]}T${bulletinTime[4]}Z` : value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+const parseNumber = (value: string): number | null => {
+  const number = parseFloat(value);
+  return Number.isNaN(number) ? null : number;
+};
+
+const BLOCK_ELEMENTS = new Set(['div', 'p', 'li', 'tr', 'td']);
+
+const plainTextFields = (text: string, fields: Record<string, string>) => {
+  text.split(/\r?\n/).forEach(line => {
+    const match = /^\s*([^:]+?)\s*:\s*(.*)$/.exec(line);
+    if (match) fields[match[1].toLowerCase()] = match[2].replace(/\s+/g, ' ').trim();
+  });
+};
+
+/**
+ * Reads the labelled fields of an Atom entry summary. The tsunami.gov feeds mark each one up as
+ * `<strong>Label:</strong> value<br/>` in XHTML; plain-text and escaped-HTML summaries give one
+ * `Label: value` per line.
+ * @returns The values keyed by lower-cased label.
+ */
+export const summaryFields = (summary: XmlElement): Record<string, string> => {
+  const fields: Record<string, string> = {};
+  if (summary.attributes.type === 'html') {
+    plainTextFields(summary.text.replace(/<br\s*\/?>|<\/(?:p|div|li)>/gi, '\n').replace(/<[^>]*>/g, ''), fields);
+    return fields;
+  }
+
+  let label: string | null = null;
+  let value = '';
+  const finish = () => {
+    if (label) fields[label.toLowerCase()] = value.replace(/^\s*:/, '').replace(/\s+/g, ' ').trim();
+    label = null;
+    value = '';
+  };
+  const walk = (element: XmlElement) => element.nodes.forEach(node => {
+    if (typeof node === 'string') {
+      if (label) value += node;
+      else plainTextFields(node, fields);
+      return;
+    }
+    const name = localName(node);
+    if (name === 'strong' || name === 'b') {
+      finish();
+      label = deepText(node).replace(/\s+/g, ' ').trim().replace(/\s*:$/, '');
+    } else if (name === 'br') {
+      finish();
+    } else if (BLOCK_ELEMENTS.has(name)) {
+      finish();
+      walk(node);
+      finish();
+    } else if (label) {
+      value += deepText(node);
+    } else {
+      walk(node);
+    }
+  });
+  walk(summary);
+  finish();
+  return fields;
+};
+
+const capParameters = (info: XmlElement): Record<string, string> => {
+  const parameters: Record<string, string> = {};
+  findChildren(info, 'parameter').forEach(parameter => {
+    parameters[childText(parameter, 'valueName')] = childText(parameter, 'value');
+  });
+  return parameters;
+};
+
+// CAP `references` lists the messages an update or cancellation supersedes, each as "sender,identifier,sent".
+const capReferences = (alert: XmlElement): string[] =>
+  childText(alert, 'references').split(/\s+/).map(reference => reference.split(',')[1]).filter(Boolean);
+
+/**
+ * Parses an NTWC/PTWC Common Alerting Protocol (CAP 1.2) document.
+ * @param xml The raw CAP XML.
+ * @param link A link to the bulletin, since CAP documents don't carry their own URL.
+ * @returns The bulletin, or null if it isn't a tsunami message with a recognizable level.
+ */
+export const parseCapBulletin = (xml: string, link = ''): TsunamiBulletin | null => {
+  const alert = parseXml(xml);
+  const info = findChild(alert, 'info');
+  if (!info) return null;
+
+  const eventName = childText(info, 'event');
+  const headline = childText(info, 'headline');
+  const cancelled = childText(alert, 'msgType') === 'Cancel' || /cancel/i.test(headline);
+  const level = parseBulletinLevel(eventName) ?? parseBulletinLevel(headline) ?? (cancelled ? 'information' : null);
+  if (!level) return null;
+
+  const parameters = capParameters(info);
+  const [lat, lon] = (parameters.EventLatLon ?? '').split(/[,\s]+/).map(parseNumber);
+  const zones = findChildren(info, 'area').flatMap(area => {
+    const codes = findChildren(area, 'geocode')
+      .filter(geocode => childText(geocode, 'valueName') === 'UGC')
+      .map(geocode => childText(geocode, 'value'));
+    return codes.length > 0 ? codes : [childText(area, 'areaDesc')].filter(Boolean);
+  });
+
+  return {
+    id: childText(alert, 'identifier'),
+    center: identifyCenter(childText(info, 'senderName') || childText(alert, 'sender')),
+    level,
+    headline: headline || eventName,
+    issued: parseDate(childText(alert, 'sent')) ?? new Date(),
+    expires: parseDate(childText(info, 'expires')),
+    cancelled,
+    zones,
+    link: link || childText(info, 'web'),
+    eventTime: parseDate(parameters.EventOriginTime ?? ''),
+    lat: lat ?? null,
+    lon: lon ?? null,
+    magnitude: parseNumber(parameters.EventPreliminaryMagnitude ?? ''),
+    references: capReferences(alert),
+  };
+};
+
+const entryCoordinates = (entry: XmlElement): [number | null, number | null] => {
+  const point = childText(entry, 'point'); // georss:point is "lat lon"
+  if (point) {
+    const [lat, lon] = point.split(/\s+/).map(parseNumber);
+    return [lat ?? null, lon ?? null];
+  }
+  return [parseNumber(childText(entry, 'lat')), parseNumber(childText(entry, 'long'))];
+};
+
+const entryLink = (entry: XmlElement): string => {
+  const links = findChildren(entry, 'link');
+  const preferred = links.find(link => link.attributes.rel === 'alternate') ?? links[0];
+  return preferred?.attributes.href ?? '';
+};
+
+/**
+ * Parses the tsunami.gov Atom feeds, which publish each center's latest bulletin per event.
+ * @param xml The raw Atom XML.
+ * @returns One bulletin per entry with a recognizable category.
+ */
+export const parseAtomBulletins = (xml: string): TsunamiBulletin[] => {
+  const feed = parseXml(xml);
+  const feedCenter = identifyCenter(childText(findChild(feed, 'author') ?? feed, 'name') || childText(feed, 'title'));
+  const bulletins: TsunamiBulletin[] = [];
+
+  findChildren(feed, 'entry').forEach(entry => {
+    const summaryElement = findChild(entry, 'summary');
+    const fields = summaryElement ? summaryFields(summaryElement) : {};
+    const field = (...labels: string[]) => labels.map(label => fields[label.toLowerCase()]).find(Boolean) ?? '';
+    const category = field('Category');
+    const cancelled = /cancel/i.test(category) || /cancel/i.test(childText(entry, 'title'));
+    const level = parseBulletinLevel(category) ?? (cancelled ? 'information' : null);
+    if (!level) return;
+
+    const [lat, lon] = entryCoordinates(entry);
+    const issued = parseDate(field('Bulletin Issue Time')) ?? parseDate(childText(entry, 'updated')) ?? new Date();
+    const affected = field('Affected Region');
+
+    bulletins.push({
+      id: childText(entry, 'id') || `${feedCenter}-${issued.toISOString()}`,
+      center: feedCenter,
+      level,
+      headline: `Tsunami ${category} - ${childText(entry, 'title')}`,
+      issued,
+      expires: parseDate(field('Expires')),
+      cancelled,
+      zones: affected ? affected.split(/\s*[,;]\s*/).filter(Boolean) : [],
+      link: entryLink(entry),
+      eventTime: parseDate(field('Origin Time')),
+      lat,
+      lon,
+      magnitude: parseNumber(field('Magnitude', 'Preliminary Magnitude')),
+    });
+  });
+
+  return bulletins;
+};
+
+/** Whether a bulletin is still in force: not cancelled and not past its expiry. */
+export const isBulletinActive = (bulletin: TsunamiBulletin, now: Date = new Date()): boolean =>
+  !bulletin.cancelled && (!bulletin.expires || bulletin.expires.getTime() > now.getTime());
+
+const matchesEvent = (bulletin: TsunamiBulletin, event: EarthquakeEvent): boolean => {
+  if (bulletin.lat === null || bulletin.lon === null) return false;
+  const referenceTime = bulletin.eventTime ?? bulletin.issued;
+  // Without an origin time, the bulletin was issued after the quake, never before it.
+  const timeMatches = bulletin.eventTime
+    ? Math.abs(referenceTime.getTime() - event.time.getTime()) <= MATCH_TIME_WINDOW_MS
+    : referenceTime.getTime() >= event.time.getTime() && referenceTime.getTime() - event.time.getTime() <= MAX_ISSUE_DELAY_MS;
+  return timeMatches && haversineKm(bulletin.lat, bulletin.lon, event.lat, event.lon) <= MATCH_DISTANCE_KM;
+};
+
+/**
+ * Attaches official bulletins to the events they describe and lets them drive the alert level.
+ *
+ * A bulletin that references earlier ones (a CAP update or cancellation, which often gives no
+ * position) goes to the event holding the bulletin it references; any other bulletin is matched
+ * by origin time and epicentre.
+ *
+ * For each center, only its most recent bulletin counts. While any center has an active bulletin,
+ * the event takes the most severe active level; once every center has cancelled or let its
+ * bulletin expire, the event is stood down to 'none'.
+ *
+ * @param events Events after cross-source association.
+ * @param bulletins Bulletins from all NWS feeds.
+ * @param now The reference time for expiry checks.
+ */
+export const attachBulletinsToEvents = (
+  events: EarthquakeEvent[],
+  bulletins: TsunamiBulletin[],
+  now: Date = new Date(),
+): EarthquakeEvent[] => {
+  if (bulletins.length === 0) return events;
+
+  // Oldest first, so a chain of updates reaches the event its first bulletin matched.
+  const matchedByEvent = events.map((): TsunamiBulletin[] => []);
+  [...bulletins].sort((a, b) => a.issued.getTime() - b.issued.getTime()).forEach(bulletin => {
+    const references = bulletin.references ?? [];
+    const referring = matchedByEvent.filter(matched => matched.some(earlier => references.includes(earlier.id)));
+    const targets = referring.length > 0 ? referring : matchedByEvent.filter((_, index) => matchesEvent(bulletin, events[index]));
+    targets.forEach(matched => matched.push(bulletin));
+  });
+
+  return events.map((event, index) => {
+    const matched = matchedByEvent[index];
+    if (matched.length === 0) return event;
+
+    const latestByCenter = new Map<string, TsunamiBulletin>();
+    matched.forEach(bulletin => latestByCenter.set(bulletin.center, bulletin));
+    const active = Array.from(latestByCenter.values()).filter(bulletin => isBulletinActive(bulletin, now));
+
+    const rank: BulletinLevel[] = ['information', 'advisory', 'watch', 'warning'];
+    const level = active.reduce<BulletinLevel | null>(
+      (current, bulletin) => (current === null || rank.indexOf(bulletin.level) > rank.indexOf(current) ? bulletin.level : current),
+      null,
+    );
+
+    return {
+      ...event,
+      bulletins: matched,
+      alertLevel: level ? BULLETIN_ALERT_LEVELS[level] : 'none',
+      isTsunamiWarning: level === 'warning' || level === 'watch' || level === 'advisory',
+      alertLevelSource: 'bulletin',
+    };
+  });
+};
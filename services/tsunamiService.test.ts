@@ -0,0 +1,98 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { fetchTsunamiData } from './tsunamiService';
+import { MockUsgsServer, feedSource, featureCollection, startMockUsgsServer, usgsFeature } from '../test/mockUsgsServer';
+
+const T0 = Date.parse('2026-01-01T00:00:00Z');
+
+let server: MockUsgsServer;
+
+beforeAll(async () => {
+  server = await startMockUsgsServer({
+    '/week': { body: featureCollection([
+      usgsFeature({ id: 'us-old', mag: 6.1, time: T0, coordinates: [-72, -33, 30] }),
+      usgsFeature({ id: 'us-new', mag: 5.4, time: T0 + 3600e3, coordinates: [25, 38, 10] }),
+    ]) },
+    '/hour': { body: featureCollection([
+      usgsFeature({ id: 'us-new', mag: 5.6, time: T0 + 3600e3, updated: T0 + 7200e3, coordinates: [25, 38, 10] }),
+    ]) },
+    '/empty': { body: featureCollection([]) },
+    '/no-features': { body: '{"type":"FeatureCollection"}' },
+    '/malformed': { body: '{"type":"FeatureCollection","features":[' },
+    '/error': { status: 500, body: 'Internal Server Error' },
+    '/tsunami': { body: featureCollection([usgsFeature({ id: 'us-big', mag: 8.1, tsunami: 1, coordinates: [142.4, 38.3, 25] })]) },
+  });
+});
+
+afterAll(() => server.close());
+
+// Failed feeds are logged; keep the test output readable.
+const silence = () => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('fetchTsunamiData', () => {
+  it('returns the events of a feed, newest origin time first', async () => {
+    const events = await fetchTsunamiData([feedSource('week', server.url('/week'))]);
+    expect(events.map(event => event.id)).toEqual(['us-new', 'us-old']);
+    expect(events.every(event => event.threat)).toBe(true);
+  });
+
+  it('keeps the freshest copy of an event reported by overlapping feeds', async () => {
+    const events = await fetchTsunamiData([feedSource('week', server.url('/week')), feedSource('hour', server.url('/hour'))]);
+    expect(events.filter(event => event.id === 'us-new')).toHaveLength(1);
+    expect(events.find(event => event.id === 'us-new')?.magnitude).toBe(5.6);
+  });
+
+  it('returns no events for an empty feed', async () => {
+    await expect(fetchTsunamiData([feedSource('empty', server.url('/empty'))])).resolves.toEqual([]);
+  });
+
+  it('returns no events for a response without a feature list', async () => {
+    silence();
+    await expect(fetchTsunamiData([feedSource('no-features', server.url('/no-features'))])).resolves.toEqual([]);
+  });
+
+  it('still returns the other feeds when one fails or is malformed', async () => {
+    silence();
+    const events = await fetchTsunamiData([
+      feedSource('error', server.url('/error')),
+      feedSource('malformed', server.url('/malformed')),
+      feedSource('week', server.url('/week')),
+    ]);
+    expect(events.map(event => event.id)).toEqual(['us-new', 'us-old']);
+  });
+
+  it('throws when every feed fails', async () => {
+    silence();
+    await expect(fetchTsunamiData([feedSource('error', server.url('/error'))])).rejects.toThrow(/All feed sources failed/);
+    await expect(fetchTsunamiData([feedSource('malformed', server.url('/malformed'))])).rejects.toThrow(/All feed sources failed/);
+    await expect(fetchTsunamiData([feedSource('missing', server.url('/missing'))])).rejects.toThrow(/All feed sources failed/);
+  });
+
+  it('skips disabled feeds', async () => {
+    const before = server.hits.get('/error') ?? 0;
+    const events = await fetchTsunamiData([feedSource('error', server.url('/error'), { enabled: false }), feedSource('empty', server.url('/empty'))]);
+    expect(events).toEqual([]);
+    expect(server.hits.get('/error') ?? 0).toBe(before);
+  });
+
+  it('flags tsunami threats from the feed', async () => {
+    const [event] = await fetchTsunamiData([feedSource('tsunami', server.url('/tsunami'))]);
+    expect(event.isTsunamiWarning).toBe(true);
+    expect(event.alertLevel).toBe('warning');
+  });
+
+  it('records the previous solution when an event is revised', async () => {
+    const previous = await fetchTsunamiData([feedSource('week', server.url('/week'))]);
+    // The same feed, now serving the revised solution.
+    const events = await fetchTsunamiData([feedSource('week', server.url('/hour'))], { previous });
+    const revised = events.find(event => event.id === 'us-new')!;
+    expect(revised.revisions).toHaveLength(1);
+    expect(revised.revisions![0].magnitude).toBe(5.4);
+  });
+});
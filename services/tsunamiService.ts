@@ -1,87 +1,117 @@
-import { EarthquakeEvent } from '../types';
+import { EarthquakeEvent, FeedSourceConfig, ThreatRule, TsunamiBulletin } from '../types';
+import { FEED_ADAPTERS, DEFAULT_FEED_SOURCES, FeedBatch } from './feeds';
+import { associateEvents, AssociationOptions, DEFAULT_ASSOCIATION_OPTIONS } from './eventAssociation';
+import { attachBulletinsToEvents } from './tsunamiBulletins';
+import { applyThreatAssessment } from './threatScoring';
+import { trackRevisions } from './eventRevisions';
 
-const USGS_API_URL = 'https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/4.5_month.geojson';
+export interface FetchOptions {
+  /** Matching windows for cross-source merging. */
+  association?: AssociationOptions;
+  /** User-defined threat rules, applied on top of the built-in ones. */
+  threatRules?: ThreatRule[];
+  /** Events from the previous poll, whose revision histories and bulletins are carried over. */
+  previous?: EarthquakeEvent[];
+}
 
-// A subset of the USGS GeoJSON feature structure
-interface UsgsFeature {
-  id: string;
-  properties: {
-    mag: number | null;
-    place: string;
-    time: number;
-    updated: number;
-    url: string;
-    title: string;
-    tsunami: 0 | 1;
-  };
-  geometry: {
-    coordinates: [number, number, number]; // [longitude, latitude, depth]
-  };
+export interface FeedFetchResult {
+  source: FeedSourceConfig;
+  batch: FeedBatch | null;
+  error: Error | null;
 }
 
 /**
- * Maps a single USGS earthquake feature to our application's EarthquakeEvent type.
- * @param feature The feature object from the USGS GeoJSON feed.
- * @returns An EarthquakeEvent object or null if the feature is invalid (e.g., no magnitude).
+ * Fetches a single feed and normalizes it with the adapter registered for its kind.
+ * @param source The feed to fetch.
+ * @returns The normalized batch of events.
  */
-const mapUsgsFeatureToEarthquakeEvent = (feature: UsgsFeature): EarthquakeEvent | null => {
-  if (feature.properties.mag === null || typeof feature.properties.mag === 'undefined') {
-    return null;
+export const fetchFeedSource = async (source: FeedSourceConfig): Promise<FeedBatch> => {
+  const adapter = FEED_ADAPTERS[source.kind];
+  if (!adapter) {
+    throw new Error(`No feed adapter registered for kind "${source.kind}"`);
   }
 
-  const [lon, lat, depth] = feature.geometry.coordinates;
-  const isTsunamiWarning = feature.properties.tsunami === 1;
-
-  let alertLevel: EarthquakeEvent['alertLevel'] = 'none';
-  if (isTsunamiWarning) {
-    // An official tsunami flag from USGS is a strong indicator.
-    // For this app, we'll map it to a 'warning'.
-    alertLevel = 'warning';
-  } else if (feature.properties.mag >= 7.5) {
-    // Large earthquakes, even without an explicit tsunami flag, are significant.
-    alertLevel = 'advisory';
-  } else if (feature.properties.mag >= 6.5) {
-    alertLevel = 'info';
+  const response = await fetch(source.url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch data from ${source.name}: ${response.statusText}`);
   }
+  return adapter.parse(await response.text(), source);
+};
 
-  return {
-    id: feature.id,
-    title: feature.properties.title,
-    updated: new Date(feature.properties.updated),
-    link: feature.properties.url,
-    location: feature.properties.place,
-    magnitude: feature.properties.mag,
-    depth: depth,
-    lat: lat,
-    lon: lon,
-    isTsunamiWarning: isTsunamiWarning,
-    rawSummary: feature.properties.title, // Using title for raw summary
-    alertLevel: alertLevel,
-  };
+/**
+ * Fetches every enabled feed in parallel. A failing feed does not prevent the others from being read.
+ * @param sources The configured feeds; disabled ones are skipped.
+ * @returns One result per enabled feed, carrying either its batch or its error.
+ */
+export const fetchFeedSources = async (sources: FeedSourceConfig[]): Promise<FeedFetchResult[]> => {
+  const enabled = sources.filter(source => source.enabled);
+  const settled = await Promise.allSettled(enabled.map(fetchFeedSource));
+
+  return settled.map((result, index) => ({
+    source: enabled[index],
+    batch: result.status === 'fulfilled' ? result.value : null,
+    error: result.status === 'rejected' ? (result.reason instanceof Error ? result.reason : new Error(String(result.reason))) : null,
+  }));
 };
 
 /**
- * Fetches and processes earthquake data from the USGS GeoJSON feed.
- * @returns A promise that resolves to an array of EarthquakeEvent objects, sorted by most recent.
+ * Turns fetched feed results into the dashboard's events. Reports of the same earthquake from
+ * different sources are merged into one event and scored for tsunami threat; official
+ * warning-center bulletins then override the inferred alert level of the event they describe.
+ * Revisions since the previous poll are added to each event's history.
+ * @param results One result per feed; failed feeds carry no batch.
+ * @param sources The configured feeds, for their priorities.
+ * @param options Association windows and user threat rules.
+ * @returns The merged events, newest origin time first.
  */
-export const fetchTsunamiData = async (): Promise<EarthquakeEvent[]> => {
+export const processFeedResults = (
+  results: FeedFetchResult[],
+  sources: FeedSourceConfig[],
+  options: FetchOptions = {},
+): EarthquakeEvent[] => {
+  // Overlapping feeds (e.g. all_hour and 4.5_month) report the same event id; keep the freshest copy.
+  const byId = new Map<string, EarthquakeEvent>();
+  results.forEach(({ batch }) => {
+    batch?.events.forEach(event => {
+      const existing = byId.get(event.id);
+      if (!existing || event.updated.getTime() > existing.updated.getTime()) {
+        byId.set(event.id, event);
+      }
+    });
+  });
+
+  // Feeds carry only each center's latest bulletin, so the ones attached on the previous poll are
+  // kept: an update or cancellation refers back to them by id.
+  const bulletinsById = new Map<string, TsunamiBulletin>();
+  (options.previous ?? []).forEach(event => event.bulletins?.forEach(bulletin => bulletinsById.set(bulletin.id, bulletin)));
+  results.forEach(({ batch }) => batch?.bulletins?.forEach(bulletin => bulletinsById.set(bulletin.id, bulletin)));
+  const bulletins = Array.from(bulletinsById.values());
+  const associated = associateEvents(Array.from(byId.values()), sources, options.association ?? DEFAULT_ASSOCIATION_OPTIONS);
+  const scored = applyThreatAssessment(associated, options.threatRules);
+  return trackRevisions(options.previous ?? [], attachBulletinsToEvents(scored, bulletins))
+    .sort((a, b) => b.time.getTime() - a.time.getTime());
+};
+
+/**
+ * Fetches and processes earthquake data from all enabled feed sources.
+ * @param sources The configured feeds. Defaults to the built-in source list.
+ * @param options Association windows and user threat rules.
+ * @returns A promise that resolves to an array of EarthquakeEvent objects, newest origin time first.
+ */
+export const fetchTsunamiData = async (
+  sources: FeedSourceConfig[] = DEFAULT_FEED_SOURCES,
+  options: FetchOptions = {},
+): Promise<EarthquakeEvent[]> => {
   try {
-    const response = await fetch(USGS_API_URL);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch data from USGS: ${response.statusText}`);
-    }
-    const data = await response.json();
+    const results = await fetchFeedSources(sources);
+    const failures = results.filter(result => result.error);
 
-    if (data && Array.isArray(data.features)) {
-      const events: EarthquakeEvent[] = data.features
-        .map(mapUsgsFeatureToEarthquakeEvent)
-        .filter((event: EarthquakeEvent | null): event is EarthquakeEvent => event !== null)
-        .sort((a, b) => b.updated.getTime() - a.updated.getTime());
-      return events;
+    failures.forEach(({ source, error }) => console.warn(`Feed ${source.id} failed:`, error));
+    if (results.length > 0 && failures.length === results.length) {
+      throw new Error(`All feed sources failed: ${failures.map(({ error }) => error?.message).join('; ')}`);
     }
-    
-    console.warn('Received empty or invalid data from USGS feed.');
-    return [];
+
+    return processFeedResults(results, sources, options);
   } catch (error) {
     console.error('Error in fetchTsunamiData:', error);
     // Re-throw the error so the calling component can handle it (e.g., show an error message)
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { isInShape, shapeFromPoints, zoneRing } from './watchZones';
+
+describe('shapeFromPoints', () => {
+  it('builds a box from the last two points, in either order', () => {
+    const box = { type: 'bbox', north: 10, south: -10, west: 120, east: 140 };
+    expect(shapeFromPoints('bbox', [{ lat: 10, lon: 120 }, { lat: -10, lon: 140 }], 100)).toEqual(box);
+    expect(shapeFromPoints('bbox', [{ lat: 0, lon: 0 }, { lat: -10, lon: 140 }, { lat: 10, lon: 120 }], 100)).toEqual(box);
+  });
+
+  it('takes a box across the antimeridian when its corners straddle it', () => {
+    const box = shapeFromPoints('bbox', [{ lat: 20, lon: 170 }, { lat: -20, lon: -170 }], 100);
+    expect(box).toEqual({ type: 'bbox', north: 20, south: -20, west: 170, east: -170 });
+    expect(isInShape({ lat: 0, lon: 180 }, box!)).toBe(true);
+    expect(isInShape({ lat: 0, lon: -175 }, box!)).toBe(true);
+    expect(isInShape({ lat: 0, lon: 0 }, box!)).toBe(false);
+    expect(zoneRing(box!).map(point => point.lon)).toEqual([170, 190, 190, 170]);
+  });
+
+  it('returns null until enough points are picked', () => {
+    expect(shapeFromPoints('bbox', [{ lat: 0, lon: 0 }], 100)).toBeNull();
+    expect(shapeFromPoints('polygon', [{ lat: 0, lon: 0 }, { lat: 1, lon: 1 }], 100)).toBeNull();
+  });
+});
@@ -0,0 +1,87 @@
+import { EarthquakeEvent, LatLon, WatchZone, ZoneShape } from '../types';
+import { destinationPoint, haversineKm } from './geo';
+import { unwrapRing, wrapLongitude } from './mapProjection';
+
+const isInPolygon = (point: LatLon, polygon: LatLon[]): boolean => {
+  // Work in longitudes relative to the point so polygons spanning the antimeridian still close correctly.
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const xi = wrapLongitude(polygon[i].lon - point.lon);
+    const xj = wrapLongitude(polygon[j].lon - point.lon);
+    const yi = polygon[i].lat;
+    const yj = polygon[j].lat;
+    if (yi > point.lat !== yj > point.lat && 0 < ((xj - xi) * (point.lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/** Whether a point lies within a zone's shape. */
+export const isInShape = (point: LatLon, shape: ZoneShape): boolean => {
+  switch (shape.type) {
+    case 'circle':
+      return haversineKm(point.lat, point.lon, shape.center.lat, shape.center.lon) <= shape.radiusKm;
+    case 'bbox': {
+      if (point.lat > shape.north || point.lat < shape.south) return false;
+      const lon = wrapLongitude(point.lon);
+      return shape.west <= shape.east ? lon >= shape.west && lon <= shape.east : lon >= shape.west || lon <= shape.east;
+    }
+    case 'polygon':
+      return shape.points.length >= 3 && isInPolygon(point, shape.points);
+    default:
+      return false;
+  }
+};
+
+/**
+ * Whether an event should trigger a zone's alert: it lies inside the zone and meets the zone's
+ * magnitude and depth thresholds.
+ */
+export const eventMatchesZone = (event: EarthquakeEvent, zone: WatchZone): boolean =>
+  zone.enabled &&
+  event.magnitude >= zone.minMagnitude &&
+  (zone.maxDepth === null || event.depth <= zone.maxDepth) &&
+  isInShape(event, zone.shape);
+
+/** Returns every zone the event triggers. */
+export const matchZones = (event: EarthquakeEvent, zones: WatchZone[]): WatchZone[] =>
+  zones.filter(zone => eventMatchesZone(event, zone));
+
+/**
+ * Builds a zone shape from points picked on the map.
+ * Circles use the last point as centre, boxes use the last two points as opposite corners,
+ * and polygons use every point.
+ * @returns The shape, or null if too few points have been picked.
+ */
+export const shapeFromPoints = (type: ZoneShape['type'], points: LatLon[], radiusKm: number): ZoneShape | null => {
+  if (type === 'circle' && points.length >= 1) {
+    return { type: 'circle', center: points[points.length - 1], radiusKm };
+  }
+  if (type === 'bbox' && points.length >= 2) {
+    const [a, b] = points.slice(-2);
+    const [low, high] = [Math.min(a.lon, b.lon), Math.max(a.lon, b.lon)];
+    // Take the narrower way round, so corners either side of 180° make a box across the antimeridian (west > east).
+    const [west, east] = high - low > 180 ? [high, low] : [low, high];
+    return { type: 'bbox', north: Math.max(a.lat, b.lat), south: Math.min(a.lat, b.lat), west, east };
+  }
+  if (type === 'polygon' && points.length >= 3) {
+    return { type: 'polygon', points };
+  }
+  return null;
+};
+
+/** A zone's outline in unwrapped longitudes, so zones across the antimeridian draw as one shape. */
+export const zoneRing = (shape: ZoneShape): LatLon[] => {
+  if (shape.type === 'circle') {
+    return unwrapRing(Array.from({ length: 64 }, (_, i) => destinationPoint(shape.center.lat, shape.center.lon, (i * 360) / 64, shape.radiusKm)));
+  }
+  if (shape.type === 'bbox') {
+    const east = shape.west > shape.east ? shape.east + 360 : shape.east;
+    return [
+      { lat: shape.north, lon: shape.west }, { lat: shape.north, lon: east },
+      { lat: shape.south, lon: east }, { lat: shape.south, lon: shape.west },
+    ];
+  }
+  return unwrapRing(shape.points);
+};
@@ -0,0 +1,99 @@
+// A deliberately small XML reader. The bulletin feeds we consume (Atom, CAP) are
+// simple, well-formed documents, and this keeps parsing independent of DOMParser.
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  /** Direct text content, concatenated. */
+  text: string;
+  /** Text and child elements in document order, for mixed content such as XHTML. */
+  nodes: Array<XmlElement | string>;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+const decodeEntities = (value: string): string =>
+  value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return ENTITIES[entity] ?? match;
+  });
+
+const parseAttributes = (source: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    attributes[match[1]] = decodeEntities(match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+};
+
+/**
+ * Parses an XML document into a lightweight element tree.
+ * @param source The raw XML text.
+ * @returns The document's root element.
+ * @throws If the document is empty or its tags are unbalanced.
+ */
+export const parseXml = (source: string): XmlElement => {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '', nodes: [] };
+  const stack: XmlElement[] = [root];
+  const pattern = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/\s*([^\s>]+)\s*>|<([^\s/>]+)([^>]*?)(\/?)>|([^<]+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(source)) !== null) {
+    const current = stack[stack.length - 1];
+    const [, cdata, closingName, openingName, attributeSource, selfClosing, text] = match;
+
+    if (cdata !== undefined) {
+      current.text += cdata;
+      current.nodes.push(cdata);
+    } else if (closingName !== undefined) {
+      if (current.name !== closingName || stack.length === 1) {
+        throw new Error(`Malformed XML: unexpected closing tag </${closingName}>`);
+      }
+      stack.pop();
+    } else if (openingName !== undefined) {
+      const element: XmlElement = { name: openingName, attributes: parseAttributes(attributeSource), children: [], text: '', nodes: [] };
+      current.children.push(element);
+      current.nodes.push(element);
+      if (!selfClosing) stack.push(element);
+    } else if (text !== undefined) {
+      const decoded = decodeEntities(text);
+      current.text += decoded;
+      current.nodes.push(decoded);
+    }
+  }
+
+  if (stack.length !== 1) {
+    throw new Error(`Malformed XML: unclosed tag <${stack[stack.length - 1].name}>`);
+  }
+  if (root.children.length === 0) {
+    throw new Error('Malformed XML: no root element');
+  }
+  return root.children[0];
+};
+
+/** Returns an element name without its namespace prefix (e.g. `geo:lat` -> `lat`). */
+export const localName = (element: XmlElement): string => element.name.slice(element.name.indexOf(':') + 1);
+
+export const findChild = (element: XmlElement, name: string): XmlElement | undefined =>
+  element.children.find(child => localName(child) === name);
+
+export const findChildren = (element: XmlElement, name: string): XmlElement[] =>
+  element.children.filter(child => localName(child) === name);
+
+/** Returns the trimmed text of a direct child element, or an empty string if it is missing. */
+export const childText = (element: XmlElement, name: string): string =>
+  findChild(element, name)?.text.trim() ?? '';
+
+/** Returns all text beneath an element, including nested markup such as XHTML summaries. */
+export const deepText = (element: XmlElement): string =>
+  element.nodes.map(node => (typeof node === 'string' ? node : ` ${deepText(node)} `)).join('');
@@ -0,0 +1,135 @@
+import { AddressInfo, Socket, createServer } from 'node:net';
+
+// A stand-in SMTP server that speaks just enough of the protocol for sendSmtpMail, and records
+// every command and accepted message so tests can check what went over the wire.
+
+export interface ReceivedMail {
+  from: string;
+  recipients: string[];
+  /** The DATA section with dot-stuffing undone. */
+  data: string;
+}
+
+export interface MockSmtpOptions {
+  /** Credentials AUTH PLAIN accepts; without them any AUTH is refused. */
+  username?: string;
+  password?: string;
+  /** Recipients refused with 550. */
+  rejectRecipients?: RegExp;
+  /** Accept connections but never answer, to exercise timeouts. */
+  silent?: boolean;
+}
+
+export interface MockSmtpServer {
+  port: number;
+  /** Every command line received, outside of DATA. */
+  commands: string[];
+  messages: ReceivedMail[];
+  close: () => Promise<void>;
+}
+
+export const startMockSmtpServer = (options: MockSmtpOptions = {}): Promise<MockSmtpServer> => {
+  const commands: string[] = [];
+  const messages: ReceivedMail[] = [];
+  const sockets = new Set<Socket>();
+
+  const server = createServer(socket => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    if (options.silent) return;
+
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+    let mail: ReceivedMail | null = null;
+    let data: string[] | null = null;
+    let buffer = '';
+
+    const handle = (line: string) => {
+      if (data) {
+        if (line !== '.') {
+          data.push(line.startsWith('..') ? line.slice(1) : line);
+          return;
+        }
+        messages.push({ ...mail!, data: data.join('\r\n') });
+        mail = null;
+        data = null;
+        reply('250 OK: queued');
+        return;
+      }
+
+      commands.push(line);
+      const [verb] = line.split(' ');
+      switch (verb.toUpperCase()) {
+        case 'EHLO':
+          reply('250-mock.smtp Hello');
+          reply('250 AUTH PLAIN');
+          break;
+        case 'AUTH': {
+          const [, username, password] = Buffer.from(line.split(' ')[2] ?? '', 'base64').toString('utf8').split('\0');
+          const accepted = options.username !== undefined && username === options.username && password === options.password;
+          reply(accepted ? '235 Authentication successful' : '535 Authentication credentials invalid');
+          break;
+        }
+        case 'MAIL': {
+          const match = /^MAIL FROM:<([^<>\s]+)>$/i.exec(line);
+          if (!match) {
+            reply('501 Syntax error in MAIL FROM');
+          } else {
+            mail = { from: match[1], recipients: [], data: '' };
+            reply('250 OK');
+          }
+          break;
+        }
+        case 'RCPT': {
+          const match = /^RCPT TO:<([^<>\s]+)>$/i.exec(line);
+          if (!mail || !match) reply('501 Syntax error in RCPT TO');
+          else if (options.rejectRecipients?.test(match[1])) reply('550 No such user here');
+          else {
+            mail.recipients.push(match[1]);
+            reply('250 OK');
+          }
+          break;
+        }
+        case 'DATA':
+          if (!mail || mail.recipients.length === 0) {
+            reply('503 Need RCPT first');
+          } else {
+            data = [];
+            reply('354 End data with <CR><LF>.<CR><LF>');
+          }
+          break;
+        case 'QUIT':
+          reply('221 Bye');
+          socket.end();
+          break;
+        default:
+          reply('500 Command not recognized');
+      }
+    };
+
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+      let newline: number;
+      while ((newline = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        handle(line);
+      }
+    });
+    socket.on('error', () => socket.destroy());
+    reply('220 mock.smtp ESMTP ready');
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({
+        port: (server.address() as AddressInfo).port,
+        commands,
+        messages,
+        close: () => new Promise<void>(done => {
+          sockets.forEach(socket => socket.destroy());
+          server.close(() => done());
+        }),
+      });
+    });
+  });
+};
@@ -0,0 +1,110 @@
+import { readFileSync } from 'node:fs';
+import { AddressInfo } from 'node:net';
+import { createServer } from 'node:http';
+import { EarthquakeEvent, FeedSourceConfig } from '../types';
+
+// A stand-in for the USGS feed endpoints, so the fetch pipeline can be exercised end to end
+// without the network. Each route answers with a fixed status and body. Other feeds' recorded
+// payloads, in test/fixtures, are served the same way with their own content type.
+
+export interface MockRoute {
+  status?: number;
+  body: string;
+  contentType?: string; // defaults to GeoJSON
+}
+
+export interface MockUsgsServer {
+  url: (path: string) => string;
+  /** How many times each path has been requested. */
+  hits: Map<string, number>;
+  close: () => Promise<void>;
+}
+
+export const startMockUsgsServer = (routes: Record<string, MockRoute>): Promise<MockUsgsServer> => {
+  const hits = new Map<string, number>();
+  const server = createServer((req, res) => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    hits.set(path, (hits.get(path) ?? 0) + 1);
+    const route = routes[path];
+    if (!route) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('Not found');
+      return;
+    }
+    res.writeHead(route.status ?? 200, { 'Content-Type': route.contentType ?? 'application/geo+json' });
+    res.end(route.body);
+  });
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: path => `http://127.0.0.1:${port}${path}`,
+        hits,
+        close: () => new Promise<void>(done => server.close(() => done())),
+      });
+    });
+  });
+};
+
+/** Reads a recorded feed payload from test/fixtures. */
+export const fixture = (name: string): string => readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+
+export interface FeatureOptions {
+  id: string;
+  mag?: number | null;
+  magType?: string | null;
+  place?: string;
+  time?: number;
+  updated?: number;
+  tsunami?: 0 | 1;
+  status?: string;
+  coordinates?: number[] | null; // [longitude, latitude, depth]; null drops the geometry
+}
+
+/** A feature shaped like the ones in the USGS GeoJSON summary feeds. */
+export const usgsFeature = ({ id, mag = 6.0, magType = 'mww', place = 'Test region', time = Date.parse('2026-01-01T00:00:00Z'), updated = time, tsunami = 0, status = 'reviewed', coordinates = [142.0, 38.0, 20] }: FeatureOptions) => ({
+  type: 'Feature',
+  id,
+  properties: {
+    mag,
+    magType,
+    place,
+    time,
+    updated,
+    url: `https://earthquake.usgs.gov/earthquakes/eventpage/${id}`,
+    title: `M ${mag} - ${place}`,
+    tsunami,
+    status,
+  },
+  geometry: coordinates === null ? null : { type: 'Point', coordinates },
+});
+
+export const featureCollection = (features: unknown[]): string => JSON.stringify({ type: 'FeatureCollection', features });
+
+export const feedSource = (id: string, url: string, overrides: Partial<FeedSourceConfig> = {}): FeedSourceConfig => ({
+  id,
+  name: id,
+  kind: 'usgs-geojson',
+  url,
+  enabled: true,
+  ...overrides,
+});
+
+/** A processed event, for tests that start after the fetch pipeline. */
+export const testEvent = (overrides: Partial<EarthquakeEvent> = {}): EarthquakeEvent => ({
+  id: 'us1',
+  title: 'M 7.5 - Off the coast of Test',
+  time: new Date('2026-01-01T00:00:00Z'),
+  updated: new Date('2026-01-01T00:05:00Z'),
+  link: 'https://earthquake.usgs.gov/earthquakes/eventpage/us1',
+  location: 'Off the coast of Test',
+  magnitude: 7.5,
+  depth: 20,
+  lat: 38,
+  lon: 142,
+  isTsunamiWarning: false,
+  rawSummary: 'M 7.5 - Off the coast of Test',
+  alertLevel: 'watch',
+  source: 'usgs-4.5-month',
+  ...overrides,
+});
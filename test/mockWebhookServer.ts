@@ -0,0 +1,50 @@
+import { AddressInfo } from 'node:net';
+import { createServer } from 'node:http';
+
+// A stand-in for chat webhooks and SMS gateways: it records every request and answers each path
+// with a fixed status, 200 unless told otherwise.
+
+export interface ReceivedRequest {
+  method: string;
+  path: string;
+  headers: Record<string, string | string[] | undefined>;
+  /** The request body, parsed as JSON when it is JSON. */
+  body: unknown;
+}
+
+export interface MockWebhookServer {
+  url: (path: string) => string;
+  requests: ReceivedRequest[];
+  close: () => Promise<void>;
+}
+
+export const startMockWebhookServer = (statuses: Record<string, number> = {}): Promise<MockWebhookServer> => {
+  const requests: ReceivedRequest[] = [];
+  const server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk as Buffer));
+    req.on('end', () => {
+      const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+      const text = Buffer.concat(chunks).toString('utf8');
+      let body: unknown = text;
+      try {
+        body = JSON.parse(text);
+      } catch {
+        // Not JSON; keep the raw text.
+      }
+      requests.push({ method: req.method ?? 'GET', path, headers: req.headers, body });
+      res.writeHead(statuses[path] ?? 200, { 'Content-Type': 'text/plain' });
+      res.end('ok');
+    });
+  });
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: path => `http://127.0.0.1:${port}${path}`,
+        requests,
+        close: () => new Promise<void>(done => server.close(() => done())),
+      });
+    });
+  });
+};
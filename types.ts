@@ -1,28 +1,292 @@
 export interface EarthquakeEvent {
   id: string;
   title: string;
-  updated: Date;
+  time: Date; // origin time
+  updated: Date; // when the source last changed the record
   link: string;
   location: string;
   magnitude: number;
+  magType?: string; // e.g. 'mww', 'mb'; absent when the source doesn't say
   depth: number;
   lat: number;
   lon: number;
+  reviewStatus?: 'automatic' | 'reviewed'; // whether a seismologist has reviewed the solution
   isTsunamiWarning: boolean;
   rawSummary: string;
   alertLevel: 'none' | 'info' | 'advisory' | 'watch' | 'warning';
+  source: string; // id of the FeedSourceConfig whose report is preferred for this event
+  reports?: SourceReport[]; // every source report merged into this event, preferred first
+  bulletins?: TsunamiBulletin[]; // official warning-center bulletins for this event, oldest first
+  alertLevelSource?: 'bulletin' | 'inferred'; // 'bulletin' when alertLevel comes from an active official bulletin
+  threat?: ThreatAssessment; // rule-based scoring behind an inferred alertLevel
+  revisions?: EventRevision[]; // earlier solutions superseded by a magnitude or location change, oldest first
+  exercise?: boolean; // synthetic or replayed by an exercise, never a real report
+}
+
+/** A solution for an event as it was reported before being revised. */
+export interface EventRevision {
+  updated: Date;
+  magnitude: number;
+  magType?: string;
+  depth: number;
+  lat: number;
+  lon: number;
+  location: string;
+  reviewStatus?: EarthquakeEvent['reviewStatus'];
+}
+
+export interface ThreatRule {
+  id: string;
+  description: string;
+  field: 'magnitude' | 'depth' | 'coastDistanceKm';
+  operator: '>=' | '<=' | '>' | '<';
+  value: number;
+  points: number;
+  enabled: boolean;
+}
+
+export interface ThreatAssessment {
+  score: number;
+  level: EarthquakeEvent['alertLevel'];
+  firedRules: { id: string; description: string; points: number }[];
+  offshore: boolean;
+  coastDistanceKm: number;
+}
+
+export type BulletinLevel = 'warning' | 'advisory' | 'watch' | 'information';
+
+export interface TsunamiBulletin {
+  id: string;
+  center: string; // issuing warning center, e.g. 'NTWC' or 'PTWC'
+  level: BulletinLevel;
+  headline: string;
+  issued: Date;
+  expires: Date | null;
+  cancelled: boolean;
+  zones: string[]; // UGC zone codes or area descriptions
+  link: string;
+  eventTime: Date | null;
+  lat: number | null;
+  lon: number | null;
+  magnitude: number | null;
+  references?: string[]; // ids of the earlier bulletins this one updates or cancels
+}
+
+export interface SourceReport {
+  source: string;
+  id: string;
+  time: Date;
+  magnitude: number;
+  depth: number;
+  lat: number;
+  lon: number;
+}
+
+export type FeedSourceKind = 'usgs-geojson' | 'fdsn-text' | 'nws-atom' | 'nws-cap';
+
+export interface FeedSourceConfig {
+  id: string;
+  name: string;
+  kind: FeedSourceKind;
+  url: string;
+  enabled: boolean;
+  priority?: number; // higher wins when several sources report the same event
+  eventLinkTemplate?: string; // e.g. 'https://example.org/event/{id}', for feeds that don't provide links
 }
 
 export interface AlertSettings {
-  minMagnitude: number;
   notificationsEnabled: boolean;
+  profiles: AlertProfile[];
+  zones?: WatchZone[];
+  transport?: TransportConfig;
+  channels?: ChannelConfig[];
+}
+
+/** A named set of alerting rules, e.g. for a day shift and a night shift. */
+export interface AlertProfile {
+  id: string;
+  name: string;
+  enabled: boolean;
+  minMagnitude: number;
+  /** When set, aftershocks in a sequence only alert at or above this magnitude; mainshocks always do. */
+  aftershockMinMagnitude?: number;
+  recipients: string[];
+  channelIds?: string[]; // channels this profile fans out to; all enabled channels when unset
+  emailTemplate: string; // plain-text body
+  emailSubject?: string;
+  emailHtmlTemplate?: string; // optional HTML alternative; empty sends plain text only
+  quietHours?: QuietHours[];
+  escalation?: EscalationPolicy;
+}
+
+/** A daily window in which lower-level alerts are held back. */
+export interface QuietHours {
+  id: string;
+  start: string; // "22:00", wall-clock time in `timeZone`
+  end: string; // "07:00"; earlier than `start` for a window that spans midnight
+  timeZone: string; // IANA name, e.g. "Pacific/Auckland"
+  maxLevel: EarthquakeEvent['alertLevel']; // levels up to and including this one are held back
+  action: 'suppress' | 'digest'; // drop them, or send them together once the window ends
+}
+
+/** Re-notifies a secondary list when nobody acknowledges an alert in time. */
+export interface EscalationPolicy {
+  enabled: boolean;
+  afterMinutes: number;
+  recipients: string[];
+  channelIds?: string[]; // the profile's channels when unset
+}
+
+export type DigestPeriod = 'daily' | 'weekly';
+
+/** Scheduled summaries of seismic activity, separate from the instant alerts. */
+export interface DigestSettings {
+  enabled: boolean;
+  daily: boolean;
+  weekly: boolean;
+  time: string; // "08:00", wall-clock time in `timeZone` at which both digests go out
+  weekday: number; // 0 = Sunday; the day the weekly digest goes out
+  timeZone: string; // IANA name
+  minMagnitude: number; // smaller events are left out of the counts
   recipients: string[];
-  emailTemplate: string;
+  channelIds?: string[]; // all enabled channels when unset
+  subjectTemplate: string;
+  textTemplate: string;
+  htmlTemplate?: string;
 }
 
+/** A drill: synthetic earthquakes placed on the exercise clock, with the revisions they go through. */
+export interface ExerciseScenario {
+  id: string;
+  name: string;
+  events: ScenarioEvent[];
+}
+
+export interface ScenarioEvent {
+  id: string;
+  offsetMinutes: number; // exercise time at which the earthquake happens and is first reported
+  location: string;
+  lat: number;
+  lon: number;
+  depth: number;
+  magnitude: number;
+  tsunami: boolean;
+  revisions: ScenarioRevision[];
+}
+
+/** A later solution for a scenario event, replacing the one before it. */
+export interface ScenarioRevision {
+  id: string;
+  afterMinutes: number; // exercise time after the earthquake at which the revision is reported
+  lat: number;
+  lon: number;
+  depth: number;
+  magnitude: number;
+  tsunami: boolean;
+}
+
+/** Where the dashboard gets its data: straight from the feeds, or from a shared `sentinel serve`. */
+export interface ApiServerSettings {
+  enabled: boolean;
+  url: string;
+  token?: string; // the server's SENTINEL_API_TOKEN, needed for every request to a server that has one
+}
+
+export type ChannelConfig =
+  | { id: string; type: 'email'; enabled: boolean } // delivers to the recipients list via the transport
+  | { id: string; type: 'desktop'; enabled: boolean; soundOnWarning: boolean }
+  | { id: string; type: 'slack' | 'teams' | 'discord'; enabled: boolean; webhookUrl: string }
+  | { id: string; type: 'sms'; enabled: boolean; gatewayUrl: string; authToken?: string; numbers: string[]; template: string; maxLength: number };
+
+export type ChannelType = ChannelConfig['type'];
+
+export type TransportConfig =
+  | { type: 'smtp'; host: string; port: number; secure: boolean; username?: string; password?: string; from: string }
+  | { type: 'webhook'; url: string; headers?: Record<string, string> }
+  | { type: 'sink'; path?: string }; // console, or a JSON-lines file when running under Node
+
+export type DeliveryStatus = 'queued' | 'sent' | 'failed' | 'retrying';
+
+export interface DeliveryRecord {
+  recipient: string; // email address, phone number, or the channel's name for webhooks and desktop
+  channelId: string;
+  channel: ChannelType;
+  transport?: TransportConfig['type']; // email deliveries only
+  status: DeliveryStatus;
+  attempts: number;
+  updatedAt: string;
+  nextAttemptAt?: string;
+  lastError?: string;
+}
+
+export interface LatLon {
+  lat: number;
+  lon: number;
+}
+
+/** A port or tide gauge that tsunami arrival times are estimated for. */
+export interface CoastalPoint {
+  id: string;
+  name: string;
+  lat: number;
+  lon: number;
+}
+
+export type ZoneShape =
+  | { type: 'circle'; center: LatLon; radiusKm: number }
+  | { type: 'polygon'; points: LatLon[] }
+  | { type: 'bbox'; north: number; south: number; east: number; west: number }; // west > east crosses the antimeridian
+
+export interface WatchZone {
+  id: string;
+  name: string;
+  shape: ZoneShape;
+  minMagnitude: number;
+  maxDepth: number | null; // km; null means any depth
+  recipients: string[];
+  channelIds?: string[]; // channels this zone fans out to; all enabled channels when unset
+  profileId?: string; // the profile whose templates, quiet hours and escalation apply; the default one when unset
+  enabled: boolean;
+}
+
+export type AlertKind = 'initial' | 'update' | 'cancelled' | 'escalation' | 'digest';
+
 export interface GeneratedAlert {
   id: string;
   timestamp: string;
+  kind?: AlertKind; // absent on alerts created before lifecycle tracking; treated as 'initial'
+  threadKey?: string; // groups an event's initial alert with its follow-ups
+  changes?: string[]; // what prompted an update or cancellation
   event: EarthquakeEvent;
+  subject?: string;
   body: string;
+  html?: string;
+  zoneId?: string; // set when a watch zone, rather than the global threshold, triggered the alert
+  zoneName?: string;
+  profileId?: string;
+  profileName?: string;
+  recipients?: string[];
+  deliveries?: DeliveryRecord[];
+  acknowledgedBy?: string;
+  acknowledgedAt?: string;
+  quietHours?: 'suppressed' | 'held'; // set when quiet hours kept the alert from going out
+  digestAlertId?: string; // for held alerts, the digest they were sent in
+  digestOf?: string[]; // for digests, the alerts they summarise
+  digestPeriod?: DigestPeriod; // for scheduled digests, rather than quiet-hours ones
+  escalationOf?: string; // for escalations, the alert nobody acknowledged
+  escalateAt?: string; // when to escalate if still unacknowledged; set from the profile's policy when sent
+  escalatedAt?: string;
+  exercise?: boolean; // raised by an exercise event; watermarked in every message
+}
+
+/** What has been announced for one event, globally or for one watch zone. */
+export interface AlertThread {
+  key: string; // event id, `${eventId}@${profileId}` for other than the default profile, or `${eventId}#${zoneId}` for a zone
+  eventId: string;
+  zoneId?: string;
+  profileId?: string; // unset for the default profile and for zones
+  event: EarthquakeEvent | null; // state as last announced; null until first seen after migration
+  cancelled: boolean;
+  missingPolls: number; // consecutive polls the event was absent from the feed
+  lastCheckedFetch?: string; // fetch time of the poll that last updated missingPolls
 }